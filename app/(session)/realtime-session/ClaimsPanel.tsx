@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery } from "convex/react";
+
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+
+const STATUS_LABELS = {
+  unsupported: "Unsupported",
+  supported: "Cited",
+  verified: "Verified",
+  sent_to_todo: "On TODO list",
+} as const;
+
+export default function ClaimsPanel({ projectId }: { projectId: Id<"projects"> }) {
+  const [showAll, setShowAll] = useState(false);
+  const bundle = useQuery(api.projects.getProject, { projectId });
+  const claims = useQuery(api.claims.listForProject, {
+    projectId,
+    statuses: showAll ? ["unsupported", "supported", "sent_to_todo", "verified"] : undefined,
+  });
+  const verifyClaim = useMutation(api.claims.verifyClaim);
+  const sendClaimToTodo = useMutation(api.claims.sendClaimToTodo);
+  const [busyId, setBusyId] = useState<Id<"claims"> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canReview = bundle ? bundle.role !== "viewer" : false;
+
+  const decide = async (
+    claimId: Id<"claims">,
+    task: (args: { claimId: Id<"claims"> }) => Promise<unknown>,
+  ) => {
+    if (busyId) return;
+    setBusyId(claimId);
+    setError(null);
+    try {
+      await task({ claimId });
+    } catch (taskError) {
+      console.error("Failed to update claim", taskError);
+      setError(taskError instanceof Error ? taskError.message : "Update failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <section className="panel claims-panel">
+      <div className="panel-header">
+        <h2>Claims</h2>
+        <label className="claims-filter">
+          <input
+            type="checkbox"
+            checked={showAll}
+            onChange={(event) => setShowAll(event.target.checked)}
+          />
+          <span>Show cited and reviewed claims</span>
+        </label>
+      </div>
+      <p className="panel-description">
+        The drafter lists each factual sentence it writes with the fact notes and transcript lines
+        behind it. Unsupported claims need checking before the piece ships: verify them yourself or
+        send them to the TODO list to confirm with the client.
+      </p>
+      {error ? (
+        <p className="members-error" role="alert">
+          {error}
+        </p>
+      ) : null}
+      {claims === undefined ? (
+        <p className="empty-state">Loading claims…</p>
+      ) : claims.length === 0 ? (
+        <p className="empty-state">
+          {showAll ? "No claims recorded yet." : "No unsupported claims in the current draft."}
+        </p>
+      ) : (
+        <ul className="claims-list">
+          {claims.map((claim) => (
+            <li key={claim._id} className={`claim-item claim-${claim.status}`}>
+              <div className="revision-meta">
+                <strong>{claim.heading}</strong>
+                <span className="metric-chip subtle">{STATUS_LABELS[claim.status]}</span>
+              </div>
+              <blockquote className="claim-sentence">{claim.sentence}</blockquote>
+              {claim.notes.length > 0 || claim.messages.length > 0 ? (
+                <ul className="claim-sources">
+                  {claim.notes.map((note) => (
+                    <li key={note._id}>
+                      <span className="claim-source-kind">Fact note</span> {note.content}
+                    </li>
+                  ))}
+                  {claim.messages.map((message) => (
+                    <li key={message._id}>
+                      <Link
+                        href={`/projects/${projectId}/sessions/${message.sessionId}#message-${message._id}`}
+                        className="claim-source-kind"
+                      >
+                        {message.speaker === "assistant" ? "Assistant" : "Client"}
+                      </Link>{" "}
+                      {message.transcript}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+              {canReview && (claim.status === "unsupported" || claim.status === "supported") ? (
+                <div className="todo-actions">
+                  <button
+                    type="button"
+                    onClick={() => decide(claim._id, verifyClaim)}
+                    disabled={busyId !== null}
+                  >
+                    Mark verified
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => decide(claim._id, sendClaimToTodo)}
+                    disabled={busyId !== null}
+                  >
+                    Send to TODOs
+                  </button>
+                </div>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -7,6 +7,8 @@ import { api } from "@/convex/_generated/api";
 import type { Doc, Id } from "@/convex/_generated/dataModel";
 import type { SessionInstructionMode } from "@/lib/realtimeInstructions";
 import type { BlueprintFieldState } from "./useProjectIntakeFlow";
+import SectionHistoryPanel from "./SectionHistoryPanel";
+import DraftChangesPanel from "./DraftChangesPanel";
 
 const SECTION_STATUS_LABELS: Record<string, string> = {
   drafting: "Drafting",
@@ -201,7 +203,9 @@ export default function DocumentWorkspace({
 
   const activeJob = draftQueueState?.activeJob ?? null;
   const latestJob = draftQueueState?.jobs?.[0] ?? null;
-  const jobStatus = activeJob?.status ?? latestJob?.status ?? null;
+  const rawJobStatus = activeJob?.status ?? latestJob?.status ?? null;
+  // Dead-lettered jobs read as failures here; the operator screen has the detail.
+  const jobStatus = rawJobStatus === "dead_letter" ? "error" : rawJobStatus;
   const liveStatus = useMemo<RealtimeDraftStatus | null>(() => {
     if (!realtimeStatus || realtimeStatus.status === "idle") return null;
     if (
@@ -234,7 +238,8 @@ export default function DocumentWorkspace({
   const jobErrorMessage =
     liveStatus?.error ??
     draftQueueState?.jobs?.find(
-      (job: Doc<"draftJobs">) => job.status === "error" && job.error?.trim(),
+      (job: Doc<"draftJobs">) =>
+        (job.status === "error" || job.status === "dead_letter") && job.error?.trim(),
     )?.error ?? null;
   const realtimeSummary = liveStatus?.summary ?? null;
   const transcriptStatusLabel = draftQueueState?.latestTranscript
@@ -307,10 +312,16 @@ export default function DocumentWorkspace({
   };
 
   const [detailsOpen, setDetailsOpen] = useState(false);
+  const [historySectionId, setHistorySectionId] =
+    useState<Id<"documentSections"> | null>(null);
 
   const documentContent = workspace?.document?.latestDraftMarkdown ?? "";
   const draftSummary = workspace?.document?.summary?.trim() ?? "";
   const sections = workspace?.sections ?? [];
+  const historySection =
+    sections.find(
+      (section: Doc<"documentSections">) => section._id === historySectionId,
+    ) ?? null;
   const noteCount = notes?.length ?? 0;
   const modeChipLabel = MODE_LABELS[mode];
   const modeChipClass = MODE_CLASSES[mode];
@@ -396,6 +407,7 @@ export default function DocumentWorkspace({
               <p>{draftSummary}</p>
             </section>
           ) : null}
+          {projectId ? <DraftChangesPanel projectId={projectId} /> : null}
           <SimpleMarkdown content={documentContent} />
         </section>
         <aside className="document-aside">
@@ -500,11 +512,29 @@ export default function DocumentWorkspace({
                           <span className={`outline-status status-${section.status}`}>
                             {SECTION_STATUS_LABELS[section.status] ?? section.status}
                           </span>
+                          <button
+                            type="button"
+                            className="text-button"
+                            onClick={() =>
+                              setHistorySectionId((previous) =>
+                                previous === section._id ? null : section._id,
+                              )
+                            }
+                          >
+                            {historySectionId === section._id ? "Hide history" : "History"}
+                          </button>
                         </div>
                       </li>
                     ))}
                   </ol>
                 )}
+                {historySection ? (
+                  <SectionHistoryPanel
+                    sectionId={historySection._id}
+                    heading={historySection.heading}
+                    onClose={() => setHistorySectionId(null)}
+                  />
+                ) : null}
               </section>
               <section>
                 <h3>Voice guardrails</h3>
@@ -0,0 +1,128 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { countChangedWords, diffWords } from "@/convex/lib/wordDiff";
+
+const formatDateTime = (timestamp: number) =>
+  new Intl.DateTimeFormat(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(timestamp);
+
+function WordDiff({ before, after }: { before: string; after: string }) {
+  const segments = useMemo(() => diffWords(before, after), [before, after]);
+  const counts = countChangedWords(segments);
+
+  return (
+    <>
+      <span className="draft-change-counts">
+        <span className="added">+{counts.added}</span>
+        <span className="removed">−{counts.removed}</span>
+      </span>
+      <p className="draft-diff">
+        {segments.map((segment, index) =>
+          segment.type === "added" ? (
+            <ins key={index}>{segment.text}</ins>
+          ) : segment.type === "removed" ? (
+            <del key={index}>{segment.text}</del>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          ),
+        )}
+      </p>
+    </>
+  );
+}
+
+export default function DraftChangesPanel({ projectId }: { projectId: Id<"projects"> }) {
+  const jobs = useQuery(api.draftChanges.listForProject, { projectId });
+  const acceptChange = useMutation(api.draftChanges.acceptChange);
+  const rejectChange = useMutation(api.draftChanges.rejectChange);
+  const [busyId, setBusyId] = useState<Id<"draftSectionChanges"> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const decide = async (
+    changeId: Id<"draftSectionChanges">,
+    task: (args: { changeId: Id<"draftSectionChanges"> }) => Promise<unknown>,
+  ) => {
+    if (busyId) return;
+    setBusyId(changeId);
+    setError(null);
+    try {
+      await task({ changeId });
+    } catch (taskError) {
+      console.error("Failed to review draft change", taskError);
+      setError(taskError instanceof Error ? taskError.message : "Update failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (jobs === undefined || jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="draft-changes">
+      <h3>Recent draft changes</h3>
+      {error ? (
+        <p className="members-error" role="alert">
+          {error}
+        </p>
+      ) : null}
+      <ol className="draft-change-jobs">
+        {jobs.map((job) => (
+          <li key={job.jobId}>
+            <div className="revision-meta">
+              <span>{formatDateTime(job.completedAt)}</span>
+              {job.summary ? <span>{job.summary}</span> : null}
+            </div>
+            <ul className="draft-change-list">
+              {job.changes.map((change) => (
+                <li key={change._id} className={`draft-change decision-${change.decision}`}>
+                  <div className="draft-change-header">
+                    <strong>{change.heading}</strong>
+                    {change.decision === "pending" ? (
+                      <div className="todo-actions">
+                        <button
+                          type="button"
+                          onClick={() => decide(change._id, acceptChange)}
+                          disabled={busyId !== null}
+                        >
+                          Accept
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => decide(change._id, rejectChange)}
+                          disabled={busyId !== null || !change.isCurrent}
+                          title={
+                            change.isCurrent
+                              ? "Revert this section to its text before the draft"
+                              : "The section has changed since this draft"
+                          }
+                        >
+                          {busyId === change._id ? "Reverting…" : "Reject"}
+                        </button>
+                      </div>
+                    ) : (
+                      <span className="metric-chip subtle">
+                        {change.decision === "accepted" ? "Accepted" : "Rejected"}
+                      </span>
+                    )}
+                  </div>
+                  <WordDiff before={change.before} after={change.after} />
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import {
+  MODEL_PROVIDER_IDS,
+  MODEL_PROVIDER_LABELS,
+  type ModelProviderId,
+} from "@/convex/lib/modelProviders";
+
+export default function DraftingModelPanel({ projectId }: { projectId: Id<"projects"> }) {
+  const bundle = useQuery(api.projects.getProject, { projectId });
+  const setModelProvider = useMutation(api.projects.setModelProvider);
+
+  const project = bundle?.project ?? null;
+  const [provider, setProvider] = useState<ModelProviderId | "">("");
+  const [model, setModel] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setProvider(project?.modelProvider ?? "");
+    setModel(project?.draftingModel ?? "");
+  }, [project?.modelProvider, project?.draftingModel]);
+
+  if (!bundle || !project) {
+    return null;
+  }
+
+  const canEdit = bundle.role === "owner" || bundle.role === "editor";
+  const dirty =
+    provider !== (project.modelProvider ?? "") || model.trim() !== (project.draftingModel ?? "");
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await setModelProvider({
+        projectId,
+        provider: provider || undefined,
+        model: model.trim() || undefined,
+      });
+    } catch (saveError) {
+      console.error("Failed to update drafting model", saveError);
+      setError(saveError instanceof Error ? saveError.message : "Update failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="panel">
+      <div className="panel-header">
+        <h2>Drafting model</h2>
+      </div>
+      <p className="panel-description">
+        Background drafts and summaries use this provider. Leave it on the default to follow the
+        deployment&apos;s <code>DRAFTING_MODEL_PROVIDER</code>.
+      </p>
+      <div className="project-meta">
+        <label>
+          <span>Provider</span>
+          <select
+            value={provider}
+            onChange={(event) => setProvider(event.target.value as ModelProviderId | "")}
+            disabled={!canEdit || saving}
+          >
+            <option value="">Deployment default</option>
+            {MODEL_PROVIDER_IDS.map((id) => (
+              <option key={id} value={id}>
+                {MODEL_PROVIDER_LABELS[id]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {provider && provider !== "fixture" ? (
+          <label>
+            <span>Model</span>
+            <input
+              type="text"
+              value={model}
+              onChange={(event) => setModel(event.target.value)}
+              placeholder="Provider default"
+              disabled={!canEdit || saving}
+            />
+          </label>
+        ) : null}
+      </div>
+      {canEdit ? (
+        <div className="todo-actions">
+          <button
+            type="button"
+            className="text-button"
+            onClick={handleSave}
+            disabled={!dirty || saving}
+          >
+            {saving ? "Saving…" : "Save"}
+          </button>
+        </div>
+      ) : null}
+      {error ? (
+        <p className="members-error" role="alert">
+          {error}
+        </p>
+      ) : null}
+    </section>
+  );
+}
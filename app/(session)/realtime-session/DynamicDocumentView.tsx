@@ -7,6 +7,8 @@ import { api } from "@/convex/_generated/api";
 import type { Doc, Id } from "@/convex/_generated/dataModel";
 import type { SessionInstructionMode } from "@/lib/realtimeInstructions";
 
+import SectionCommentsPane from "./SectionCommentsPane";
+
 type MarkdownBlock = {
   type: "h1" | "h2" | "h3" | "paragraph" | "list" | "code";
   content?: string;
@@ -147,19 +149,81 @@ export default function DynamicDocumentView({
     projectId ? { projectId } : "skip",
   );
 
+  const commentThreads = useQuery(
+    api.sectionComments.listForProject,
+    projectId ? { projectId } : "skip",
+  );
+
+  const sectionDrafts = useQuery(
+    api.documents.getSectionDrafts,
+    projectId ? { projectId } : "skip",
+  );
+
   const resetDraftMutation = useMutation(api.documents.resetDraft);
+  const setSectionLockMutation = useMutation(api.documents.setSectionLock);
 
   const [displayedBlocks, setDisplayedBlocks] = useState<MarkdownBlock[]>([]);
   const [resetting, setResetting] = useState(false);
+  const [lockingSectionId, setLockingSectionId] = useState<Id<"documentSections"> | null>(null);
+  const [commentsOpen, setCommentsOpen] = useState(false);
+  const [commentSectionId, setCommentSectionId] = useState<Id<"documentSections"> | null>(null);
+  const [selection, setSelection] = useState<{
+    sectionId: Id<"documentSections">;
+    quote: string;
+  } | null>(null);
   const newBlockRefs = useRef<Record<string, HTMLDivElement | null>>({});
   const processingRef = useRef(false);
   const targetMarkdownRef = useRef("");
 
   const documentContent = workspace?.document?.latestDraftMarkdown ?? "";
 
+  const sectionsByHeading = useMemo(() => {
+    const map = new Map<string, Doc<"documentSections">>();
+    for (const section of workspace?.sections ?? []) {
+      map.set(section.heading.trim().toLowerCase(), section);
+    }
+    return map;
+  }, [workspace?.sections]);
+
+  // Blocks under a heading belong to that section until the next heading.
+  const blockSectionIds = useMemo(() => {
+    const map = new Map<string, Id<"documentSections">>();
+    let current: Id<"documentSections"> | null = null;
+    for (const block of displayedBlocks) {
+      if (block.type === "h1" || block.type === "h2" || block.type === "h3") {
+        current = sectionsByHeading.get((block.content ?? "").trim().toLowerCase())?._id ?? null;
+      }
+      if (current) map.set(block.id, current);
+    }
+    return map;
+  }, [displayedBlocks, sectionsByHeading]);
+
+  // Text the drafter is still streaming, keyed by section. The model repeats
+  // the heading at the top of its markdown; the existing heading block covers it.
+  const streamingBySection = useMemo(() => {
+    const map = new Map<Id<"documentSections">, string>();
+    for (const draft of sectionDrafts ?? []) {
+      map.set(draft.sectionId, draft.content.replace(/^\s*#{1,6}[^\n]*\n?/, "").trimStart());
+    }
+    return map;
+  }, [sectionDrafts]);
+
+  const openCommentCounts = useMemo(() => {
+    const counts = new Map<Id<"documentSections">, number>();
+    for (const thread of commentThreads ?? []) {
+      counts.set(thread.sectionId, (counts.get(thread.sectionId) ?? 0) + 1);
+    }
+    return counts;
+  }, [commentThreads]);
+
+  const commentSection =
+    workspace?.sections?.find((section) => section._id === commentSectionId) ?? null;
+
   const activeJob = draftQueueState?.activeJob ?? null;
   const latestJob = draftQueueState?.jobs?.[0] ?? null;
-  const jobStatus = activeJob?.status ?? latestJob?.status ?? null;
+  const rawJobStatus = activeJob?.status ?? latestJob?.status ?? null;
+  // Dead-lettered jobs read as failures here; the operator screen has the detail.
+  const jobStatus = rawJobStatus === "dead_letter" ? "error" : rawJobStatus;
 
   const liveStatus = useMemo<RealtimeDraftStatus | null>(() => {
     if (!realtimeStatus || realtimeStatus.status === "idle") return null;
@@ -188,7 +252,8 @@ export default function DynamicDocumentView({
             : null;
 
   const jobErrorMessage = liveStatus?.error ?? draftQueueState?.jobs?.find(
-    (job: Doc<"draftJobs">) => job.status === "error" && job.error?.trim(),
+    (job: Doc<"draftJobs">) =>
+      (job.status === "error" || job.status === "dead_letter") && job.error?.trim(),
   )?.error ?? null;
 
   // Transform document sequentially
@@ -282,6 +347,14 @@ export default function DynamicDocumentView({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [documentContent, autoScroll]);
 
+  // Search results link to `#section-<id>`; jump there once the heading renders.
+  const hasRenderedBlocks = displayedBlocks.length > 0;
+  useEffect(() => {
+    const hash = window.location.hash.slice(1);
+    if (!hash.startsWith("section-") || !hasRenderedBlocks) return;
+    document.getElementById(hash)?.scrollIntoView({ block: "start" });
+  }, [hasRenderedBlocks, sectionsByHeading]);
+
   const handleResetDraft = async () => {
     if (!projectId || resetting) return;
     const confirmed = window.confirm(
@@ -298,6 +371,77 @@ export default function DynamicDocumentView({
     }
   };
 
+  const handleToggleLock = async (section: Doc<"documentSections">) => {
+    if (lockingSectionId) return;
+    setLockingSectionId(section._id);
+    try {
+      await setSectionLockMutation({ sectionId: section._id, locked: !section.locked });
+    } catch (error) {
+      console.error("Failed to update section lock", error);
+    } finally {
+      setLockingSectionId(null);
+    }
+  };
+
+  const handleSelectionEnd = () => {
+    const current = window.getSelection();
+    const quote = current?.toString().trim() ?? "";
+    if (!current || !quote) return;
+    const start = current.anchorNode?.parentElement?.closest<HTMLElement>("[data-section-id]");
+    const end = current.focusNode?.parentElement?.closest<HTMLElement>("[data-section-id]");
+    const sectionId = start?.dataset.sectionId;
+    // Anchors cannot span sections; ignore selections that cross a heading.
+    if (!sectionId || end?.dataset.sectionId !== sectionId) return;
+    setSelection({ sectionId: sectionId as Id<"documentSections">, quote });
+    if (commentsOpen) {
+      setCommentSectionId(sectionId as Id<"documentSections">);
+    }
+  };
+
+  const openComments = (sectionId: Id<"documentSections"> | null) => {
+    setCommentSectionId(sectionId);
+    setCommentsOpen(true);
+  };
+
+  const renderHeading = (block: MarkdownBlock) => {
+    const Tag = block.type as "h1" | "h2" | "h3";
+    const section = sectionsByHeading.get((block.content ?? "").trim().toLowerCase());
+    if (!section) {
+      return <Tag>{block.content}</Tag>;
+    }
+    return (
+      <div
+        id={`section-${section._id}`}
+        className={`section-heading${section.locked ? " locked" : ""}`}
+      >
+        <Tag>{block.content}</Tag>
+        <button
+          type="button"
+          className={`lock-button comment-button${openCommentCounts.has(section._id) ? " has-comments" : ""}`}
+          onClick={() => openComments(section._id)}
+          title="Comment on this section"
+        >
+          {openCommentCounts.has(section._id)
+            ? `Comments (${openCommentCounts.get(section._id)})`
+            : "Comment"}
+        </button>
+        <button
+          type="button"
+          className="lock-button"
+          onClick={() => handleToggleLock(section)}
+          disabled={lockingSectionId !== null}
+          title={
+            section.locked
+              ? "Unlock so the drafter can revise this section"
+              : "Lock to keep the drafter from changing this section"
+          }
+        >
+          {section.locked ? "Locked" : "Lock"}
+        </button>
+      </div>
+    );
+  };
+
   return (
     <div className="dynamic-document-view">
       {/* Thin status bar */}
@@ -323,65 +467,99 @@ export default function DynamicDocumentView({
             </span>
           )}
         </div>
-        <button
-          type="button"
-          className="reset-button"
-          onClick={handleResetDraft}
-          disabled={!projectId || resetting}
-        >
-          {resetting ? "Resetting…" : "Reset"}
-        </button>
+        <div className="status-actions">
+          <button
+            type="button"
+            className="reset-button comments-toggle"
+            onClick={() => (commentsOpen ? setCommentsOpen(false) : openComments(null))}
+            disabled={!projectId}
+          >
+            {commentThreads && commentThreads.length > 0
+              ? `Comments (${commentThreads.length})`
+              : "Comments"}
+          </button>
+          <button
+            type="button"
+            className="reset-button"
+            onClick={handleResetDraft}
+            disabled={!projectId || resetting}
+          >
+            {resetting ? "Resetting…" : "Reset"}
+          </button>
+        </div>
       </div>
 
       {/* Centered document viewport */}
-      <div className="document-viewport">
-        <div className="document-content">
+      <div className={`document-viewport${commentsOpen ? " with-comments" : ""}`}>
+        <div className="document-content" onMouseUp={handleSelectionEnd}>
           {displayedBlocks.length === 0 ? (
             <p className="empty-state">
               Draft updates will appear here once the assistant starts writing.
             </p>
           ) : (
-            displayedBlocks.map((block) => (
-              <div
-                key={block.id}
-                ref={(el) => {
-                  newBlockRefs.current[block.id] = el;
-                }}
-                className={`block block-${block.state}`}
-              >
-                {block.type === "h1" && (
-                  <h1>{block.content}</h1>
-                )}
-
-                {block.type === "h2" && (
-                  <h2>{block.content}</h2>
-                )}
-
-                {block.type === "h3" && (
-                  <h3>{block.content}</h3>
-                )}
-
-                {block.type === "paragraph" && (
-                  <p>{renderInlineMarkdown(block.content ?? "")}</p>
-                )}
-
-                {block.type === "list" && (
-                  <ul>
-                    {block.items?.map((item, i) => (
-                      <li key={i}>{renderInlineMarkdown(item)}</li>
-                    ))}
-                  </ul>
-                )}
-
-                {block.type === "code" && (
-                  <pre>
-                    <code>{block.content}</code>
-                  </pre>
-                )}
-              </div>
-            ))
+            displayedBlocks.map((block) => {
+              const sectionId = blockSectionIds.get(block.id);
+              const isHeading = block.type === "h1" || block.type === "h2" || block.type === "h3";
+              const streamingText = sectionId ? streamingBySection.get(sectionId) : undefined;
+              // While a section streams, its committed body is swapped for the live text.
+              if (streamingText !== undefined && !isHeading) {
+                return null;
+              }
+              return (
+                <div
+                  key={block.id}
+                  ref={(el) => {
+                    newBlockRefs.current[block.id] = el;
+                  }}
+                  className={`block block-${block.state}`}
+                  data-section-id={sectionId}
+                >
+                  {isHeading && renderHeading(block)}
+
+                  {isHeading && streamingText !== undefined && (
+                    <div className="streaming-section" aria-live="polite">
+                      {streamingText.split(/(\s+)/).map((token, i) => (
+                        <span key={i} className="streaming-word">
+                          {token}
+                        </span>
+                      ))}
+                      <span className="streaming-caret" aria-hidden="true" />
+                    </div>
+                  )}
+
+                  {block.type === "paragraph" && (
+                    <p>{renderInlineMarkdown(block.content ?? "")}</p>
+                  )}
+
+                  {block.type === "list" && (
+                    <ul>
+                      {block.items?.map((item, i) => (
+                        <li key={i}>{renderInlineMarkdown(item)}</li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {block.type === "code" && (
+                    <pre>
+                      <code>{block.content}</code>
+                    </pre>
+                  )}
+                </div>
+              );
+            })
           )}
         </div>
+        {commentsOpen && commentThreads ? (
+          <SectionCommentsPane
+            threads={commentThreads}
+            section={commentSection}
+            pendingQuote={
+              selection && selection.sectionId === commentSectionId ? selection.quote : null
+            }
+            onClearQuote={() => setSelection(null)}
+            onClose={() => setCommentsOpen(false)}
+          />
+        ) : null}
       </div>
 
       <style jsx>{`
@@ -443,6 +621,19 @@ export default function DynamicDocumentView({
           opacity: 0.7;
         }
 
+        .status-actions {
+          display: flex;
+          gap: 0.25rem;
+        }
+
+        .comments-toggle {
+          color: var(--text-2);
+        }
+
+        .comments-toggle:hover:not(:disabled) {
+          background: var(--surface-2);
+        }
+
         .reset-button {
           padding: 0.25rem 0.75rem;
           font-size: 0.75rem;
@@ -475,6 +666,17 @@ export default function DynamicDocumentView({
           margin: 0 auto;
         }
 
+        .document-viewport.with-comments {
+          display: flex;
+          align-items: flex-start;
+          gap: 2rem;
+        }
+
+        .document-viewport.with-comments .document-content {
+          flex: 1;
+          min-width: 0;
+        }
+
         .empty-state {
           text-align: center;
           color: var(--text-3);
@@ -507,6 +709,47 @@ export default function DynamicDocumentView({
           margin: 1.5rem 0 0.75rem 0;
         }
 
+        .section-heading {
+          display: flex;
+          align-items: baseline;
+          justify-content: space-between;
+          gap: 1rem;
+        }
+
+        .lock-button {
+          flex-shrink: 0;
+          padding: 0.2rem 0.6rem;
+          font-size: 0.7rem;
+          font-weight: 500;
+          border: 1px solid var(--border-subtle);
+          border-radius: 0.375rem;
+          background: transparent;
+          color: var(--text-3);
+          cursor: pointer;
+          opacity: 0;
+          transition: opacity 0.2s, background 0.2s;
+        }
+
+        .section-heading:hover .lock-button,
+        .section-heading .comment-button.has-comments,
+        .section-heading.locked .lock-button {
+          opacity: 1;
+        }
+
+        .section-heading.locked .lock-button:not(.comment-button) {
+          border-color: transparent;
+          background: var(--warning-surface);
+          color: var(--warning-text);
+        }
+
+        .comment-button {
+          margin-left: auto;
+        }
+
+        .lock-button:disabled {
+          cursor: not-allowed;
+        }
+
         .block p {
           font-size: 1rem;
           line-height: 1.7;
@@ -539,6 +782,42 @@ export default function DynamicDocumentView({
           line-height: 1.5;
         }
 
+        .streaming-section {
+          white-space: pre-wrap;
+          font-size: 1rem;
+          line-height: 1.75;
+          color: var(--text-2);
+        }
+
+        .streaming-word {
+          animation: streamWordIn 0.25s ease-out;
+        }
+
+        .streaming-caret {
+          display: inline-block;
+          width: 0.5rem;
+          height: 1.1em;
+          margin-left: 0.125rem;
+          vertical-align: text-bottom;
+          background: var(--accent-text);
+          animation: streamCaretBlink 1s steps(2, start) infinite;
+        }
+
+        @keyframes streamWordIn {
+          from {
+            opacity: 0;
+          }
+          to {
+            opacity: 1;
+          }
+        }
+
+        @keyframes streamCaretBlink {
+          to {
+            visibility: hidden;
+          }
+        }
+
         .block-positioning {
           opacity: 0;
         }
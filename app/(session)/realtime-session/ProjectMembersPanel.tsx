@@ -0,0 +1,151 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "convex/react";
+
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+
+type InvitableRole = "editor" | "reviewer" | "viewer";
+
+const ROLE_OPTIONS: Array<{ value: InvitableRole; label: string }> = [
+  { value: "editor", label: "Editor" },
+  { value: "reviewer", label: "Reviewer" },
+  { value: "viewer", label: "Viewer" },
+];
+
+export default function ProjectMembersPanel({ projectId }: { projectId: Id<"projects"> }) {
+  const roster = useQuery(api.projectMembers.listForProject, { projectId });
+  const inviteMember = useMutation(api.projectMembers.invite);
+  const updateRole = useMutation(api.projectMembers.updateRole);
+  const removeMember = useMutation(api.projectMembers.remove);
+
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<InvitableRole>("reviewer");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (roster === undefined) {
+    return null;
+  }
+
+  const canManage = roster.viewerRole === "owner";
+
+  const run = async (task: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (taskError) {
+      console.error("Failed to update collaborators", taskError);
+      setError(taskError instanceof Error ? taskError.message : "Update failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInvite = (event: FormEvent) => {
+    event.preventDefault();
+    if (!email.trim()) return;
+    void run(async () => {
+      await inviteMember({ projectId, email, role });
+      setEmail("");
+    });
+  };
+
+  return (
+    <section className="panel members-panel">
+      <div className="panel-header">
+        <h2>Collaborators</h2>
+        <span className="metric-chip">You are {roster.viewerRole}</span>
+      </div>
+      <p className="panel-description">
+        Editors can draft and restructure the outline. Reviewers can comment and resolve TODOs
+        but not rewrite sections. Viewers can only read.
+      </p>
+      {roster.members.length === 0 ? (
+        <p className="empty-state">No collaborators yet.</p>
+      ) : (
+        <ul className="members-list">
+          {roster.members.map((member) => (
+            <li key={member._id}>
+              <div>
+                <strong>{member.displayName ?? member.email}</strong>
+                {member.displayName ? <span className="project-hint">{member.email}</span> : null}
+                {member.status === "invited" ? (
+                  <span className="metric-chip">Invited</span>
+                ) : null}
+              </div>
+              <div className="todo-actions">
+                {canManage && member.role !== "owner" ? (
+                  <select
+                    aria-label={`Role for ${member.email}`}
+                    value={member.role}
+                    disabled={busy}
+                    onChange={(event) =>
+                      void run(() =>
+                        updateRole({
+                          memberId: member._id,
+                          role: event.target.value as InvitableRole,
+                        }),
+                      )
+                    }
+                  >
+                    {ROLE_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="member-role">{member.role}</span>
+                )}
+                {member.role !== "owner" && (canManage || member.isViewer) ? (
+                  <button
+                    type="button"
+                    className="text-button"
+                    disabled={busy}
+                    onClick={() => void run(() => removeMember({ memberId: member._id }))}
+                  >
+                    {member.isViewer ? "Leave" : "Remove"}
+                  </button>
+                ) : null}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {canManage ? (
+        <form className="members-invite" onSubmit={handleInvite}>
+          <input
+            type="email"
+            placeholder="teammate@example.com"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            disabled={busy}
+          />
+          <select
+            aria-label="Role"
+            value={role}
+            onChange={(event) => setRole(event.target.value as InvitableRole)}
+            disabled={busy}
+          >
+            {ROLE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button type="submit" className="text-button" disabled={busy || !email.trim()}>
+            Invite
+          </button>
+        </form>
+      ) : null}
+      {error ? (
+        <p className="members-error" role="alert">
+          {error}
+        </p>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { formatOutlineText, parseOutlineText } from "@/convex/lib/contentTemplates";
+
+export default function ProjectOutlinePanel({ projectId }: { projectId: Id<"projects"> }) {
+  const template = useQuery(api.contentTemplates.getForProject, { projectId });
+  const setOutlineOverride = useMutation(api.projects.setOutlineOverride);
+
+  const [outlineDraft, setOutlineDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const savedOutlineText = template ? formatOutlineText(template.outline) : "";
+
+  useEffect(() => {
+    setOutlineDraft(savedOutlineText);
+  }, [savedOutlineText]);
+
+  if (template === undefined) {
+    return null;
+  }
+
+  const isOverridden = template?.outlineSource === "project";
+  const isDirty = outlineDraft.trim() !== savedOutlineText.trim();
+
+  const save = async (outline: ReturnType<typeof parseOutlineText> | undefined) => {
+    setSaving(true);
+    try {
+      await setOutlineOverride({ projectId, outline });
+    } catch (error) {
+      console.error("Failed to update outline override", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="panel outline-template-panel">
+      <div className="panel-header">
+        <h2>Outline template</h2>
+        {template ? (
+          <span className="metric-chip">
+            {isOverridden ? "Project outline" : `${template.label} template`}
+          </span>
+        ) : null}
+      </div>
+      {template ? (
+        <>
+          <p className="panel-description">
+            New drafts start from this outline. One section per line; add guidance after
+            &ldquo; — &rdquo;. Editing here overrides the {template.label.toLowerCase()} template
+            for this project only.
+          </p>
+          {template.wordCountTarget ? (
+            <p className="project-hint">
+              Target length {template.wordCountTarget.min}–{template.wordCountTarget.max} words
+              {template.tonePresets.length > 0 ? ` · ${template.tonePresets.join(", ")}` : ""}
+            </p>
+          ) : null}
+          <textarea
+            value={outlineDraft}
+            onChange={(event) => setOutlineDraft(event.target.value)}
+            rows={Math.max(4, template.outline.length + 1)}
+            disabled={saving}
+          />
+          <div className="todo-actions">
+            <button
+              type="button"
+              className="text-button"
+              onClick={() => void save(parseOutlineText(outlineDraft))}
+              disabled={saving || !isDirty}
+            >
+              Save outline
+            </button>
+            {isOverridden ? (
+              <button
+                type="button"
+                className="text-button"
+                onClick={() => void save(undefined)}
+                disabled={saving}
+              >
+                Revert to template
+              </button>
+            ) : null}
+          </div>
+        </>
+      ) : (
+        <p className="empty-state">No template is defined for this content type.</p>
+      )}
+    </section>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
+import { useMutation } from "convex/react";
 
 import {
   CONTENT_TYPE_OPTIONS,
@@ -10,12 +11,21 @@ import {
   type VoiceGuardrails,
 } from "@/lib/projects";
 
+import { api } from "@/convex/_generated/api";
 import type { Id } from "@/convex/_generated/dataModel";
 import "./useRealtimeSession";
 import { useProjectIntakeFlow } from "./useProjectIntakeFlow";
 import { useRealtimeSessionContext } from "./RealtimeSessionProvider";
 import DynamicDocumentView from "./DynamicDocumentView";
 import SessionControlBar from "./SessionControlBar";
+import ProjectOutlinePanel from "./ProjectOutlinePanel";
+import ProjectMembersPanel from "./ProjectMembersPanel";
+import ClaimsPanel from "./ClaimsPanel";
+import ToolCallLogPanel from "./ToolCallLogPanel";
+import DraftingModelPanel from "./DraftingModelPanel";
+import StyleLintPanel from "./StyleLintPanel";
+import SessionRecapTimeline from "./SessionRecapTimeline";
+import TextChatPanel from "./TextChatPanel";
 
 const formatTime = (timestamp: number) =>
   new Intl.DateTimeFormat(undefined, {
@@ -37,10 +47,12 @@ export default function RealtimeSessionShell({
   projectTitle,
   breadcrumbs,
   projectId,
+  toolbarActions,
 }: {
   projectTitle: string;
   breadcrumbs: JSX.Element;
   projectId?: Id<"projects">;
+  toolbarActions?: JSX.Element;
 }) {
   const router = useRouter();
   const {
@@ -98,7 +110,9 @@ export default function RealtimeSessionShell({
   const [titleDraft, setTitleDraft] = useState("");
   const [goalDraft, setGoalDraft] = useState("");
   const [contentTypeDraft, setContentTypeDraft] = useState<ContentType>("article");
-  const [activeTab, setActiveTab] = useState<"document" | "settings">("document");
+  const [activeTab, setActiveTab] = useState<
+    "document" | "settings" | "recaps" | "claims" | "diagnostics"
+  >("document");
   const [draftSnapshot] = useState<DraftSnapshot | null>(null);
 
   useEffect(() => {
@@ -214,6 +228,23 @@ export default function RealtimeSessionShell({
   const selectedProjectId = activeProject?._id ?? sessionRecord?.projectId ?? null;
   const hasExplicitProjectContext = Boolean(projectId ?? selectedProjectId);
 
+  const manageOutlineMutation = useMutation(api.documents.manageOutline);
+  const templateSeededProjectRef = useRef<Id<"projects"> | null>(null);
+
+  // Entering ghostwriting seeds an empty document with the content-type outline.
+  useEffect(() => {
+    if (instructionContext.mode !== "ghostwriting" || !selectedProjectId) return;
+    if (templateSeededProjectRef.current === selectedProjectId) return;
+    templateSeededProjectRef.current = selectedProjectId;
+    void manageOutlineMutation({
+      projectId: selectedProjectId,
+      operations: [],
+      applyTemplate: true,
+    }).catch((seedError) => {
+      console.error("Failed to apply outline template", seedError);
+    });
+  }, [instructionContext.mode, manageOutlineMutation, selectedProjectId]);
+
   const blueprintProgress = fieldStates.filter((field) => field.isComplete).length;
   const blueprintTotal = fieldStates.length;
   const blueprintStatus = blueprint?.status ?? "draft";
@@ -286,6 +317,7 @@ export default function RealtimeSessionShell({
       <header className="shell-toolbar">
         {breadcrumbs}
         <h2>{projectTitle}</h2>
+        {toolbarActions}
       </header>
 
       {!isProjectContextHydrated && hasExplicitProjectContext ? (
@@ -311,10 +343,38 @@ export default function RealtimeSessionShell({
         >
           Session settings
         </button>
+        {selectedProjectId ? (
+          <button
+            type="button"
+            className={`tab-button ${activeTab === "recaps" ? "active" : ""}`}
+            onClick={() => setActiveTab("recaps")}
+          >
+            Recaps
+          </button>
+        ) : null}
+        {selectedProjectId ? (
+          <button
+            type="button"
+            className={`tab-button ${activeTab === "claims" ? "active" : ""}`}
+            onClick={() => setActiveTab("claims")}
+          >
+            Claims
+          </button>
+        ) : null}
+        {sessionRecord?.sessionId ? (
+          <button
+            type="button"
+            className={`tab-button ${activeTab === "diagnostics" ? "active" : ""}`}
+            onClick={() => setActiveTab("diagnostics")}
+          >
+            Diagnostics
+          </button>
+        ) : null}
       </div>
 
       <div className="session-layout">
         <div className="session-main-column">
+          <TextChatPanel />
           {activeTab === "document" ? (
             <>
               {phase !== "active" ? (
@@ -333,6 +393,18 @@ export default function RealtimeSessionShell({
                 autoScroll={true}
               />
             </>
+          ) : activeTab === "recaps" && selectedProjectId ? (
+            <div className="settings-container">
+              <SessionRecapTimeline projectId={selectedProjectId} />
+            </div>
+          ) : activeTab === "claims" && selectedProjectId ? (
+            <div className="settings-container">
+              <ClaimsPanel projectId={selectedProjectId} />
+            </div>
+          ) : activeTab === "diagnostics" && sessionRecord?.sessionId ? (
+            <div className="settings-container">
+              <ToolCallLogPanel sessionId={sessionRecord.sessionId} />
+            </div>
           ) : (
             <div className="settings-container">
               <section className="panel project-panel">
@@ -390,6 +462,10 @@ export default function RealtimeSessionShell({
                   Review and adjust project metadata. Voice updates push straight into these fields.
                 </p>
               </section>
+              {selectedProjectId ? <ProjectOutlinePanel projectId={selectedProjectId} /> : null}
+              {selectedProjectId ? <DraftingModelPanel projectId={selectedProjectId} /> : null}
+              {selectedProjectId ? <StyleLintPanel projectId={selectedProjectId} /> : null}
+              {selectedProjectId ? <ProjectMembersPanel projectId={selectedProjectId} /> : null}
               <section className="panel blueprint-panel">
                 <div className="panel-header">
                   <h2>Blueprint fields</h2>
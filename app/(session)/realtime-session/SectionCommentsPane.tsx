@@ -0,0 +1,205 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useMutation } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+
+import { api } from "@/convex/_generated/api";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+
+export type SectionCommentThread = FunctionReturnType<
+  typeof api.sectionComments.listForProject
+>[number];
+
+type SectionCommentsPaneProps = {
+  threads: SectionCommentThread[];
+  section: Doc<"documentSections"> | null;
+  pendingQuote: string | null;
+  onClearQuote: () => void;
+  onClose: () => void;
+};
+
+const formatTime = (timestamp: number) =>
+  new Intl.DateTimeFormat(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(timestamp);
+
+export default function SectionCommentsPane({
+  threads,
+  section,
+  pendingQuote,
+  onClearQuote,
+  onClose,
+}: SectionCommentsPaneProps) {
+  const addComment = useMutation(api.sectionComments.addComment);
+  const replyToComment = useMutation(api.sectionComments.reply);
+  const setResolved = useMutation(api.sectionComments.setResolved);
+
+  const [draft, setDraft] = useState("");
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const visibleThreads = section
+    ? threads.filter((thread) => thread.sectionId === section._id)
+    : threads;
+
+  const run = async (task: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (taskError) {
+      console.error("Failed to update comments", taskError);
+      setError(taskError instanceof Error ? taskError.message : "Update failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = (event: FormEvent) => {
+    event.preventDefault();
+    if (!section || !draft.trim()) return;
+    void run(async () => {
+      await addComment({
+        sectionId: section._id,
+        body: draft,
+        quote: pendingQuote ?? undefined,
+      });
+      setDraft("");
+      onClearQuote();
+    });
+  };
+
+  const handleReply = (event: FormEvent, commentId: Id<"sectionComments">) => {
+    event.preventDefault();
+    const body = replyDrafts[commentId]?.trim();
+    if (!body) return;
+    void run(async () => {
+      await replyToComment({ commentId, body });
+      setReplyDrafts((current) => ({ ...current, [commentId]: "" }));
+    });
+  };
+
+  return (
+    <aside className="panel section-comments-pane">
+      <div className="panel-header">
+        <h2>{section ? section.heading : "Open comments"}</h2>
+        <button type="button" className="text-button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+      <p className="panel-description">
+        Open comments are passed to the drafter the next time it revises the section.
+      </p>
+
+      {section ? (
+        <form className="section-comment-form" onSubmit={handleAdd}>
+          {pendingQuote ? (
+            <blockquote className="section-comment-quote">
+              {pendingQuote}
+              <button type="button" className="text-button" onClick={onClearQuote}>
+                Clear
+              </button>
+            </blockquote>
+          ) : (
+            <p className="project-hint">Select text in the section to anchor your comment.</p>
+          )}
+          <textarea
+            rows={3}
+            placeholder="Leave a note for the drafter"
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            disabled={busy}
+          />
+          <button type="submit" className="text-button" disabled={busy || !draft.trim()}>
+            Comment
+          </button>
+        </form>
+      ) : null}
+
+      {visibleThreads.length === 0 ? (
+        <p className="empty-state">No open comments.</p>
+      ) : (
+        <ul className="section-comment-threads">
+          {visibleThreads.map((thread) => (
+            <li key={thread._id} className={thread.resolved ? "resolved" : undefined}>
+              {!section && thread.heading ? (
+                <span className="metric-chip subtle">{thread.heading}</span>
+              ) : null}
+              {thread.anchor ? (
+                <blockquote
+                  className={`section-comment-quote${thread.anchorFound === false ? " detached" : ""}`}
+                  title={
+                    thread.anchorFound === false
+                      ? "This text is no longer in the section"
+                      : undefined
+                  }
+                >
+                  {thread.anchor.quote}
+                </blockquote>
+              ) : null}
+              <div className="section-comment">
+                <strong>{thread.authorName ?? "Someone"}</strong>
+                <span className="project-hint">{formatTime(thread.createdAt)}</span>
+                <p>{thread.body}</p>
+              </div>
+              {thread.replies.map((reply) => (
+                <div key={reply._id} className="section-comment reply">
+                  <strong>{reply.authorName ?? "Someone"}</strong>
+                  <span className="project-hint">{formatTime(reply.createdAt)}</span>
+                  <p>{reply.body}</p>
+                </div>
+              ))}
+              <form
+                className="section-comment-reply"
+                onSubmit={(event) => handleReply(event, thread._id)}
+              >
+                <input
+                  placeholder="Reply"
+                  value={replyDrafts[thread._id] ?? ""}
+                  onChange={(event) =>
+                    setReplyDrafts((current) => ({
+                      ...current,
+                      [thread._id]: event.target.value,
+                    }))
+                  }
+                  disabled={busy}
+                />
+                <div className="todo-actions">
+                  <button
+                    type="submit"
+                    className="text-button"
+                    disabled={busy || !replyDrafts[thread._id]?.trim()}
+                  >
+                    Reply
+                  </button>
+                  <button
+                    type="button"
+                    className="text-button"
+                    disabled={busy}
+                    onClick={() =>
+                      void run(() =>
+                        setResolved({ commentId: thread._id, resolved: !thread.resolved }),
+                      )
+                    }
+                  >
+                    {thread.resolved ? "Reopen" : "Resolve"}
+                  </button>
+                </div>
+              </form>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error ? (
+        <p className="members-error" role="alert">
+          {error}
+        </p>
+      ) : null}
+    </aside>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+
+import { api } from "@/convex/_generated/api";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+
+const AUTHOR_LABELS: Record<Doc<"sectionRevisions">["authorType"], string> = {
+  user: "You",
+  assistant: "Realtime assistant",
+  drafter: "Background drafter",
+};
+
+const formatDateTime = (timestamp: number) =>
+  new Intl.DateTimeFormat(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(timestamp);
+
+type SectionHistoryPanelProps = {
+  sectionId: Id<"documentSections">;
+  heading: string;
+  onClose: () => void;
+};
+
+export default function SectionHistoryPanel({
+  sectionId,
+  heading,
+  onClose,
+}: SectionHistoryPanelProps) {
+  const revisions = useQuery(api.revisions.listForSection, { sectionId });
+  const restoreRevisionMutation = useMutation(api.revisions.restoreRevision);
+  const [restoringId, setRestoringId] = useState<Id<"sectionRevisions"> | null>(null);
+
+  const handleRestore = async (revision: Doc<"sectionRevisions">) => {
+    if (restoringId) return;
+    const confirmed = window.confirm(
+      `Restore version ${revision.version} of "${heading}"? The current text is kept in history.`,
+    );
+    if (!confirmed) return;
+    setRestoringId(revision._id);
+    try {
+      await restoreRevisionMutation({ revisionId: revision._id });
+    } catch (error) {
+      console.error("Failed to restore section revision", error);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <section className="section-history">
+      <header className="detail-header">
+        <div>
+          <h3>History · {heading}</h3>
+          <p className="panel-description">
+            Every earlier version of this section, newest first.
+          </p>
+        </div>
+        <button type="button" className="text-button" onClick={onClose}>
+          Close
+        </button>
+      </header>
+      {revisions === undefined ? (
+        <p className="empty-state">Loading history…</p>
+      ) : revisions.length === 0 ? (
+        <p className="empty-state">
+          No earlier versions yet. Revisions appear once this section is rewritten.
+        </p>
+      ) : (
+        <ol className="revision-list">
+          {revisions.map((revision: Doc<"sectionRevisions">) => (
+            <li key={revision._id} className="revision-item">
+              <div className="revision-meta">
+                <span className="revision-version">v{revision.version}</span>
+                <span>{AUTHOR_LABELS[revision.authorType]}</span>
+                <span>{formatDateTime(revision.createdAt)}</span>
+              </div>
+              <p className="revision-content">
+                {revision.content.trim() || "(empty section)"}
+              </p>
+              <div className="todo-actions">
+                <button
+                  type="button"
+                  onClick={() => handleRestore(revision)}
+                  disabled={restoringId !== null}
+                >
+                  {restoringId === revision._id ? "Restoring…" : "Restore"}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
@@ -23,7 +23,9 @@ export default function SessionControlBar() {
 
   const {
     status,
+    statusMessage,
     isConnected,
+    transport,
     startSession,
     stopSession,
     inputDevices,
@@ -102,22 +104,36 @@ export default function SessionControlBar() {
     void startSession();
   }, [startSession]);
 
+  const handleStartText = useCallback(() => {
+    void startSession({ transport: "text" });
+  }, [startSession]);
+
   const handleStop = useCallback(() => {
     void stopSession("Session ended by user");
   }, [stopSession]);
 
   // Button styling logic
   const isConnecting = status === "connecting" || status === "requesting-permissions";
+  // While reconnecting the session is still live, so the button stays a Stop button.
+  const isReconnecting = status === "reconnecting";
+  const isLive = isConnected || isReconnecting;
   const startButtonClass = isConnected
     ? "session-action-btn session-stop-btn"
-    : isConnecting
+    : isConnecting || isReconnecting
       ? "session-action-btn session-connecting-btn"
       : "session-action-btn session-start-btn";
 
-  const startButtonLabel = isConnected ? "Stop" : isConnecting ? "Connecting" : "Start";
+  const startButtonLabel = isConnected
+    ? "Stop"
+    : isReconnecting
+      ? "Reconnecting (click to stop)"
+      : isConnecting
+        ? "Connecting"
+        : "Start";
 
+  const canMute = isConnected && transport === "voice";
   const muteButtonClass = `session-action-btn session-mute-btn ${
-    !isConnected ? "disabled" : isMuted ? "active" : ""
+    !canMute ? "disabled" : isMuted ? "active" : ""
   }`;
 
   // Click outside to collapse
@@ -146,7 +162,7 @@ export default function SessionControlBar() {
           <div className="control-buttons-vertical">
             <button
               className={startButtonClass}
-              onClick={isConnected ? handleStop : handleStart}
+              onClick={isLive ? handleStop : handleStart}
               disabled={isConnecting}
               title={startButtonLabel}
               aria-label={startButtonLabel}
@@ -155,7 +171,7 @@ export default function SessionControlBar() {
                 <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
                   <rect x="4" y="4" width="8" height="8" />
                 </svg>
-              ) : isConnecting ? (
+              ) : isConnecting || isReconnecting ? (
                 <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor" className="connecting-spinner">
                   <circle cx="8" cy="8" r="6" stroke="currentColor" strokeWidth="2" fill="none" strokeDasharray="9.42 31.42" />
                 </svg>
@@ -168,7 +184,7 @@ export default function SessionControlBar() {
             <button
               className={muteButtonClass}
               onClick={toggleMute}
-              disabled={!isConnected}
+              disabled={!canMute}
               title={isMuted ? "Unmute" : "Mute"}
               aria-label={isMuted ? "Unmute microphone" : "Mute microphone"}
             >
@@ -183,7 +199,26 @@ export default function SessionControlBar() {
                 </svg>
               )}
             </button>
+            {!isLive ? (
+              <button
+                className="session-action-btn session-text-btn"
+                onClick={handleStartText}
+                disabled={isConnecting}
+                title="Type instead of talking"
+                aria-label="Start a typed chat session"
+              >
+                <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+                  <rect x="1" y="4" width="14" height="9" rx="1.5" fill="none" stroke="currentColor" strokeWidth="1.5" />
+                  <rect x="3.5" y="9.5" width="9" height="1.5" />
+                </svg>
+              </button>
+            ) : null}
           </div>
+          {isReconnecting ? (
+            <p className="control-reconnecting" role="status">
+              Reconnecting…
+            </p>
+          ) : null}
           <div className="collapsed-mode-indicator">
             <span className={`collapsed-mode-badge mode-${instructionContext.mode}`}>
               {modeLabel}
@@ -230,7 +265,7 @@ export default function SessionControlBar() {
               <div className="control-buttons-horizontal">
                 <button
                   className={startButtonClass}
-                  onClick={isConnected ? handleStop : handleStart}
+                  onClick={isLive ? handleStop : handleStart}
                   disabled={isConnecting}
                 >
                   {isConnected ? (
@@ -240,12 +275,12 @@ export default function SessionControlBar() {
                       </svg>
                       <span>Stop session</span>
                     </>
-                  ) : isConnecting ? (
+                  ) : isConnecting || isReconnecting ? (
                     <>
                       <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor" className="connecting-spinner">
                         <circle cx="8" cy="8" r="6" stroke="currentColor" strokeWidth="2" fill="none" strokeDasharray="9.42 31.42" />
                       </svg>
-                      <span>Connecting...</span>
+                      <span>{isReconnecting ? "Reconnecting..." : "Connecting..."}</span>
                     </>
                   ) : (
                     <>
@@ -259,7 +294,7 @@ export default function SessionControlBar() {
                 <button
                   className={muteButtonClass}
                   onClick={toggleMute}
-                  disabled={!isConnected}
+                  disabled={!canMute}
                 >
                   {isMuted ? (
                     <>
@@ -278,7 +313,26 @@ export default function SessionControlBar() {
                     </>
                   )}
                 </button>
+                {!isLive ? (
+                  <button
+                    className="session-action-btn session-text-btn"
+                    onClick={handleStartText}
+                    disabled={isConnecting}
+                  >
+                    <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+                      <rect x="1" y="4" width="14" height="9" rx="1.5" fill="none" stroke="currentColor" strokeWidth="1.5" />
+                      <rect x="3.5" y="9.5" width="9" height="1.5" />
+                    </svg>
+                    <span>Type instead</span>
+                  </button>
+                ) : null}
               </div>
+              {isReconnecting ? (
+                <p className="control-reconnecting" role="status">
+                  {statusMessage ?? "Reconnecting…"}. Your transcript is kept and the assistant
+                  picks up where it left off.
+                </p>
+              ) : null}
               <div className="summary-rings">
                 <LevelRing
                   label="Mic"
@@ -0,0 +1,80 @@
+"use client";
+
+import { useQuery } from "convex/react";
+
+import { api } from "@/convex/_generated/api";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+
+type RecapField = "decisions" | "newMaterial" | "openTodos" | "nextQuestions";
+
+const RECAP_SECTIONS: Array<{ key: RecapField; label: string }> = [
+  { key: "decisions", label: "Decisions" },
+  { key: "newMaterial", label: "New material" },
+  { key: "openTodos", label: "Open TODOs" },
+  { key: "nextQuestions", label: "Next questions" },
+];
+
+const formatSessionDate = (timestamp: number) =>
+  new Intl.DateTimeFormat(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(timestamp);
+
+const formatDuration = (session: Doc<"sessions">) => {
+  if (!session.endedAt) return null;
+  const minutes = Math.max(1, Math.round((session.endedAt - session.startedAt) / 60_000));
+  return `${minutes} min`;
+};
+
+export default function SessionRecapTimeline({ projectId }: { projectId: Id<"projects"> }) {
+  const sessions = useQuery(api.recaps.listForProject, { projectId });
+
+  return (
+    <section className="panel recap-panel">
+      <div className="panel-header">
+        <h2>Session recaps</h2>
+      </div>
+      <p className="panel-description">
+        A recap is generated automatically when each session ends.
+      </p>
+      {sessions === undefined ? (
+        <p className="empty-state">Loading recaps…</p>
+      ) : sessions.length === 0 ? (
+        <p className="empty-state">No recaps yet. End a session to generate the first one.</p>
+      ) : (
+        <ol className="recap-timeline">
+          {sessions.map((session) => {
+            const recap = session.recap!;
+            const duration = formatDuration(session);
+            return (
+              <li key={session._id} className="recap-entry">
+                <div className="recap-meta">
+                  <strong>{formatSessionDate(session.startedAt)}</strong>
+                  {duration ? <span>{duration}</span> : null}
+                  {recap.source === "heuristic" ? (
+                    <span className="metric-chip">Auto-assembled</span>
+                  ) : null}
+                </div>
+                {RECAP_SECTIONS.filter((section) => recap[section.key].length > 0).map(
+                  (section) => (
+                    <div key={section.key} className="recap-section">
+                      <h3>{section.label}</h3>
+                      <ul>
+                        {recap[section.key].map((item, index) => (
+                          <li key={index}>{item}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  ),
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { DEFAULT_BANNED_PHRASES, parsePhraseList } from "@/convex/lib/styleLint";
+
+export default function StyleLintPanel({ projectId }: { projectId: Id<"projects"> }) {
+  const bundle = useQuery(api.projects.getProject, { projectId });
+  const results = useQuery(api.styleLint.listForProject, { projectId });
+  const setBannedPhrases = useMutation(api.styleLint.setBannedPhrases);
+
+  const project = bundle?.project ?? null;
+  const savedText = (project?.styleBannedPhrases ?? []).join("\n");
+  const [phrasesText, setPhrasesText] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPhrasesText(savedText);
+  }, [savedText]);
+
+  if (!bundle || !project) {
+    return null;
+  }
+
+  const canEdit = bundle.role === "owner" || bundle.role === "editor";
+  const dirty = parsePhraseList(phrasesText).join("\n") !== savedText;
+  const failing = (results ?? []).filter((result) => !result.passed);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await setBannedPhrases({ projectId, phrases: parsePhraseList(phrasesText) });
+    } catch (saveError) {
+      console.error("Failed to update banned phrases", saveError);
+      setError(saveError instanceof Error ? saveError.message : "Update failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="panel">
+      <div className="panel-header">
+        <h2>Style check</h2>
+      </div>
+      <p className="panel-description">
+        Every drafted section is scored against the voice guardrails and a list of stock phrases.
+        Sections that fail are marked as needing detail and get a TODO.
+      </p>
+      <div className="project-meta">
+        <label>
+          <span>Extra banned phrases (one per line)</span>
+          <textarea
+            rows={4}
+            value={phrasesText}
+            onChange={(event) => setPhrasesText(event.target.value)}
+            placeholder="circle back"
+            disabled={!canEdit || saving}
+          />
+        </label>
+      </div>
+      <p className="project-hint">
+        Always banned: {DEFAULT_BANNED_PHRASES.slice(0, 4).join(", ")} and{" "}
+        {DEFAULT_BANNED_PHRASES.length - 4} more.
+      </p>
+      {canEdit ? (
+        <div className="todo-actions">
+          <button
+            type="button"
+            className="text-button"
+            onClick={handleSave}
+            disabled={!dirty || saving}
+          >
+            {saving ? "Saving…" : "Save"}
+          </button>
+        </div>
+      ) : null}
+      {error ? (
+        <p className="members-error" role="alert">
+          {error}
+        </p>
+      ) : null}
+      {results === undefined ? null : failing.length === 0 ? (
+        <p className="project-hint">
+          {results.length === 0
+            ? "No drafted sections checked yet."
+            : "Every recently drafted section passed."}
+        </p>
+      ) : (
+        <ul className="style-lint-list">
+          {failing.map((result) => (
+            <li key={result._id} className="style-lint-item">
+              <div className="revision-meta">
+                <a href={`#section-${result.sectionId}`}>{result.heading}</a>
+                <span className="metric-chip">{result.score}/100</span>
+              </div>
+              <ul>
+                {result.findings.map((finding, index) => (
+                  <li key={index} className={`style-lint-finding ${finding.severity}`}>
+                    {finding.message}
+                    {finding.excerpt ? <q>{finding.excerpt}</q> : null}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useRef, useState, type FormEvent } from "react";
+
+import { useRealtimeSessionContext } from "./RealtimeSessionProvider";
+
+/** Transcript and composer for typed-chat sessions; renders nothing during voice sessions. */
+export default function TextChatPanel() {
+  const { status, transport, transcripts, sendTextMessage, error } = useRealtimeSessionContext();
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const logRef = useRef<HTMLOListElement>(null);
+
+  const isOpen = transport === "text" && status === "connected";
+  const awaitingReply = transcripts.at(-1)?.speaker === "user" && !error;
+
+  useEffect(() => {
+    const log = logRef.current;
+    if (log) log.scrollTop = log.scrollHeight;
+  }, [transcripts.length]);
+
+  if (transport !== "text" || status === "idle") return null;
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const message = draft.trim();
+    if (!message || sending) return;
+    setSending(true);
+    setSendError(null);
+    try {
+      await sendTextMessage(message);
+      setDraft("");
+    } catch (sendFailure) {
+      console.error("Failed to send chat message", sendFailure);
+      setSendError(sendFailure instanceof Error ? sendFailure.message : "Message not sent");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <section className="panel text-chat-panel">
+      <div className="panel-header">
+        <h2>Chat</h2>
+        <span className="metric-chip subtle">{isOpen ? "Typing mode" : "Session ended"}</span>
+      </div>
+      {transcripts.length === 0 ? (
+        <p className="empty-state">Say hello to start. Everything you type is saved to the transcript.</p>
+      ) : (
+        <ol ref={logRef} className="text-chat-log">
+          {transcripts.map((entry) => (
+            <li key={entry.id} className={`transcript-line ${entry.speaker}`}>
+              <span className="revision-meta">
+                <span>{entry.speaker === "assistant" ? "Assistant" : "You"}</span>
+              </span>
+              <p>{entry.text}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+      {awaitingReply && isOpen ? <p className="project-hint">Assistant is replying…</p> : null}
+      {sendError ? (
+        <p className="members-error" role="alert">
+          {sendError}
+        </p>
+      ) : null}
+      <form className="text-chat-composer" onSubmit={handleSubmit}>
+        <textarea
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter" && !event.shiftKey) {
+              event.preventDefault();
+              event.currentTarget.form?.requestSubmit();
+            }
+          }}
+          placeholder="Type a message — Enter to send, Shift+Enter for a new line"
+          rows={2}
+          disabled={!isOpen}
+        />
+        <button type="submit" className="primary" disabled={!isOpen || sending || !draft.trim()}>
+          Send
+        </button>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useAction, useQuery } from "convex/react";
+
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import type { ReplayReport } from "@/convex/tools";
+
+const formatTime = (timestamp: number) =>
+  new Intl.DateTimeFormat(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).format(timestamp);
+
+const prettyJson = (text: string | undefined) => {
+  if (!text) return "—";
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+};
+
+export default function ToolCallLogPanel({ sessionId }: { sessionId: Id<"sessions"> }) {
+  const calls = useQuery(api.toolCalls.listForSession, { sessionId });
+  const replaySession = useAction(api.tools.replaySession);
+  const [replaying, setReplaying] = useState(false);
+  const [report, setReport] = useState<ReplayReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReplay = async () => {
+    if (replaying) return;
+    setReplaying(true);
+    setError(null);
+    try {
+      setReport(await replaySession({ sessionId }));
+    } catch (replayError) {
+      console.error("Failed to replay tool calls", replayError);
+      setError(replayError instanceof Error ? replayError.message : "Replay failed");
+    } finally {
+      setReplaying(false);
+    }
+  };
+
+  return (
+    <section className="panel tool-log-panel">
+      <div className="panel-header">
+        <h2>Tool calls</h2>
+        <button
+          type="button"
+          onClick={handleReplay}
+          disabled={replaying || !calls || calls.length === 0}
+        >
+          {replaying ? "Replaying…" : "Replay in a fresh project"}
+        </button>
+      </div>
+      <p className="panel-description">
+        Every tool the assistant called in this session, with the arguments it sent, what the
+        router made of them, and what came back. Replaying runs the same calls in order against a
+        new copy of the project, leaving this one untouched.
+      </p>
+      {error ? (
+        <p className="members-error" role="alert">
+          {error}
+        </p>
+      ) : null}
+      {report ? (
+        <div className="tool-log-report">
+          <p>
+            Replayed {report.steps.length} call{report.steps.length === 1 ? "" : "s"}
+            {report.diverged > 0
+              ? `; ${report.diverged} did not match the recording.`
+              : " with the same results as the recording."}{" "}
+            <Link href={`/projects/${report.projectId}/sessions/${report.sessionId}`}>
+              Open the replay
+            </Link>
+          </p>
+          {report.diverged > 0 ? (
+            <ul>
+              {report.steps
+                .filter((step) => step.success !== step.recordedSuccess)
+                .map((step) => (
+                  <li key={step.toolCallId}>
+                    <code>{step.name}</code>{" "}
+                    {step.success === null
+                      ? "was skipped"
+                      : step.success
+                        ? "succeeded this time"
+                        : "failed this time"}
+                    {step.error ? `: ${step.error}` : ""}
+                  </li>
+                ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+      {calls === undefined ? (
+        <p className="empty-state">Loading tool calls…</p>
+      ) : calls.length === 0 ? (
+        <p className="empty-state">No tool calls recorded for this session.</p>
+      ) : (
+        <ol className="tool-log-list">
+          {calls.map((call) => (
+            <li key={call._id} className={`tool-log-item ${call.success ? "" : "failed"}`}>
+              <div className="revision-meta">
+                <strong>{call.name}</strong>
+                <span className="metric-chip subtle">{call.success ? "ok" : "failed"}</span>
+                <span>{call.latencyMs} ms</span>
+                <span>{formatTime(call.createdAt)}</span>
+                {call.replayOf ? <span>replay</span> : null}
+              </div>
+              {call.error ? <p className="tool-log-error">{call.error}</p> : null}
+              <details>
+                <summary>Details</summary>
+                <h3>Raw arguments</h3>
+                <pre>{prettyJson(call.rawArguments)}</pre>
+                <h3>Coerced arguments</h3>
+                <pre>{prettyJson(call.arguments)}</pre>
+                {call.success ? (
+                  <>
+                    <h3>Result</h3>
+                    <pre>{prettyJson(call.result)}</pre>
+                  </>
+                ) : null}
+              </details>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
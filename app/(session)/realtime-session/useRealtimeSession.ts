@@ -1,7 +1,7 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { useConvex, useMutation } from "convex/react";
+import { useAction, useConvex, useMutation } from "convex/react";
 
 import {
   AudioLevelMonitor,
@@ -17,6 +17,7 @@ import {
   createPeerConnection,
   getTurnDetectionConfig,
 } from "@/lib/realtimeAudio";
+import { useAuthSession } from "@/components/auth";
 import { api } from "@/convex/_generated/api";
 import type { Doc, Id } from "@/convex/_generated/dataModel";
 import {
@@ -32,9 +33,32 @@ import {
 } from "@/lib/realtimeInstructions";
 import { getToolsForMode } from "@/lib/realtimeTools";
 import {
-  REQUIRED_BLUEPRINT_FIELDS,
-  blueprintFieldHasValue,
-} from "@/lib/projects";
+  DISCONNECT_GRACE_MS,
+  RECONNECT_DELAYS_MS,
+  buildResumeMessage,
+  reconnectDelayFor,
+} from "@/lib/realtimeReconnect";
+import {
+  TextChatChannel,
+  type ChatInputItem,
+  type ChatResponse,
+} from "@/lib/textChatChannel";
+import {
+  SessionRecorder,
+  audioOffsetFor,
+  isRecordingSupported,
+  type RecordedChunk,
+} from "@/lib/sessionRecording";
+import {
+  BACKGROUND_TOOLS,
+  acknowledgeToolCall,
+  makeProjectListResult,
+  normalizeToolName,
+  prepareToolCall,
+  type ProjectToolResult,
+  type ToolName,
+  type ToolOutcome,
+} from "@/convex/lib/toolRouter";
 
 const randomId = () =>
   typeof crypto !== "undefined" && "randomUUID" in crypto
@@ -46,6 +70,7 @@ export type SessionStatus =
   | "requesting-permissions"
   | "connecting"
   | "connected"
+  | "reconnecting"
   | "ended"
   | "error";
 
@@ -69,9 +94,13 @@ type SessionBootstrap = {
   language: string | null;
 };
 
+// "text" sessions are typed: no microphone or WebRTC, replies come from /api/chat.
+export type SessionTransport = "voice" | "text";
+
 export type StartSessionOptions = {
   projectId?: Id<"projects">;
   deferProject?: boolean;
+  transport?: SessionTransport;
 };
 
 type ServerMessage = {
@@ -111,6 +140,7 @@ export interface RealtimeSessionState {
   status: SessionStatus;
   statusMessage: string | null;
   isConnected: boolean;
+  transport: SessionTransport;
   startSession: (options?: StartSessionOptions) => Promise<void>;
   stopSession: (reason?: string) => Promise<void>;
   refreshDevices: () => Promise<void>;
@@ -225,17 +255,6 @@ type DraftProgressState = {
   updatedAt: number | null;
 };
 
-type NoteTypeValue = "fact" | "story" | "style" | "voice" | "todo" | "summary";
-type TodoStatusValue = "open" | "in_review" | "resolved";
-type DocumentSectionStatus = "drafting" | "needs_detail" | "complete";
-
-const normalizeToolName = (value: string): string =>
-  value
-    .trim()
-    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
-    .replace(/[\s-]+/g, "_")
-    .toLowerCase();
-
 const TOOLS_ALLOWING_EMPTY_ARGS = new Set([
   "list_projects",
   "queue_draft_update",
@@ -425,19 +444,6 @@ const safeJsonStringify = (value: unknown) => {
   }
 };
 
-const clampInteger = (
-  value: unknown,
-  fallback: number,
-  minimum: number,
-  maximum: number,
-): number => {
-  if (typeof value !== "number" || !Number.isFinite(value)) {
-    return fallback;
-  }
-  const integer = Math.floor(value);
-  return Math.min(maximum, Math.max(minimum, integer));
-};
-
 const coerceOptionalString = (
   value: unknown,
 ): string | null | undefined => {
@@ -465,316 +471,13 @@ const coerceOptionalString = (
   return undefined;
 };
 
-const coerceStringArray = (value: unknown): string[] | null => {
-  if (typeof value === "undefined" || value === null) return null;
-  if (Array.isArray(value)) {
-    const entries = value
-      .map((entry) => coerceOptionalString(entry))
-      .filter((entry): entry is string => typeof entry === "string");
-    return entries.length > 0 ? entries : null;
-  }
-  if (typeof value === "string") {
-    const trimmed = value.trim();
-    if (!trimmed) return null;
-    try {
-      const parsed = JSON.parse(trimmed);
-      if (Array.isArray(parsed)) {
-        const entries = parsed
-          .map((entry) => coerceOptionalString(entry))
-          .filter((entry): entry is string => typeof entry === "string");
-        return entries.length > 0 ? entries : null;
-      }
-    } catch (error) {
-      // ignore JSON parse error; treat as raw string
-    }
-    return [trimmed];
-  }
-  return null;
-};
-
-const coercePromptContext = (value: unknown): unknown => {
-  if (typeof value === "undefined" || value === null) return undefined;
-  if (typeof value === "string") {
-    const trimmed = value.trim();
-    if (!trimmed) return undefined;
-    try {
-      return JSON.parse(trimmed);
-    } catch (error) {
-      return trimmed;
-    }
-  }
-  if (typeof value === "object") {
-    return value;
-  }
-  return value;
-};
-
-const coerceIdString = (value: unknown): string | null => {
-  if (typeof value === "string") {
-    const trimmed = value.trim();
-    return trimmed.length > 0 ? trimmed : null;
-  }
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return String(value);
-  }
-  if (typeof value === "bigint") {
-    return value.toString();
-  }
-  return null;
-};
-
-const NOTE_TYPE_VALUES = new Set<NoteTypeValue>([
-  "fact",
-  "story",
-  "style",
-  "voice",
-  "todo",
-  "summary",
-]);
-
-const TODO_STATUS_VALUES = new Set<TodoStatusValue>([
-  "open",
-  "in_review",
-  "resolved",
-]);
-
-const SECTION_STATUS_VALUES = new Set<DocumentSectionStatus>([
-  "drafting",
-  "needs_detail",
-  "complete",
-]);
-
-const coerceNoteTypeValue = (value: unknown): NoteTypeValue | null => {
-  if (typeof value !== "string") return null;
-  const normalized = value.trim().toLowerCase() as NoteTypeValue;
-  return NOTE_TYPE_VALUES.has(normalized) ? normalized : null;
-};
-
-const coerceTodoStatusValue = (value: unknown): TodoStatusValue | null => {
-  if (typeof value !== "string") return null;
-  const normalized = value.trim().toLowerCase() as TodoStatusValue;
-  return TODO_STATUS_VALUES.has(normalized) ? normalized : null;
-};
-
-const coerceSectionStatusValue = (
-  value: unknown,
-): DocumentSectionStatus | undefined => {
-  if (typeof value !== "string") return undefined;
-  const normalized = value.trim().toLowerCase() as DocumentSectionStatus;
-  return SECTION_STATUS_VALUES.has(normalized) ? normalized : undefined;
-};
-
-type DocumentEditSectionPayload = {
-  heading: string;
-  content: string;
-  status?: DocumentSectionStatus;
-  order?: number;
-};
-
-const coerceDocumentSectionsPayload = (
-  value: unknown,
-): DocumentEditSectionPayload[] => {
-  if (!Array.isArray(value)) return [];
-  const sections: DocumentEditSectionPayload[] = [];
-  for (const entry of value) {
-    if (!isRecord(entry)) continue;
-    const headingValue = coerceOptionalString(entry.heading);
-    if (typeof headingValue !== "string" || headingValue.length === 0) {
-      continue;
-    }
-    const contentValue = coerceOptionalString(entry.content);
-    const statusValue = coerceSectionStatusValue(entry.status);
-    const orderValue =
-      typeof entry.order === "number" && Number.isFinite(entry.order)
-        ? entry.order
-        : undefined;
-    sections.push({
-      heading: headingValue,
-      content: typeof contentValue === "string" ? contentValue : "",
-      status: statusValue,
-      order: orderValue,
-    });
-  }
-  return sections;
-};
-
-const findIdInValue = (
-  value: unknown,
-  visited: WeakSet<object>,
-): string | null => {
-  const direct = coerceIdString(value);
-  if (direct) return direct;
-
-  if (Array.isArray(value)) {
-    for (const entry of value) {
-      const candidate = findIdInValue(entry, visited);
-      if (candidate) {
-        return candidate;
-      }
-    }
-    return null;
-  }
-
-  if (isRecord(value)) {
-    return extractIdFromRecord(value, visited);
-  }
-
-  return null;
-};
-
-const extractIdFromRecord = (
-  record: Record<string, unknown>,
-  visited: WeakSet<object>,
-): string | null => {
-  if (visited.has(record)) return null;
-  visited.add(record);
-
-  const idKeys = [
-    "projectId",
-    "project_id",
-    "projectID",
-    "id",
-    "_id",
-    "documentId",
-    "docId",
-    "valueId",
-    "value_id",
-  ];
-
-  for (const key of idKeys) {
-    if (!(key in record)) continue;
-    const candidate = findIdInValue(record[key], visited);
-    if (candidate) return candidate;
-  }
-
-  const containerKeys = [
-    "project",
-    "selection",
-    "selected",
-    "target",
-    "data",
-    "payload",
-    "item",
-    "value",
-    "values",
-    "option",
-    "options",
-  ];
-
-  for (const key of containerKeys) {
-    if (!(key in record)) continue;
-    const candidate = findIdInValue(record[key], visited);
-    if (candidate) return candidate;
-  }
-
-  for (const value of Object.values(record)) {
-    const candidate = findIdInValue(value, visited);
-    if (candidate) return candidate;
-  }
-
-  return null;
-};
-
 type ProjectDoc = Doc<"projects">;
 type BlueprintDoc = Doc<"projectBlueprints">;
 
-type ProjectToolResult = {
-  projectId: string;
-  project?: ProjectDoc;
-  blueprint?: BlueprintDoc | null;
-  summary?: {
-    status: string;
-    missingFields: string[];
-    updatedAt?: number;
-  };
-};
-
-const summarizeBlueprint = (blueprint: BlueprintDoc | null | undefined) => {
-  if (!blueprint) {
-    return {
-      status: "missing",
-      missingFields: [...REQUIRED_BLUEPRINT_FIELDS],
-    };
-  }
-
-  const missingFields = REQUIRED_BLUEPRINT_FIELDS.filter(
-    (field) => !blueprintFieldHasValue(blueprint, field),
-  );
-
-  return {
-    status: blueprint.status ?? "draft",
-    missingFields,
-    updatedAt: blueprint.updatedAt,
-  };
-};
-
-const makeProjectToolResult = ({
-  project,
-  blueprint,
-  fallbackId,
-}: {
-  project?: ProjectDoc | null;
-  blueprint?: BlueprintDoc | null;
-  fallbackId?: string | Id<"projects"> | null;
-}): ProjectToolResult => {
-  const projectId =
-    project?._id ??
-    (typeof fallbackId === "string" ? fallbackId : fallbackId ?? undefined) ??
-    (blueprint?.projectId as string | undefined);
-
-  if (!projectId) {
-    throw new Error("Unable to determine projectId for tool result");
-  }
-
-  return {
-    projectId,
-    project: project ?? undefined,
-    blueprint: typeof blueprint === "undefined" ? undefined : blueprint ?? null,
-    summary:
-      typeof blueprint === "undefined"
-        ? undefined
-        : summarizeBlueprint(blueprint ?? null),
-  };
-};
-
-const makeProjectListResult = (
-  entries: Array<{ project: ProjectDoc; blueprint: BlueprintDoc | null }>,
-): ProjectToolResult[] => entries.map((entry) => makeProjectToolResult(entry));
-
-type VoiceGuardrailsValue = {
-  tone?: string;
-  structure?: string;
-  content?: string;
-};
-
-const coerceVoiceGuardrailsValue = (
-  value: unknown,
-): VoiceGuardrailsValue | null | undefined => {
-  if (typeof value === "undefined") return undefined;
-  if (value === null) return null;
-  if (typeof value === "string") {
-    const trimmed = value.trim();
-    return trimmed ? { tone: trimmed } : null;
-  }
-  if (!isRecord(value)) return null;
-
-  const guardrails: VoiceGuardrailsValue = {};
-  if (typeof value.tone === "string" && value.tone.trim()) {
-    guardrails.tone = value.tone.trim();
-  }
-  if (typeof value.structure === "string" && value.structure.trim()) {
-    guardrails.structure = value.structure.trim();
-  }
-  if (typeof value.content === "string" && value.content.trim()) {
-    guardrails.content = value.content.trim();
-  }
-
-  return Object.keys(guardrails).length > 0 ? guardrails : null;
-};
-
 export function useRealtimeSession(): RealtimeSessionState {
   const [status, setStatus] = useState<SessionStatus>("idle");
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [transport, setTransport] = useState<SessionTransport>("voice");
   const [error, setError] = useState<string | null>(null);
   const [inputDevices, setInputDevices] = useState<MediaDeviceInfo[]>([]);
   const [outputDevices, setOutputDevices] = useState<MediaDeviceInfo[]>([]);
@@ -819,13 +522,20 @@ export function useRealtimeSession(): RealtimeSessionState {
     useState<InstructionContext>({ mode: "intake" });
 
   const convex = useConvex();
+  const { fetchAccessToken } = useAuthSession();
   const audioElementRef = useRef<HTMLAudioElement | null>(null);
   const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
-  const dataChannelRef = useRef<RTCDataChannel | null>(null);
+  const dataChannelRef = useRef<RTCDataChannel | TextChatChannel | null>(null);
   const localStreamRef = useRef<MediaStream | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const micMonitorRef = useRef<AudioLevelMonitor | null>(null);
   const assistantMonitorRef = useRef<AudioLevelMonitor | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  // Uploads run one at a time so chunks land in order and stopping can wait for them.
+  const recordingUploadsRef = useRef<Promise<void>>(Promise.resolve());
+  // When the current user and assistant turns began, for their audio offsets.
+  const userTurnStartedAtRef = useRef<number | null>(null);
+  const assistantTurnStartedAtRef = useRef<number | null>(null);
   const userFragmentsRef = useRef<Map<string, string>>(new Map());
   const assistantFragmentsRef = useRef<Map<string, string>>(new Map());
   const persistedMessageIdsRef = useRef<Set<string>>(new Set());
@@ -838,6 +548,18 @@ export function useRealtimeSession(): RealtimeSessionState {
   const lastProjectResultsRef = useRef<ProjectToolResult[]>([]);
   const sessionIdRef = useRef<Id<"sessions"> | null>(null);
   const projectIdRef = useRef<Id<"projects"> | null>(null);
+  // Incremented whenever a peer connection is replaced or closed on purpose.
+  const connectionGenerationRef = useRef(0);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const disconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Connection event handlers outlive the render that created them, so they
+  // call through refs to reach the latest callbacks.
+  const handleConnectionLostRef = useRef<(reason: string) => void>(() => {});
+  const resumeConversationRef = useRef<() => Promise<void>>(async () => {});
+  const transportRef = useRef<SessionTransport>("voice");
+  // What /api/chat needs to build the same instructions session.update sends.
+  const textChatContextRef = useRef<Record<string, unknown>>({});
 
   const registerMessagePointer = useCallback(
     (pointer: string | null | undefined, messageId: Id<"messages">) => {
@@ -900,112 +622,18 @@ export function useRealtimeSession(): RealtimeSessionState {
   const setLanguagePreferenceMutation = useMutation(
     api.sessions.setLanguagePreference,
   );
-  const createProjectToolMutation = useMutation(api.projects.createProject);
-  const updateProjectMetadataMutation = useMutation(
-    api.projects.updateProjectMetadata,
-  );
-  const syncBlueprintFieldMutation = useMutation(
-    api.projects.syncBlueprintField,
-  );
-  const commitBlueprintMutation = useMutation(api.projects.commitBlueprint);
-  const recordTranscriptPointerMutation = useMutation(
-    api.projects.recordTranscriptPointer,
-  );
-  const createNoteMutation = useMutation(api.notes.createNote);
-  const updateTodoStatusMutation = useMutation(api.todos.updateStatus);
-  const applyDocumentEditsMutation = useMutation(api.documents.applyEdits);
-  const enqueueDraftUpdateMutation = useMutation(
-    api.documents.enqueueDraftUpdate,
-  );
+  const executeToolAction = useAction(api.tools.execute);
   const saveTranscriptChunkMutation = useMutation(
     api.projects.saveTranscriptChunk,
   );
   const finalizeProjectTranscriptMutation = useMutation(
     api.projects.finalizeTranscript,
   );
-
-const resolveProjectId = useCallback(
-  (args?: ToolCallArguments): string => {
-    const source = args ?? {};
-    const visited = new WeakSet<object>();
-    const direct = findIdInValue(source, visited);
-    if (direct) {
-      console.log("[realtime] resolveProjectId direct", { args: source, projectId: direct });
-      return direct;
-    }
-
-      const numericKeys = [
-        "index",
-        "projectIndex",
-        "selectionIndex",
-        "choice",
-        "option",
-      ];
-      for (const key of numericKeys) {
-        const value = source[key];
-        if (typeof value === "number" && Number.isFinite(value)) {
-          const index = Math.max(0, Math.floor(value));
-          const candidate = lastProjectResultsRef.current[index];
-          if (candidate) {
-            console.log("[realtime] resolveProjectId index match", {
-              key,
-              value,
-              projectId: candidate.projectId,
-              project: candidate.project?.title,
-            });
-            return candidate.projectId;
-          }
-        }
-      }
-
-      const stringKeys = [
-        "title",
-        "projectTitle",
-        "name",
-        "projectName",
-      ];
-      for (const key of stringKeys) {
-        const value = source[key];
-        if (typeof value === "string" && value.trim()) {
-          const lowered = value.trim().toLowerCase();
-          const titleMatch = lastProjectResultsRef.current.find((entry) => {
-            const title = entry.project?.title?.toLowerCase();
-            return title ? title === lowered || title.includes(lowered) : false;
-          });
-          if (titleMatch) {
-            console.log("[realtime] resolveProjectId title match", {
-              key,
-              value,
-              projectId: titleMatch.projectId,
-              project: titleMatch.project?.title,
-            });
-            return titleMatch.projectId;
-          }
-        }
-      }
-
-      const fallbackProjectId = sessionRecord?.projectId ?? projectIdRef.current;
-      if (fallbackProjectId) {
-        // Normal case: use active session project (no logging needed)
-        return fallbackProjectId;
-      }
-
-      if (lastProjectResultsRef.current.length > 0) {
-        const [first] = lastProjectResultsRef.current;
-        console.log("[realtime] resolveProjectId defaulting to first cached project", {
-          projectId: first.projectId,
-          project: first.project?.title,
-        });
-        return first.projectId;
-      }
-
-      console.warn("Tool call missing explicit projectId", source, {
-        lastProjects: lastProjectResultsRef.current,
-        sessionProjectId: sessionRecord?.projectId ?? null,
-      });
-      throw new Error("projectId is required");
-    },
-    [sessionRecord?.projectId],
+  const generateRecordingUploadUrlMutation = useMutation(
+    api.recordings.generateUploadUrl,
+  );
+  const saveRecordingChunkMutation = useMutation(
+    api.recordings.saveRecordingChunk,
   );
 
   const logConnection = useCallback((message: string) => {
@@ -1036,6 +664,68 @@ const resolveProjectId = useCallback(
     transcriptMessageIdsRef.current.clear();
     setPartialUserTranscript(null);
     setPartialAssistantTranscript(null);
+    userTurnStartedAtRef.current = null;
+    assistantTurnStartedAtRef.current = null;
+  }, []);
+
+  const uploadRecordingChunk = useCallback(
+    async (sessionId: Id<"sessions">, recordingStartedAt: number, chunk: RecordedChunk) => {
+      const uploadUrl = await generateRecordingUploadUrlMutation({ sessionId });
+      const response = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": chunk.mimeType },
+        body: chunk.blob,
+      });
+      if (!response.ok) {
+        throw new Error(`Recording upload failed (${response.status})`);
+      }
+      const { storageId } = (await response.json()) as { storageId: Id<"_storage"> };
+      await saveRecordingChunkMutation({
+        sessionId,
+        storageId,
+        sequence: chunk.sequence,
+        startOffsetMs: chunk.startOffsetMs,
+        durationMs: chunk.durationMs,
+        mimeType: chunk.mimeType,
+        recordingStartedAt,
+      });
+    },
+    [generateRecordingUploadUrlMutation, saveRecordingChunkMutation],
+  );
+
+  const startRecording = useCallback(
+    (sessionId: Id<"sessions">, micStream: MediaStream, context: AudioContext) => {
+      if (!isRecordingSupported()) {
+        logConnection("Audio recording not supported in this browser");
+        return;
+      }
+      try {
+        const recorder = new SessionRecorder(context, (chunk) => {
+          const recordingStartedAt = recorder.startedAt ?? Date.now();
+          recordingUploadsRef.current = recordingUploadsRef.current
+            .then(() => uploadRecordingChunk(sessionId, recordingStartedAt, chunk))
+            .catch((uploadError) => {
+              console.error("[recording] failed to upload chunk", uploadError, {
+                sequence: chunk.sequence,
+              });
+            });
+        });
+        recorder.start(micStream);
+        recorderRef.current = recorder;
+        logConnection("Recording session audio");
+      } catch (recordingError) {
+        console.warn("[recording] could not start; continuing without audio", recordingError);
+      }
+    },
+    [logConnection, uploadRecordingChunk],
+  );
+
+  const stopRecording = useCallback(async () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    if (!recorder) return;
+    await recorder.stop();
+    await recordingUploadsRef.current;
   }, []);
 
   const registerAudioElement = useCallback(
@@ -1145,6 +835,10 @@ const resolveProjectId = useCallback(
       const sessionIdValue = sessionRecord?.sessionId ?? sessionIdRef.current;
       if (sessionIdValue) {
         try {
+          const turnStartedAt =
+            speaker === "user"
+              ? userTurnStartedAtRef.current
+              : assistantTurnStartedAtRef.current;
           const persisted = await appendMessageMutation({
             sessionId: sessionIdValue,
             speaker,
@@ -1154,6 +848,10 @@ const resolveProjectId = useCallback(
             itemId: options?.itemId ?? key,
             role: options?.itemType ?? speaker,
             text: conversationText || text,
+            audioOffsetMs: audioOffsetFor(
+              recorderRef.current?.startedAt ?? null,
+              Math.min(turnStartedAt ?? message.timestamp, message.timestamp),
+            ),
           });
           if (persisted?.messageId) {
             registerMessagePointer(key, persisted.messageId);
@@ -1243,15 +941,32 @@ const resolveProjectId = useCallback(
   );
 
 
-  const tearDownConnection = useCallback(async () => {
+  // Closes the peer connection and data channel but leaves the microphone and
+  // recorder running. Bumping the generation makes the old connection's
+  // event handlers ignore the close.
+  const closeRealtimeTransport = useCallback(() => {
+    connectionGenerationRef.current += 1;
+    if (disconnectTimerRef.current) {
+      clearTimeout(disconnectTimerRef.current);
+      disconnectTimerRef.current = null;
+    }
     dataChannelRef.current?.close();
     dataChannelRef.current = null;
+    peerConnectionRef.current?.close();
+    peerConnectionRef.current = null;
+  }, []);
 
+  const tearDownConnection = useCallback(async () => {
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    reconnectAttemptRef.current = 0;
+    await stopRecording();
     peerConnectionRef.current?.getSenders().forEach((sender) => {
       sender.track?.stop();
     });
-    peerConnectionRef.current?.close();
-    peerConnectionRef.current = null;
+    closeRealtimeTransport();
 
     localStreamRef.current?.getTracks().forEach((track) => track.stop());
     localStreamRef.current = null;
@@ -1260,7 +975,7 @@ const resolveProjectId = useCallback(
     resetFragments();
     setVoiceActivity({ user: false, assistant: false });
     setIsMuted(false);
-  }, [resetFragments, resetMonitors]);
+  }, [closeRealtimeTransport, resetFragments, resetMonitors, stopRecording]);
 
 
   const stopSession = useCallback(
@@ -1756,719 +1471,117 @@ const resolveProjectId = useCallback(
         return false;
       }
 
-      const allowedTools = getToolsForMode(instructionContext.mode);
-      const allowedToolNames = new Set(
-        allowedTools.map((tool) => normalizeToolName(tool.name)),
-      );
+      const context = {
+        mode: instructionContext.mode,
+        sessionId: sessionRecord?.sessionId ?? sessionIdRef.current ?? undefined,
+        projectId: sessionRecord?.projectId ?? projectIdRef.current ?? undefined,
+        recentProjects: lastProjectResultsRef.current.map((entry) => ({
+          projectId: entry.projectId,
+          title: entry.project?.title,
+        })),
+      };
+      console.log(`[realtime] tool:${toolName}`, { args, mode: context.mode });
 
-      if (!allowedToolNames.has(toolName)) {
-        console.error(
-          `[realtime] TOOL BLOCKED: ${name} in ${instructionContext.mode} mode`,
-          {
+      // Drafting work is acknowledged straight away so the conversation keeps
+      // moving; the outcome follows as a TOOL_PROGRESS message. A call that
+      // cannot run takes the normal path, so the router logs the rejection.
+      const prepared = BACKGROUND_TOOLS.has(toolName as ToolName)
+        ? prepareToolCall(name, args, context)
+        : null;
+      if (prepared?.ok) {
+        const acknowledgement = acknowledgeToolCall(prepared.call, Date.now());
+        void (async () => {
+          let outcome: ToolOutcome;
+          try {
+            outcome = await executeToolAction({ name, arguments: args, ...context });
+          } catch (actionError) {
+            outcome = {
+              success: false,
+              error: actionError instanceof Error ? actionError.message : String(actionError),
+            };
+          }
+          if (outcome.success) {
+            await emitSystemJsonMessage("TOOL_PROGRESS", {
+              tool: name,
+              tool_call_id: toolCallId,
+              ...(outcome.result as Record<string, unknown>),
+              updatedAt: Date.now(),
+            });
+            return;
+          }
+          console.error(`[realtime] ${toolName} async failure`, outcome.error);
+          await emitSystemJsonMessage("TOOL_PROGRESS", {
             tool: name,
-            mode: instructionContext.mode,
-            allowedTools: allowedTools.map((t) => t.name),
-            args,
-          },
-        );
-        const reason =
-          instructionContext.mode === "ghostwriting"
-            ? `Tool "${name}" is disabled in ghostwriting mode. Use manage_outline for structure changes and queue_draft_update for content.`
-            : `Tool "${name}" is unavailable in ${instructionContext.mode} mode.`;
-        const submitted = await submitToolResult({
+            tool_call_id: toolCallId,
+            status: "error",
+            projectId: acknowledgement.projectId,
+            error: outcome.error,
+          });
+        })();
+        return submitToolResult({
           tool: name,
           tool_call_id: toolCallId,
           response_id: responseId,
-          success: false,
-          error: reason,
+          success: true,
+          result: acknowledgement,
         });
-        return submitted;
       }
 
-      let result: unknown = null;
-      let success = false;
-      let errorMessage: string | undefined;
-
-      const requireId = (value: unknown, field: string) => {
-        if (typeof value !== "string" || !value.trim()) {
-          throw new Error(`${field} is required`);
-        }
-        return value.trim();
-      };
-
+      let outcome: ToolOutcome;
       try {
-        switch (toolName) {
-          case "list_projects": {
-            console.log("[realtime] tool:list_projects", {
-              args,
-              mode: instructionContext.mode,
-              WARNING: instructionContext.mode === "ghostwriting"
-                ? "list_projects should NOT be called in ghostwriting mode!"
-                : null,
-            });
-            const limit = clampInteger(args.limit, 20, 1, 50);
-            const entries = await convex.query(api.projects.listProjects, {
-              limit,
-            });
-            const listResult = makeProjectListResult(entries);
-            lastProjectResultsRef.current = listResult;
-            result = listResult;
-            success = true;
-            break;
-          }
-          case "get_project": {
-            console.log("[realtime] tool:get_project", { args, rawArguments });
-            const projectId = resolveProjectId(args);
-            const entry = await convex.query(api.projects.getProject, {
-              projectId: projectId as Id<"projects">,
-            });
-            if (entry) {
-              const projectResult = makeProjectToolResult({
-                project: entry.project,
-                blueprint: entry.blueprint,
-              });
-              lastProjectResultsRef.current = [projectResult];
-              result = projectResult;
-            } else {
-              result = null;
-            }
-            success = true;
-            break;
-          }
-          case "create_project": {
-            console.log("[realtime] tool:create_project", { args });
-            const title = requireId(args.title, "title");
-            const contentType = requireId(args.contentType, "contentType");
-            const goalValue = coerceOptionalString(args.goal);
-            const created = await createProjectToolMutation({
-              title,
-              contentType,
-              goal: typeof goalValue === "string" ? goalValue : undefined,
-            });
-            const projectResult = makeProjectToolResult(created);
-            lastProjectResultsRef.current = [projectResult];
-            result = projectResult;
-            success = true;
-            break;
-          }
-          case "update_project_metadata": {
-            console.log("[realtime] tool:update_project_metadata", { args });
-            const projectId = resolveProjectId(args);
-            const updates: Parameters<
-              typeof updateProjectMetadataMutation
-            >[0] = {
-              projectId: projectId as Id<"projects">,
-            };
-            const titleValue = coerceOptionalString(args.title);
-            if (typeof titleValue === "string") {
-              updates.title = titleValue;
-            }
-            const contentTypeValue = coerceOptionalString(args.contentType);
-            if (typeof contentTypeValue === "string") {
-              updates.contentType = contentTypeValue;
-            }
-            const goalValue = coerceOptionalString(args.goal);
-            if (typeof goalValue === "string") {
-              updates.goal = goalValue;
-            }
-            const statusValue =
-              typeof args.status === "string" ? args.status.trim() : undefined;
-            if (
-              statusValue &&
-              ["draft", "active", "archived", "intake"].includes(statusValue)
-            ) {
-              updates.status = statusValue as Parameters<
-                typeof updateProjectMetadataMutation
-              >[0]["status"];
-            }
-            await updateProjectMetadataMutation(updates);
-            const entry = await convex.query(api.projects.getProject, {
-              projectId: projectId as Id<"projects">,
-            });
-            if (entry) {
-              const projectResult = makeProjectToolResult({
-                project: entry.project,
-                blueprint: entry.blueprint,
-              });
-              lastProjectResultsRef.current = [projectResult];
-              result = projectResult;
-            } else {
-              result = { projectId };
-            }
-            success = true;
-            break;
-          }
-          case "sync_blueprint_field": {
-            console.log("[realtime] tool:sync_blueprint_field", { args });
-            const projectId = resolveProjectId(args);
-            const field = requireId(args.field, "field");
-            let value: string | VoiceGuardrailsValue | null;
-            if (field === "voiceGuardrails") {
-              const guardrails = coerceVoiceGuardrailsValue(args.value);
-              value = typeof guardrails === "undefined" ? null : guardrails;
-            } else {
-              const stringValue = coerceOptionalString(args.value);
-            if (typeof stringValue === "undefined") {
-              throw new Error("value is required for sync_blueprint_field");
-            }
-            value = stringValue ?? null;
-            }
-            const messagePointer = coerceIdString(args.messageId);
-            let messageId =
-              messagePointer
-                ? resolveMessagePointer(messagePointer) ?? undefined
-                : undefined;
-            if (!messageId) {
-              const transcriptPointer = coerceIdString(args.transcriptId);
-              if (transcriptPointer) {
-                messageId = resolveMessagePointer(transcriptPointer) ?? undefined;
-              }
-            }
-
-            const syncArgs: Parameters<typeof syncBlueprintFieldMutation>[0] = {
-              projectId: projectId as Id<"projects">,
-              field: field as Parameters<
-                typeof syncBlueprintFieldMutation
-              >[0]["field"],
-              value: value as Parameters<typeof syncBlueprintFieldMutation>[0]["value"],
-            };
-            if (sessionRecord?.sessionId) {
-              syncArgs.sessionId = sessionRecord.sessionId;
-            }
-            if (messageId) {
-              syncArgs.messageId = messageId;
-            }
-            await syncBlueprintFieldMutation(syncArgs);
-            const entry = await convex.query(api.projects.getProject, {
-              projectId: projectId as Id<"projects">,
-            });
-            if (entry) {
-              const projectResult = makeProjectToolResult({
-                project: entry.project,
-                blueprint: entry.blueprint,
-              });
-              lastProjectResultsRef.current = [projectResult];
-              result = projectResult;
-            } else {
-              result = { projectId };
-            }
-            success = true;
-            break;
-          }
-          case "commit_blueprint": {
-            console.log("[realtime] tool:commit_blueprint", { args });
-            const projectId = resolveProjectId(args);
-            const committed = await commitBlueprintMutation({
-              projectId: projectId as Id<"projects">,
-              sessionId: sessionRecord?.sessionId,
-            });
-            const projectResult = makeProjectToolResult(committed);
-            lastProjectResultsRef.current = [projectResult];
-            result = projectResult;
-            success = true;
-            break;
-          }
-          case "assign_project_to_session": {
-            console.log("[realtime] tool:assign_project_to_session", { args });
-            const projectId = resolveProjectId(args) as Id<"projects">;
-            await assignProjectToSession(projectId);
-            result = { projectId };
-            success = true;
-            break;
-          }
-          case "list_notes": {
-            console.log("[realtime] tool:list_notes", { args });
-            const projectId = resolveProjectId(args);
-            const limitValue =
-              typeof args.limit === "number"
-                ? clampInteger(args.limit, 20, 1, 100)
-                : undefined;
-            const notes = await convex.query(api.notes.listForProject, {
-              projectId: projectId as Id<"projects">,
-              limit: limitValue,
-            });
-            result = notes;
-            success = true;
-            break;
-          }
-          case "list_todos": {
-            console.log("[realtime] tool:list_todos", { args });
-            const projectId = resolveProjectId(args);
-            const todos = await convex.query(api.todos.listForProject, {
-              projectId: projectId as Id<"projects">,
-            });
-            result = todos;
-            success = true;
-            break;
-          }
-          case "create_note": {
-            console.log("[realtime] tool:create_note", { args });
-            const projectId = resolveProjectId(args) as Id<"projects">;
-            const noteTypeValue = coerceNoteTypeValue(
-              (args.noteType ?? args.type) as unknown,
-            );
-            if (!noteTypeValue) {
-              throw new Error(
-                "noteType must be one of fact, story, style, voice, todo, summary",
-              );
-            }
-            const contentValue = coerceOptionalString(args.content);
-            if (typeof contentValue !== "string") {
-              throw new Error("content is required for create_note");
-            }
-
-            // GRACEFUL TRANSCRIPT ANCHORING:
-            // Only include message IDs that are explicitly mapped
-            // If transcript IDs haven't been persisted yet, skip them silently
-            const messageIds = new Set<Id<"messages">>();
-            const unresolvedIds: string[] = [];
-
-            const pushMessageId = (value: unknown) => {
-              const idString = coerceIdString(value);
-              if (idString) {
-                const mapped = resolveMessagePointer(idString);
-                if (mapped) {
-                  messageIds.add(mapped);
-                } else {
-                  unresolvedIds.push(idString);
-                }
-              }
-            };
-
-            if (Array.isArray(args.messageIds)) {
-              for (const entry of args.messageIds as unknown[]) {
-                pushMessageId(entry);
-              }
-            }
-            pushMessageId(args.messageId);
-
-            const mapTranscript = (raw: unknown) => {
-              const idString = coerceIdString(raw);
-              if (!idString) return;
-              const mapped = resolveMessagePointer(idString);
-              if (mapped) {
-                messageIds.add(mapped);
-              } else {
-                unresolvedIds.push(idString);
-              }
-            };
-
-            if (Array.isArray(args.transcriptIds)) {
-              for (const entry of args.transcriptIds as unknown[]) {
-                mapTranscript(entry);
-              }
-            }
-            mapTranscript(args.transcriptId);
-
-            // Log warning but don't fail - transcript IDs are async
-            if (unresolvedIds.length > 0) {
-              console.warn(
-                `[realtime] create_note: ${unresolvedIds.length} transcript IDs not yet persisted (will be linked later)`,
-                { unresolvedIds: unresolvedIds.slice(0, 3) },
-              );
-            }
-
-            const confidenceValue =
-              typeof args.confidence === "number" &&
-              Number.isFinite(args.confidence)
-                ? args.confidence
-                : undefined;
-            const resolvedFlag =
-              typeof args.resolved === "boolean" ? args.resolved : undefined;
-            const todoStatusValue = coerceTodoStatusValue(
-              args.todoStatus ?? args.status,
-            );
-
-            // Only pass sourceMessageIds if we have valid ones
-            const created = await createNoteMutation({
-              projectId,
-              sessionId:
-                sessionRecord?.sessionId ?? sessionIdRef.current ?? undefined,
-              noteType: noteTypeValue,
-              content: contentValue,
-              sourceMessageIds:
-                messageIds.size > 0 ? Array.from(messageIds) : undefined,
-              confidence: confidenceValue,
-              resolved: resolvedFlag,
-              todoStatus: todoStatusValue ?? undefined,
-            });
-            result = created;
-            success = true;
-            break;
-          }
-          case "update_todo_status": {
-            console.log("[realtime] tool:update_todo_status", { args });
-            const todoIdString = coerceIdString(args.todoId ?? args.id);
-            if (!todoIdString) {
-              throw new Error("todoId is required");
-            }
-            const statusValue = coerceTodoStatusValue(args.status);
-            if (!statusValue) {
-              throw new Error("status must be open, in_review, or resolved");
-            }
-            const updatedTodo = await updateTodoStatusMutation({
-              todoId: todoIdString as Id<"todos">,
-              status: statusValue,
-            });
-            result = updatedTodo;
-            success = true;
-            break;
-          }
-          case "record_transcript_pointer": {
-            const projectId = resolveProjectId(args) as Id<"projects">;
-            const sessionIdValue =
-              sessionRecord?.sessionId ?? sessionIdRef.current;
-            if (!sessionIdValue) {
-              throw new Error("Session id required for record_transcript_pointer");
-            }
-            let messageId: Id<"messages"> | null = null;
-            let itemPointer: string | null = null;
-            const argRecord = args as Record<string, unknown>;
-
-            const pointerCandidates = new Set<string>();
-            const pushCandidate = (value: unknown) => {
-              const idValue = coerceIdString(value);
-              if (idValue) {
-                pointerCandidates.add(idValue);
-              }
-            };
-
-            pushCandidate(argRecord.messageId);
-            pushCandidate(argRecord.message_id);
-            pushCandidate(argRecord.messagePointer);
-            pushCandidate(argRecord.pointer);
-            pushCandidate(argRecord.transcriptId);
-            pushCandidate(argRecord.transcript_id);
-            pushCandidate(argRecord.transcriptPointer);
-            pushCandidate(argRecord.transcript);
-
-            const arrayKeys = [
-              "messageIds",
-              "messages",
-              "message_ids",
-              "transcriptIds",
-              "transcripts",
-              "transcript_ids",
-              "pointers",
-            ];
-
-            for (const key of arrayKeys) {
-              const value = argRecord[key];
-              if (Array.isArray(value)) {
-                for (const entry of value) {
-                  pushCandidate(entry);
-                }
-              }
-            }
-
-            if (isRecord(argRecord)) {
-              for (const [key, value] of Object.entries(argRecord)) {
-                const lowered = key.toLowerCase();
-                if (lowered.includes("message") || lowered.includes("transcript")) {
-                  if (Array.isArray(value)) {
-                    for (const entry of value) {
-                      pushCandidate(entry);
-                    }
-                  } else {
-                    pushCandidate(value);
-                  }
-                }
-              }
-            }
-
-            const pointerList = Array.from(pointerCandidates);
-            if (pointerList.length > 0) {
-              itemPointer = pointerList[0] ?? null;
-            }
-
-            for (const pointer of pointerList) {
-              const resolved = resolveMessagePointer(pointer);
-              if (resolved) {
-                messageId = resolved;
-                itemPointer = pointer;
-                break;
-              }
-            }
-
-            // GRACEFUL: If nothing resolved yet, just skip this tool call
-            // The pointer will be linkable later when transcript persists
-            if (!messageId && !itemPointer) {
-              console.warn(
-                `[realtime] record_transcript_pointer: No IDs resolved yet (transcript still persisting)`,
-                { pointerList: pointerList.slice(0, 3) },
-              );
-              result = { skipped: true, reason: "transcript_not_persisted_yet" };
-              success = true;
+        outcome = await executeToolAction({ name, arguments: args, ...context });
+        if (outcome.success) {
+          // Keep what the model has seen, so "the second one" means the same
+          // project on its next call.
+          switch (toolName) {
+            case "list_projects":
+              lastProjectResultsRef.current = outcome.result as ProjectToolResult[];
               break;
-            }
-            const blueprint = await recordTranscriptPointerMutation({
-              projectId,
-              sessionId: sessionIdValue,
-              messageId: messageId ?? (itemPointer as string | undefined),
-              itemId: itemPointer ?? undefined,
-            });
-            result = makeProjectToolResult({
-              project: null,
-              blueprint,
-              fallbackId: projectId,
-            });
-            success = true;
-            break;
-          }
-          case "get_document_workspace": {
-            console.log("[realtime] tool:get_document_workspace", { args });
-            const projectId = resolveProjectId(args);
-            const workspace = await convex.query(api.documents.getWorkspace, {
-              projectId: projectId as Id<"projects">,
-            });
-            result = workspace;
-            success = true;
-            break;
-          }
-          case "manage_outline": {
-            console.log("[realtime] tool:manage_outline", { args });
-            const projectId = resolveProjectId(args) as Id<"projects">;
-            const operations = Array.isArray(args.operations) ? args.operations : [];
-            const updated = await convex.mutation(api.documents.manageOutline, {
-              projectId,
-              operations: operations.map((op: Record<string, unknown>) => ({
-                action: op.action as "add" | "rename" | "reorder" | "remove",
-                heading: op.heading as string,
-                newHeading: op.newHeading as string | undefined,
-                position: op.position as number | undefined,
-                status: op.status as "drafting" | "needs_detail" | "complete" | undefined,
-              })),
-            });
-            result = {
-              projectId,
-              operations: updated.operations,
-              sections: updated.sections.map((s: Record<string, unknown>) => ({
-                heading: s.heading,
-                status: s.status,
-                order: s.order,
-              })),
-            };
-            success = true;
-            break;
-          }
-          case "queue_draft_update": {
-            console.log("[realtime] tool:queue_draft_update", { args });
-            const projectId = resolveProjectId(args) as Id<"projects">;
-            const urgencyValue = coerceOptionalString(args.urgency);
-            const rawPointerArray =
-              coerceStringArray(args.messagePointers ?? args.message_pointers) ??
-              [];
-            const rawAnchorArray =
-              coerceStringArray(
-                args.transcriptAnchors ?? args.transcript_anchors,
-              ) ?? [];
-            const promptContextValue = coercePromptContext(
-              args.promptContext ?? args.context,
-            );
-
-            const pointerSet = new Set<string>();
-            const anchorSet = new Set<string>(rawAnchorArray);
-            const unresolvedPointers: string[] = [];
-
-            for (const pointer of rawPointerArray) {
-              const resolved = resolveMessagePointer(pointer);
-              if (resolved) {
-                pointerSet.add(resolved);
-              } else {
-                anchorSet.add(pointer);
-                unresolvedPointers.push(pointer);
+            case "get_project":
+            case "create_project":
+            case "update_project_metadata":
+            case "sync_blueprint_field":
+            case "commit_blueprint":
+              if (outcome.result) {
+                lastProjectResultsRef.current = [outcome.result as ProjectToolResult];
               }
-            }
-
-            // Log but don't fail - unresolved pointers go to transcriptAnchors
-            if (unresolvedPointers.length > 0) {
-              console.warn(
-                `[realtime] queue_draft_update: ${unresolvedPointers.length} transcript IDs not yet persisted (keeping as anchors)`,
-                { unresolvedPointers: unresolvedPointers.slice(0, 3) },
+              break;
+            case "assign_project_to_session":
+              await assignProjectToSession(
+                (outcome.result as { projectId: Id<"projects"> }).projectId,
               );
-            }
-
-            const messagePointersPayload =
-              pointerSet.size > 0 ? Array.from(pointerSet) : undefined;
-            const transcriptAnchorsPayload =
-              anchorSet.size > 0 ? Array.from(anchorSet) : undefined;
-            const sessionIdValue =
-              sessionRecord?.sessionId ?? sessionIdRef.current;
-            if (!sessionIdValue) {
-              throw new Error("sessionId is required to queue a draft update");
-            }
-            const acceptedAt = Date.now();
-            void (async () => {
-              try {
-                const job = await enqueueDraftUpdateMutation({
-                  projectId,
-                  sessionId: sessionIdValue,
-                  summary: undefined,
-                  urgency:
-                    typeof urgencyValue === "string" ? urgencyValue : undefined,
-                  messagePointers: messagePointersPayload,
-                  transcriptAnchors: transcriptAnchorsPayload,
-                  promptContext: promptContextValue,
-                });
-                await emitSystemJsonMessage("TOOL_PROGRESS", {
-                  tool: name,
-                  tool_call_id: toolCallId,
-                  status: "queued",
-                  projectId,
-                  jobId: job?._id ?? null,
-                  summary: null,
-                  urgency: job?.urgency ?? null,
-                  createdAt: job?.createdAt ?? acceptedAt,
-                });
-                try {
-                  await convex.action(api.documents.processDraftQueue, {});
-                } catch (processError) {
-                  console.error(
-                    "[realtime] queue_draft_update processDraftQueue failed",
-                    processError,
-                  );
-                }
-              } catch (progressError) {
-                console.error(
-                  "[realtime] queue_draft_update async failure",
-                  progressError,
-                );
-                await emitSystemJsonMessage("TOOL_PROGRESS", {
-                  tool: name,
-                  tool_call_id: toolCallId,
-                  status: "error",
-                  projectId,
-                  error:
-                    progressError instanceof Error
-                      ? progressError.message
-                      : String(progressError),
-                });
-              }
-            })();
-
-            result = {
-              status: "queued",
-              projectId,
-              acceptedAt,
-              summary: null,
-              urgency: urgencyValue ?? null,
-            };
-            success = true;
-            break;
-          }
-          case "apply_document_edits": {
-            console.log("[realtime] tool:apply_document_edits", { args });
-            const projectId = resolveProjectId(args) as Id<"projects">;
-            const markdownValue = coerceOptionalString(args.markdown);
-            if (typeof markdownValue !== "string") {
-              throw new Error("markdown is required");
-            }
-            const sectionPayload = coerceDocumentSectionsPayload(args.sections);
-            const summaryValue = coerceOptionalString(args.summary);
-            const acceptedAt = Date.now();
-            const sectionsSummary = sectionPayload.map((section) => ({
-              heading: section.heading,
-              status: section.status ?? "drafting",
-              order: section.order ?? null,
-            }));
-
-            void (async () => {
-              try {
-                const updated = await applyDocumentEditsMutation({
-                  projectId,
-                  markdown: markdownValue,
-                  sections: sectionPayload.map(
-                    (section: DocumentEditSectionPayload) => ({
-                      heading: section.heading,
-                      content: section.content,
-                      status: section.status,
-                      order: section.order,
-                    }),
-                  ),
-                  summary:
-                    typeof summaryValue === "string" ? summaryValue : undefined,
-                });
-                await emitSystemJsonMessage("TOOL_PROGRESS", {
-                  tool: name,
-                  tool_call_id: toolCallId,
-                  status: "completed",
-                  projectId,
-                  updatedAt: Date.now(),
-                  sections: updated.sections.map((section: (typeof updated.sections)[number]) => ({
-                    heading: section.heading,
-                    status: section.status,
-                    order: section.order,
-                  })),
-                  summary: typeof summaryValue === "string" ? summaryValue : undefined,
-                });
-              } catch (progressError) {
-                console.error(
-                  "[realtime] apply_document_edits async failure",
-                  progressError,
-                );
-                await emitSystemJsonMessage("TOOL_PROGRESS", {
-                  tool: name,
-                  tool_call_id: toolCallId,
-                  status: "error",
-                  projectId,
-                  error:
-                    progressError instanceof Error
-                      ? progressError.message
-                      : String(progressError),
-                });
-              }
-            })();
-
-            result = {
-              status: "queued",
-              projectId,
-              acceptedAt,
-              sections: sectionsSummary,
-              summary: summaryValue ?? null,
-            };
-            success = true;
-            break;
-          }
-          default: {
-            throw new Error(`Unhandled tool call: ${name}`);
+              break;
+            default:
+              break;
           }
         }
       } catch (toolError) {
-        errorMessage =
-          toolError instanceof Error ? toolError.message : String(toolError);
-        console.error(`Tool ${name} failed`, toolError);
+        outcome = {
+          success: false,
+          error: toolError instanceof Error ? toolError.message : String(toolError),
+        };
+      }
+      if (!outcome.success) {
+        console.error(`Tool ${name} failed`, outcome.error);
       }
 
-      const submitted = await submitToolResult({
+      return submitToolResult({
         tool: name,
         tool_call_id: toolCallId,
         response_id: responseId,
-        success,
-        result: success ? result : undefined,
-        error: success ? undefined : errorMessage ?? "Unknown tool error",
+        success: outcome.success,
+        result: outcome.success ? outcome.result : undefined,
+        error: outcome.success ? undefined : outcome.error,
       });
-
-      return submitted;
     },
     [
       assignProjectToSession,
-      applyDocumentEditsMutation,
-      enqueueDraftUpdateMutation,
-      commitBlueprintMutation,
-      convex,
-      createProjectToolMutation,
-      createNoteMutation,
+      emitSystemJsonMessage,
+      executeToolAction,
       instructionContext.mode,
       logConnection,
-      resolveProjectId,
-      recordTranscriptPointerMutation,
-      resolveMessagePointer,
-      submitToolResult,
       sessionRecord,
-      syncBlueprintFieldMutation,
-      updateTodoStatusMutation,
-      updateProjectMetadataMutation,
-      emitSystemJsonMessage,
+      submitToolResult,
     ],
   );
 
@@ -2509,6 +1622,7 @@ const resolveProjectId = useCallback(
             break;
           }
           case "input_audio_buffer.speech_started": {
+            userTurnStartedAtRef.current = Date.now();
             setVoiceActivity((current) => ({ ...current, user: true }));
             break;
           }
@@ -2521,12 +1635,16 @@ const resolveProjectId = useCallback(
             break;
           }
           case "response.audio.delta": {
+            assistantTurnStartedAtRef.current ??= Date.now();
             setVoiceActivity((current) => ({ ...current, assistant: true }));
             break;
           }
           case "response.audio.completed":
           case "response.done":
           case "response.completed": {
+            if (event.type !== "response.audio.completed") {
+              assistantTurnStartedAtRef.current = null;
+            }
             setVoiceActivity((current) => ({ ...current, assistant: false }));
             break;
           }
@@ -2749,92 +1867,38 @@ const resolveProjectId = useCallback(
     ],
   );
 
-  const startSession = useCallback(async (options?: StartSessionOptions) => {
-    if (status === "connecting" || status === "connected") return;
-    if (!audioElementRef.current) {
-      setError("Audio element not ready");
-      return;
-    }
-
-    setStatus("requesting-permissions");
-    setStatusMessage("Requesting microphone access");
-    setError(null);
-    logConnection("Requesting microphone access");
-
+  const resumeConversation = useCallback(async () => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) return;
     try {
-      const mediaStream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          deviceId: selectedInputDeviceId
-            ? { exact: selectedInputDeviceId }
-            : undefined,
-          channelCount: 1,
-          echoCancellation: true,
-          noiseSuppression: true,
-        },
-      });
-
-      localStreamRef.current = mediaStream;
-      if (!audioContextRef.current) {
-        audioContextRef.current = new AudioContext();
+      const context = await convex.query(api.sessions.getResumeContext, { sessionId });
+      for (const pointer of context.pointers) {
+        registerMessagePointer(pointer.itemId, pointer.messageId);
       }
-      if (!micMonitorRef.current) {
-        micMonitorRef.current = new AudioLevelMonitor(
-          audioContextRef.current,
-          setMicrophoneLevel,
-        );
+      const resumeMessage = buildResumeMessage(context.messages);
+      if (resumeMessage) {
+        await pushSystemMessage(resumeMessage);
       }
-      micMonitorRef.current.connect(mediaStream);
-
-      setStatus("connecting");
-      setStatusMessage("Opening Convex session");
-      logConnection("Creating Convex session record");
-
-      const createdSession = await createSessionMutation({
-        noiseProfile: noiseReduction,
-        projectId: options?.projectId,
-        deferProject: options?.deferProject,
-        language,
-      });
-      const assignedProjectId =
-        createdSession.projectId ?? options?.projectId ?? null;
-      completeOnceRef.current = false;
-      sessionIdRef.current = createdSession.sessionId;
-      projectIdRef.current = assignedProjectId ?? null;
-      console.log("[realtime] startSession created", createdSession);
-      setSessionRecord({
-        sessionId: createdSession.sessionId,
-        projectId:
-          assignedProjectId,
-        startedAt: createdSession.startedAt,
-        language: createdSession.language ?? language,
-      });
-      setLanguageState(createdSession.language ?? language);
-
-      if (assignedProjectId) {
-        try {
-          const projectBundle = await convex.query(api.projects.getProject, {
-            projectId: assignedProjectId as Id<"projects">,
-          });
-          if (projectBundle?.project) {
-            ingestProjects([
-              {
-                project: projectBundle.project,
-                blueprint: projectBundle.blueprint ?? null,
-              },
-            ]);
-          }
-        } catch (projectError) {
-          console.error("[realtime] startSession getProject failed", projectError);
-        }
-      }
-
+      logConnection(`Session resumed with ${context.messages.length} earlier turns`);
+    } catch (resumeError) {
+      console.error("[realtime] failed to restore conversation after reconnect", resumeError);
+    }
+  }, [convex, logConnection, pushSystemMessage, registerMessagePointer]);
+
+  /**
+   * Mints a client secret and negotiates a fresh peer connection for the
+   * current Convex session, reusing the microphone stream already open.
+   */
+  const openRealtimeConnection = useCallback(
+    async (mediaStream: MediaStream, hasProjectContext: boolean) => {
+      const generation = connectionGenerationRef.current;
       const secretResponse = await fetch("/api/realtime/secret", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           noiseReduction,
           language,
-          hasProjectContext: Boolean(assignedProjectId),
+          hasProjectContext,
           mode: instructionContext.mode,
           turnDetection,
         }),
@@ -2858,20 +1922,33 @@ const resolveProjectId = useCallback(
       if (!ephemeralKey) {
         throw new Error("Realtime client secret missing in response");
       }
+      // The session was stopped while the secret was being minted.
+      if (generation !== connectionGenerationRef.current) return;
 
       logConnection("Opening peer connection");
       const peerConnection = createPeerConnection();
       peerConnectionRef.current = peerConnection;
 
+      const isCurrent = () => generation === connectionGenerationRef.current;
+
       peerConnection.addEventListener("connectionstatechange", () => {
+        if (!isCurrent()) return;
         const connectionState = peerConnection.connectionState;
         logConnection(`Peer connection state: ${connectionState}`);
-        if (connectionState === "failed") {
-          setStatus("error");
-          setError("Peer connection failed");
+        if (disconnectTimerRef.current) {
+          clearTimeout(disconnectTimerRef.current);
+          disconnectTimerRef.current = null;
+        }
+        if (connectionState === "disconnected") {
+          disconnectTimerRef.current = setTimeout(() => {
+            disconnectTimerRef.current = null;
+            if (isCurrent() && peerConnection.connectionState === "disconnected") {
+              handleConnectionLostRef.current("Peer connection lost");
+            }
+          }, DISCONNECT_GRACE_MS);
         }
-        if (connectionState === "closed") {
-          setStatus("ended");
+        if (connectionState === "failed" || connectionState === "closed") {
+          handleConnectionLostRef.current(`Peer connection ${connectionState}`);
         }
       });
 
@@ -2895,6 +1972,7 @@ const resolveProjectId = useCallback(
             }
             assistantMonitorRef.current.connect(remoteStream);
           }
+          recorderRef.current?.addStream(remoteStream);
           if (selectedOutputDeviceId) {
             void applySinkId(element, selectedOutputDeviceId);
           }
@@ -2905,22 +1983,26 @@ const resolveProjectId = useCallback(
       dataChannelRef.current = dataChannel;
 
       dataChannel.addEventListener("open", () => {
+        if (!isCurrent()) return;
         logConnection("Realtime data channel open");
         setStatus("connected");
         setStatusMessage("Listening");
+        if (reconnectAttemptRef.current > 0) {
+          reconnectAttemptRef.current = 0;
+          void resumeConversationRef.current();
+        }
       });
 
       dataChannel.addEventListener("close", () => {
+        if (!isCurrent()) return;
         logConnection("Realtime data channel closed");
-        if (status !== "ended") {
-          setStatus("ended");
-        }
+        handleConnectionLostRef.current("Realtime data channel closed");
       });
 
       dataChannel.addEventListener("error", (event) => {
+        if (!isCurrent()) return;
         console.error("Data channel error", event);
-        setError("Realtime data channel error");
-        setStatus("error");
+        handleConnectionLostRef.current("Realtime data channel error");
       });
 
       dataChannel.addEventListener("message", (event) => {
@@ -2960,6 +2042,7 @@ const resolveProjectId = useCallback(
       }
 
       const answerSdp = await response.text();
+      if (!isCurrent()) return;
       await peerConnection.setRemoteDescription({
         type: "answer",
         sdp: answerSdp,
@@ -2970,6 +2053,215 @@ const resolveProjectId = useCallback(
       if (selectedOutputDeviceId) {
         await applySinkId(audioElementRef.current, selectedOutputDeviceId);
       }
+    },
+    [
+      audioElementRef,
+      handleServerEvent,
+      instructionContext.mode,
+      language,
+      logConnection,
+      noiseReduction,
+      turnDetection,
+      selectedOutputDeviceId,
+    ],
+  );
+
+  const reconnect = useCallback(async () => {
+    const mediaStream = localStreamRef.current;
+    if (!mediaStream || !sessionIdRef.current) return;
+    logConnection("Reconnecting to OpenAI Realtime");
+    // The new connection starts blank, so resend tools and instructions.
+    lastInstructionRef.current = null;
+    lastToolSignatureRef.current = null;
+    try {
+      await openRealtimeConnection(mediaStream, Boolean(projectIdRef.current));
+    } catch (reconnectError) {
+      console.error("[realtime] reconnect attempt failed", reconnectError);
+      handleConnectionLostRef.current(
+        reconnectError instanceof Error ? reconnectError.message : "Reconnect failed",
+      );
+    }
+  }, [logConnection, openRealtimeConnection]);
+
+  const handleConnectionLost = useCallback(
+    (reason: string) => {
+      // Already waiting to retry; later failures of the same connection add nothing.
+      if (reconnectTimerRef.current || !sessionIdRef.current) return;
+      closeRealtimeTransport();
+      setVoiceActivity({ user: false, assistant: false });
+      setPartialUserTranscript(null);
+      setPartialAssistantTranscript(null);
+
+      const attempt = reconnectAttemptRef.current;
+      const delay = reconnectDelayFor(attempt);
+      if (delay === null) {
+        console.error("[realtime] giving up after reconnect attempts", { reason, attempt });
+        setError(`Connection lost: ${reason}`);
+        void stopSessionRef.current("Connection lost");
+        return;
+      }
+      reconnectAttemptRef.current = attempt + 1;
+      console.warn("[realtime] connection lost; reconnecting", { reason, attempt: attempt + 1, delay });
+      logConnection(`${reason}; reconnecting in ${Math.round(delay / 1000)}s`);
+      setStatus("reconnecting");
+      setStatusMessage(
+        `Reconnecting (attempt ${attempt + 1} of ${RECONNECT_DELAYS_MS.length})`,
+      );
+      reconnectTimerRef.current = setTimeout(() => {
+        reconnectTimerRef.current = null;
+        void reconnect();
+      }, delay);
+    },
+    [closeRealtimeTransport, logConnection, reconnect],
+  );
+
+  useEffect(() => {
+    handleConnectionLostRef.current = handleConnectionLost;
+    resumeConversationRef.current = resumeConversation;
+  }, [handleConnectionLost, resumeConversation]);
+
+  useEffect(() => {
+    textChatContextRef.current = {
+      language,
+      mode: instructionContext.mode,
+      hasProjectContext:
+        instructionContext.mode !== "intake" || Boolean(sessionRecord?.projectId),
+      blueprintSummary: instructionContext.blueprintSummary,
+      draftingSnapshot: instructionContext.draftingSnapshot,
+      latestDraftUpdate: instructionContext.latestDraftUpdate ?? undefined,
+    };
+  }, [instructionContext, language, sessionRecord?.projectId]);
+
+  const requestChatReply = useCallback(
+    async (input: ChatInputItem[]): Promise<ChatResponse> => {
+      try {
+        const token = await fetchAccessToken({ forceRefreshToken: false });
+        const response = await fetch("/api/chat", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
+          body: JSON.stringify({ ...textChatContextRef.current, input }),
+        });
+        if (!response.ok) {
+          throw new Error(`Chat reply failed (${response.status})`);
+        }
+        return (await response.json()) as ChatResponse;
+      } catch (chatError) {
+        console.error("[chat] reply request failed", chatError);
+        setError(chatError instanceof Error ? chatError.message : String(chatError));
+        throw chatError;
+      }
+    },
+    [fetchAccessToken],
+  );
+
+  const openTextChat = useCallback(() => {
+    const channel = new TextChatChannel({
+      respond: requestChatReply,
+      onEvent: (data) => handleServerEvent(data),
+    });
+    dataChannelRef.current = channel;
+    logConnection("Text chat ready");
+    setStatus("connected");
+    setStatusMessage("Chatting by text");
+  }, [handleServerEvent, logConnection, requestChatReply]);
+
+  const startSession = useCallback(async (options?: StartSessionOptions) => {
+    if (status === "connecting" || status === "connected" || status === "reconnecting") return;
+    const isTextSession = options?.transport === "text";
+    if (!audioElementRef.current && !isTextSession) {
+      setError("Audio element not ready");
+      return;
+    }
+    transportRef.current = isTextSession ? "text" : "voice";
+    setTransport(transportRef.current);
+    setError(null);
+    setTranscripts([]);
+
+    try {
+      let mediaStream: MediaStream | null = null;
+      if (!isTextSession) {
+        setStatus("requesting-permissions");
+        setStatusMessage("Requesting microphone access");
+        logConnection("Requesting microphone access");
+        mediaStream = await navigator.mediaDevices.getUserMedia({
+          audio: {
+            deviceId: selectedInputDeviceId
+              ? { exact: selectedInputDeviceId }
+              : undefined,
+            channelCount: 1,
+            echoCancellation: true,
+            noiseSuppression: true,
+          },
+        });
+
+        localStreamRef.current = mediaStream;
+        if (!audioContextRef.current) {
+          audioContextRef.current = new AudioContext();
+        }
+        if (!micMonitorRef.current) {
+          micMonitorRef.current = new AudioLevelMonitor(
+            audioContextRef.current,
+            setMicrophoneLevel,
+          );
+        }
+        micMonitorRef.current.connect(mediaStream);
+      }
+
+      setStatus("connecting");
+      setStatusMessage("Opening Convex session");
+      logConnection("Creating Convex session record");
+
+      const createdSession = await createSessionMutation({
+        noiseProfile: noiseReduction,
+        projectId: options?.projectId,
+        deferProject: options?.deferProject,
+        language,
+      });
+      const assignedProjectId =
+        createdSession.projectId ?? options?.projectId ?? null;
+      completeOnceRef.current = false;
+      reconnectAttemptRef.current = 0;
+      sessionIdRef.current = createdSession.sessionId;
+      projectIdRef.current = assignedProjectId ?? null;
+      console.log("[realtime] startSession created", createdSession);
+      setSessionRecord({
+        sessionId: createdSession.sessionId,
+        projectId:
+          assignedProjectId,
+        startedAt: createdSession.startedAt,
+        language: createdSession.language ?? language,
+      });
+      setLanguageState(createdSession.language ?? language);
+      if (mediaStream && audioContextRef.current) {
+        startRecording(createdSession.sessionId, mediaStream, audioContextRef.current);
+      }
+
+      if (assignedProjectId) {
+        try {
+          const projectBundle = await convex.query(api.projects.getProject, {
+            projectId: assignedProjectId as Id<"projects">,
+          });
+          if (projectBundle?.project) {
+            ingestProjects([
+              {
+                project: projectBundle.project,
+                blueprint: projectBundle.blueprint ?? null,
+              },
+            ]);
+          }
+        } catch (projectError) {
+          console.error("[realtime] startSession getProject failed", projectError);
+        }
+      }
+
+      if (mediaStream) {
+        await openRealtimeConnection(mediaStream, Boolean(assignedProjectId));
+      } else {
+        openTextChat();
+      }
     } catch (startError) {
       console.error("Failed to start realtime session", startError);
       setError(startError instanceof Error ? startError.message : String(startError));
@@ -2981,15 +2273,14 @@ const resolveProjectId = useCallback(
     audioElementRef,
     convex,
     createSessionMutation,
-    handleServerEvent,
     ingestProjects,
-    instructionContext.mode,
     language,
     logConnection,
     noiseReduction,
-    turnDetection,
+    openRealtimeConnection,
+    openTextChat,
     selectedInputDeviceId,
-    selectedOutputDeviceId,
+    startRecording,
     status,
     tearDownConnection,
   ]);
@@ -3160,7 +2451,8 @@ const resolveProjectId = useCallback(
       };
       channel.send(JSON.stringify(clientEvent));
       channel.send(JSON.stringify({ type: "response.create" }));
-      if (!options?.skipPersist) {
+      // Text chat echoes the item back like a realtime server and it is saved from the echo.
+      if (!options?.skipPersist && transportRef.current !== "text") {
         const key = `manual-${Date.now()}`;
         await finalizeTranscript("user", key, trimmed);
       }
@@ -3179,6 +2471,7 @@ const resolveProjectId = useCallback(
       status,
       statusMessage,
       isConnected: status === "connected",
+      transport,
       startSession,
       stopSession,
       refreshDevices,
@@ -3246,6 +2539,7 @@ const resolveProjectId = useCallback(
       status,
       statusMessage,
       stopSession,
+      transport,
       transcripts,
       voiceActivity,
       isMuted,
@@ -1,14 +1,29 @@
 "use client";
 
-import type { ReactNode } from "react";
+import { useEffect, type ReactNode } from "react";
+import { useMutation } from "convex/react";
 
 import { ConvexClientProvider } from "@/components/ConvexClientProvider";
+import { api } from "@/convex/_generated/api";
 
 import { RealtimeSessionProvider } from "./(session)/realtime-session/RealtimeSessionProvider";
 
+// Project invitations are claimed on sign-in, once the provider has verified
+// the email they were sent to.
+function ClaimInvitations() {
+  const claimInvitations = useMutation(api.projectMembers.claimInvitations);
+  useEffect(() => {
+    claimInvitations({}).catch((error) => {
+      console.error("Failed to claim project invitations", error);
+    });
+  }, [claimInvitations]);
+  return null;
+}
+
 export function AppProviders({ children }: { children: ReactNode }) {
   return (
     <ConvexClientProvider>
+      <ClaimInvitations />
       <RealtimeSessionProvider>{children}</RealtimeSessionProvider>
     </ConvexClientProvider>
   );
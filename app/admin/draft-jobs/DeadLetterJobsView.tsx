@@ -0,0 +1,108 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery } from "convex/react";
+
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+
+const formatDateTime = (timestamp: number) =>
+  new Intl.DateTimeFormat(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(timestamp);
+
+export default function DeadLetterJobsView() {
+  const jobs = useQuery(api.draftJobs.listDeadLetters, {});
+  const retryJob = useMutation(api.draftJobs.retryJob);
+  const discardJob = useMutation(api.draftJobs.discardJob);
+  const [busyId, setBusyId] = useState<Id<"draftJobs"> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (
+    jobId: Id<"draftJobs">,
+    task: (args: { jobId: Id<"draftJobs"> }) => Promise<unknown>,
+  ) => {
+    if (busyId) return;
+    setBusyId(jobId);
+    setError(null);
+    try {
+      await task({ jobId });
+    } catch (taskError) {
+      console.error("Failed to update draft job", taskError);
+      setError(taskError instanceof Error ? taskError.message : "Update failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="projects-layout">
+      <header className="projects-header">
+        <div>
+          <h1>Failed draft jobs</h1>
+          <p>
+            Jobs that failed permanently or ran out of retries. Retry sends a job back to the queue
+            with a fresh attempt budget; discard drops it from this list.
+          </p>
+        </div>
+        <Link href="/projects" className="secondary">
+          Back to projects
+        </Link>
+      </header>
+
+      {error ? <div className="alert">{error}</div> : null}
+
+      <section className="projects-list dead-letter-list">
+        {jobs === undefined ? (
+          <div className="card placeholder">Loading failed jobs…</div>
+        ) : jobs.length === 0 ? (
+          <div className="card placeholder">No failed draft jobs.</div>
+        ) : (
+          jobs.map((job) => (
+            <article key={job._id} className="card dead-letter-card">
+              <header className="panel-header">
+                <h2>
+                  <Link href={`/projects/${job.projectId}`}>{job.projectTitle}</Link>
+                </h2>
+                <span className="metric-chip">
+                  {job.errorKind === "permanent" ? "Permanent" : "Out of retries"}
+                </span>
+              </header>
+              <div className="revision-meta">
+                <span>Failed {formatDateTime(job.deadLetteredAt)}</span>
+                <span>
+                  {job.attemptCount} attempt{job.attemptCount === 1 ? "" : "s"}
+                </span>
+                {job.urgency ? <span>Urgency: {job.urgency}</span> : null}
+              </div>
+              {job.summary ? <p className="project-hint">{job.summary}</p> : null}
+              {job.error ? <pre className="dead-letter-error">{job.error}</pre> : null}
+              <footer className="todo-actions">
+                <button
+                  type="button"
+                  className="primary"
+                  onClick={() => run(job._id, retryJob)}
+                  disabled={busyId !== null}
+                >
+                  {busyId === job._id ? "Working…" : "Retry"}
+                </button>
+                <button
+                  type="button"
+                  className="text-button"
+                  onClick={() => run(job._id, discardJob)}
+                  disabled={busyId !== null}
+                >
+                  Discard
+                </button>
+              </footer>
+            </article>
+          ))
+        )}
+      </section>
+    </div>
+  );
+}
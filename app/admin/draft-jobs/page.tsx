@@ -0,0 +1,9 @@
+import DeadLetterJobsView from "./DeadLetterJobsView";
+
+export default function DraftJobsPage() {
+  return (
+    <main className="page">
+      <DeadLetterJobsView />
+    </main>
+  );
+}
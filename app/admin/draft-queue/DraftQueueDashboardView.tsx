@@ -0,0 +1,182 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useQuery } from "convex/react";
+
+import { api } from "@/convex/_generated/api";
+
+const WINDOW_OPTIONS = [
+  { hours: 6, label: "6 hours" },
+  { hours: 24, label: "24 hours" },
+  { hours: 24 * 7, label: "7 days" },
+];
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return "—";
+  if (ms < 1_000) return `${Math.round(ms)} ms`;
+  return `${(ms / 1_000).toFixed(1)} s`;
+};
+
+const formatBucket = (timestamp: number, bucketMs: number) =>
+  new Intl.DateTimeFormat(undefined, {
+    ...(bucketMs >= 6 * 60 * 60_000 ? { month: "short", day: "numeric" } : {}),
+    hour: "2-digit",
+  }).format(timestamp);
+
+function Metric({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="queue-metric">
+      <span>{label}</span>
+      <strong>{value}</strong>
+    </div>
+  );
+}
+
+export default function DraftQueueDashboardView() {
+  const [windowHours, setWindowHours] = useState(24);
+  const dashboard = useQuery(api.draftMetrics.getQueueDashboard, { windowHours });
+
+  const maxJobs = Math.max(1, ...(dashboard?.buckets ?? []).map((b) => b.completed + b.failed));
+  const maxTokens = Math.max(1, ...(dashboard?.buckets ?? []).map((b) => b.totalTokens));
+
+  return (
+    <div className="projects-layout">
+      <header className="projects-header">
+        <div>
+          <h1>Draft queue</h1>
+          <p>How the background drafter has behaved across your projects.</p>
+        </div>
+        <div className="projects-actions">
+          <select
+            value={windowHours}
+            onChange={(event) => setWindowHours(Number(event.target.value))}
+            aria-label="Time window"
+          >
+            {WINDOW_OPTIONS.map((option) => (
+              <option key={option.hours} value={option.hours}>
+                Last {option.label}
+              </option>
+            ))}
+          </select>
+          <Link href="/admin/draft-jobs" className="secondary">
+            Failed drafts
+          </Link>
+          <Link href="/projects" className="secondary">
+            Back to projects
+          </Link>
+        </div>
+      </header>
+
+      {dashboard === undefined ? (
+        <div className="card placeholder">Loading queue metrics…</div>
+      ) : dashboard === null ? (
+        <div className="card placeholder">Sign in to see queue metrics.</div>
+      ) : (
+        <>
+          <section className="card">
+            <div className="queue-metrics">
+              <Metric label="Completed" value={String(dashboard.completed)} />
+              <Metric label="Per hour" value={dashboard.throughputPerHour.toFixed(1)} />
+              <Metric label="p50 duration" value={formatDuration(dashboard.durationP50)} />
+              <Metric label="p95 duration" value={formatDuration(dashboard.durationP95)} />
+              <Metric
+                label="Error rate"
+                value={
+                  dashboard.errorRate === null
+                    ? "—"
+                    : `${(dashboard.errorRate * 100).toFixed(1)}%`
+                }
+              />
+            </div>
+          </section>
+
+          <section className="card">
+            <header className="panel-header">
+              <h2>Jobs finished</h2>
+              <span className="metric-chip subtle">
+                {dashboard.failed} failed
+              </span>
+            </header>
+            <div className="queue-chart" role="img" aria-label="Jobs finished per interval">
+              {dashboard.buckets.map((bucket) => (
+                <div
+                  key={bucket.start}
+                  className="queue-chart-column"
+                  title={`${formatBucket(bucket.start, dashboard.bucketMs)}: ${bucket.completed} completed, ${bucket.failed} failed`}
+                >
+                  <span
+                    className="queue-bar failed"
+                    style={{ height: `${(bucket.failed / maxJobs) * 100}%` }}
+                  />
+                  <span
+                    className="queue-bar"
+                    style={{ height: `${(bucket.completed / maxJobs) * 100}%` }}
+                  />
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section className="card">
+            <header className="panel-header">
+              <h2>Token usage</h2>
+              <span className="metric-chip subtle">
+                {dashboard.buckets
+                  .reduce((sum, bucket) => sum + bucket.totalTokens, 0)
+                  .toLocaleString()}{" "}
+                tokens
+              </span>
+            </header>
+            <div className="queue-chart" role="img" aria-label="Tokens used per interval">
+              {dashboard.buckets.map((bucket) => (
+                <div
+                  key={bucket.start}
+                  className="queue-chart-column"
+                  title={`${formatBucket(bucket.start, dashboard.bucketMs)}: ${bucket.inputTokens.toLocaleString()} in, ${bucket.outputTokens.toLocaleString()} out`}
+                >
+                  <span
+                    className="queue-bar tokens"
+                    style={{ height: `${(bucket.totalTokens / maxTokens) * 100}%` }}
+                  />
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section className="card">
+            <header className="panel-header">
+              <h2>Queue depth</h2>
+            </header>
+            {dashboard.depth.length === 0 ? (
+              <p className="empty-state">Nothing queued or running.</p>
+            ) : (
+              <table className="queue-depth">
+                <thead>
+                  <tr>
+                    <th>Project</th>
+                    <th>Queued</th>
+                    <th>Retrying</th>
+                    <th>Running</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {dashboard.depth.map((entry) => (
+                    <tr key={entry.projectId}>
+                      <td>
+                        <Link href={`/projects/${entry.projectId}`}>{entry.projectTitle}</Link>
+                      </td>
+                      <td>{entry.queued}</td>
+                      <td>{entry.retrying}</td>
+                      <td>{entry.running}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
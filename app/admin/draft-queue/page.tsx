@@ -0,0 +1,9 @@
+import DraftQueueDashboardView from "./DraftQueueDashboardView";
+
+export default function DraftQueuePage() {
+  return (
+    <main className="page">
+      <DraftQueueDashboardView />
+    </main>
+  );
+}
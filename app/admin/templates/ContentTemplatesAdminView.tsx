@@ -0,0 +1,214 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery } from "convex/react";
+
+import { api } from "@/convex/_generated/api";
+import {
+  formatOutlineText,
+  parseOutlineText,
+  type ContentTemplateFields,
+} from "@/convex/lib/contentTemplates";
+
+type TemplateEntry = ContentTemplateFields & {
+  customized: boolean;
+  updatedAt: number | null;
+};
+
+type TemplateDraft = {
+  label: string;
+  description: string;
+  outline: string;
+  minWords: string;
+  maxWords: string;
+  tonePresets: string;
+  sampleLanguage: string;
+};
+
+const toDraft = (template: TemplateEntry): TemplateDraft => ({
+  label: template.label,
+  description: template.description,
+  outline: formatOutlineText(template.outline),
+  minWords: template.wordCountTarget ? String(template.wordCountTarget.min) : "",
+  maxWords: template.wordCountTarget ? String(template.wordCountTarget.max) : "",
+  tonePresets: template.tonePresets.join(", "),
+  sampleLanguage: template.sampleLanguage ?? "",
+});
+
+function TemplateEditor({ template, canEdit }: { template: TemplateEntry; canEdit: boolean }) {
+  const upsertTemplate = useMutation(api.contentTemplates.upsert);
+  const resetTemplate = useMutation(api.contentTemplates.resetToDefault);
+
+  const [draft, setDraft] = useState<TemplateDraft>(() => toDraft(template));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(toDraft(template));
+  }, [template]);
+
+  const update = (key: keyof TemplateDraft) => (value: string) =>
+    setDraft((previous) => ({ ...previous, [key]: value }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const min = Number.parseInt(draft.minWords, 10);
+      const max = Number.parseInt(draft.maxWords, 10);
+      await upsertTemplate({
+        contentType: template.contentType,
+        label: draft.label,
+        description: draft.description,
+        outline: parseOutlineText(draft.outline),
+        wordCountTarget:
+          Number.isFinite(min) && Number.isFinite(max) ? { min, max } : undefined,
+        tonePresets: draft.tonePresets.split(","),
+        sampleLanguage: draft.sampleLanguage,
+      });
+    } catch (saveError) {
+      console.error("Failed to save content template", saveError);
+      setError(saveError instanceof Error ? saveError.message : "Failed to save template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    const confirmed = window.confirm(
+      `Reset the ${template.label} template to its built-in defaults?`,
+    );
+    if (!confirmed) return;
+    setSaving(true);
+    try {
+      await resetTemplate({ contentType: template.contentType });
+    } catch (resetError) {
+      console.error("Failed to reset content template", resetError);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <article className="card template-card">
+      <header className="panel-header">
+        <h2>{template.label}</h2>
+        <span className="metric-chip">
+          {template.customized ? "Customized" : "Built-in"} · {template.contentType}
+        </span>
+      </header>
+      <div className="project-meta">
+        <label>
+          <span>Label</span>
+          <input
+            type="text"
+            value={draft.label}
+            onChange={(event) => update("label")(event.target.value)}
+          />
+        </label>
+        <label>
+          <span>Description</span>
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(event) => update("description")(event.target.value)}
+          />
+        </label>
+        <label>
+          <span>Default outline (one section per line, guidance after &ldquo; — &rdquo;)</span>
+          <textarea
+            value={draft.outline}
+            onChange={(event) => update("outline")(event.target.value)}
+            rows={6}
+          />
+        </label>
+        <div className="template-word-target">
+          <label>
+            <span>Min words</span>
+            <input
+              type="number"
+              min={0}
+              value={draft.minWords}
+              onChange={(event) => update("minWords")(event.target.value)}
+            />
+          </label>
+          <label>
+            <span>Max words</span>
+            <input
+              type="number"
+              min={0}
+              value={draft.maxWords}
+              onChange={(event) => update("maxWords")(event.target.value)}
+            />
+          </label>
+        </div>
+        <label>
+          <span>Tone presets (comma separated)</span>
+          <input
+            type="text"
+            value={draft.tonePresets}
+            onChange={(event) => update("tonePresets")(event.target.value)}
+          />
+        </label>
+        <label>
+          <span>Sample language</span>
+          <textarea
+            value={draft.sampleLanguage}
+            onChange={(event) => update("sampleLanguage")(event.target.value)}
+            rows={3}
+          />
+        </label>
+      </div>
+      {error ? <div className="alert">{error}</div> : null}
+      <footer className="todo-actions">
+        <button type="button" className="primary" onClick={handleSave} disabled={saving || !canEdit}>
+          {saving ? "Saving…" : "Save template"}
+        </button>
+        {template.customized && canEdit ? (
+          <button type="button" className="text-button" onClick={handleReset} disabled={saving}>
+            Reset to default
+          </button>
+        ) : null}
+      </footer>
+    </article>
+  );
+}
+
+export default function ContentTemplatesAdminView() {
+  const templates = useQuery(api.contentTemplates.list, {});
+  const canEdit = useQuery(api.contentTemplates.canEdit, {}) ?? false;
+
+  return (
+    <div className="projects-layout">
+      <header className="projects-header">
+        <div>
+          <h1>Content templates</h1>
+          <p>
+            Default outlines, length targets, and tone presets applied when a project of each
+            type starts drafting. Projects can still override their own outline.
+          </p>
+        </div>
+        <Link href="/projects" className="secondary">
+          Back to projects
+        </Link>
+      </header>
+      {templates !== undefined && !canEdit ? (
+        <p className="project-hint">
+          Only template admins can save changes. Ask to be added to
+          CONTENT_TEMPLATE_ADMIN_EMAILS on the Convex deployment.
+        </p>
+      ) : null}
+
+      <section className="projects-list template-list">
+        {templates === undefined ? (
+          <div className="card placeholder">Loading templates…</div>
+        ) : (
+          templates.map((template) => (
+            <TemplateEditor key={template.contentType} template={template} canEdit={canEdit} />
+          ))
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import ContentTemplatesAdminView from "./ContentTemplatesAdminView";
+
+export default function ContentTemplatesPage() {
+  return (
+    <main className="page">
+      <ContentTemplatesAdminView />
+    </main>
+  );
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+
+import { isLocalAuthEnabled, localJwks } from "@/lib/localAuth";
+
+export async function GET() {
+  if (!isLocalAuthEnabled()) {
+    return NextResponse.json({ error: "Local auth is disabled" }, { status: 404 });
+  }
+  return NextResponse.json(localJwks(), {
+    headers: { "Cache-Control": "public, max-age=300" },
+  });
+}
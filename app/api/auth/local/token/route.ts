@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+
+import { isLocalAuthEnabled, signLocalToken } from "@/lib/localAuth";
+
+type TokenRequest = {
+  email?: string;
+  name?: string;
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+export async function POST(request: Request) {
+  if (!isLocalAuthEnabled()) {
+    return NextResponse.json({ error: "Local auth is disabled" }, { status: 404 });
+  }
+
+  const body = (await request.json().catch(() => null)) as TokenRequest | null;
+  const email = body?.email?.trim();
+  if (!email || !EMAIL_PATTERN.test(email)) {
+    return NextResponse.json({ error: "A valid email is required" }, { status: 400 });
+  }
+
+  return NextResponse.json(
+    { token: signLocalToken({ email, name: body?.name }) },
+    { headers: { "Cache-Control": "no-store" } },
+  );
+}
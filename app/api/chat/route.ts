@@ -0,0 +1,177 @@
+import { NextResponse } from "next/server";
+import { ConvexHttpClient } from "convex/browser";
+
+import { api } from "@/convex/_generated/api";
+
+import {
+  DEFAULT_LANGUAGE_OPTION,
+  findLanguageOption,
+} from "@/lib/languages";
+import {
+  buildSessionInstructions,
+  type SessionInstructionMode,
+  type SessionInstructionOptions,
+} from "@/lib/realtimeInstructions";
+import {
+  getInitialToolList,
+  isSessionInstructionMode,
+} from "@/lib/realtimeTools";
+import { sanitizeChatInput } from "@/lib/textChatChannel";
+
+type ChatRequest = {
+  language?: string;
+  hasProjectContext?: boolean;
+  mode?: SessionInstructionMode;
+  blueprintSummary?: SessionInstructionOptions["blueprintSummary"];
+  draftingSnapshot?: SessionInstructionOptions["draftingSnapshot"];
+  latestDraftUpdate?: SessionInstructionOptions["latestDraftUpdate"];
+};
+
+const OPENAI_ENDPOINT = "https://api.openai.com/v1/responses";
+const DEFAULT_CONVEX_URL = "http://localhost:3210";
+const DEFAULT_MODEL = process.env.OPENAI_CHAT_MODEL ?? "gpt-4.1-mini";
+
+const TEXT_MODE_NOTE =
+  "This session is typed, not spoken: the client reads your replies and types theirs. Keep replies short and conversational, use plain text, and ask one question at a time.";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const resolveConvexUrl = () =>
+  process.env.NEXT_PUBLIC_CONVEX_URL ??
+  process.env.NEXT_PUBLIC_CONVEX_DEPLOYMENT ??
+  process.env.CONVEX_DEPLOYMENT_URL ??
+  DEFAULT_CONVEX_URL;
+
+// Only a token Convex accepts gets a reply; this route spends the server's key.
+async function isSignedIn(token: string) {
+  try {
+    const convex = new ConvexHttpClient(resolveConvexUrl());
+    convex.setAuth(token);
+    await convex.query(api.sessions.requireSignedIn, {});
+    return true;
+  } catch (authError) {
+    console.warn("[chat] rejected request without a valid session", authError);
+    return false;
+  }
+}
+
+/**
+ * One turn of a typed-chat session. Instructions and tools are built here
+ * from the same helpers the realtime secret uses, so the client only sends
+ * the conversation and its instruction context.
+ */
+export async function POST(request: Request) {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    return NextResponse.json(
+      {
+        error: "OPENAI_API_KEY not configured",
+      },
+      { status: 500 },
+    );
+  }
+
+  const token = request.headers.get("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token || !(await isSignedIn(token))) {
+    return NextResponse.json({ error: "Sign in to chat" }, { status: 401 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    const parsed = await request.json();
+    body = isRecord(parsed) ? parsed : {};
+  } catch (parseError) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const input = sanitizeChatInput(body.input);
+  if (!input || input.length === 0) {
+    return NextResponse.json({ error: "input must be a non-empty list" }, { status: 400 });
+  }
+
+  const payload: ChatRequest = {};
+  if (typeof body.language === "string") {
+    payload.language = body.language;
+  }
+  if (typeof body.hasProjectContext === "boolean") {
+    payload.hasProjectContext = body.hasProjectContext;
+  }
+  if (isSessionInstructionMode(body.mode)) {
+    payload.mode = body.mode;
+  }
+  if (isRecord(body.blueprintSummary) && Array.isArray(body.blueprintSummary.missingFields)) {
+    payload.blueprintSummary = body.blueprintSummary as ChatRequest["blueprintSummary"];
+  }
+  if (isRecord(body.draftingSnapshot)) {
+    payload.draftingSnapshot = body.draftingSnapshot as ChatRequest["draftingSnapshot"];
+  }
+  if (isRecord(body.latestDraftUpdate) && typeof body.latestDraftUpdate.status === "string") {
+    payload.latestDraftUpdate = body.latestDraftUpdate as ChatRequest["latestDraftUpdate"];
+  }
+
+  const hasProjectContext = Boolean(
+    payload.hasProjectContext ?? (payload.mode ? payload.mode !== "intake" : undefined),
+  );
+  const resolvedMode: SessionInstructionMode = payload.mode
+    ? payload.mode
+    : hasProjectContext
+      ? "blueprint"
+      : "intake";
+  const tools = getInitialToolList({
+    mode: resolvedMode,
+    hasProjectContext,
+  });
+  const instructions = buildSessionInstructions({
+    language: findLanguageOption(payload.language ?? DEFAULT_LANGUAGE_OPTION.value),
+    hasProjectContext,
+    mode: resolvedMode,
+    blueprintSummary: payload.blueprintSummary,
+    draftingSnapshot: payload.draftingSnapshot,
+    latestDraftUpdate: payload.latestDraftUpdate,
+  });
+
+  try {
+    const response = await fetch(OPENAI_ENDPOINT, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: DEFAULT_MODEL,
+        instructions: `${instructions}\n\n${TEXT_MODE_NOTE}`,
+        input,
+        tools,
+        parallel_tool_calls: true,
+        store: false,
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text();
+      console.warn("[chat] model request failed", { status: response.status, detail });
+      return NextResponse.json(
+        {
+          error: "Failed to get a chat reply",
+          detail,
+        },
+        { status: response.status },
+      );
+    }
+
+    const result = await response.json();
+    return NextResponse.json({
+      id: typeof result?.id === "string" ? result.id : `chat_${Date.now()}`,
+      output: Array.isArray(result?.output) ? result.output : [],
+    });
+  } catch (error) {
+    console.error("Failed to request chat reply", error);
+    return NextResponse.json(
+      {
+        error: "Unexpected error requesting chat reply",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextResponse } from "next/server";
+import { ConvexHttpClient } from "convex/browser";
+
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { isAccessError } from "@/convex/lib/access";
+import { renderDocx } from "@/lib/docx";
+import {
+  EXPORT_FORMATS,
+  buildManuscript,
+  exportFileName,
+  isExportFormat,
+  renderHtml,
+  renderMarkdown,
+  type ExportFormat,
+} from "@/lib/manuscriptExport";
+
+const DEFAULT_CONVEX_URL = "http://localhost:3210";
+
+// Convex document ids are lowercase base32 strings; anything else is a bad request.
+const CONVEX_ID_PATTERN = /^[0-9a-z]{16,64}$/;
+
+const resolveConvexUrl = () =>
+  process.env.NEXT_PUBLIC_CONVEX_URL ??
+  process.env.NEXT_PUBLIC_CONVEX_DEPLOYMENT ??
+  process.env.CONVEX_DEPLOYMENT_URL ??
+  DEFAULT_CONVEX_URL;
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const projectId = url.searchParams.get("projectId");
+  const requestedFormat = url.searchParams.get("format") ?? "markdown";
+  const includeFrontMatter = url.searchParams.get("frontMatter") !== "0";
+
+  if (!projectId) {
+    return NextResponse.json({ error: "projectId is required" }, { status: 400 });
+  }
+  if (!CONVEX_ID_PATTERN.test(projectId)) {
+    return NextResponse.json({ error: "projectId is not a valid id" }, { status: 400 });
+  }
+  if (!isExportFormat(requestedFormat)) {
+    return NextResponse.json(
+      {
+        error: `Unsupported export format: ${requestedFormat}`,
+        supported: EXPORT_FORMATS.map((option) => option.value),
+      },
+      { status: 400 },
+    );
+  }
+  const format: ExportFormat = requestedFormat;
+
+  const token = request.headers.get("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) {
+    return NextResponse.json({ error: "Sign in to export manuscripts" }, { status: 401 });
+  }
+
+  try {
+    const convex = new ConvexHttpClient(resolveConvexUrl());
+    convex.setAuth(token);
+    const typedProjectId = projectId as Id<"projects">;
+    const [projectDetail, workspace] = await Promise.all([
+      convex.query(api.projects.getProject, { projectId: typedProjectId }),
+      convex.query(api.documents.getWorkspace, { projectId: typedProjectId }),
+    ]);
+
+    if (!projectDetail) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const manuscript = buildManuscript(
+      {
+        project: projectDetail.project,
+        blueprint: projectDetail.blueprint,
+        document: workspace.document,
+        sections: workspace.sections,
+      },
+      { includeFrontMatter },
+    );
+
+    if (!manuscript.body.trim()) {
+      return NextResponse.json(
+        { error: "This project has no draft to export yet" },
+        { status: 409 },
+      );
+    }
+
+    const body =
+      format === "docx"
+        ? renderDocx(manuscript)
+        : format === "html"
+          ? renderHtml(manuscript)
+          : renderMarkdown(manuscript);
+    const mimeType = EXPORT_FORMATS.find((option) => option.value === format)!.mimeType;
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": mimeType,
+        "Content-Disposition": `attachment; filename="${exportFileName(manuscript.title, format)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (isAccessError(error)) {
+      return NextResponse.json({ error: error.data.message }, { status: error.data.status });
+    }
+    // An id of the right shape can still belong to another table.
+    if (error instanceof Error && /ArgumentValidationError/.test(error.message)) {
+      return NextResponse.json({ error: "projectId is not a valid id" }, { status: 400 });
+    }
+    console.error("Failed to export manuscript", error);
+    return NextResponse.json(
+      {
+        error: "Unexpected error exporting manuscript",
+      },
+      { status: 500 },
+    );
+  }
+}
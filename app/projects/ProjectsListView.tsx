@@ -4,12 +4,16 @@ import { useCallback, useEffect, useRef } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 
+import { useAuthSession } from "@/components/auth";
+
 import { useRealtimeSessionContext } from "../(session)/realtime-session/RealtimeSessionProvider";
 import { useProjectIntakeFlow } from "../(session)/realtime-session/useProjectIntakeFlow";
 import SessionControlBar from "../(session)/realtime-session/SessionControlBar";
+import TextChatPanel from "../(session)/realtime-session/TextChatPanel";
 
 export default function ProjectsListView() {
   const session = useRealtimeSessionContext();
+  const authSession = useAuthSession();
   const router = useRouter();
   const lastRoutedProjectIdRef = useRef<string | null>(null);
 
@@ -70,8 +74,32 @@ export default function ProjectsListView() {
             <h1>Projects</h1>
             <p>Select a project to review details or start a realtime intake session.</p>
           </div>
+          <div className="projects-actions">
+            <Link href="/search" className="secondary">
+              Search
+            </Link>
+            <Link href="/voice-profile" className="secondary">
+              Voice profile
+            </Link>
+            <Link href="/admin/templates" className="secondary">
+              Content templates
+            </Link>
+            <Link href="/admin/draft-queue" className="secondary">
+              Draft queue
+            </Link>
+            {authSession.displayName ? (
+              <span className="auth-user">
+                {authSession.displayName}
+                <button type="button" className="text-button" onClick={authSession.signOut}>
+                  Sign out
+                </button>
+              </span>
+            ) : null}
+          </div>
         </header>
 
+        <TextChatPanel />
+
         <section className="projects-list">
           {isLoadingProjects ? (
             <div className="card placeholder">Loading projects…</div>
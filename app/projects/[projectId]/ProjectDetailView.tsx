@@ -10,6 +10,9 @@ import type { Id } from "@/convex/_generated/dataModel";
 import RealtimeSessionShell from "../../(session)/realtime-session/RealtimeSessionShell";
 import { useRealtimeSessionContext } from "../../(session)/realtime-session/RealtimeSessionProvider";
 
+import ProjectExportMenu from "./ProjectExportMenu";
+import ProjectUsagePanel from "./ProjectUsagePanel";
+
 export default function ProjectDetailView({
   projectId,
 }: {
@@ -53,7 +56,9 @@ export default function ProjectDetailView({
         projectId={projectId}
         breadcrumbs={breadcrumbs}
         projectTitle={projectTitle}
+        toolbarActions={<ProjectExportMenu projectId={projectId} />}
       />
+      <ProjectUsagePanel projectId={projectId} />
     </div>
   );
 }
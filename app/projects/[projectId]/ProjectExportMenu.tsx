@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+
+import { useAuthSession } from "@/components/auth";
+import type { Id } from "@/convex/_generated/dataModel";
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/manuscriptExport";
+
+const parseFileName = (disposition: string | null) =>
+  disposition?.match(/filename="([^"]+)"/)?.[1] ?? null;
+
+export default function ProjectExportMenu({
+  projectId,
+}: {
+  projectId: Id<"projects">;
+}) {
+  const { fetchAccessToken } = useAuthSession();
+  const [format, setFormat] = useState<ExportFormat>("markdown");
+  const [includeFrontMatter, setIncludeFrontMatter] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    if (exporting) return;
+    setExporting(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        projectId,
+        format,
+        frontMatter: includeFrontMatter ? "1" : "0",
+      });
+      const token = await fetchAccessToken({ forceRefreshToken: false });
+      const response = await fetch(`/api/export?${params.toString()}`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      });
+      if (!response.ok) {
+        const detail = await response.json().catch(() => null);
+        throw new Error(detail?.error ?? `Export failed (${response.status})`);
+      }
+      const blob = await response.blob();
+      const href = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = href;
+      link.download =
+        parseFileName(response.headers.get("Content-Disposition")) ?? `manuscript.${format}`;
+      link.click();
+      URL.revokeObjectURL(href);
+    } catch (exportError) {
+      console.error("Failed to export manuscript", exportError);
+      setError(exportError instanceof Error ? exportError.message : "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="toolbar-actions export-menu">
+      <select
+        aria-label="Export format"
+        value={format}
+        onChange={(event) => setFormat(event.target.value as ExportFormat)}
+        disabled={exporting}
+      >
+        {EXPORT_FORMATS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <label className="export-option">
+        <input
+          type="checkbox"
+          checked={includeFrontMatter}
+          onChange={(event) => setIncludeFrontMatter(event.target.checked)}
+          disabled={exporting}
+        />
+        Front matter
+      </label>
+      <button type="button" className="text-button" onClick={handleExport} disabled={exporting}>
+        {exporting ? "Exporting…" : "Export"}
+      </button>
+      {error ? (
+        <span className="export-error" role="alert">
+          {error}
+        </span>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+
+const formatUsd = (amount: number) =>
+  new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: amount > 0 && amount < 1 ? 4 : 2,
+  }).format(amount);
+
+const STATE_LABELS = {
+  ok: "Within budget",
+  soft: "Soft limit reached",
+  hard: "Hard limit reached",
+} as const;
+
+// An empty field clears the limit.
+const parseAmount = (value: string) => {
+  const amount = Number.parseFloat(value);
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+};
+
+export default function ProjectUsagePanel({ projectId }: { projectId: Id<"projects"> }) {
+  const usage = useQuery(api.usage.getProjectUsage, { projectId });
+  const setBudgetLimits = useMutation(api.usage.setBudgetLimits);
+
+  const [soft, setSoft] = useState("");
+  const [hard, setHard] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const explicitSoft = usage?.explicitLimits.softUsd;
+  const explicitHard = usage?.explicitLimits.hardUsd;
+  useEffect(() => {
+    setSoft(explicitSoft !== undefined ? String(explicitSoft) : "");
+    setHard(explicitHard !== undefined ? String(explicitHard) : "");
+  }, [explicitSoft, explicitHard]);
+
+  if (!usage) {
+    return null;
+  }
+
+  const current = usage.history.find((entry) => entry.month === usage.month) ?? null;
+  const { limits } = usage.project;
+  const usedRatio =
+    limits.hardUsd !== undefined ? Math.min(1, usage.project.spentUsd / limits.hardUsd) : null;
+  const dirty =
+    soft !== (explicitSoft !== undefined ? String(explicitSoft) : "") ||
+    hard !== (explicitHard !== undefined ? String(explicitHard) : "");
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await setBudgetLimits({ projectId, softUsd: parseAmount(soft), hardUsd: parseAmount(hard) });
+    } catch (saveError) {
+      console.error("Failed to update budget limits", saveError);
+      setError(saveError instanceof Error ? saveError.message : "Update failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="panel usage-panel">
+      <div className="panel-header">
+        <h2>Drafting usage</h2>
+        <span className={`metric-chip usage-state-${usage.state}`}>{STATE_LABELS[usage.state]}</span>
+      </div>
+      <p className="panel-description">
+        {usage.month}: {formatUsd(usage.project.spentUsd)} across{" "}
+        {(current?.totalTokens ?? 0).toLocaleString()} tokens in {current?.callCount ?? 0} model
+        calls. Drafting with <code>{usage.model}</code>
+        {usage.price
+          ? ` at ${formatUsd(usage.price.input)} / ${formatUsd(usage.price.output)} per million input/output tokens.`
+          : ", which has no list price, so its tokens are not costed."}
+      </p>
+      {usedRatio !== null ? (
+        <div className="usage-meter" aria-label="Share of the hard limit used">
+          <span style={{ width: `${usedRatio * 100}%` }} className={`usage-state-${usage.project.state}`} />
+        </div>
+      ) : null}
+      {usage.state === "soft" && usage.downgradeModel ? (
+        <p className="project-hint">
+          New drafts use <code>{usage.downgradeModel}</code> until the month resets or the limit is
+          raised.
+        </p>
+      ) : null}
+      {usage.state === "hard" ? (
+        <p className="members-error" role="alert">
+          {usage.project.state === "hard"
+            ? "New drafts are paused for this project until the month resets or the limit is raised."
+            : "Your personal drafting budget is used up for this month."}
+        </p>
+      ) : null}
+      {usage.user ? (
+        <p className="project-hint">
+          Your spend this month across all projects: {formatUsd(usage.user.spentUsd)}
+          {usage.user.limits.hardUsd !== undefined
+            ? ` of ${formatUsd(usage.user.limits.hardUsd)}`
+            : ""}
+          .
+        </p>
+      ) : null}
+
+      <div className="project-meta usage-limits">
+        <label>
+          <span>Soft limit (USD / month)</span>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={soft}
+            placeholder={limits.softUsd !== undefined ? String(limits.softUsd) : "None"}
+            onChange={(event) => setSoft(event.target.value)}
+            disabled={!usage.canEdit || saving}
+          />
+        </label>
+        <label>
+          <span>Hard limit (USD / month)</span>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={hard}
+            placeholder={limits.hardUsd !== undefined ? String(limits.hardUsd) : "None"}
+            onChange={(event) => setHard(event.target.value)}
+            disabled={!usage.canEdit || saving}
+          />
+        </label>
+      </div>
+      {explicitSoft === undefined && explicitHard === undefined && limits.hardUsd !== undefined ? (
+        <p className="project-hint">Limits come from the blueprint&apos;s budget range.</p>
+      ) : null}
+      {usage.canEdit ? (
+        <div className="todo-actions">
+          <button
+            type="button"
+            className="text-button"
+            onClick={handleSave}
+            disabled={!dirty || saving}
+          >
+            {saving ? "Saving…" : "Save limits"}
+          </button>
+        </div>
+      ) : null}
+      {error ? (
+        <p className="members-error" role="alert">
+          {error}
+        </p>
+      ) : null}
+
+      {usage.history.length > 1 ? (
+        <table className="queue-depth usage-history">
+          <thead>
+            <tr>
+              <th>Month</th>
+              <th>Tokens</th>
+              <th>Calls</th>
+              <th>Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {usage.history.map((entry) => (
+              <tr key={entry.month}>
+                <td>{entry.month}</td>
+                <td>{entry.totalTokens.toLocaleString()}</td>
+                <td>{entry.callCount}</td>
+                <td>
+                  {formatUsd(entry.costUsd)}
+                  {entry.unpricedTokens > 0 ? " + unpriced" : ""}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+    </section>
+  );
+}
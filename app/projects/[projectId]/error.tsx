@@ -0,0 +1,38 @@
+"use client";
+
+import Link from "next/link";
+
+import { isAccessError } from "@/convex/lib/access";
+
+export default function ProjectError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  const accessDenied = isAccessError(error);
+
+  return (
+    <main className="page">
+      <div className="card project-error" role="alert">
+        <h1>{accessDenied ? "No access to this project" : "Something went wrong"}</h1>
+        <p>
+          {accessDenied
+            ? error.data.message
+            : "The project could not be loaded. Try again in a moment."}
+        </p>
+        <div className="projects-actions">
+          <Link href="/projects" className="secondary">
+            Back to projects
+          </Link>
+          {accessDenied ? null : (
+            <button type="button" onClick={reset}>
+              Retry
+            </button>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState, type RefObject } from "react";
+
+import { formatPlaybackTime } from "@/lib/sessionRecording";
+
+type SessionRecording = {
+  mimeType: string;
+  durationMs: number;
+  chunks: { sequence: number; url: string }[];
+  missingChunks: number;
+};
+
+/**
+ * Stitches the uploaded chunks back into one file. MediaRecorder chunks are
+ * only decodable from the first one onwards, so they are fetched and joined
+ * rather than played individually.
+ */
+export default function SessionAudioPlayer({
+  recording,
+  audioRef,
+  onReady,
+}: {
+  recording: SessionRecording;
+  audioRef: RefObject<HTMLAudioElement>;
+  onReady: () => void;
+}) {
+  const [src, setSrc] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Refetch only when chunks are added, not on every query refresh.
+  const chunkUrls = recording.chunks.map((chunk) => chunk.url).join("\n");
+  const { mimeType } = recording;
+
+  useEffect(() => {
+    if (!chunkUrls) return;
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    const load = async () => {
+      try {
+        const blobs = await Promise.all(
+          chunkUrls.split("\n").map(async (url) => {
+            const response = await fetch(url);
+            if (!response.ok) {
+              throw new Error(`Could not download recording (${response.status})`);
+            }
+            return response.blob();
+          }),
+        );
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(new Blob(blobs, { type: mimeType }));
+        setSrc(objectUrl);
+        setError(null);
+      } catch (loadError) {
+        console.error("Failed to load session recording", loadError);
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Recording unavailable");
+        }
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [chunkUrls, mimeType]);
+
+  // Recorded webm has no duration in its header, which stops the browser from
+  // seeking. Jumping far past the end forces it to scan the file once.
+  const handleLoadedMetadata = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (Number.isFinite(audio.duration)) {
+      onReady();
+      return;
+    }
+    const settle = () => {
+      audio.removeEventListener("timeupdate", settle);
+      audio.currentTime = 0;
+      onReady();
+    };
+    audio.addEventListener("timeupdate", settle);
+    audio.currentTime = Number.MAX_SAFE_INTEGER;
+  };
+
+  return (
+    <div className="session-audio">
+      <div className="revision-meta">
+        <span>Session audio</span>
+        <span>{formatPlaybackTime(recording.durationMs)}</span>
+      </div>
+      {error ? (
+        <p className="members-error" role="alert">
+          {error}
+        </p>
+      ) : recording.chunks.length === 0 ? (
+        <p className="project-hint">The start of this recording failed to upload.</p>
+      ) : src ? (
+        <audio
+          ref={audioRef}
+          src={src}
+          controls
+          preload="metadata"
+          onLoadedMetadata={handleLoadedMetadata}
+        />
+      ) : (
+        <p className="project-hint">Loading recording…</p>
+      )}
+      {recording.missingChunks > 0 ? (
+        <p className="project-hint">
+          Part of this recording failed to upload; playback ends where the gap begins.
+        </p>
+      ) : null}
+    </div>
+  );
+}
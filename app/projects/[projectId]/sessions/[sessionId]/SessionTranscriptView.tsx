@@ -0,0 +1,173 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { useQuery } from "convex/react";
+
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { formatPlaybackTime, playbackOffsetFor } from "@/lib/sessionRecording";
+
+import ToolCallLogPanel from "../../../../(session)/realtime-session/ToolCallLogPanel";
+import SessionAudioPlayer from "./SessionAudioPlayer";
+
+const formatDateTime = (timestamp: number) =>
+  new Intl.DateTimeFormat(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(timestamp);
+
+const formatTime = (timestamp: number) =>
+  new Intl.DateTimeFormat(undefined, { hour: "2-digit", minute: "2-digit" }).format(timestamp);
+
+export default function SessionTranscriptView({
+  projectId,
+  sessionId,
+}: {
+  projectId: Id<"projects">;
+  sessionId: Id<"sessions">;
+}) {
+  const transcript = useQuery(api.search.getSessionTranscript, { projectId, sessionId });
+  const recording = useQuery(api.recordings.getSessionRecording, { projectId, sessionId });
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [audioReady, setAudioReady] = useState(false);
+
+  const loaded = transcript !== undefined;
+  useEffect(() => {
+    if (!loaded) return;
+    const hash = window.location.hash.slice(1);
+    const target = hash ? document.getElementById(hash) : null;
+    target?.scrollIntoView({ block: "center" });
+    target?.classList.add("search-target");
+  }, [loaded]);
+
+  // Offsets keyed by anchor id, so "#message-…" and "#note-…" links land on the audio too.
+  const offsets = useMemo(() => {
+    const byAnchor = new Map<string, number>();
+    if (!transcript || !recording) return byAnchor;
+    const byMessage = new Map<string, number>();
+    for (const message of transcript.messages) {
+      const offset = playbackOffsetFor(message, recording.recordingStartedAt);
+      byMessage.set(message._id, offset);
+      byAnchor.set(`message-${message._id}`, offset);
+    }
+    for (const note of transcript.notes) {
+      const sourceOffset = note.sourceMessageIds
+        ?.map((messageId) => byMessage.get(messageId))
+        .find((offset) => offset !== undefined);
+      byAnchor.set(
+        `note-${note._id}`,
+        sourceOffset ?? playbackOffsetFor({ timestamp: note.createdAt }, recording.recordingStartedAt),
+      );
+    }
+    return byAnchor;
+  }, [transcript, recording]);
+
+  const seekTo = useCallback((offsetMs: number, play: boolean) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = offsetMs / 1000;
+    if (play) {
+      audio.play().catch((playError) => console.warn("Audio playback was blocked", playError));
+    }
+  }, []);
+
+  const hashSeekDone = useRef(false);
+  useEffect(() => {
+    if (!audioReady || hashSeekDone.current) return;
+    hashSeekDone.current = true;
+    const offset = offsets.get(window.location.hash.slice(1));
+    // Browsers block autoplay on page load, so only cue the position.
+    if (offset !== undefined) seekTo(offset, false);
+  }, [audioReady, offsets, seekTo]);
+
+  const renderPlayButton = (anchor: string) => {
+    const offset = offsets.get(anchor);
+    if (offset === undefined || !audioReady) return null;
+    return (
+      <button type="button" className="text-button" onClick={() => seekTo(offset, true)}>
+        ▶ {formatPlaybackTime(offset)}
+      </button>
+    );
+  };
+
+  if (!transcript) {
+    return <div className="card placeholder">Loading transcript…</div>;
+  }
+
+  return (
+    <div className="projects-layout">
+      <nav className="breadcrumbs" aria-label="Breadcrumb">
+        <ol>
+          <li>
+            <Link href="/projects">Projects</Link>
+          </li>
+          <li>
+            <Link href={`/projects/${projectId}`}>{transcript.projectTitle}</Link>
+          </li>
+          <li aria-current="page">Session {formatDateTime(transcript.session.startedAt)}</li>
+        </ol>
+      </nav>
+
+      <section className="card transcript-log">
+        <header className="panel-header">
+          <h2>Transcript</h2>
+          <span className="metric-chip">
+            {transcript.messages.length} line{transcript.messages.length === 1 ? "" : "s"}
+          </span>
+        </header>
+        {recording ? (
+          <SessionAudioPlayer
+            recording={recording}
+            audioRef={audioRef}
+            onReady={() => setAudioReady(true)}
+          />
+        ) : null}
+        {transcript.messages.length === 0 ? (
+          <p className="project-hint">Nothing was transcribed in this session.</p>
+        ) : (
+          <ol>
+            {transcript.messages.map((message) => (
+              <li
+                key={message._id}
+                id={`message-${message._id}`}
+                className={`transcript-line ${message.speaker}`}
+              >
+                <span className="revision-meta">
+                  <span>{message.speaker === "assistant" ? "Assistant" : "You"}</span>
+                  <span>{formatTime(message.timestamp)}</span>
+                  {renderPlayButton(`message-${message._id}`)}
+                </span>
+                <p>{message.transcript}</p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+
+      {transcript.notes.length > 0 ? (
+        <section className="card transcript-log">
+          <header className="panel-header">
+            <h2>Notes from this session</h2>
+          </header>
+          <ol>
+            {transcript.notes.map((note) => (
+              <li key={note._id} id={`note-${note._id}`} className="transcript-line">
+                <span className="revision-meta">
+                  <span>{note.noteType}</span>
+                  <span>{formatTime(note.createdAt)}</span>
+                  {renderPlayButton(`note-${note._id}`)}
+                </span>
+                <p>{note.content}</p>
+              </li>
+            ))}
+          </ol>
+        </section>
+      ) : null}
+
+      <ToolCallLogPanel sessionId={sessionId} />
+    </div>
+  );
+}
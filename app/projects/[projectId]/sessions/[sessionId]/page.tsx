@@ -0,0 +1,25 @@
+import type { Id } from "@/convex/_generated/dataModel";
+
+import SessionTranscriptView from "./SessionTranscriptView";
+
+type RouteParams = {
+  projectId: string;
+  sessionId: string;
+};
+
+export default async function SessionTranscriptPage({
+  params,
+}: { params?: Promise<RouteParams> }) {
+  const resolved = (await params) ?? null;
+  if (!resolved?.projectId || !resolved.sessionId) {
+    throw new Error("Missing projectId or sessionId in route params");
+  }
+  return (
+    <main className="page">
+      <SessionTranscriptView
+        projectId={resolved.projectId as Id<"projects">}
+        sessionId={resolved.sessionId as Id<"sessions">}
+      />
+    </main>
+  );
+}
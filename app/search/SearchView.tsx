@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useQuery } from "convex/react";
+
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import type { SearchHit } from "@/convex/search";
+import type { SearchSnippet } from "@/convex/lib/search";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const KIND_LABELS: Record<SearchHit["kind"], string> = {
+  message: "Transcript",
+  note: "Note",
+  section: "Draft",
+};
+
+const formatDateTime = (timestamp: number) =>
+  new Intl.DateTimeFormat(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(timestamp);
+
+function hitHref(hit: SearchHit) {
+  if (hit.kind === "section") {
+    return `/projects/${hit.projectId}#section-${hit.id}`;
+  }
+  if (!hit.sessionId) {
+    return `/projects/${hit.projectId}`;
+  }
+  return `/projects/${hit.projectId}/sessions/${hit.sessionId}#${hit.kind}-${hit.id}`;
+}
+
+function HighlightedSnippet({ snippet }: { snippet: SearchSnippet }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(snippet.text.slice(cursor, start));
+    parts.push(<mark key={index}>{snippet.text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(snippet.text.slice(cursor));
+  return <p className="search-snippet">{parts}</p>;
+}
+
+export default function SearchView() {
+  const [input, setInput] = useState("");
+  const [text, setText] = useState("");
+  const [projectId, setProjectId] = useState<Id<"projects"> | "">("");
+
+  useEffect(() => {
+    const timer = setTimeout(() => setText(input.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const projects = useQuery(api.projects.listProjects, { limit: 100 });
+  const hits = useQuery(
+    api.search.searchProjects,
+    text ? { text, projectId: projectId || undefined } : "skip",
+  );
+
+  return (
+    <div className="projects-layout">
+      <header className="projects-header">
+        <div>
+          <h1>Search</h1>
+          <p>Find what was said in sessions, captured in notes, or written into drafts.</p>
+        </div>
+        <Link href="/projects" className="secondary">
+          Back to projects
+        </Link>
+      </header>
+
+      <form className="project-meta search-form" onSubmit={(event) => event.preventDefault()}>
+        <label>
+          <span>Search for</span>
+          <input
+            type="search"
+            value={input}
+            onChange={(event) => setInput(event.target.value)}
+            placeholder="A name, a story, a phrase from the draft…"
+            autoFocus
+          />
+        </label>
+        <label>
+          <span>Project</span>
+          <select
+            value={projectId}
+            onChange={(event) => setProjectId(event.target.value as Id<"projects"> | "")}
+          >
+            <option value="">All projects</option>
+            {(projects ?? []).map((entry) => (
+              <option key={entry.project._id} value={entry.project._id}>
+                {entry.project.title}
+              </option>
+            ))}
+          </select>
+        </label>
+      </form>
+
+      <section className="projects-list search-results">
+        {!text ? (
+          <div className="card placeholder">Type at least one word to search.</div>
+        ) : hits === undefined ? (
+          <div className="card placeholder">Searching…</div>
+        ) : hits.length === 0 ? (
+          <div className="card placeholder">No matches for “{text}”.</div>
+        ) : (
+          hits.map((hit) => (
+            <article key={`${hit.kind}-${hit.id}`} className="card search-hit">
+              <header className="panel-header">
+                <h2>
+                  <Link href={hitHref(hit)}>{hit.title}</Link>
+                </h2>
+                <span className="metric-chip">{KIND_LABELS[hit.kind]}</span>
+              </header>
+              <HighlightedSnippet snippet={hit.snippet} />
+              <div className="revision-meta">
+                <span>{hit.projectTitle}</span>
+                <span>{formatDateTime(hit.timestamp)}</span>
+              </div>
+            </article>
+          ))
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import SearchView from "./SearchView";
+
+export default function SearchPage() {
+  return (
+    <main className="page">
+      <SearchView />
+    </main>
+  );
+}
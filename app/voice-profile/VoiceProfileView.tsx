@@ -0,0 +1,266 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery } from "convex/react";
+
+import { api } from "@/convex/_generated/api";
+import type { Formality, SentenceLength } from "@/convex/lib/voiceProfile";
+
+const FORMALITY_OPTIONS: Formality[] = ["casual", "conversational", "formal"];
+const SENTENCE_OPTIONS: SentenceLength[] = ["short", "medium", "long"];
+
+const formatDateTime = (timestamp: number) =>
+  new Intl.DateTimeFormat(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(timestamp);
+
+const toLines = (items: string[] | undefined | null) => (items ?? []).join("\n");
+const fromLines = (value: string) =>
+  value
+    .split(/\n|,/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Lists equal to what was learned are not stored as edits, so relearning can update them.
+const overrideList = (value: string, learned: string[] | undefined) => {
+  const items = fromLines(value);
+  return learned && items.join("\n") === learned.join("\n") ? undefined : items;
+};
+
+export default function VoiceProfileView() {
+  const profile = useQuery(api.voiceProfiles.getMyVoiceProfile, {});
+  const updateProfile = useMutation(api.voiceProfiles.updateMyVoiceProfile);
+  const relearn = useMutation(api.voiceProfiles.relearnMyVoiceProfile);
+
+  const [formality, setFormality] = useState<Formality | "">("");
+  const [sentenceLength, setSentenceLength] = useState<SentenceLength | "">("");
+  const [words, setWords] = useState("");
+  const [phrases, setPhrases] = useState("");
+  const [avoid, setAvoid] = useState("");
+  const [notes, setNotes] = useState("");
+  const [busy, setBusy] = useState<"save" | "reset" | "relearn" | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const learned = profile?.learned ?? null;
+  const overrides = profile?.overrides ?? null;
+  const editedAt = overrides?.editedAt;
+  const analyzedAt = learned?.analyzedAt;
+  useEffect(() => {
+    if (!profile) return;
+    setFormality(overrides?.formality ?? "");
+    setSentenceLength(overrides?.sentenceLength ?? "");
+    setWords(toLines(overrides?.characteristicWords ?? learned?.characteristicWords));
+    setPhrases(toLines(overrides?.signaturePhrases ?? learned?.signaturePhrases));
+    setAvoid(toLines(overrides?.avoidPhrases));
+    setNotes(overrides?.notes ?? "");
+    // Re-seed only when the stored profile changes, not on every query tick.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [profile === undefined, editedAt, analyzedAt]);
+
+  const run = async (kind: "save" | "reset" | "relearn", task: () => Promise<string>) => {
+    if (busy) return;
+    setBusy(kind);
+    setError(null);
+    setMessage(null);
+    try {
+      setMessage(await task());
+    } catch (taskError) {
+      console.error("Failed to update voice profile", taskError);
+      setError(taskError instanceof Error ? taskError.message : "Update failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSave = () =>
+    run("save", async () => {
+      await updateProfile({
+        formality: formality || undefined,
+        sentenceLength: sentenceLength || undefined,
+        characteristicWords: overrideList(words, learned?.characteristicWords),
+        signaturePhrases: overrideList(phrases, learned?.signaturePhrases),
+        avoidPhrases: fromLines(avoid),
+        notes,
+      });
+      return "Saved. New drafts will use these settings.";
+    });
+
+  const handleReset = () =>
+    run("reset", async () => {
+      await updateProfile({ avoidPhrases: fromLines(avoid), notes });
+      return "Reset to the learned profile. Phrases to avoid and notes were kept.";
+    });
+
+  const handleRelearn = () =>
+    run("relearn", async () => {
+      const result = await relearn({});
+      return result.learned
+        ? `Re-learned from ${result.sampleWords.toLocaleString()} words of your speech.`
+        : `Only ${result.sampleWords.toLocaleString()} words of your speech so far; keep talking in sessions and try again.`;
+    });
+
+  return (
+    <div className="projects-layout">
+      <header className="projects-header">
+        <div>
+          <h1>Voice profile</h1>
+          <p>
+            How you sound, learned from your own turns in realtime sessions. The drafter writes
+            your projects in this voice; anything you change here wins over what was learned.
+          </p>
+        </div>
+        <Link href="/projects" className="secondary">
+          Back to projects
+        </Link>
+      </header>
+
+      {error ? <div className="alert">{error}</div> : null}
+      {message ? <p className="project-hint">{message}</p> : null}
+
+      {profile === undefined ? (
+        <div className="card placeholder">Loading voice profile…</div>
+      ) : profile === null ? (
+        <div className="card placeholder">Sign in to see your voice profile.</div>
+      ) : (
+        <>
+          <section className="card">
+            <header className="panel-header">
+              <h2>Learned from your speech</h2>
+              {learned ? (
+                <span className="metric-chip">{learned.formality}</span>
+              ) : (
+                <span className="metric-chip">Not enough speech yet</span>
+              )}
+            </header>
+            {learned ? (
+              <div className="queue-metrics">
+                <div className="queue-metric">
+                  <span>Words analyzed</span>
+                  <strong>{learned.sampleWords.toLocaleString()}</strong>
+                </div>
+                <div className="queue-metric">
+                  <span>Sessions</span>
+                  <strong>{learned.sessionCount}</strong>
+                </div>
+                <div className="queue-metric">
+                  <span>Words per sentence</span>
+                  <strong>{learned.avgSentenceWords}</strong>
+                </div>
+                <div className="queue-metric">
+                  <span>Vocabulary richness</span>
+                  <strong>{Math.round(learned.vocabularyRichness * 100)}%</strong>
+                </div>
+                <div className="queue-metric">
+                  <span>Formality score</span>
+                  <strong>{Math.round(learned.formalityScore * 100)} / 100</strong>
+                </div>
+              </div>
+            ) : (
+              <p className="project-hint">
+                The profile is learned once you have spoken at least {profile.minSampleWords} words
+                across your sessions. It refreshes each time a session ends.
+              </p>
+            )}
+            <div className="todo-actions">
+              {learned ? (
+                <span className="revision-meta">Analyzed {formatDateTime(learned.analyzedAt)}</span>
+              ) : null}
+              <button
+                type="button"
+                className="text-button"
+                onClick={handleRelearn}
+                disabled={busy !== null}
+              >
+                {busy === "relearn" ? "Re-learning…" : "Re-learn now"}
+              </button>
+            </div>
+          </section>
+
+          <section className="card">
+            <header className="panel-header">
+              <h2>Your edits</h2>
+              {editedAt ? (
+                <span className="revision-meta">Edited {formatDateTime(editedAt)}</span>
+              ) : null}
+            </header>
+            <div className="project-meta">
+              <label>
+                <span>Formality</span>
+                <select
+                  value={formality}
+                  onChange={(event) => setFormality(event.target.value as Formality | "")}
+                >
+                  <option value="">{learned ? `As learned (${learned.formality})` : "Not set"}</option>
+                  {FORMALITY_OPTIONS.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                <span>Sentence length</span>
+                <select
+                  value={sentenceLength}
+                  onChange={(event) => setSentenceLength(event.target.value as SentenceLength | "")}
+                >
+                  <option value="">
+                    {learned ? `As learned (${learned.sentenceLength})` : "Not set"}
+                  </option>
+                  {SENTENCE_OPTIONS.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                <span>Words you reach for (one per line)</span>
+                <textarea value={words} onChange={(event) => setWords(event.target.value)} />
+              </label>
+              <label>
+                <span>Signature phrases (one per line)</span>
+                <textarea value={phrases} onChange={(event) => setPhrases(event.target.value)} />
+              </label>
+              <label>
+                <span>Phrases the drafter must never use (one per line)</span>
+                <textarea value={avoid} onChange={(event) => setAvoid(event.target.value)} />
+              </label>
+              <label>
+                <span>Anything else about your voice</span>
+                <textarea
+                  value={notes}
+                  onChange={(event) => setNotes(event.target.value)}
+                  placeholder="e.g. I never open with a question; I like one-line paragraphs for emphasis."
+                />
+              </label>
+            </div>
+            <div className="todo-actions">
+              <button
+                type="button"
+                className="text-button"
+                onClick={handleSave}
+                disabled={busy !== null}
+              >
+                {busy === "save" ? "Saving…" : "Save"}
+              </button>
+              <button
+                type="button"
+                className="text-button"
+                onClick={handleReset}
+                disabled={busy !== null || !overrides}
+              >
+                {busy === "reset" ? "Resetting…" : "Reset to learned"}
+              </button>
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
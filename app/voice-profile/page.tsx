@@ -0,0 +1,9 @@
+import VoiceProfileView from "./VoiceProfileView";
+
+export default function VoiceProfilePage() {
+  return (
+    <main className="page">
+      <VoiceProfileView />
+    </main>
+  );
+}
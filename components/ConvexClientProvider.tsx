@@ -1,7 +1,15 @@
 "use client";
 
 import { useMemo, type ReactNode } from "react";
-import { ConvexProvider, ConvexReactClient } from "convex/react";
+import {
+  AuthLoading,
+  Authenticated,
+  ConvexProviderWithAuth,
+  ConvexReactClient,
+  Unauthenticated,
+} from "convex/react";
+
+import { activeAuthProvider } from "./auth";
 
 const DEFAULT_CONVEX_URL = "http://localhost:3210";
 let cachedClient: ConvexReactClient | null = null;
@@ -31,6 +39,23 @@ export function ConvexClientProvider({ children }: ConvexClientProviderProps) {
   }
 
   const client = useMemo(() => createClient(convexUrl), [convexUrl]);
-
-  return <ConvexProvider client={client}>{children}</ConvexProvider>;
+  const { Provider, useAuth, SignIn } = activeAuthProvider;
+
+  // Everything below the provider assumes a signed-in caller; the backend
+  // rejects anonymous reads of project data.
+  return (
+    <Provider>
+      <ConvexProviderWithAuth client={client} useAuth={useAuth}>
+        <AuthLoading>
+          <div className="auth-screen">
+            <p className="auth-status">Checking your session…</p>
+          </div>
+        </AuthLoading>
+        <Unauthenticated>
+          <SignIn />
+        </Unauthenticated>
+        <Authenticated>{children}</Authenticated>
+      </ConvexProviderWithAuth>
+    </Provider>
+  );
 }
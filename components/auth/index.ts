@@ -0,0 +1,16 @@
+import { localAuthProvider } from "./localAuthProvider";
+import type { AuthProviderDefinition } from "./types";
+
+export type { AuthProviderDefinition, AuthSession, ConvexAuthState } from "./types";
+
+const AUTH_PROVIDERS: Record<string, AuthProviderDefinition> = {
+  [localAuthProvider.id]: localAuthProvider,
+};
+
+const requestedProvider = process.env.NEXT_PUBLIC_AUTH_PROVIDER ?? localAuthProvider.id;
+
+export const activeAuthProvider = AUTH_PROVIDERS[requestedProvider] ?? localAuthProvider;
+
+export function useAuthSession() {
+  return activeAuthProvider.useSession();
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type FormEvent,
+  type ReactNode,
+} from "react";
+
+import type { AuthProviderDefinition, ConvexAuthState, FetchAccessToken } from "./types";
+
+const STORAGE_KEY = "ghostwriter.localIdentity";
+
+type LocalIdentity = {
+  email: string;
+  name: string;
+};
+
+type LocalAuthContextValue = {
+  identity: LocalIdentity | null;
+  isLoading: boolean;
+  signIn: (identity: LocalIdentity) => void;
+  signOut: () => void;
+};
+
+const LocalAuthContext = createContext<LocalAuthContextValue | null>(null);
+
+const readStoredIdentity = (): LocalIdentity | null => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Partial<LocalIdentity>) : null;
+    return parsed?.email ? { email: parsed.email, name: parsed.name ?? parsed.email } : null;
+  } catch {
+    return null;
+  }
+};
+
+function LocalAuthProvider({ children }: { children: ReactNode }) {
+  const [identity, setIdentity] = useState<LocalIdentity | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setIdentity(readStoredIdentity());
+    setIsLoading(false);
+  }, []);
+
+  const signIn = useCallback((next: LocalIdentity) => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    setIdentity(next);
+  }, []);
+
+  const signOut = useCallback(() => {
+    window.localStorage.removeItem(STORAGE_KEY);
+    setIdentity(null);
+  }, []);
+
+  const value = useMemo(
+    () => ({ identity, isLoading, signIn, signOut }),
+    [identity, isLoading, signIn, signOut],
+  );
+
+  return <LocalAuthContext.Provider value={value}>{children}</LocalAuthContext.Provider>;
+}
+
+const useLocalAuthContext = () => {
+  const context = useContext(LocalAuthContext);
+  if (!context) {
+    throw new Error("Local auth hooks must be used inside LocalAuthProvider");
+  }
+  return context;
+};
+
+const useLocalAccessToken = (identity: LocalIdentity | null): FetchAccessToken =>
+  useCallback(async () => {
+    if (!identity) return null;
+    try {
+      const response = await fetch("/api/auth/local/token", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(identity),
+      });
+      if (!response.ok) {
+        console.warn("[auth] local token request failed", response.status);
+        return null;
+      }
+      const { token } = (await response.json()) as { token?: string };
+      return token ?? null;
+    } catch (error) {
+      console.warn("[auth] local token request failed", error);
+      return null;
+    }
+  }, [identity]);
+
+function useLocalConvexAuth(): ConvexAuthState {
+  const { identity, isLoading } = useLocalAuthContext();
+  const fetchAccessToken = useLocalAccessToken(identity);
+  return useMemo(
+    () => ({ isLoading, isAuthenticated: Boolean(identity), fetchAccessToken }),
+    [identity, isLoading, fetchAccessToken],
+  );
+}
+
+function useLocalSession() {
+  const { identity, signOut } = useLocalAuthContext();
+  const fetchAccessToken = useLocalAccessToken(identity);
+  return useMemo(
+    () => ({ displayName: identity?.name ?? null, fetchAccessToken, signOut }),
+    [identity, fetchAccessToken, signOut],
+  );
+}
+
+function LocalSignIn() {
+  const { identity, signIn, signOut } = useLocalAuthContext();
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const trimmedEmail = email.trim().toLowerCase();
+    if (!trimmedEmail) return;
+    signIn({ email: trimmedEmail, name: name.trim() || trimmedEmail });
+  };
+
+  return (
+    <div className="auth-screen">
+      <form className="card auth-card" onSubmit={handleSubmit}>
+        <h1>Sign in</h1>
+        <p>
+          Local development sign-in. Each email is its own user, so use a second address to
+          try the app as another teammate.
+        </p>
+        {identity ? (
+          <p className="auth-error" role="alert">
+            The backend rejected the token for {identity.email}. Check LOCAL_AUTH_ISSUER on the
+            Convex deployment, then{" "}
+            <button type="button" className="text-button" onClick={signOut}>
+              try again
+            </button>
+            .
+          </p>
+        ) : null}
+        <label>
+          Name
+          <input value={name} onChange={(event) => setName(event.target.value)} />
+        </label>
+        <label>
+          Email
+          <input
+            type="email"
+            required
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+          />
+        </label>
+        <button type="submit" className="primary">
+          Continue
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export const localAuthProvider: AuthProviderDefinition = {
+  id: "local",
+  Provider: LocalAuthProvider,
+  useAuth: useLocalConvexAuth,
+  useSession: useLocalSession,
+  SignIn: LocalSignIn,
+};
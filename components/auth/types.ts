@@ -0,0 +1,28 @@
+import type { ComponentType, ReactNode } from "react";
+
+export type FetchAccessToken = (args: { forceRefreshToken: boolean }) => Promise<string | null>;
+
+/** Shape `ConvexProviderWithAuth` expects from its `useAuth` hook. */
+export type ConvexAuthState = {
+  isLoading: boolean;
+  isAuthenticated: boolean;
+  fetchAccessToken: FetchAccessToken;
+};
+
+export type AuthSession = {
+  displayName: string | null;
+  fetchAccessToken: FetchAccessToken;
+  signOut: () => void;
+};
+
+/**
+ * One identity provider the app can run against. Register new providers in
+ * `components/auth/index.ts` and select them with NEXT_PUBLIC_AUTH_PROVIDER.
+ */
+export type AuthProviderDefinition = {
+  id: string;
+  Provider: ComponentType<{ children: ReactNode }>;
+  useAuth: () => ConvexAuthState;
+  useSession: () => AuthSession;
+  SignIn: ComponentType;
+};
@@ -13,16 +13,53 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as claims from "../claims.js";
+import type * as contentTemplates from "../contentTemplates.js";
 import type * as crons from "../crons.js";
 import type * as documents from "../documents.js";
+import type * as draftChanges from "../draftChanges.js";
+import type * as draftJobs from "../draftJobs.js";
+import type * as draftMetrics from "../draftMetrics.js";
+import type * as embeddings from "../embeddings.js";
+import type * as lib_access from "../lib/access.js";
+import type * as lib_claims from "../lib/claims.js";
+import type * as lib_contentTemplates from "../lib/contentTemplates.js";
+import type * as lib_draftRetry from "../lib/draftRetry.js";
+import type * as lib_draftScheduling from "../lib/draftScheduling.js";
+import type * as lib_embeddings from "../lib/embeddings.js";
 import type * as lib_ghostwriting from "../lib/ghostwriting.js";
+import type * as lib_modelProviders from "../lib/modelProviders.js";
+import type * as lib_queueMetrics from "../lib/queueMetrics.js";
+import type * as lib_responses from "../lib/responses.js";
+import type * as lib_search from "../lib/search.js";
+import type * as lib_sectionComments from "../lib/sectionComments.js";
+import type * as lib_sections from "../lib/sections.js";
+import type * as lib_sessionRecap from "../lib/sessionRecap.js";
+import type * as lib_streaming from "../lib/streaming.js";
+import type * as lib_styleLint from "../lib/styleLint.js";
 import type * as lib_telemetry from "../lib/telemetry.js";
+import type * as lib_toolCalls from "../lib/toolCalls.js";
+import type * as lib_toolRouter from "../lib/toolRouter.js";
+import type * as lib_usageBudget from "../lib/usageBudget.js";
+import type * as lib_voiceProfile from "../lib/voiceProfile.js";
+import type * as lib_wordDiff from "../lib/wordDiff.js";
 import type * as messages from "../messages.js";
 import type * as notes from "../notes.js";
+import type * as projectMembers from "../projectMembers.js";
 import type * as projects from "../projects.js";
+import type * as recaps from "../recaps.js";
+import type * as recordings from "../recordings.js";
+import type * as revisions from "../revisions.js";
+import type * as search from "../search.js";
+import type * as sectionComments from "../sectionComments.js";
 import type * as sessions from "../sessions.js";
+import type * as styleLint from "../styleLint.js";
 import type * as todos from "../todos.js";
+import type * as toolCalls from "../toolCalls.js";
+import type * as tools from "../tools.js";
+import type * as usage from "../usage.js";
 import type * as utils from "../utils.js";
+import type * as voiceProfiles from "../voiceProfiles.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -33,16 +70,53 @@ import type * as utils from "../utils.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  claims: typeof claims;
+  contentTemplates: typeof contentTemplates;
   crons: typeof crons;
   documents: typeof documents;
+  draftChanges: typeof draftChanges;
+  draftJobs: typeof draftJobs;
+  draftMetrics: typeof draftMetrics;
+  embeddings: typeof embeddings;
+  "lib/access": typeof lib_access;
+  "lib/claims": typeof lib_claims;
+  "lib/contentTemplates": typeof lib_contentTemplates;
+  "lib/draftRetry": typeof lib_draftRetry;
+  "lib/draftScheduling": typeof lib_draftScheduling;
+  "lib/embeddings": typeof lib_embeddings;
   "lib/ghostwriting": typeof lib_ghostwriting;
+  "lib/modelProviders": typeof lib_modelProviders;
+  "lib/queueMetrics": typeof lib_queueMetrics;
+  "lib/responses": typeof lib_responses;
+  "lib/search": typeof lib_search;
+  "lib/sectionComments": typeof lib_sectionComments;
+  "lib/sections": typeof lib_sections;
+  "lib/sessionRecap": typeof lib_sessionRecap;
+  "lib/streaming": typeof lib_streaming;
+  "lib/styleLint": typeof lib_styleLint;
   "lib/telemetry": typeof lib_telemetry;
+  "lib/toolCalls": typeof lib_toolCalls;
+  "lib/toolRouter": typeof lib_toolRouter;
+  "lib/usageBudget": typeof lib_usageBudget;
+  "lib/voiceProfile": typeof lib_voiceProfile;
+  "lib/wordDiff": typeof lib_wordDiff;
   messages: typeof messages;
   notes: typeof notes;
+  projectMembers: typeof projectMembers;
   projects: typeof projects;
+  recaps: typeof recaps;
+  recordings: typeof recordings;
+  revisions: typeof revisions;
+  search: typeof search;
+  sectionComments: typeof sectionComments;
   sessions: typeof sessions;
+  styleLint: typeof styleLint;
   todos: typeof todos;
+  toolCalls: typeof toolCalls;
+  tools: typeof tools;
+  usage: typeof usage;
   utils: typeof utils;
+  voiceProfiles: typeof voiceProfiles;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
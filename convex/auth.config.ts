@@ -0,0 +1,25 @@
+// Identity providers accepted by the deployment. Any OIDC provider (Clerk,
+// Auth0, WorkOS, ...) plugs in through AUTH_OIDC_DOMAIN; the local stand-in
+// validates tokens minted by the Next app's /api/auth/local routes.
+const providers: Array<Record<string, string>> = [];
+
+if (process.env.AUTH_OIDC_DOMAIN && process.env.AUTH_OIDC_APPLICATION_ID) {
+  providers.push({
+    domain: process.env.AUTH_OIDC_DOMAIN,
+    applicationID: process.env.AUTH_OIDC_APPLICATION_ID,
+  });
+}
+
+if (process.env.LOCAL_AUTH_ISSUER) {
+  const issuer = process.env.LOCAL_AUTH_ISSUER.replace(/\/+$/, "");
+  providers.push({
+    type: "customJwt",
+    issuer,
+    jwks: `${issuer}/api/auth/local/jwks`,
+    algorithm: "RS256",
+    // Keep in sync with LOCAL_AUTH_APPLICATION_ID in lib/localAuth.ts.
+    applicationID: "ghostwriter-local",
+  });
+}
+
+export default { providers };
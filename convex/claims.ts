@@ -0,0 +1,210 @@
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+
+import { formatClaimTodo, planSectionClaims, type ClaimStatus } from "./lib/claims";
+import { insertNote } from "./notes";
+import { requireProjectAccess } from "./utils";
+
+const STATUS_ORDER: Record<ClaimStatus, number> = {
+  unsupported: 0,
+  supported: 1,
+  sent_to_todo: 2,
+  verified: 3,
+};
+
+/** Replace the drafter's claims for each section this job rewrote. */
+export const recordClaims = internalMutation({
+  args: {
+    projectId: v.id("projects"),
+    draftJobId: v.id("draftJobs"),
+    sections: v.array(
+      v.object({
+        sectionId: v.id("documentSections"),
+        content: v.string(),
+        claims: v.array(
+          v.object({
+            sentence: v.string(),
+            noteIds: v.array(v.id("notes")),
+            messageIds: v.array(v.id("messages")),
+          }),
+        ),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    let recorded = 0;
+    let unsupported = 0;
+    for (const section of args.sections) {
+      const existing = await ctx.db
+        .query("claims")
+        .withIndex("by_section", (q) => q.eq("sectionId", section.sectionId))
+        .collect();
+      const plan = planSectionClaims(
+        existing.map((claim) => ({ ...claim, id: claim._id })),
+        section.claims.map((claim) => ({
+          sentence: claim.sentence,
+          sources: { noteIds: claim.noteIds, messageIds: claim.messageIds },
+        })),
+        section.content,
+      );
+
+      for (const claim of plan.remove) {
+        await ctx.db.delete(claim._id);
+      }
+      for (const { claim, sources } of plan.keep) {
+        if (!sources) continue;
+        await ctx.db.patch(claim._id, {
+          draftJobId: args.draftJobId,
+          noteIds: sources.noteIds as Id<"notes">[],
+          messageIds: sources.messageIds as Id<"messages">[],
+          updatedAt: now,
+        });
+      }
+      for (const claim of plan.insert) {
+        await ctx.db.insert("claims", {
+          projectId: args.projectId,
+          sectionId: section.sectionId,
+          draftJobId: args.draftJobId,
+          sentence: claim.sentence,
+          noteIds: claim.sources.noteIds as Id<"notes">[],
+          messageIds: claim.sources.messageIds as Id<"messages">[],
+          status: claim.status,
+          createdAt: now,
+          updatedAt: now,
+        });
+        if (claim.status === "unsupported") unsupported += 1;
+      }
+      recorded += plan.keep.length + plan.insert.length;
+    }
+    return { recorded, unsupported };
+  },
+});
+
+/**
+ * Claims for the claims panel with their cited sources inlined. Claims in
+ * sections that have since been deleted are left out.
+ */
+export const listForProject = query({
+  args: {
+    projectId: v.id("projects"),
+    statuses: v.optional(
+      v.array(
+        v.union(
+          v.literal("supported"),
+          v.literal("unsupported"),
+          v.literal("verified"),
+          v.literal("sent_to_todo"),
+        ),
+      ),
+    ),
+  },
+  handler: async (ctx, args) => {
+    await requireProjectAccess(ctx, args.projectId);
+    const statuses: ClaimStatus[] = args.statuses ?? ["unsupported"];
+    const claims: Doc<"claims">[] = [];
+    for (const status of statuses) {
+      claims.push(
+        ...(await ctx.db
+          .query("claims")
+          .withIndex("by_project_status", (q) =>
+            q.eq("projectId", args.projectId).eq("status", status),
+          )
+          .collect()),
+      );
+    }
+
+    const sections = new Map<Id<"documentSections">, Doc<"documentSections"> | null>();
+    const results = [];
+    for (const claim of claims) {
+      if (!sections.has(claim.sectionId)) {
+        sections.set(claim.sectionId, await ctx.db.get(claim.sectionId));
+      }
+      const section = sections.get(claim.sectionId);
+      if (!section) continue;
+      const notes = [];
+      for (const noteId of claim.noteIds) {
+        const note = await ctx.db.get(noteId);
+        if (note) notes.push({ _id: note._id, content: note.content });
+      }
+      const messages = [];
+      for (const messageId of claim.messageIds) {
+        const message = await ctx.db.get(messageId);
+        if (message) {
+          messages.push({
+            _id: message._id,
+            sessionId: message.sessionId,
+            speaker: message.speaker,
+            transcript: message.transcript,
+          });
+        }
+      }
+      results.push({
+        ...claim,
+        heading: section.heading,
+        sectionOrder: section.order,
+        notes,
+        messages,
+      });
+    }
+    return results.sort(
+      (a, b) =>
+        STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+        a.sectionOrder - b.sectionOrder ||
+        a.createdAt - b.createdAt,
+    );
+  },
+});
+
+async function loadClaim(ctx: MutationCtx, claimId: Id<"claims">) {
+  const claim = await ctx.db.get(claimId);
+  if (!claim) {
+    throw new Error("Claim not found");
+  }
+  return claim;
+}
+
+export const verifyClaim = mutation({
+  args: { claimId: v.id("claims") },
+  handler: async (ctx, args) => {
+    const claim = await loadClaim(ctx, args.claimId);
+    const { viewer } = await requireProjectAccess(ctx, claim.projectId, "resolveTodos");
+    const now = Date.now();
+    await ctx.db.patch(claim._id, {
+      status: "verified",
+      decidedBy: viewer._id,
+      decidedAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/** Raise a TODO to confirm the claim with the client, linked to its transcript lines. */
+export const sendClaimToTodo = mutation({
+  args: { claimId: v.id("claims") },
+  handler: async (ctx, args) => {
+    const claim = await loadClaim(ctx, args.claimId);
+    const { viewer } = await requireProjectAccess(ctx, claim.projectId, "comment");
+    if (claim.todoId) {
+      throw new Error("This claim is already on the TODO list");
+    }
+    const section = await ctx.db.get(claim.sectionId);
+    const { todo } = await insertNote(ctx, {
+      projectId: claim.projectId,
+      noteType: "todo",
+      content: formatClaimTodo(section?.heading ?? "Draft", claim.sentence),
+      sourceMessageIds: claim.messageIds.length > 0 ? claim.messageIds : undefined,
+    });
+    const now = Date.now();
+    await ctx.db.patch(claim._id, {
+      status: "sent_to_todo",
+      todoId: todo?._id,
+      decidedBy: viewer._id,
+      decidedAt: now,
+      updatedAt: now,
+    });
+    return todo;
+  },
+});
@@ -0,0 +1,198 @@
+import { internalQuery, mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+
+import { accessError } from "./lib/access";
+import { requireProjectAccess, verifiedEmail } from "./utils";
+import {
+  DEFAULT_CONTENT_TEMPLATES,
+  findDefaultTemplate,
+  resolveContentTemplate,
+  type ContentTemplateFields,
+  type ResolvedContentTemplate,
+} from "./lib/contentTemplates";
+
+export const TEMPLATE_OUTLINE_VALIDATOR = v.array(
+  v.object({
+    heading: v.string(),
+    guidance: v.optional(v.string()),
+  }),
+);
+
+const toFields = (template: Doc<"contentTemplates">): ContentTemplateFields => ({
+  contentType: template.contentType,
+  label: template.label,
+  description: template.description,
+  outline: template.outline,
+  wordCountTarget: template.wordCountTarget,
+  tonePresets: template.tonePresets,
+  sampleLanguage: template.sampleLanguage,
+});
+
+async function getStoredTemplate(ctx: QueryCtx | MutationCtx, contentType: string) {
+  return ctx.db
+    .query("contentTemplates")
+    .withIndex("by_content_type", (q) => q.eq("contentType", contentType))
+    .unique();
+}
+
+/**
+ * Stored template for a content type, falling back to the built-in default so
+ * projects always get a template even before anyone has edited one.
+ */
+export async function loadContentTemplate(
+  ctx: QueryCtx | MutationCtx,
+  contentType: string,
+): Promise<ContentTemplateFields | null> {
+  const stored = await getStoredTemplate(ctx, contentType);
+  return stored ? toFields(stored) : findDefaultTemplate(contentType);
+}
+
+// Templates shape every project's drafting prompt, so editing them is limited
+// to the addresses in CONTENT_TEMPLATE_ADMIN_EMAILS (comma separated).
+async function isTemplateAdmin(ctx: QueryCtx | MutationCtx): Promise<boolean> {
+  const email = verifiedEmail(await ctx.auth.getUserIdentity());
+  if (!email) return false;
+  const admins = (process.env.CONTENT_TEMPLATE_ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(email);
+}
+
+async function requireTemplateAdmin(ctx: MutationCtx) {
+  if (!(await ctx.auth.getUserIdentity())) {
+    throw accessError("UNAUTHENTICATED", "Sign in to continue");
+  }
+  if (!(await isTemplateAdmin(ctx))) {
+    throw accessError("FORBIDDEN", "Only template admins can change content templates");
+  }
+}
+
+export async function loadProjectTemplate(
+  ctx: QueryCtx | MutationCtx,
+  projectId: Id<"projects">,
+): Promise<ResolvedContentTemplate | null> {
+  const project = await ctx.db.get(projectId);
+  if (!project) return null;
+  const template = await loadContentTemplate(ctx, project.contentType);
+  if (!template) return null;
+  return resolveContentTemplate(template, project.outlineOverride);
+}
+
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const stored = await ctx.db.query("contentTemplates").collect();
+    const storedByType = new Map(stored.map((template) => [template.contentType, template]));
+
+    const results = DEFAULT_CONTENT_TEMPLATES.map((fallback) => {
+      const template = storedByType.get(fallback.contentType);
+      storedByType.delete(fallback.contentType);
+      return {
+        ...(template ? toFields(template) : fallback),
+        customized: Boolean(template),
+        updatedAt: template?.updatedAt ?? null,
+      };
+    });
+
+    for (const template of storedByType.values()) {
+      results.push({ ...toFields(template), customized: true, updatedAt: template.updatedAt });
+    }
+    return results;
+  },
+});
+
+export const canEdit = query({
+  args: {},
+  handler: (ctx) => isTemplateAdmin(ctx),
+});
+
+export const getForProject = query({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    await requireProjectAccess(ctx, args.projectId);
+    return loadProjectTemplate(ctx, args.projectId);
+  },
+});
+
+export const getForProjectInternal = internalQuery({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: (ctx, args) => loadProjectTemplate(ctx, args.projectId),
+});
+
+export const upsert = mutation({
+  args: {
+    contentType: v.string(),
+    label: v.string(),
+    description: v.string(),
+    outline: TEMPLATE_OUTLINE_VALIDATOR,
+    wordCountTarget: v.optional(v.object({ min: v.number(), max: v.number() })),
+    tonePresets: v.array(v.string()),
+    sampleLanguage: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<Doc<"contentTemplates">> => {
+    await requireTemplateAdmin(ctx);
+    const now = Date.now();
+    const contentType = args.contentType.trim();
+    if (!contentType) {
+      throw new Error("Content type is required");
+    }
+    if (args.wordCountTarget && args.wordCountTarget.min > args.wordCountTarget.max) {
+      throw new Error("Word count minimum must not exceed the maximum");
+    }
+
+    const fields = {
+      label: args.label.trim() || contentType,
+      description: args.description.trim(),
+      outline: args.outline
+        .map((section) => ({
+          heading: section.heading.trim(),
+          guidance: section.guidance?.trim() || undefined,
+        }))
+        .filter((section) => section.heading),
+      wordCountTarget: args.wordCountTarget,
+      tonePresets: args.tonePresets.map((tone) => tone.trim()).filter(Boolean),
+      sampleLanguage: args.sampleLanguage?.trim() || undefined,
+      updatedAt: now,
+    };
+
+    const existing = await getStoredTemplate(ctx, contentType);
+    let templateId: Id<"contentTemplates">;
+    if (existing) {
+      await ctx.db.patch(existing._id, fields);
+      templateId = existing._id;
+    } else {
+      templateId = await ctx.db.insert("contentTemplates", {
+        contentType,
+        ...fields,
+        createdAt: now,
+      });
+    }
+
+    const template = await ctx.db.get(templateId);
+    if (!template) {
+      throw new Error("Content template not found after update");
+    }
+    return template;
+  },
+});
+
+export const resetToDefault = mutation({
+  args: {
+    contentType: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requireTemplateAdmin(ctx);
+    const existing = await getStoredTemplate(ctx, args.contentType);
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+    return findDefaultTemplate(args.contentType);
+  },
+});
@@ -1,20 +1,22 @@
 import { cronJobs } from "convex/server";
 
-import { api } from "./_generated/api";
+import { internal } from "./_generated/api";
 
 const crons = cronJobs();
 
+// Jobs normally start as soon as they are enqueued or their project frees
+// up; this sweep picks up retries and anything a missed kick left behind.
 crons.interval(
   "processDraftQueue",
   { seconds: 30 },
-  api.documents.processDraftQueueBatch,
+  internal.documents.processDraftQueueBatch,
   { limit: 3 },
 );
 
 crons.cron(
   "verifyTranscriptIntegrity",
   "0 4 * * *",
-  api.projects.verifyTranscriptIntegrity,
+  internal.projects.verifyTranscriptIntegrity,
   {},
 );
 
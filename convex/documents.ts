@@ -1,18 +1,48 @@
 import { createHash } from "node:crypto";
 
-import { action, mutation, query } from "./_generated/server";
+import {
+  action,
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
 import type { Doc, Id } from "./_generated/dataModel";
-import { v } from "convex/values";
+import { v, type ObjectType } from "convex/values";
 
-import { api } from "./_generated/api";
+import { api, internal } from "./_generated/api";
 import {
   buildDraftingPrompt,
   type DraftingPromptTranscriptItem,
 } from "./lib/ghostwriting";
+import { preserveLockedSections, replaceSectionMarkdown } from "./lib/sections";
 import {
   publishDraftJobMetrics,
   sendDraftingAlert,
 } from "./lib/telemetry";
+import { recordSectionRevision, REVISION_AUTHOR, type RevisionAttribution } from "./revisions";
+import { loadProjectTemplate } from "./contentTemplates";
+import { accessError } from "./lib/access";
+import { extractPartialJsonString } from "./lib/streaming";
+import { isLiveRunningJob, pickNextDraftJob } from "./lib/draftScheduling";
+import { decideDraftFailure, resolveRetryPolicy } from "./lib/draftRetry";
+import { budgetedDraftingModel, hardLimitReason, loadBudgetStatus } from "./usage";
+import { retrieveRelevantExcerpts } from "./embeddings";
+import { coerceDraftClaims, resolveClaimSources, type DraftClaim } from "./lib/claims";
+import {
+  lintSection,
+  parsePhraseList,
+  resolveBannedPhrases,
+  resolvePassScore,
+} from "./lib/styleLint";
+import { loadOwnedSession, loadProjectSession, requireProjectAccess } from "./utils";
+import {
+  completeWithRetry,
+  MODEL_PROVIDER_VALIDATOR,
+  resolveModelProvider,
+} from "./lib/modelProviders";
 
 type SectionStatus = "drafting" | "needs_detail" | "complete";
 
@@ -31,9 +61,12 @@ type DraftingModelSection = {
 };
 
 type DraftingModelResponse = {
+  model: string;
   markdown: string;
   sections: DraftingModelSection[];
   summary?: string;
+  // Null when the model did not annotate claims at all.
+  claims?: DraftClaim[] | null;
   usage?: {
     inputTokens?: number;
     outputTokens?: number;
@@ -41,6 +74,15 @@ type DraftingModelResponse = {
   };
 };
 
+type LockRejection = NonNullable<Doc<"draftJobs">["lockRejections"]>[number];
+
+type SectionChange = {
+  sectionId: Id<"documentSections">;
+  heading: string;
+  before: string;
+  after: string;
+};
+
 type DraftQueueProcessResult = {
   processed: boolean;
   reason?: string;
@@ -66,10 +108,29 @@ const MODEL_USAGE_VALIDATOR = v.object({
   totalTokens: v.optional(v.number()),
 });
 
+const LOCK_REJECTION_VALIDATOR = v.object({
+  sectionId: v.optional(v.id("documentSections")),
+  heading: v.string(),
+  reason: v.union(
+    v.literal("targeted"),
+    v.literal("modified"),
+    v.literal("removed"),
+  ),
+  rejectedAt: v.number(),
+});
+
+const SECTION_CHANGE_VALIDATOR = v.object({
+  sectionId: v.id("documentSections"),
+  heading: v.string(),
+  before: v.string(),
+  after: v.string(),
+});
+
 const SECTION_PROGRESS_VALIDATOR = v.object({
   heading: v.string(),
   status: v.optional(v.string()),
   order: v.optional(v.number()),
+  changed: v.optional(v.boolean()),
 });
 
 const isNonEmptyString = (value: unknown): value is string =>
@@ -78,22 +139,9 @@ const isNonEmptyString = (value: unknown): value is string =>
 const normalizeSummary = (value: string | null | undefined) =>
   value && value.trim() ? value.trim().toLowerCase() : null;
 
-const sleep = (ms: number) =>
-  new Promise<void>((resolve) => setTimeout(resolve, ms));
-
-const OPENAI_RESPONSES_ENDPOINT =
-  process.env.OPENAI_RESPONSES_ENDPOINT ??
-  "https://api.openai.com/v1/responses";
-const DEFAULT_DRAFTING_MODEL =
-  process.env.OPENAI_DRAFTING_MODEL ?? "gpt-5-nano";
 const OPENAI_REALTIME_ENDPOINT =
   process.env.OPENAI_REALTIME_ENDPOINT ??
   "https://api.openai.com/v1/realtime/sessions";
-const DEFAULT_SUMMARY_MODEL =
-  process.env.OPENAI_SUMMARY_MODEL ?? "gpt-5-nano";
-
-const supportsReasoningControls = (model: string | undefined) =>
-  typeof model === "string" && /^gpt-5(\b|[.\-]|$)/.test(model);
 
 const safeJsonParse = <T>(value: string): T | null => {
   try {
@@ -164,7 +212,7 @@ const extractText = (value: unknown): string | null => {
 
 const extractDraftingPayload = (
   message: unknown,
-): DraftingModelResponse | null => {
+): Omit<DraftingModelResponse, "model"> | null => {
   if (message && typeof message === "object" && !Array.isArray(message)) {
     const record = message as Record<string, unknown>;
     if (typeof record.markdown === "string") {
@@ -178,6 +226,7 @@ const extractDraftingPayload = (
         markdown: (record.markdown as string).trim(),
         sections: sectionsValue,
         summary: summaryValue,
+        claims: coerceDraftClaims(record.claims),
       };
     }
   }
@@ -186,7 +235,7 @@ const extractDraftingPayload = (
   const record = message as Record<string, unknown>;
   const content = record.content;
 
-  const tryParse = (value: unknown): DraftingModelResponse | null => {
+  const tryParse = (value: unknown): Omit<DraftingModelResponse, "model"> | null => {
     if (typeof value !== "string") return null;
     const parsed = safeJsonParse<Record<string, unknown>>(value);
     if (!parsed) return null;
@@ -201,6 +250,7 @@ const extractDraftingPayload = (
       markdown: (parsed.markdown as string).trim(),
       sections: sectionsValue,
       summary,
+      claims: coerceDraftClaims(parsed.claims),
     };
   };
 
@@ -238,6 +288,7 @@ const extractDraftingPayload = (
               markdown: (dataRecord.markdown as string).trim(),
               sections: sectionsValue,
               summary,
+              claims: coerceDraftClaims(dataRecord.claims),
             };
           }
         }
@@ -248,318 +299,201 @@ const extractDraftingPayload = (
   return null;
 };
 
-type OpenAIResponseUsage = {
-  input_tokens?: number;
-  output_tokens?: number;
-  total_tokens?: number;
-};
-
-const normalizeResponseUsage = (usage: unknown) => {
-  if (!usage || typeof usage !== "object") {
-    return { inputTokens: undefined, outputTokens: undefined, totalTokens: undefined };
-  }
-  const record = usage as Record<string, unknown>;
-  return {
-    inputTokens: typeof record.input_tokens === "number" ? record.input_tokens : undefined,
-    outputTokens: typeof record.output_tokens === "number" ? record.output_tokens : undefined,
-    totalTokens: typeof record.total_tokens === "number" ? record.total_tokens : undefined,
-  };
-};
-
-const extractResponseJson = (data: unknown): Record<string, unknown> | null => {
-  if (!data || typeof data !== "object") return null;
-  const record = data as Record<string, unknown>;
-  const outputs = (() => {
-    const value = record.output ?? record.outputs;
-    return Array.isArray(value) ? value : [];
-  })();
-
-  const tryParse = (value: unknown) => {
-    if (!value) return null;
-    if (typeof value === "object" && value !== null) {
-      const vRecord = value as Record<string, unknown>;
-      if (vRecord.json && typeof vRecord.json === "object") {
-        return vRecord.json as Record<string, unknown>;
-      }
-      if (typeof vRecord.text === "string") {
-        try {
-          return JSON.parse(vRecord.text) as Record<string, unknown>;
-        } catch (error) {
-          return null;
-        }
-      }
-      if (typeof vRecord.json_schema === "object" && vRecord.json_schema !== null) {
-        const schemaRecord = vRecord.json_schema as Record<string, unknown>;
-        if (schemaRecord.output && typeof schemaRecord.output === "object") {
-          return schemaRecord.output as Record<string, unknown>;
-        }
-      }
-    }
-    if (typeof value === "string") {
-      try {
-        return JSON.parse(value) as Record<string, unknown>;
-      } catch (error) {
-        return null;
-      }
-    }
-    return null;
-  };
-
-  for (const item of outputs) {
-    if (!item || typeof item !== "object") continue;
-    const content = (item as Record<string, unknown>).content;
-    if (Array.isArray(content)) {
-      for (const entry of content) {
-        const parsed = tryParse(entry);
-        if (parsed) return parsed;
-      }
-    }
-    const parsed = tryParse(item);
-    if (parsed) return parsed;
-  }
-
-  if (typeof record.output_text === "string") {
-    try {
-      return JSON.parse(record.output_text) as Record<string, unknown>;
-    } catch (error) {
-      return null;
-    }
-  }
-
-  return null;
-};
-
-const extractResponseText = (data: unknown): string | null => {
-  if (!data || typeof data !== "object") return null;
-  const record = data as Record<string, unknown>;
-  const outputs = (() => {
-    const value = record.output ?? record.outputs;
-    return Array.isArray(value) ? value : [];
-  })();
-
-  for (const item of outputs) {
-    if (!item || typeof item !== "object") continue;
-    const content = (item as Record<string, unknown>).content;
-    if (Array.isArray(content)) {
-      for (const entry of content) {
-        if (entry && typeof entry === "object") {
-          const text = (entry as Record<string, unknown>).text;
-          if (typeof text === "string" && text.trim()) {
-            return text.trim();
-          }
-        }
-        if (typeof entry === "string" && entry.trim()) {
-          return entry.trim();
-        }
-      }
-    }
-  }
-
-  if (typeof record.output_text === "string" && record.output_text.trim()) {
-    return record.output_text.trim();
-  }
-
-  return null;
+// Throttle for sectionDrafts writes; each one is a mutation and a client re-render.
+const STREAM_WRITE_INTERVAL_MS = 250;
+
+const DRAFT_JSON_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["markdown", "sections", "summary", "claims"],
+  properties: {
+    markdown: { type: "string" },
+    claims: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["heading", "sentence", "sources"],
+        properties: {
+          heading: { type: "string" },
+          sentence: { type: "string" },
+          sources: { type: "array", items: { type: "string" } },
+        },
+      },
+    },
+    summary: {
+      anyOf: [{ type: "string" }, { type: "null" }],
+    },
+    sections: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["heading", "content", "status", "order"],
+        properties: {
+          heading: { type: "string" },
+          content: { type: "string" },
+          status: {
+            anyOf: [
+              {
+                type: "string",
+                enum: ["drafting", "needs_detail", "complete"],
+              },
+              { type: "null" },
+            ],
+          },
+          order: {
+            anyOf: [{ type: "number" }, { type: "null" }],
+          },
+        },
+      },
+    },
+  },
 };
 
-export const callDraftingModel = action({
+export const callDraftingModel = internalAction({
   args: {
     prompt: v.object({
       system: v.string(),
       user: v.string(),
     }),
+    provider: v.optional(MODEL_PROVIDER_VALIDATOR),
     model: v.optional(v.string()),
     temperature: v.optional(v.number()),
+    // Section-scoped jobs stream the markdown into a sectionDrafts row as it arrives.
+    streamTo: v.optional(
+      v.object({
+        jobId: v.id("draftJobs"),
+        projectId: v.id("projects"),
+        sectionId: v.id("documentSections"),
+      }),
+    ),
   },
-  handler: async (ctx, args) => {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!isNonEmptyString(apiKey)) {
-      throw new Error("OPENAI_API_KEY not configured for drafting");
-    }
-
-    const model = isNonEmptyString(args.model)
-      ? args.model.trim()
-      : DEFAULT_DRAFTING_MODEL;
+  handler: async (ctx, args): Promise<DraftingModelResponse> => {
+    const provider = resolveModelProvider(args.provider);
     const temperature =
       typeof args.temperature === "number" && Number.isFinite(args.temperature)
         ? args.temperature
         : undefined;
 
-    const jsonSchemaResponseFormat = {
-      type: "json_schema",
-      name: "ghostwriting_draft",
-      strict: true,
-      schema: {
-        type: "object",
-        additionalProperties: false,
-        required: ["markdown", "sections", "summary"],
-        properties: {
-          markdown: { type: "string" },
-          summary: {
-            anyOf: [{ type: "string" }, { type: "null" }],
-          },
-          sections: {
-            type: "array",
-            items: {
-              type: "object",
-              additionalProperties: false,
-              required: ["heading", "content", "status", "order"],
-              properties: {
-                heading: { type: "string" },
-                content: { type: "string" },
-                status: {
-                  anyOf: [
-                    {
-                      type: "string",
-                      enum: ["drafting", "needs_detail", "complete"],
-                    },
-                    { type: "null" },
-                  ],
-                },
-                order: {
-                  anyOf: [{ type: "number" }, { type: "null" }],
-                },
-              },
-            },
-          },
-        },
-      },
-    } as const;
-
-    const baseBody: Record<string, unknown> = {
-      model,
-      input: [
-        {
-          role: "system",
-          content: [{ type: "input_text", text: args.prompt.system }],
-        },
-        {
-          role: "user",
-          content: [{ type: "input_text", text: args.prompt.user }],
-        },
-      ],
-      text: { format: jsonSchemaResponseFormat },
-    };
-
-    if (supportsReasoningControls(model)) {
-      baseBody.reasoning = { effort: "minimal" };
-    }
-
-    if (typeof temperature === "number" && temperature !== 1) {
-      baseBody.temperature = temperature;
-    }
-
-    const maxAttempts = 3;
-    let attempt = 0;
-    let lastError: unknown = null;
-
-    while (attempt < maxAttempts) {
-      try {
-        const response = await fetch(OPENAI_RESPONSES_ENDPOINT, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${apiKey}`,
-          },
-          body: JSON.stringify({ ...baseBody, stream: false }),
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(
-            `Drafting model request failed (${response.status}): ${errorText}`,
-          );
+    const streamTo = args.streamTo;
+    let buffer = "";
+    let bufferAttempt = 0;
+    let lastWriteAt = 0;
+    let lastWritten = "";
+    const onText = streamTo
+      ? async (delta: string, attempt: number) => {
+          if (attempt !== bufferAttempt) {
+            buffer = "";
+            bufferAttempt = attempt;
+          }
+          buffer += delta;
+          const now = Date.now();
+          if (now - lastWriteAt < STREAM_WRITE_INTERVAL_MS) return;
+          const content = extractPartialJsonString(buffer, "markdown");
+          if (content === null || content === lastWritten) return;
+          lastWriteAt = now;
+          lastWritten = content;
+          await ctx.runMutation(internal.documents.writeSectionDraft, {
+            ...streamTo,
+            content,
+          });
         }
+      : undefined;
 
-        const json = await response.json();
-        const payloadRecord = extractResponseJson(json);
-        if (!payloadRecord) {
+    const { completion, result } = await completeWithRetry(
+      provider,
+      {
+        task: "drafting",
+        system: args.prompt.system,
+        user: args.prompt.user,
+        model: args.model,
+        temperature,
+        json: { name: "ghostwriting_draft", schema: DRAFT_JSON_SCHEMA },
+      },
+      (response) => {
+        if (!response.json) {
           throw new Error("Drafting model returned an empty payload");
         }
-
-        const payload = extractDraftingPayload(payloadRecord);
+        const payload = extractDraftingPayload(response.json);
         if (!payload) {
           throw new Error("Drafting model payload missing required fields");
         }
+        return payload;
+      },
+      { onText },
+    );
 
-        const usageRecord = normalizeResponseUsage(json?.usage);
-        const result: DraftingModelResponse = {
-          markdown: payload.markdown,
-          sections: payload.sections,
-          summary: payload.summary,
-          usage: {
-            inputTokens: usageRecord.inputTokens,
-            outputTokens: usageRecord.outputTokens,
-            totalTokens: usageRecord.totalTokens,
-          },
-        };
-        return result;
-      } catch (error) {
-        lastError = error;
-        attempt += 1;
-        if (attempt >= maxAttempts) {
-          if (error instanceof Error) {
-            throw error;
-          }
-          throw new Error(String(error));
-        }
-        const delay = 500 * 2 ** (attempt - 1);
-        await sleep(delay);
-      }
-    }
-
-    throw lastError instanceof Error
-      ? lastError
-      : new Error("Drafting model failed after retries");
+    const { markdown, sections, summary, claims } = result;
+    return {
+      model: completion.model,
+      markdown,
+      sections,
+      summary,
+      claims: claims ?? null,
+      usage: completion.usage,
+    };
   },
 });
 
+async function loadWorkspace(ctx: QueryCtx, projectId: Id<"projects">) {
+  const document = await ctx.db
+    .query("documents")
+    .withIndex("by_project", (q) => q.eq("projectId", projectId))
+    .unique();
+  if (!document) {
+    return {
+      document: null,
+      sections: [],
+      progress: {
+        wordCount: 0,
+        sectionStatuses: [],
+      },
+    };
+  }
+
+  const sections = await ctx.db
+    .query("documentSections")
+    .withIndex("by_document", (q) => q.eq("documentId", document._id))
+    .collect();
+
+  const sorted = [...sections].sort((a, b) => a.order - b.order);
+  const wordCount = (document.latestDraftMarkdown ?? "")
+    .split(/\s+/)
+    .filter(Boolean).length;
+
+  const sectionStatuses = sorted.map((section) => ({
+    sectionId: section._id,
+    heading: section.heading,
+    status: section.status,
+    order: section.order,
+  }));
+
+  return {
+    document,
+    sections: sorted,
+    progress: {
+      wordCount,
+      sectionStatuses,
+    },
+  };
+}
+
 export const getWorkspace = query({
   args: {
     projectId: v.id("projects"),
   },
   handler: async (ctx, args) => {
-    const document = await ctx.db
-      .query("documents")
-      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
-      .unique();
-    if (!document) {
-      return {
-        document: null,
-        sections: [],
-        progress: {
-          wordCount: 0,
-          sectionStatuses: [],
-        },
-      };
-    }
-
-    const sections = await ctx.db
-      .query("documentSections")
-      .withIndex("by_document", (q) => q.eq("documentId", document._id))
-      .collect();
-
-    const sorted = [...sections].sort((a, b) => a.order - b.order);
-    const wordCount = (document.latestDraftMarkdown ?? "")
-      .split(/\s+/)
-      .filter(Boolean).length;
-
-    const sectionStatuses = sorted.map((section) => ({
-      sectionId: section._id,
-      heading: section.heading,
-      status: section.status,
-      order: section.order,
-    }));
+    await requireProjectAccess(ctx, args.projectId);
+    return loadWorkspace(ctx, args.projectId);
+  },
+});
 
-    return {
-      document,
-      sections: sorted,
-      progress: {
-        wordCount,
-        sectionStatuses,
-      },
-    };
+export const getWorkspaceInternal = internalQuery({
+  args: {
+    projectId: v.id("projects"),
   },
+  handler: async (ctx, args) => loadWorkspace(ctx, args.projectId),
 });
 
 const resolveDocumentStatus = (sections: DocumentSectionInput[]) => {
@@ -574,239 +508,471 @@ const resolveDocumentStatus = (sections: DocumentSectionInput[]) => {
   return "drafting" as const;
 };
 
-export const applyEdits = mutation({
-  args: {
-    projectId: v.id("projects"),
-    markdown: v.string(),
-    sections: v.optional(v.array(SECTION_INPUT_VALIDATOR)),
-    summary: v.optional(v.string()),
-  },
-  handler: async (ctx, args) => {
-    const now = Date.now();
-    const sections = args.sections ?? [];
-    const normalizedSections: DocumentSectionInput[] = sections.map((section, index) => {
-      const heading = section.heading.trim();
-      const content = section.content;
-      const contentIsEmpty = content.trim().length === 0;
-      const statusValue =
-        section.status ?? (contentIsEmpty ? "needs_detail" : "drafting");
-      return {
-        heading,
-        content,
-        status: statusValue,
-        order: typeof section.order === "number" ? section.order : index,
-      };
-    });
-
-    const existingDocument = await ctx.db
-      .query("documents")
-      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
-      .unique();
+// Only the draft worker's internal calls may say who wrote an edit; public
+// callers are attributed from their session instead.
+const INTERNAL_ATTRIBUTION_ARGS = {
+  author: v.optional(REVISION_AUTHOR),
+  draftJobId: v.optional(v.id("draftJobs")),
+};
 
-    let document: Doc<"documents">;
-    if (existingDocument) {
-      document = existingDocument;
-    } else {
-      const documentId = await ctx.db.insert("documents", {
-        projectId: args.projectId,
-        latestDraftMarkdown: "",
-        summary: args.summary ?? undefined,
-        status: "drafting",
-        lockedSections: [],
-        updatedAt: now,
-      });
-      const created = await ctx.db.get(documentId);
-      if (!created) {
-        throw new Error("Failed to load document after creation");
-      }
-      document = created;
-    }
+/**
+ * Attribution for an edit made through a public mutation: the assistant when
+ * it arrives from the caller's own session, the user otherwise.
+ */
+async function publicEditAttribution(
+  ctx: MutationCtx,
+  projectId: Id<"projects">,
+  sessionId: Id<"sessions"> | undefined,
+): Promise<RevisionAttribution> {
+  const { viewer } = await requireProjectAccess(ctx, projectId, "edit");
+  if (!sessionId) {
+    return { authorType: "user", authorId: viewer._id };
+  }
+  await loadOwnedSession(ctx, sessionId);
+  return { authorType: "assistant", authorId: viewer._id };
+}
+
+const APPLY_EDITS_ARGS = {
+  projectId: v.id("projects"),
+  markdown: v.string(),
+  sections: v.optional(v.array(SECTION_INPUT_VALIDATOR)),
+  summary: v.optional(v.string()),
+};
 
-    await ctx.db.patch(document._id, {
-      latestDraftMarkdown: args.markdown,
-      summary: typeof args.summary === "string" ? args.summary : document.summary,
-      status: resolveDocumentStatus(normalizedSections),
+async function applyDocumentEdits(
+  ctx: MutationCtx,
+  args: ObjectType<typeof APPLY_EDITS_ARGS>,
+  attribution: RevisionAttribution,
+) {
+  const now = Date.now();
+  const sections = args.sections ?? [];
+  const normalizedSections: DocumentSectionInput[] = sections.map((section, index) => {
+    const heading = section.heading.trim();
+    const content = section.content;
+    const contentIsEmpty = content.trim().length === 0;
+    const statusValue =
+      section.status ?? (contentIsEmpty ? "needs_detail" : "drafting");
+    return {
+      heading,
+      content,
+      status: statusValue,
+      order: typeof section.order === "number" ? section.order : index,
+    };
+  });
+
+  const existingDocument = await ctx.db
+    .query("documents")
+    .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+    .unique();
+
+  let document: Doc<"documents">;
+  if (existingDocument) {
+    document = existingDocument;
+  } else {
+    const documentId = await ctx.db.insert("documents", {
+      projectId: args.projectId,
+      latestDraftMarkdown: "",
+      summary: args.summary ?? undefined,
+      status: "drafting",
+      lockedSections: [],
       updatedAt: now,
     });
-
-    const existingSections = await ctx.db
-      .query("documentSections")
-      .withIndex("by_document", (q) => q.eq("documentId", document._id))
-      .collect();
-
-    const existingByHeading = new Map<string, Doc<"documentSections">>();
-    for (const section of existingSections) {
-      existingByHeading.set(section.heading.toLowerCase(), section);
+    const created = await ctx.db.get(documentId);
+    if (!created) {
+      throw new Error("Failed to load document after creation");
     }
+    document = created;
+  }
 
-    const seenKeys = new Set<string>();
+  const existingSections = await ctx.db
+    .query("documentSections")
+    .withIndex("by_document", (q) => q.eq("documentId", document._id))
+    .collect();
+
+  // Locks bind the assistant and the drafter; only the user may overwrite.
+  const lockedSections =
+    attribution.authorType === "user"
+      ? []
+      : existingSections.filter((section) => section.locked);
+  const lockedKeys = new Set(
+    lockedSections.map((section) => section.heading.toLowerCase()),
+  );
+  const lockRejections: LockRejection[] = [];
+  const changes: SectionChange[] = [];
+
+  await ctx.db.patch(document._id, {
+    latestDraftMarkdown: preserveLockedSections(
+      args.markdown,
+      lockedSections,
+      existingSections,
+    ),
+    summary: typeof args.summary === "string" ? args.summary : document.summary,
+    status: resolveDocumentStatus(normalizedSections),
+    updatedAt: now,
+  });
+
+  const existingByHeading = new Map<string, Doc<"documentSections">>();
+  for (const section of existingSections) {
+    existingByHeading.set(section.heading.toLowerCase(), section);
+  }
 
-    for (const [index, section] of normalizedSections.entries()) {
-      const key = section.heading.toLowerCase();
-      seenKeys.add(key);
-      const existing = existingByHeading.get(key);
-      const orderValue = section.order ?? index;
-      if (existing) {
-        await ctx.db.patch(existing._id, {
-          heading: section.heading,
-          content: section.content,
-          order: orderValue,
-          status: section.status ?? "drafting",
-          version: existing.version + 1,
-          updatedAt: now,
+  const seenKeys = new Set<string>();
+
+  for (const [index, section] of normalizedSections.entries()) {
+    const key = section.heading.toLowerCase();
+    seenKeys.add(key);
+    const existing = existingByHeading.get(key);
+    const orderValue = section.order ?? index;
+    if (existing && lockedKeys.has(key)) {
+      if (existing.content !== section.content || existing.status !== section.status) {
+        lockRejections.push({
+          sectionId: existing._id,
+          heading: existing.heading,
+          reason: "modified",
+          rejectedAt: now,
         });
-      } else {
-        await ctx.db.insert("documentSections", {
-          documentId: document._id,
+      }
+      if (existing.order !== orderValue) {
+        await ctx.db.patch(existing._id, { order: orderValue, updatedAt: now });
+      }
+    } else if (existing) {
+      if (existing.content !== section.content) {
+        await recordSectionRevision(
+          ctx,
+          args.projectId,
+          existing,
+          attribution,
+          now,
+        );
+        changes.push({
+          sectionId: existing._id,
           heading: section.heading,
-          content: section.content,
-          order: orderValue,
-          status: section.status ?? "drafting",
-          version: 1,
-          locked: false,
-          updatedAt: now,
+          before: existing.content,
+          after: section.content,
         });
       }
-    }
-
-    for (const section of existingSections) {
-      const key = section.heading.toLowerCase();
-      if (!seenKeys.has(key)) {
-        await ctx.db.delete(section._id);
+      await ctx.db.patch(existing._id, {
+        heading: section.heading,
+        content: section.content,
+        order: orderValue,
+        status: section.status ?? "drafting",
+        version: existing.version + 1,
+        updatedAt: now,
+      });
+    } else {
+      const sectionId = await ctx.db.insert("documentSections", {
+        documentId: document._id,
+        heading: section.heading,
+        content: section.content,
+        order: orderValue,
+        status: section.status ?? "drafting",
+        version: 1,
+        locked: false,
+        updatedAt: now,
+      });
+      if (section.content.trim()) {
+        changes.push({ sectionId, heading: section.heading, before: "", after: section.content });
       }
     }
+  }
 
-    const updatedDocument = await ctx.db.get(document._id);
-    if (!updatedDocument) {
-      throw new Error("Document not found after update");
+  for (const section of existingSections) {
+    const key = section.heading.toLowerCase();
+    if (seenKeys.has(key)) continue;
+    if (lockedKeys.has(key)) {
+      lockRejections.push({
+        sectionId: section._id,
+        heading: section.heading,
+        reason: "removed",
+        rejectedAt: now,
+      });
+      continue;
     }
+    await recordSectionRevision(ctx, args.projectId, section, attribution, now);
+    await ctx.db.delete(section._id);
+  }
 
-    const updatedSections = await ctx.db
-      .query("documentSections")
-      .withIndex("by_document", (q) => q.eq("documentId", document._id))
-      .collect();
+  if (lockRejections.length > 0) {
+    console.warn("[documents] applyEdits kept locked sections", {
+      projectId: args.projectId,
+      lockRejections,
+    });
+  }
 
-    const sorted = [...updatedSections].sort((a, b) => a.order - b.order);
+  const updatedDocument = await ctx.db.get(document._id);
+  if (!updatedDocument) {
+    throw new Error("Document not found after update");
+  }
 
-    return {
-      document: updatedDocument,
-      sections: sorted,
-    };
+  const updatedSections = await ctx.db
+    .query("documentSections")
+    .withIndex("by_document", (q) => q.eq("documentId", document._id))
+    .collect();
+
+  const sorted = [...updatedSections].sort((a, b) => a.order - b.order);
+
+  return {
+    document: updatedDocument,
+    sections: sorted,
+    lockRejections,
+    changes,
+  };
+}
+
+export const applyEdits = mutation({
+  args: { ...APPLY_EDITS_ARGS, sessionId: v.optional(v.id("sessions")) },
+  handler: async (ctx, { sessionId, ...args }) => {
+    const attribution = await publicEditAttribution(ctx, args.projectId, sessionId);
+    return applyDocumentEdits(ctx, args, attribution);
   },
 });
 
+export const applyEditsInternal = internalMutation({
+  args: { ...APPLY_EDITS_ARGS, ...INTERNAL_ATTRIBUTION_ARGS },
+  handler: async (ctx, { author, draftJobId, ...args }) =>
+    applyDocumentEdits(ctx, args, { authorType: author ?? "assistant", draftJobId }),
+});
+
+const APPLY_SECTION_EDIT_ARGS = {
+  projectId: v.id("projects"),
+  sectionHeading: v.string(),
+  sectionMarkdown: v.string(),
+  sectionStatus: v.optional(
+    v.union(
+      v.literal("drafting"),
+      v.literal("needs_detail"),
+      v.literal("complete"),
+    ),
+  ),
+  summary: v.optional(v.string()),
+};
+
 /**
  * Surgically merge a single section update back into the full document.
  * Preserves all other sections exactly as they were.
  * Section headings are immutable - we match by heading and only update content.
  */
-export const applySectionEdit = mutation({
-  args: {
-    projectId: v.id("projects"),
-    sectionHeading: v.string(),
-    sectionMarkdown: v.string(),
-    sectionStatus: v.optional(
-      v.union(
-        v.literal("drafting"),
-        v.literal("needs_detail"),
-        v.literal("complete"),
-      ),
-    ),
-    summary: v.optional(v.string()),
-  },
-  handler: async (ctx, args) => {
-    const now = Date.now();
-    const targetHeading = args.sectionHeading.trim();
+async function applySingleSectionEdit(
+  ctx: MutationCtx,
+  args: ObjectType<typeof APPLY_SECTION_EDIT_ARGS>,
+  attribution: RevisionAttribution,
+) {
+  const now = Date.now();
+  const targetHeading = args.sectionHeading.trim();
+
+  const existingDocument = await ctx.db
+    .query("documents")
+    .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+    .unique();
+
+  if (!existingDocument) {
+    throw new Error("Document not found for surgical section edit");
+  }
 
-    const existingDocument = await ctx.db
-      .query("documents")
-      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
-      .unique();
+  const existingSections = await ctx.db
+    .query("documentSections")
+    .withIndex("by_document", (q) => q.eq("documentId", existingDocument._id))
+    .collect();
 
-    if (!existingDocument) {
-      throw new Error("Document not found for surgical section edit");
-    }
+  const sortedSections = [...existingSections].sort((a, b) => a.order - b.order);
+  const targetSection = sortedSections.find(
+    (s) => s.heading.toLowerCase() === targetHeading.toLowerCase(),
+  );
 
-    const existingSections = await ctx.db
-      .query("documentSections")
-      .withIndex("by_document", (q) => q.eq("documentId", existingDocument._id))
-      .collect();
+  if (!targetSection) {
+    throw new Error(
+      `Section "${targetHeading}" not found. Use manage_outline to add new sections first.`,
+    );
+  }
+
+  // The committed section replaces the streamed preview in the same transaction.
+  if (attribution.draftJobId) {
+    await deleteSectionDrafts(ctx, attribution.draftJobId);
+  }
+
+  if (targetSection.locked && attribution.authorType !== "user") {
+    console.warn("[documents] applySectionEdit rejected locked section", {
+      projectId: args.projectId,
+      heading: targetSection.heading,
+    });
+    return {
+      document: existingDocument,
+      sections: sortedSections,
+      lockRejections: [
+        {
+          sectionId: targetSection._id,
+          heading: targetSection.heading,
+          reason: "modified",
+          rejectedAt: now,
+        },
+      ] as LockRejection[],
+      changes: [] as SectionChange[],
+    };
+  }
 
-    const sortedSections = [...existingSections].sort((a, b) => a.order - b.order);
-    const targetSection = sortedSections.find(
-      (s) => s.heading.toLowerCase() === targetHeading.toLowerCase(),
+  const updatedMarkdown = replaceSectionMarkdown(
+    existingDocument.latestDraftMarkdown ?? "",
+    targetHeading,
+    args.sectionMarkdown,
+  );
+
+  // Update the document
+  await ctx.db.patch(existingDocument._id, {
+    latestDraftMarkdown: updatedMarkdown,
+    summary: typeof args.summary === "string" ? args.summary : existingDocument.summary,
+    updatedAt: now,
+  });
+
+  const changes: SectionChange[] = [];
+  if (targetSection.content !== args.sectionMarkdown.trim()) {
+    await recordSectionRevision(
+      ctx,
+      args.projectId,
+      targetSection,
+      attribution,
+      now,
     );
+    changes.push({
+      sectionId: targetSection._id,
+      heading: targetSection.heading,
+      before: targetSection.content,
+      after: args.sectionMarkdown.trim(),
+    });
+  }
 
-    if (!targetSection) {
-      throw new Error(
-        `Section "${targetHeading}" not found. Use manage_outline to add new sections first.`,
-      );
-    }
+  // Update only the target section metadata
+  await ctx.db.patch(targetSection._id, {
+    content: args.sectionMarkdown.trim(),
+    status: args.sectionStatus ?? targetSection.status,
+    version: targetSection.version + 1,
+    updatedAt: now,
+  });
 
-    // Parse the existing full document to extract all sections
-    const existingMarkdown = existingDocument.latestDraftMarkdown ?? "";
-    const sectionPattern = /^(#{1,6}\s+.+)$/gm;
-    const sections = existingMarkdown.split(sectionPattern).filter(Boolean);
+  const refreshedDocument = await ctx.db.get(existingDocument._id);
+  const refreshedSections = await ctx.db
+    .query("documentSections")
+    .withIndex("by_document", (q) => q.eq("documentId", existingDocument._id))
+    .collect();
 
-    // Rebuild the full document with the updated section
-    const updatedParts: string[] = [];
-    let foundTarget = false;
+  return {
+    document: refreshedDocument,
+    sections: [...refreshedSections].sort((a, b) => a.order - b.order),
+    lockRejections: [] as LockRejection[],
+    changes,
+  };
+}
 
-    for (let i = 0; i < sections.length; i += 2) {
-      const heading = sections[i];
-      const content = sections[i + 1] ?? "";
+export const applySectionEdit = mutation({
+  args: { ...APPLY_SECTION_EDIT_ARGS, sessionId: v.optional(v.id("sessions")) },
+  handler: async (ctx, { sessionId, ...args }) => {
+    const attribution = await publicEditAttribution(ctx, args.projectId, sessionId);
+    return applySingleSectionEdit(ctx, args, attribution);
+  },
+});
 
-      if (!heading) continue;
+export const applySectionEditInternal = internalMutation({
+  args: { ...APPLY_SECTION_EDIT_ARGS, ...INTERNAL_ATTRIBUTION_ARGS },
+  handler: async (ctx, { author, draftJobId, ...args }) =>
+    applySingleSectionEdit(ctx, args, { authorType: author ?? "drafter", draftJobId }),
+});
 
-      // Check if this is the section we're updating
-      const headingMatch = heading.match(/^#{1,6}\s+(.+)$/);
-      const headingText = headingMatch?.[1]?.trim();
+async function deleteSectionDrafts(ctx: MutationCtx, jobId: Id<"draftJobs">) {
+  const drafts = await ctx.db
+    .query("sectionDrafts")
+    .withIndex("by_job", (q) => q.eq("draftJobId", jobId))
+    .collect();
+  for (const draft of drafts) {
+    await ctx.db.delete(draft._id);
+  }
+}
 
-      if (
-        headingText &&
-        headingText.toLowerCase() === targetHeading.toLowerCase()
-      ) {
-        // Replace with updated section markdown
-        updatedParts.push(args.sectionMarkdown.trim());
-        foundTarget = true;
-      } else {
-        // Keep existing section unchanged
-        updatedParts.push(`${heading}${content}`);
-      }
+export const writeSectionDraft = internalMutation({
+  args: {
+    jobId: v.id("draftJobs"),
+    projectId: v.id("projects"),
+    sectionId: v.id("documentSections"),
+    content: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("sectionDrafts")
+      .withIndex("by_job", (q) => q.eq("draftJobId", args.jobId))
+      .first();
+    if (existing) {
+      await ctx.db.patch(existing._id, { content: args.content, updatedAt: Date.now() });
+      return;
     }
+    await ctx.db.insert("sectionDrafts", {
+      projectId: args.projectId,
+      draftJobId: args.jobId,
+      sectionId: args.sectionId,
+      content: args.content,
+      updatedAt: Date.now(),
+    });
+  },
+});
 
-    // If target wasn't found in existing markdown, append it
-    if (!foundTarget) {
-      updatedParts.push(args.sectionMarkdown.trim());
-    }
+export const clearSectionDraft = internalMutation({
+  args: { jobId: v.id("draftJobs") },
+  handler: async (ctx, args) => {
+    await deleteSectionDrafts(ctx, args.jobId);
+  },
+});
+
+export const getSectionDrafts = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    await requireProjectAccess(ctx, args.projectId);
+    const drafts = await ctx.db
+      .query("sectionDrafts")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    return drafts.map((draft) => ({
+      sectionId: draft.sectionId,
+      content: draft.content,
+      updatedAt: draft.updatedAt,
+    }));
+  },
+});
 
-    const updatedMarkdown = updatedParts.join("\n\n").trim();
+export const setSectionLock = mutation({
+  args: {
+    sectionId: v.id("documentSections"),
+    locked: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const section = await ctx.db.get(args.sectionId);
+    if (!section) {
+      throw new Error("Section not found");
+    }
+    const document = await ctx.db.get(section.documentId);
+    if (!document) {
+      throw new Error("Document not found for section");
+    }
+    await requireProjectAccess(ctx, document.projectId, "edit");
 
-    // Update the document
-    await ctx.db.patch(existingDocument._id, {
-      latestDraftMarkdown: updatedMarkdown,
-      summary: typeof args.summary === "string" ? args.summary : existingDocument.summary,
+    await ctx.db.patch(section._id, {
+      locked: args.locked,
       updatedAt: now,
     });
 
-    // Update only the target section metadata
-    await ctx.db.patch(targetSection._id, {
-      content: args.sectionMarkdown.trim(),
-      status: args.sectionStatus ?? targetSection.status,
-      version: targetSection.version + 1,
+    const lockedIds = new Set(document.lockedSections ?? []);
+    if (args.locked) {
+      lockedIds.add(section._id);
+    } else {
+      lockedIds.delete(section._id);
+    }
+    await ctx.db.patch(document._id, {
+      lockedSections: Array.from(lockedIds),
       updatedAt: now,
     });
 
-    const refreshedDocument = await ctx.db.get(existingDocument._id);
-    const refreshedSections = await ctx.db
-      .query("documentSections")
-      .withIndex("by_document", (q) => q.eq("documentId", existingDocument._id))
-      .collect();
-
-    return {
-      document: refreshedDocument,
-      sections: [...refreshedSections].sort((a, b) => a.order - b.order),
-    };
+    const updated = await ctx.db.get(section._id);
+    if (!updated) {
+      throw new Error("Section not found after lock update");
+    }
+    return updated;
   },
 });
 
@@ -816,6 +982,7 @@ export const setSummary = mutation({
     summary: v.string(),
   },
   handler: async (ctx, args) => {
+    await requireProjectAccess(ctx, args.projectId, "edit");
     const now = Date.now();
     const trimmed = args.summary.trim();
 
@@ -881,8 +1048,12 @@ export const manageOutline = mutation({
         ),
       }),
     ),
+    // Seed the content-type template (or the project's override) into an
+    // empty document before applying the operations.
+    applyTemplate: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
+    const { viewer } = await requireProjectAccess(ctx, args.projectId, "edit");
     const now = Date.now();
 
     // Ensure document exists
@@ -918,8 +1089,27 @@ export const manageOutline = mutation({
       sectionsByHeading.set(section.heading.toLowerCase(), section);
     }
 
+    const templateOperations: typeof args.operations = [];
+    if (
+      args.applyTemplate &&
+      sections.length === 0 &&
+      !document.outlineTemplateAppliedAt &&
+      !(document.latestDraftMarkdown ?? "").trim()
+    ) {
+      const template = await loadProjectTemplate(ctx, args.projectId);
+      for (const section of template?.outline ?? []) {
+        templateOperations.push({ action: "add", heading: section.heading, status: "needs_detail" });
+      }
+    }
+
+    const operations = [...templateOperations, ...args.operations];
+    if (operations.length === 0 && args.applyTemplate) {
+      // Nothing to seed and nothing requested; leave the draft untouched.
+      return { document, sections, operations: 0, templateSections: 0 };
+    }
+
     // Apply operations
-    for (const op of args.operations) {
+    for (const op of operations) {
       const key = op.heading.toLowerCase();
       const existing = sectionsByHeading.get(key);
 
@@ -969,6 +1159,10 @@ export const manageOutline = mutation({
             console.warn(`[manageOutline] rename: section "${op.heading}" not found, skipping`);
             break;
           }
+          if (existing.locked) {
+            console.warn(`[manageOutline] rename: "${op.heading}" is locked, skipping`);
+            break;
+          }
           if (!op.newHeading) {
             console.warn(`[manageOutline] rename: newHeading missing for "${op.heading}", skipping`);
             break;
@@ -1015,6 +1209,17 @@ export const manageOutline = mutation({
             // Idempotent: silently skip if already removed
             break;
           }
+          if (existing.locked) {
+            console.warn(`[manageOutline] remove: "${op.heading}" is locked, skipping`);
+            break;
+          }
+          await recordSectionRevision(
+            ctx,
+            args.projectId,
+            existing,
+            { authorType: "user", authorId: viewer._id },
+            now,
+          );
           await ctx.db.delete(existing._id);
           sectionsByHeading.delete(key);
           const index = sections.findIndex((s) => s._id === existing._id);
@@ -1049,6 +1254,7 @@ export const manageOutline = mutation({
 
     await ctx.db.patch(document._id, {
       latestDraftMarkdown: markdown,
+      ...(templateOperations.length > 0 ? { outlineTemplateAppliedAt: now } : {}),
       updatedAt: now,
     });
 
@@ -1058,6 +1264,7 @@ export const manageOutline = mutation({
       document: updatedDoc,
       sections: sortedSections,
       operations: args.operations.length,
+      templateSections: templateOperations.length,
     };
   },
 });
@@ -1073,6 +1280,13 @@ export const enqueueDraftUpdate = mutation({
     promptContext: v.optional(v.any()),
   },
   handler: async (ctx, args) => {
+    const { viewer, project } = await requireProjectAccess(ctx, args.projectId, "edit");
+    await loadProjectSession(ctx, args.sessionId, args.projectId);
+    // Refuses at a hard limit; past a soft limit the job drafts on a cheaper model.
+    const modelOverride = budgetedDraftingModel(
+      project,
+      await loadBudgetStatus(ctx, project, viewer._id),
+    );
     const now = Date.now();
     const summaryText = isNonEmptyString(args.summary)
       ? args.summary.trim()
@@ -1089,9 +1303,9 @@ export const enqueueDraftUpdate = mutation({
       .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
       .collect();
 
-    const activeJob = existingJobs.find((job) =>
-      job.status === "queued" || job.status === "running",
-    );
+    // A running job already has its prompt; new instructions wait in a queued
+    // follow-up, which the per-project lock holds until the running one ends.
+    const activeJob = existingJobs.find((job) => job.status === "queued");
 
     if (activeJob) {
       await ctx.db.patch(activeJob._id, {
@@ -1104,9 +1318,11 @@ export const enqueueDraftUpdate = mutation({
             ? transcriptAnchors
             : activeJob.transcriptAnchors,
         promptContext: args.promptContext ?? activeJob.promptContext,
+        modelOverride,
         updatedAt: now,
       });
       const refreshed = await ctx.db.get(activeJob._id);
+      await ctx.scheduler.runAfter(0, internal.documents.processNextDraftJob, {});
       return refreshed ?? activeJob;
     }
 
@@ -1138,6 +1354,9 @@ export const enqueueDraftUpdate = mutation({
           promptContext: args.promptContext ?? duplicate.promptContext,
         });
         const refreshedDuplicate = await ctx.db.get(duplicate._id);
+        if (duplicate.status === "queued") {
+          await ctx.scheduler.runAfter(0, internal.documents.processNextDraftJob, {});
+        }
         return refreshedDuplicate ?? duplicate;
       }
     }
@@ -1148,6 +1367,8 @@ export const enqueueDraftUpdate = mutation({
       status: "queued",
       summary: summaryText,
       urgency: urgencyText,
+      requestedBy: viewer._id,
+      modelOverride,
       messagePointers:
         messagePointers.length > 0 ? messagePointers : undefined,
       transcriptAnchors:
@@ -1164,6 +1385,10 @@ export const enqueueDraftUpdate = mutation({
       attemptCount: 0,
     });
 
+    // Start right away rather than on the next cron tick; the claim decides
+    // whether this job or a more urgent one actually runs.
+    await ctx.scheduler.runAfter(0, internal.documents.processNextDraftJob, {});
+
     const created = await ctx.db.get(jobId);
     return created;
   },
@@ -1174,6 +1399,7 @@ export const getDraftQueueState = query({
     projectId: v.id("projects"),
   },
   handler: async (ctx, args) => {
+    await requireProjectAccess(ctx, args.projectId);
     const jobs = await ctx.db
       .query("draftJobs")
       .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
@@ -1209,9 +1435,40 @@ export const getDraftQueueState = query({
   },
 });
 
-export const claimNextDraftJob = mutation({
+const STALE_JOB_ERROR = "Draft worker stopped responding";
+
+export const claimNextDraftJob = internalMutation({
   args: {},
   handler: async (ctx) => {
+    const now = Date.now();
+    const running: Doc<"draftJobs">[] = [];
+    for (const job of await ctx.db
+      .query("draftJobs")
+      .withIndex("by_status", (q) => q.eq("status", "running"))
+      .collect()) {
+      if (isLiveRunningJob(job, now)) {
+        running.push(job);
+        continue;
+      }
+      // Its worker died without reporting back; settle it like any failure.
+      const outcome = decideDraftFailure(
+        resolveRetryPolicy(),
+        job.attemptCount ?? 1,
+        STALE_JOB_ERROR,
+      );
+      await deleteSectionDrafts(ctx, job._id);
+      await ctx.db.patch(job._id, {
+        status: outcome.action === "retry" ? "queued" : "dead_letter",
+        error: STALE_JOB_ERROR,
+        errorKind: outcome.kind,
+        nextAttemptAt: outcome.action === "retry" ? now + outcome.delayMs : undefined,
+        startedAt: outcome.action === "retry" ? undefined : job.startedAt,
+        completedAt: outcome.action === "retry" ? undefined : now,
+        deadLetteredAt: outcome.action === "retry" ? undefined : now,
+        updatedAt: now,
+      });
+    }
+
     const queued = await ctx.db
       .query("draftJobs")
       .withIndex("by_status", (q) => q.eq("status", "queued"))
@@ -1221,9 +1478,45 @@ export const claimNextDraftJob = mutation({
       return null;
     }
 
-    const sorted = [...queued].sort((a, b) => a.createdAt - b.createdAt);
-    const next = sorted[0]!;
-    const now = Date.now();
+    // Fair share: projects that were served least recently go first among equals.
+    const lastStartedByProject = new Map<Id<"projects">, number>();
+    for (const projectId of new Set(queued.map((job) => job.projectId))) {
+      const recent = await ctx.db
+        .query("draftJobs")
+        .withIndex("by_project", (q) => q.eq("projectId", projectId))
+        .order("desc")
+        .take(10);
+      const lastStarted = Math.max(0, ...recent.map((job) => job.startedAt ?? 0));
+      lastStartedByProject.set(projectId, lastStarted);
+    }
+
+    let candidates = queued;
+    let next = pickNextDraftJob(candidates, running, lastStartedByProject, now);
+    // Spend can cross a hard limit after a job was queued, or while it waits
+    // to retry. Such jobs are dead-lettered here instead of drafting.
+    while (next) {
+      const project = await ctx.db.get(next.projectId);
+      const stopped = project
+        ? hardLimitReason(await loadBudgetStatus(ctx, project, next.requestedBy ?? null))
+        : null;
+      if (!stopped) break;
+      await ctx.db.patch(next._id, {
+        status: "dead_letter",
+        error: stopped,
+        errorKind: "permanent",
+        nextAttemptAt: undefined,
+        completedAt: now,
+        deadLetteredAt: now,
+        updatedAt: now,
+      });
+      const stoppedId = next._id;
+      candidates = candidates.filter((job) => job._id !== stoppedId);
+      next = pickNextDraftJob(candidates, running, lastStartedByProject, now);
+    }
+    if (!next) {
+      return null;
+    }
+
     const attemptCount = (next.attemptCount ?? 0) + 1;
 
     await ctx.db.patch(next._id, {
@@ -1231,6 +1524,8 @@ export const claimNextDraftJob = mutation({
       startedAt: now,
       updatedAt: now,
       error: undefined,
+      errorKind: undefined,
+      nextAttemptAt: undefined,
       attemptCount,
     });
 
@@ -1247,7 +1542,7 @@ export const claimNextDraftJob = mutation({
   },
 });
 
-export const updateDraftJobStatus = mutation({
+export const updateDraftJobStatus = internalMutation({
   args: {
     jobId: v.id("draftJobs"),
     status: v.union(
@@ -1255,14 +1550,19 @@ export const updateDraftJobStatus = mutation({
       v.literal("running"),
       v.literal("complete"),
       v.literal("error"),
+      v.literal("dead_letter"),
     ),
     summary: v.optional(v.string()),
     error: v.optional(v.string()),
+    errorKind: v.optional(v.union(v.literal("transient"), v.literal("permanent"))),
+    nextAttemptAt: v.optional(v.number()),
     generatedSummary: v.optional(v.string()),
     durationMs: v.optional(v.number()),
     modelUsage: v.optional(MODEL_USAGE_VALIDATOR),
     attemptCount: v.optional(v.number()),
     transcriptCursor: v.optional(v.number()),
+    lockRejections: v.optional(v.array(LOCK_REJECTION_VALIDATOR)),
+    sectionChanges: v.optional(v.array(SECTION_CHANGE_VALIDATOR)),
   },
   handler: async (ctx, args) => {
     const now = Date.now();
@@ -1270,6 +1570,8 @@ export const updateDraftJobStatus = mutation({
       status: args.status,
       updatedAt: now,
       error: args.error,
+      errorKind: args.errorKind,
+      nextAttemptAt: args.nextAttemptAt,
     };
 
     if (typeof args.summary === "string") {
@@ -1296,23 +1598,50 @@ export const updateDraftJobStatus = mutation({
       patch.transcriptCursor = args.transcriptCursor;
     }
 
-    if (args.status === "complete" || args.status === "error") {
+    if (args.lockRejections && args.lockRejections.length > 0) {
+      const job = await ctx.db.get(args.jobId);
+      patch.lockRejections = [...(job?.lockRejections ?? []), ...args.lockRejections];
+    }
+
+    if (args.status === "complete" || args.status === "error" || args.status === "dead_letter") {
       patch.completedAt = now;
     }
 
+    if (args.status === "dead_letter") {
+      patch.deadLetteredAt = now;
+    }
+
+    // A retry keeps the error that caused it so the operator screen can show it.
     if (args.status === "queued") {
       patch.startedAt = undefined;
       patch.completedAt = undefined;
       patch.durationMs = undefined;
-      patch.error = undefined;
     }
 
     await ctx.db.patch(args.jobId, patch);
+
+    // Keep the before/after text of every section the job rewrote so the
+    // user can review the diff and reject individual sections.
+    if (args.status === "complete" && args.sectionChanges && args.sectionChanges.length > 0) {
+      const job = await ctx.db.get(args.jobId);
+      if (job) {
+        for (const change of args.sectionChanges) {
+          await ctx.db.insert("draftSectionChanges", {
+            projectId: job.projectId,
+            draftJobId: job._id,
+            ...change,
+            decision: "pending",
+            createdAt: now,
+          });
+        }
+      }
+    }
+
     return ctx.db.get(args.jobId);
   },
 });
 
-export const reportDraftProgress = mutation({
+export const reportDraftProgress = internalMutation({
   args: {
     jobId: v.id("draftJobs"),
     projectId: v.id("projects"),
@@ -1348,6 +1677,7 @@ export const reportDraftProgress = mutation({
       heading: section.heading,
       status: section.status ?? null,
       order: typeof section.order === "number" ? section.order : null,
+      changed: section.changed ?? null,
     }));
 
     const payload = {
@@ -1406,11 +1736,9 @@ export const generateDraftSummary = action({
     ctx,
     args,
   ): Promise<{ generated: boolean; summary: string | null; reason?: string }> => {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!isNonEmptyString(apiKey)) {
-      throw new Error("OPENAI_API_KEY not configured for summarization");
-    }
-
+    const { userId, modelProvider } = await ctx.runQuery(internal.usage.authorizeModelCall, {
+      projectId: args.projectId,
+    });
     const workspace = await ctx.runQuery(api.documents.getWorkspace, {
       projectId: args.projectId,
     });
@@ -1434,75 +1762,23 @@ export const generateDraftSummary = action({
       "You are an editor producing factual summaries of long-form drafts. Summaries must only restate content already present and avoid commentary, instructions, or speculation.";
     const userPrompt = `Summarize the draft below in plain prose (2-3 sentences). Focus only on what the draft currently says and do not add analysis, recommendations, or next steps.\n\nDraft:\n"""\n${excerpt}\n"""`;
 
-    const model = DEFAULT_SUMMARY_MODEL;
-    const body: Record<string, unknown> = {
-      model,
-      input: [
-        {
-          role: "system",
-          content: [{ type: "input_text", text: systemPrompt }],
-        },
-        {
-          role: "user",
-          content: [{ type: "input_text", text: userPrompt }],
-        },
-      ],
-      stream: false,
-    };
-
-    if (supportsReasoningControls(model)) {
-      body.reasoning = { effort: "minimal" };
-    }
-
-    const maxAttempts = 3;
-    let attempt = 0;
-    let lastError: unknown = null;
-    let summaryText: string | null = null;
-
-    while (attempt < maxAttempts) {
-      try {
-        const response = await fetch(OPENAI_RESPONSES_ENDPOINT, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${apiKey}`,
-          },
-          body: JSON.stringify(body),
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(
-            `Draft summary request failed (${response.status}): ${errorText}`,
-          );
-        }
-
-        const json = await response.json();
-        const content = extractResponseText(json);
-        if (!content) {
+    const { completion, result: summaryText } = await completeWithRetry(
+      resolveModelProvider(modelProvider),
+      { task: "summary", system: systemPrompt, user: userPrompt },
+      (response) => {
+        if (!response.text) {
           throw new Error("Draft summary response did not include text content");
         }
-        summaryText = content;
-        break;
-      } catch (error) {
-        lastError = error;
-        attempt += 1;
-        if (attempt >= maxAttempts) {
-          if (error instanceof Error) {
-            throw error;
-          }
-          throw new Error(String(error));
-        }
-        const delay = 500 * 2 ** (attempt - 1);
-        await sleep(delay);
-      }
-    }
+        return response.text;
+      },
+    );
 
-    if (!summaryText) {
-      throw lastError instanceof Error
-        ? lastError
-        : new Error("Failed to generate draft summary");
-    }
+    await ctx.runMutation(internal.usage.recordUsage, {
+      projectId: args.projectId,
+      userId,
+      model: completion.model,
+      usage: completion.usage,
+    });
 
     await ctx.runMutation(api.documents.setSummary, {
       projectId: args.projectId,
@@ -1513,12 +1789,28 @@ export const generateDraftSummary = action({
   },
 });
 
+/**
+ * Client-side kick for the queue after enqueueing. The worker itself runs
+ * without an identity because it drains jobs for every project.
+ */
 export const processDraftQueue = action({
   args: {
     dryRun: v.optional(v.boolean()),
   },
   handler: async (ctx, args): Promise<DraftQueueProcessResult> => {
-    const claimed = (await ctx.runMutation(api.documents.claimNextDraftJob, {})) as
+    if (!(await ctx.auth.getUserIdentity())) {
+      throw accessError("UNAUTHENTICATED", "Sign in to continue");
+    }
+    return ctx.runAction(internal.documents.processNextDraftJob, args);
+  },
+});
+
+export const processNextDraftJob = internalAction({
+  args: {
+    dryRun: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args): Promise<DraftQueueProcessResult> => {
+    const claimed = (await ctx.runMutation(internal.documents.claimNextDraftJob, {})) as
       | Doc<"draftJobs">
       | null;
     if (!claimed) {
@@ -1529,7 +1821,7 @@ export const processDraftQueue = action({
     const projectId = claimed.projectId as Id<"projects">;
 
     if (args.dryRun) {
-      await ctx.runMutation(api.documents.updateDraftJobStatus, {
+      await ctx.runMutation(internal.documents.updateDraftJobStatus, {
         jobId,
         status: "queued",
         summary: claimed.summary ?? undefined,
@@ -1549,8 +1841,12 @@ export const processDraftQueue = action({
     };
     const attemptCount = claimed.attemptCount ?? 1;
     let promptTokens: number | undefined;
+    // Once this job releases its project, let the next queued job start
+    // without waiting for the cron sweep.
+    const startNextJob = () =>
+      ctx.scheduler.runAfter(0, internal.documents.processNextDraftJob, {});
 
-    await ctx.runMutation(api.documents.reportDraftProgress, {
+    await ctx.runMutation(internal.documents.reportDraftProgress, {
       jobId,
       projectId,
       status: "running",
@@ -1562,21 +1858,28 @@ export const processDraftQueue = action({
 
     try {
       const fetchStart = Date.now();
-      const workspace = await ctx.runQuery(api.documents.getWorkspace, {
+      const workspace = await ctx.runQuery(internal.documents.getWorkspaceInternal, {
         projectId,
       });
-      const projectBundle = await ctx.runQuery(api.projects.getProject, {
+      const projectBundle = await ctx.runQuery(internal.projects.getProjectInternal, {
         projectId,
       });
       const transcriptRecords = await ctx.runQuery(
-        api.projects.getTranscriptForProject,
+        internal.projects.getTranscriptForProject,
         { projectId },
       );
-      const notes = await ctx.runQuery(api.notes.listForProject, {
+      const notes = await ctx.runQuery(internal.notes.listForProjectInternal, {
         projectId,
         limit: 40,
       });
-      const todos = await ctx.runQuery(api.todos.listForProject, { projectId });
+      const todos = await ctx.runQuery(internal.todos.listForProjectInternal, { projectId });
+      const sectionComments = await ctx.runQuery(
+        internal.sectionComments.listOpenFeedbackInternal,
+        { projectId },
+      );
+      const template = await ctx.runQuery(internal.contentTemplates.getForProjectInternal, {
+        projectId,
+      });
       latestTranscriptUpdatedAt = transcriptRecords.reduce(
         (max, record) =>
           typeof record.updatedAt === "number" && record.updatedAt > max
@@ -1585,7 +1888,7 @@ export const processDraftQueue = action({
         0,
       );
       const sessionMessages = await ctx.runQuery(
-        api.messages.listForSession,
+        internal.messages.listForSessionInternal,
         {
           sessionId: claimed.sessionId,
         },
@@ -1686,7 +1989,7 @@ export const processDraftQueue = action({
         });
 
         const restoredAttemptCount = Math.max((claimed.attemptCount ?? 1) - 1, 0);
-        await ctx.runMutation(api.documents.updateDraftJobStatus, {
+        await ctx.runMutation(internal.documents.updateDraftJobStatus, {
           jobId,
           status: "queued",
           summary: claimed.summary ?? undefined,
@@ -1694,7 +1997,7 @@ export const processDraftQueue = action({
           transcriptCursor: lastTranscriptCursor ?? undefined,
         });
 
-        await ctx.runMutation(api.documents.reportDraftProgress, {
+        await ctx.runMutation(internal.documents.reportDraftProgress, {
           jobId,
           projectId,
           status: "queued",
@@ -1709,6 +2012,86 @@ export const processDraftQueue = action({
         .map((pointer: string) => messageMap.get(pointer))
         .filter((message): message is Doc<"messages"> => Boolean(message));
 
+      // Determine if this is a section-scoped update
+      const rawPromptContext = claimed.promptContext ?? null;
+      const activeSectionHeading = (() => {
+        if (!rawPromptContext || typeof rawPromptContext !== "object") return null;
+        const candidate = (rawPromptContext as Record<string, unknown>).activeSection;
+        if (typeof candidate === "string" && candidate.trim()) {
+          return candidate.trim();
+        }
+        return null;
+      })();
+
+      const lockedTarget = activeSectionHeading
+        ? (workspace.sections ?? []).find(
+            (section: Doc<"documentSections">) =>
+              section.locked &&
+              section.heading.toLowerCase() === activeSectionHeading.toLowerCase(),
+          )
+        : undefined;
+
+      if (lockedTarget) {
+        // Locked sections are read-only for the drafter; skip the model call entirely.
+        const durationMs = Date.now() - startedAt;
+        const skippedSummary = `Skipped: "${lockedTarget.heading}" is locked.`;
+        logStage("skipped_locked_section", startedAt, {
+          heading: lockedTarget.heading,
+        });
+
+        await ctx.runMutation(internal.documents.updateDraftJobStatus, {
+          jobId,
+          status: "complete",
+          summary: claimed.summary ?? undefined,
+          generatedSummary: skippedSummary,
+          durationMs,
+          attemptCount,
+          lockRejections: [
+            {
+              sectionId: lockedTarget._id,
+              heading: lockedTarget.heading,
+              reason: "targeted",
+              rejectedAt: Date.now(),
+            },
+          ],
+        });
+
+        await ctx.runMutation(internal.documents.reportDraftProgress, {
+          jobId,
+          projectId,
+          status: "complete",
+          summary: skippedSummary,
+          attemptCount,
+        });
+
+        await startNextJob();
+        return { processed: true, reason: "locked_section", jobId } as const;
+      }
+
+      // The recent-notes and transcript windows miss older sessions; pull in
+      // whatever in the project's history is closest to the section at hand.
+      const retrievalStart = Date.now();
+      const activeSection = activeSectionHeading
+        ? (workspace.sections ?? []).find(
+            (section: Doc<"documentSections">) =>
+              section.heading.toLowerCase() === activeSectionHeading.toLowerCase(),
+          )
+        : undefined;
+      const retrievalQuery = [
+        activeSectionHeading,
+        activeSection?.content.slice(0, 1000),
+        claimed.summary,
+      ]
+        .filter(isNonEmptyString)
+        .join("\n");
+      const relevantExcerpts = await retrieveRelevantExcerpts(ctx, projectId, retrievalQuery);
+      logStage("retrieval_ready", retrievalStart, { excerpts: relevantExcerpts.length });
+
+      const voiceProfile = await ctx.runQuery(internal.voiceProfiles.getForSessionInternal, {
+        sessionId: claimed.sessionId,
+        fallbackUserId: claimed.requestedBy,
+      });
+
       const promptStart = Date.now();
       const prompt = buildDraftingPrompt({
         project: projectBundle.project,
@@ -1720,26 +2103,56 @@ export const processDraftQueue = action({
         transcriptItems,
         job: claimed as Doc<"draftJobs">,
         referencedMessages,
+        template,
+        sectionComments,
+        relevantExcerpts,
+        voiceProfile,
+        annotateClaims: true,
       });
       logStage("prompt_ready", promptStart, {
         promptTokens: prompt.tokens,
         transcriptItems: transcriptItems.length,
         noteCount: notes.length,
+        commentCount: sectionComments.length,
       });
 
       promptTokens = prompt.tokens;
 
+      const streamTarget = activeSectionHeading
+        ? (workspace.sections ?? []).find(
+            (section: Doc<"documentSections">) =>
+              section.heading.toLowerCase() === activeSectionHeading.toLowerCase(),
+          )
+        : undefined;
+
       const modelStart = Date.now();
-      const modelResult = await ctx.runAction(api.documents.callDraftingModel, {
+      const modelResult = await ctx.runAction(internal.documents.callDraftingModel, {
         prompt: {
           system: prompt.system,
           user: prompt.user,
         },
+        provider: projectBundle.project.modelProvider,
+        model: claimed.modelOverride ?? projectBundle.project.draftingModel,
+        streamTo: streamTarget
+          ? { jobId, projectId, sectionId: streamTarget._id }
+          : undefined,
       });
       logStage("model_completed", modelStart, {
+        model: modelResult.model,
         usage: modelResult.usage ?? null,
       });
 
+      if (modelResult.usage) {
+        await ctx.runMutation(internal.usage.recordUsage, {
+          projectId,
+          userId: claimed.requestedBy,
+          model: modelResult.model,
+          usage: modelResult.usage,
+        });
+      }
+
+      let lockRejections: LockRejection[] = [];
+      let sectionChanges: SectionChange[] = [];
       const normalizedSections = modelResult.sections.map(
         (section: DraftingModelSection, index: number) => ({
           heading: section.heading,
@@ -1750,17 +2163,6 @@ export const processDraftQueue = action({
         }),
       );
 
-      // Determine if this is a section-scoped update
-      const rawPromptContext = claimed.promptContext ?? null;
-      const activeSectionHeading = (() => {
-        if (!rawPromptContext || typeof rawPromptContext !== "object") return null;
-        const candidate = (rawPromptContext as Record<string, unknown>).activeSection;
-        if (typeof candidate === "string" && candidate.trim()) {
-          return candidate.trim();
-        }
-        return null;
-      })();
-
       if (activeSectionHeading) {
         // SURGICAL UPDATE: Only update the specified section
         if (normalizedSections.length !== 1) {
@@ -1775,16 +2177,20 @@ export const processDraftQueue = action({
           );
         }
 
-        await ctx.runMutation(api.documents.applySectionEdit, {
+        const applied = await ctx.runMutation(internal.documents.applySectionEditInternal, {
           projectId,
           sectionHeading: activeSectionHeading, // Use the heading from promptContext (immutable)
           sectionMarkdown: modelResult.markdown.trim(),
           sectionStatus: targetSection.status,
           summary: modelResult.summary ?? workspace.document?.summary ?? undefined,
+          author: "drafter",
+          draftJobId: jobId,
         });
+        lockRejections = applied.lockRejections;
+        sectionChanges = applied.changes;
       } else {
         // FULL DOCUMENT UPDATE: Apply all sections (e.g., initial outline creation)
-        await ctx.runMutation(api.documents.applyEdits, {
+        const applied = await ctx.runMutation(internal.documents.applyEditsInternal, {
           projectId,
           markdown: modelResult.markdown,
           sections: normalizedSections,
@@ -1792,12 +2198,96 @@ export const processDraftQueue = action({
             modelResult.summary ??
             workspace.document?.summary ??
             undefined,
+          author: "drafter",
+          draftJobId: jobId,
         });
+        lockRejections = applied.lockRejections;
+        sectionChanges = applied.changes;
+      }
+
+      // Like the style check below, claim tracking never fails the draft.
+      const claims = modelResult.claims;
+      if (claims && sectionChanges.length > 0) {
+        try {
+          const sourceIndex = {
+            noteIds: new Set<string>([
+              ...notes.filter((note) => note.noteType === "fact").map((note) => note._id),
+              ...relevantExcerpts
+                .filter((excerpt) => excerpt.sourceType === "note" && excerpt.label === "fact")
+                .map((excerpt) => excerpt.id),
+            ]),
+            messageIds: new Set<string>([
+              ...referencedMessages.map((message) => message._id),
+              ...relevantExcerpts
+                .filter((excerpt) => excerpt.sourceType === "message")
+                .map((excerpt) => excerpt.id),
+            ]),
+            messageIdsByRef: new Map<string, string>(
+              transcriptItems.flatMap((item) =>
+                item.messageId ? [[item.messageKey ?? item.id, item.messageId] as const] : [],
+              ),
+            ),
+          };
+          const recorded = await ctx.runMutation(internal.claims.recordClaims, {
+            projectId,
+            draftJobId: jobId,
+            sections: sectionChanges.map((change) => ({
+              sectionId: change.sectionId,
+              content: change.after,
+              claims: claims
+                .filter(
+                  (claim) =>
+                    claim.heading.trim().toLowerCase() === change.heading.trim().toLowerCase(),
+                )
+                .map((claim) => {
+                  const sources = resolveClaimSources(claim.sources, sourceIndex);
+                  return {
+                    sentence: claim.sentence,
+                    noteIds: sources.noteIds as Id<"notes">[],
+                    messageIds: sources.messageIds as Id<"messages">[],
+                  };
+                }),
+            })),
+          });
+          logStage("claims_recorded", Date.now(), recorded);
+        } catch (error) {
+          console.warn("[claims] failed to record claim annotations", error);
+        }
+      }
+
+      // A lint failure flags the section for follow-up; it never fails the draft.
+      const drafted = sectionChanges.filter((change) => change.after.trim().length > 0);
+      if (drafted.length > 0) {
+        const lintStart = Date.now();
+        try {
+          const bannedPhrases = resolveBannedPhrases(
+            parsePhraseList(process.env.STYLE_LINT_BANNED_PHRASES),
+            projectBundle.project.styleBannedPhrases,
+            voiceProfile?.avoidPhrases,
+          );
+          const passScore = resolvePassScore();
+          const lint = await ctx.runMutation(internal.styleLint.recordStyleLint, {
+            projectId,
+            draftJobId: jobId,
+            results: drafted.map((change) => ({
+              sectionId: change.sectionId,
+              heading: change.heading,
+              ...lintSection(change.after, {
+                guardrails: projectBundle.blueprint?.voiceGuardrails,
+                bannedPhrases,
+                passScore,
+              }),
+            })),
+          });
+          logStage("style_lint", lintStart, lint);
+        } catch (error) {
+          console.warn("[style-lint] failed; leaving drafted sections unchecked", error);
+        }
       }
 
       const durationMs = Date.now() - startedAt;
 
-      await ctx.runMutation(api.documents.updateDraftJobStatus, {
+      await ctx.runMutation(internal.documents.updateDraftJobStatus, {
         jobId,
         status: "complete",
         summary: claimed.summary ?? undefined,
@@ -1807,9 +2297,14 @@ export const processDraftQueue = action({
         attemptCount,
         transcriptCursor:
           latestTranscriptUpdatedAt > 0 ? latestTranscriptUpdatedAt : undefined,
+        lockRejections: lockRejections.length > 0 ? lockRejections : undefined,
+        sectionChanges: sectionChanges.length > 0 ? sectionChanges : undefined,
       });
 
-      await ctx.runMutation(api.documents.reportDraftProgress, {
+      const changedHeadings = new Set(
+        sectionChanges.map((change) => change.heading.trim().toLowerCase()),
+      );
+      await ctx.runMutation(internal.documents.reportDraftProgress, {
         jobId,
         projectId,
         status: "complete",
@@ -1818,6 +2313,7 @@ export const processDraftQueue = action({
           heading: section.heading,
           status: section.status,
           order: section.order,
+          changed: changedHeadings.has(section.heading.trim().toLowerCase()),
         })),
         attemptCount,
       });
@@ -1848,28 +2344,43 @@ export const processDraftQueue = action({
         usage: modelResult.usage,
       });
 
+      await startNextJob();
       return { processed: true, jobId } as const;
     } catch (error) {
       const durationMs = Date.now() - startedAt;
-      const shouldRetry = attemptCount < 3;
       const message =
         error instanceof Error
           ? error.message
           : `Unexpected error: ${String(error)}`;
+      const outcome = decideDraftFailure(resolveRetryPolicy(), attemptCount, message);
+      const shouldRetry = outcome.action === "retry";
 
-      console.error("[draft-queue] failed", error, { jobId, attemptCount });
+      console.error("[draft-queue] failed", error, {
+        jobId,
+        attemptCount,
+        errorKind: outcome.kind,
+        action: outcome.action,
+      });
 
-      await ctx.runMutation(api.documents.updateDraftJobStatus, {
+      await ctx.runMutation(internal.documents.clearSectionDraft, { jobId });
+
+      await ctx.runMutation(internal.documents.updateDraftJobStatus, {
         jobId,
-        status: shouldRetry ? "queued" : "error",
+        status: shouldRetry ? "queued" : "dead_letter",
         error: message,
+        errorKind: outcome.kind,
+        nextAttemptAt: shouldRetry ? Date.now() + outcome.delayMs : undefined,
         durationMs,
         attemptCount,
         transcriptCursor:
           latestTranscriptUpdatedAt > 0 ? latestTranscriptUpdatedAt : undefined,
       });
 
-      await ctx.runMutation(api.documents.reportDraftProgress, {
+      if (outcome.action === "retry") {
+        await ctx.scheduler.runAfter(outcome.delayMs, internal.documents.processNextDraftJob, {});
+      }
+
+      await ctx.runMutation(internal.documents.reportDraftProgress, {
         jobId,
         projectId,
         status: "error",
@@ -1889,6 +2400,8 @@ export const processDraftQueue = action({
         timestamp: Date.now(),
       });
 
+      await startNextJob();
+
       if (!shouldRetry) {
         await sendDraftingAlert({
           jobId,
@@ -1902,14 +2415,14 @@ export const processDraftQueue = action({
 
       return {
         processed: false,
-        reason: shouldRetry ? "retry" : "error",
+        reason: shouldRetry ? "retry" : "dead_letter",
         jobId,
       } as const;
     }
   },
 });
 
-export const processDraftQueueBatch = action({
+export const processDraftQueueBatch = internalAction({
   args: {
     limit: v.optional(v.number()),
   },
@@ -1917,7 +2430,7 @@ export const processDraftQueueBatch = action({
     const limit = Math.max(1, Math.min(args.limit ?? 3, 10));
     const results: DraftQueueProcessResult[] = [];
     for (let index = 0; index < limit; index++) {
-      const result = (await ctx.runAction(api.documents.processDraftQueue, {})) as DraftQueueProcessResult;
+      const result = (await ctx.runAction(internal.documents.processNextDraftJob, {})) as DraftQueueProcessResult;
       results.push(result);
       if (!result.processed || result.reason === "empty") {
         break;
@@ -1927,13 +2440,13 @@ export const processDraftQueueBatch = action({
   },
 });
 
-export const triggerDraftProcessing = action({
+export const triggerDraftProcessing = internalAction({
   args: {
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args): Promise<DraftQueueProcessResult[]> => {
     const limit = Math.max(1, Math.min(args.limit ?? 3, 10));
-    return ctx.runAction(api.documents.processDraftQueueBatch, { limit });
+    return ctx.runAction(internal.documents.processDraftQueueBatch, { limit });
   },
 });
 
@@ -1942,6 +2455,7 @@ export const resetDraft = mutation({
     projectId: v.id("projects"),
   },
   handler: async (ctx, args) => {
+    const { viewer } = await requireProjectAccess(ctx, args.projectId, "edit");
     const document = await ctx.db
       .query("documents")
       .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
@@ -1965,7 +2479,15 @@ export const resetDraft = mutation({
       .withIndex("by_document", (q) => q.eq("documentId", document._id))
       .collect();
 
+    // Keep each section's last text so a reset can be undone from history.
     for (const section of sections) {
+      await recordSectionRevision(
+        ctx,
+        args.projectId,
+        section,
+        { authorType: "user", authorId: viewer._id },
+        now,
+      );
       await ctx.db.delete(section._id);
     }
 
@@ -0,0 +1,140 @@
+import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+
+import { replaceSectionMarkdown, withSectionHeading } from "./lib/sections";
+import { recordSectionRevision } from "./revisions";
+import { requireProjectAccess } from "./utils";
+
+const DEFAULT_JOB_LIMIT = 5;
+
+/** Changes from the most recent completed draft jobs, newest job first. */
+export const listForProject = query({
+  args: {
+    projectId: v.id("projects"),
+    jobLimit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireProjectAccess(ctx, args.projectId);
+    const changes = await ctx.db
+      .query("draftSectionChanges")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .order("desc")
+      .collect();
+
+    const jobLimit =
+      typeof args.jobLimit === "number" && args.jobLimit > 0 ? args.jobLimit : DEFAULT_JOB_LIMIT;
+    const byJob = new Map<Id<"draftJobs">, Doc<"draftSectionChanges">[]>();
+    for (const change of changes) {
+      const entries = byJob.get(change.draftJobId);
+      if (entries) {
+        entries.push(change);
+      } else if (byJob.size < jobLimit) {
+        byJob.set(change.draftJobId, [change]);
+      }
+    }
+
+    const jobs = [];
+    for (const [jobId, entries] of byJob) {
+      const job = await ctx.db.get(jobId);
+      const withSections = [];
+      for (const change of entries) {
+        const section = await ctx.db.get(change.sectionId);
+        withSections.push({
+          ...change,
+          // Rejecting only works while the section still holds this job's text.
+          isCurrent: section !== null && section.content.trim() === change.after.trim(),
+        });
+      }
+      jobs.push({
+        jobId,
+        summary: job?.generatedSummary ?? job?.summary ?? null,
+        completedAt: job?.completedAt ?? entries[0]!.createdAt,
+        changes: withSections.sort((a, b) => a.heading.localeCompare(b.heading)),
+      });
+    }
+    return jobs;
+  },
+});
+
+async function loadPendingChange(ctx: MutationCtx, changeId: Id<"draftSectionChanges">) {
+  const change = await ctx.db.get(changeId);
+  if (!change) {
+    throw new Error("Draft change not found");
+  }
+  const { viewer } = await requireProjectAccess(ctx, change.projectId, "edit");
+  if (change.decision !== "pending") {
+    throw new Error(`This change was already ${change.decision}`);
+  }
+  return { change, viewer };
+}
+
+export const acceptChange = mutation({
+  args: {
+    changeId: v.id("draftSectionChanges"),
+  },
+  handler: async (ctx, args) => {
+    const { change, viewer } = await loadPendingChange(ctx, args.changeId);
+    await ctx.db.patch(change._id, {
+      decision: "accepted",
+      decidedAt: Date.now(),
+      decidedBy: viewer._id,
+    });
+    return { accepted: true } as const;
+  },
+});
+
+export const rejectChange = mutation({
+  args: {
+    changeId: v.id("draftSectionChanges"),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const { change, viewer } = await loadPendingChange(ctx, args.changeId);
+
+    const section = await ctx.db.get(change.sectionId);
+    if (!section) {
+      throw new Error(`Section "${change.heading}" no longer exists`);
+    }
+    if (section.content.trim() !== change.after.trim()) {
+      throw new Error(
+        `"${section.heading}" has been edited since this draft. Restore an earlier version from its history instead.`,
+      );
+    }
+
+    const document = await ctx.db.get(section.documentId);
+    if (!document) {
+      throw new Error("Document not found for draft change");
+    }
+
+    await recordSectionRevision(
+      ctx,
+      change.projectId,
+      section,
+      { authorType: "user", authorId: viewer._id },
+      now,
+    );
+    await ctx.db.patch(section._id, {
+      content: change.before,
+      status: change.before.trim() ? section.status : "needs_detail",
+      version: section.version + 1,
+      updatedAt: now,
+    });
+    await ctx.db.patch(document._id, {
+      latestDraftMarkdown: replaceSectionMarkdown(
+        document.latestDraftMarkdown ?? "",
+        section.heading,
+        withSectionHeading(section.heading, change.before),
+      ),
+      updatedAt: now,
+    });
+
+    await ctx.db.patch(change._id, {
+      decision: "rejected",
+      decidedAt: now,
+      decidedBy: viewer._id,
+    });
+    return { rejected: true } as const;
+  },
+});
@@ -0,0 +1,106 @@
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+
+import { internal } from "./_generated/api";
+import { roleAllows } from "./lib/access";
+import { loadAccessibleProjects, loadViewer, requireProjectAccess } from "./utils";
+
+const DEAD_LETTER_LIMIT = 100;
+
+/**
+ * Dead-lettered jobs in every project the viewer can edit, newest first.
+ * Discarded jobs are kept for history but left off the list.
+ */
+export const listDeadLetters = query({
+  args: {},
+  handler: async (ctx) => {
+    const viewer = await loadViewer(ctx);
+    if (!viewer) return [];
+
+    // Read per project the viewer can edit, so dead letters from projects they
+    // cannot see never use up the limit.
+    const jobs: Array<{ job: Doc<"draftJobs">; project: Doc<"projects"> }> = [];
+    for (const { project, role } of await loadAccessibleProjects(ctx, viewer._id)) {
+      if (!roleAllows(role, "edit")) continue;
+      const deadLetters = await ctx.db
+        .query("draftJobs")
+        .withIndex("by_project", (q) => q.eq("projectId", project._id))
+        .order("desc")
+        .filter((q) =>
+          q.and(
+            q.eq(q.field("status"), "dead_letter"),
+            q.eq(q.field("discardedAt"), undefined),
+          ),
+        )
+        .take(DEAD_LETTER_LIMIT);
+      jobs.push(...deadLetters.map((job) => ({ job, project })));
+    }
+
+    return jobs
+      .sort((a, b) => b.job.createdAt - a.job.createdAt)
+      .slice(0, DEAD_LETTER_LIMIT)
+      .map(({ job, project }) => ({
+        _id: job._id,
+        projectId: job.projectId,
+        projectTitle: project.title,
+        summary: job.summary ?? null,
+        urgency: job.urgency ?? null,
+        error: job.error ?? null,
+        errorKind: job.errorKind ?? null,
+        attemptCount: job.attemptCount ?? 0,
+        createdAt: job.createdAt,
+        deadLetteredAt: job.deadLetteredAt ?? job.completedAt ?? job.updatedAt,
+      }));
+  },
+});
+
+async function loadDeadLetter(ctx: MutationCtx, jobId: Id<"draftJobs">) {
+  const job = await ctx.db.get(jobId);
+  if (!job) {
+    throw new Error("Draft job not found");
+  }
+  const access = await requireProjectAccess(ctx, job.projectId, "edit");
+  if (job.status !== "dead_letter" || job.discardedAt) {
+    throw new Error("Only dead-lettered jobs can be retried or discarded");
+  }
+  return { job, viewer: access.viewer };
+}
+
+/** Send a dead-lettered job back to the queue with a fresh attempt budget. */
+export const retryJob = mutation({
+  args: { jobId: v.id("draftJobs") },
+  handler: async (ctx, args) => {
+    await loadDeadLetter(ctx, args.jobId);
+    const now = Date.now();
+    await ctx.db.patch(args.jobId, {
+      status: "queued",
+      attemptCount: 0,
+      error: undefined,
+      errorKind: undefined,
+      nextAttemptAt: undefined,
+      deadLetteredAt: undefined,
+      startedAt: undefined,
+      completedAt: undefined,
+      durationMs: undefined,
+      updatedAt: now,
+    });
+    await ctx.scheduler.runAfter(0, internal.documents.processNextDraftJob, {});
+    return ctx.db.get(args.jobId);
+  },
+});
+
+export const discardJob = mutation({
+  args: { jobId: v.id("draftJobs") },
+  handler: async (ctx, args) => {
+    const { viewer } = await loadDeadLetter(ctx, args.jobId);
+    const now = Date.now();
+    await ctx.db.patch(args.jobId, {
+      discardedAt: now,
+      discardedBy: viewer._id,
+      updatedAt: now,
+    });
+    return ctx.db.get(args.jobId);
+  },
+});
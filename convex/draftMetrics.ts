@@ -0,0 +1,66 @@
+import { query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { v } from "convex/values";
+
+import { summarizeDraftQueue } from "./lib/queueMetrics";
+import { loadAccessibleProjects, loadViewer } from "./utils";
+
+const HOUR_MS = 60 * 60_000;
+const FINISHED_STATUSES = ["complete", "error", "dead_letter"] as const;
+const PENDING_STATUSES = ["queued", "running"] as const;
+
+/**
+ * Throughput, latency, token usage and queue depth for the draft queue,
+ * limited to projects the viewer can see.
+ */
+export const getQueueDashboard = query({
+  args: {
+    windowHours: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const viewer = await loadViewer(ctx);
+    if (!viewer) return null;
+
+    const accessible = await loadAccessibleProjects(ctx, viewer._id);
+    const titles = new Map(accessible.map(({ project }) => [project._id, project.title]));
+
+    const windowHours = Math.min(Math.max(args.windowHours ?? 24, 1), 24 * 7);
+    const now = Date.now();
+    const windowMs = windowHours * HOUR_MS;
+    // The index orders by creation time; allow an hour of queueing before the
+    // window so jobs that waited a while before finishing are still counted.
+    const since = now - windowMs - HOUR_MS;
+
+    const finished: Doc<"draftJobs">[] = [];
+    for (const status of FINISHED_STATUSES) {
+      const jobs = await ctx.db
+        .query("draftJobs")
+        .withIndex("by_status", (q) => q.eq("status", status).gte("createdAt", since))
+        .collect();
+      finished.push(...jobs.filter((job) => titles.has(job.projectId)));
+    }
+
+    const pending: Doc<"draftJobs">[] = [];
+    for (const status of PENDING_STATUSES) {
+      const jobs = await ctx.db
+        .query("draftJobs")
+        .withIndex("by_status", (q) => q.eq("status", status))
+        .collect();
+      pending.push(...jobs.filter((job) => titles.has(job.projectId)));
+    }
+
+    const summary = summarizeDraftQueue(finished, pending, {
+      now,
+      windowMs,
+      bucketMs: windowHours > 48 ? 6 * HOUR_MS : HOUR_MS,
+    });
+    return {
+      ...summary,
+      windowHours,
+      depth: summary.depth.map((entry) => ({
+        ...entry,
+        projectTitle: titles.get(entry.projectId) ?? "Untitled project",
+      })),
+    };
+  },
+});
@@ -0,0 +1,250 @@
+import { internalAction, internalMutation, internalQuery } from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+
+import { internal } from "./_generated/api";
+import {
+  MIN_RELEVANCE_SCORE,
+  embeddingInput,
+  resolveEmbeddingProvider,
+  type RetrievedExcerpt,
+} from "./lib/embeddings";
+
+const BACKFILL_BATCH = 100;
+// Vector search candidates per draft; the prompt builder keeps a handful.
+const RETRIEVAL_CANDIDATES = 16;
+
+const SOURCE_IDS_ARGS = {
+  noteIds: v.optional(v.array(v.id("notes"))),
+  messageIds: v.optional(v.array(v.id("messages"))),
+};
+
+type EmbeddingSource = {
+  projectId: Id<"projects">;
+  noteId?: Id<"notes">;
+  messageId?: Id<"messages">;
+  text: string;
+};
+
+export const loadSourcesInternal = internalQuery({
+  args: SOURCE_IDS_ARGS,
+  handler: async (ctx, args): Promise<EmbeddingSource[]> => {
+    const sources: EmbeddingSource[] = [];
+    for (const noteId of args.noteIds ?? []) {
+      const note = await ctx.db.get(noteId);
+      const text = embeddingInput(note?.content);
+      if (note && text) sources.push({ projectId: note.projectId, noteId, text });
+    }
+    for (const messageId of args.messageIds ?? []) {
+      const message = await ctx.db.get(messageId);
+      const text = embeddingInput(message?.transcript);
+      // Messages from a session with no project yet are embedded once it gets one.
+      if (message?.projectId && text) {
+        sources.push({ projectId: message.projectId, messageId, text });
+      }
+    }
+    return sources;
+  },
+});
+
+export const storeEmbeddings = internalMutation({
+  args: {
+    model: v.string(),
+    entries: v.array(
+      v.object({
+        projectId: v.id("projects"),
+        noteId: v.optional(v.id("notes")),
+        messageId: v.optional(v.id("messages")),
+        embedding: v.array(v.float64()),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    for (const entry of args.entries) {
+      const existing = entry.noteId
+        ? await ctx.db
+            .query("embeddings")
+            .withIndex("by_note", (q) => q.eq("noteId", entry.noteId))
+            .unique()
+        : await ctx.db
+            .query("embeddings")
+            .withIndex("by_message", (q) => q.eq("messageId", entry.messageId))
+            .unique();
+      const record = {
+        projectId: entry.projectId,
+        sourceType: entry.noteId ? ("note" as const) : ("message" as const),
+        noteId: entry.noteId,
+        messageId: entry.messageId,
+        model: args.model,
+        embedding: entry.embedding,
+        createdAt: now,
+      };
+      if (existing) {
+        await ctx.db.replace(existing._id, record);
+      } else {
+        await ctx.db.insert("embeddings", record);
+      }
+    }
+  },
+});
+
+/** Embed notes and transcript messages. Scheduled whenever one is written. */
+export const embedSources = internalAction({
+  args: SOURCE_IDS_ARGS,
+  handler: async (ctx, args): Promise<{ embedded: number }> => {
+    const sources: EmbeddingSource[] = await ctx.runQuery(
+      internal.embeddings.loadSourcesInternal,
+      args,
+    );
+    if (sources.length === 0) return { embedded: 0 };
+
+    const provider = resolveEmbeddingProvider();
+    const vectors = await provider.embed(sources.map((source) => source.text));
+    await ctx.runMutation(internal.embeddings.storeEmbeddings, {
+      model: provider.model,
+      entries: sources.map((source, index) => ({
+        projectId: source.projectId,
+        noteId: source.noteId,
+        messageId: source.messageId,
+        embedding: vectors[index]!,
+      })),
+    });
+    return { embedded: sources.length };
+  },
+});
+
+/**
+ * Queue embeddings for notes or messages written before retrieval existed,
+ * or after switching `EMBEDDING_PROVIDER`. Run once per table with
+ * `npx convex run embeddings:backfillEmbeddings '{"table":"notes"}'`.
+ */
+export const backfillEmbeddings = internalMutation({
+  args: {
+    table: v.union(v.literal("notes"), v.literal("messages")),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args): Promise<{ queued: number; done: boolean }> => {
+    const model = resolveEmbeddingProvider().model;
+    const isCurrent = (embedding: { model: string } | null) => embedding?.model === model;
+
+    let queued = 0;
+    let isDone: boolean;
+    let continueCursor: string;
+    if (args.table === "notes") {
+      const page = await ctx.db
+        .query("notes")
+        .paginate({ cursor: args.cursor ?? null, numItems: BACKFILL_BATCH });
+      const noteIds: Id<"notes">[] = [];
+      for (const note of page.page) {
+        const existing = await ctx.db
+          .query("embeddings")
+          .withIndex("by_note", (q) => q.eq("noteId", note._id))
+          .unique();
+        if (!isCurrent(existing)) noteIds.push(note._id);
+      }
+      if (noteIds.length > 0) {
+        await ctx.scheduler.runAfter(0, internal.embeddings.embedSources, { noteIds });
+      }
+      queued = noteIds.length;
+      ({ isDone, continueCursor } = page);
+    } else {
+      const page = await ctx.db
+        .query("messages")
+        .paginate({ cursor: args.cursor ?? null, numItems: BACKFILL_BATCH });
+      const messageIds: Id<"messages">[] = [];
+      for (const message of page.page) {
+        if (!message.projectId) continue;
+        const existing = await ctx.db
+          .query("embeddings")
+          .withIndex("by_message", (q) => q.eq("messageId", message._id))
+          .unique();
+        if (!isCurrent(existing)) messageIds.push(message._id);
+      }
+      if (messageIds.length > 0) {
+        await ctx.scheduler.runAfter(0, internal.embeddings.embedSources, { messageIds });
+      }
+      queued = messageIds.length;
+      ({ isDone, continueCursor } = page);
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.embeddings.backfillEmbeddings, {
+        table: args.table,
+        cursor: continueCursor,
+      });
+    }
+    console.log("[embeddings] backfill batch", { table: args.table, queued, done: isDone });
+    return { queued, done: isDone };
+  },
+});
+
+export const loadExcerptsInternal = internalQuery({
+  args: {
+    model: v.string(),
+    results: v.array(v.object({ _id: v.id("embeddings"), _score: v.number() })),
+  },
+  handler: async (ctx, args): Promise<RetrievedExcerpt[]> => {
+    const excerpts: RetrievedExcerpt[] = [];
+    for (const result of args.results) {
+      const embedding = await ctx.db.get(result._id);
+      // Vectors from another model share the index but are not comparable.
+      if (!embedding || embedding.model !== args.model) continue;
+      if (embedding.noteId) {
+        const note = await ctx.db.get(embedding.noteId);
+        if (!note) continue;
+        excerpts.push({
+          sourceType: "note",
+          id: note._id,
+          text: note.content,
+          label: note.noteType,
+          createdAt: note.createdAt,
+          score: result._score,
+        });
+      } else if (embedding.messageId) {
+        const message = await ctx.db.get(embedding.messageId);
+        if (!message) continue;
+        excerpts.push({
+          sourceType: "message",
+          id: message._id,
+          text: message.transcript,
+          label: message.speaker,
+          createdAt: message.timestamp,
+          score: result._score,
+        });
+      }
+    }
+    return excerpts;
+  },
+});
+
+/**
+ * Notes and transcript lines from anywhere in the project's history that sit
+ * closest to `queryText`. Returns nothing, rather than failing the draft, when
+ * embedding is unavailable.
+ */
+export async function retrieveRelevantExcerpts(
+  ctx: ActionCtx,
+  projectId: Id<"projects">,
+  queryText: string,
+): Promise<RetrievedExcerpt[]> {
+  const text = embeddingInput(queryText);
+  if (!text) return [];
+  try {
+    const provider = resolveEmbeddingProvider();
+    const [vector] = await provider.embed([text]);
+    const results = await ctx.vectorSearch("embeddings", "by_embedding", {
+      vector: vector!,
+      limit: RETRIEVAL_CANDIDATES,
+      filter: (q) => q.eq("projectId", projectId),
+    });
+    return await ctx.runQuery(internal.embeddings.loadExcerptsInternal, {
+      model: provider.model,
+      results: results.filter((result) => result._score >= MIN_RELEVANCE_SCORE),
+    });
+  } catch (error) {
+    console.warn("[embeddings] retrieval failed; drafting without it", error);
+    return [];
+  }
+}
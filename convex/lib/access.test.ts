@@ -0,0 +1,41 @@
+import { ConvexError } from "convex/values";
+import { describe, expect, it } from "vitest";
+
+import { accessError, describeDeniedCapability, isAccessError, roleAllows } from "./access";
+
+describe("accessError", () => {
+  it("maps codes onto HTTP-style statuses", () => {
+    expect(accessError("FORBIDDEN", "No access").data).toEqual({
+      code: "FORBIDDEN",
+      status: 403,
+      message: "No access",
+    });
+    expect(accessError("UNAUTHENTICATED", "Sign in").data.status).toBe(401);
+  });
+});
+
+describe("isAccessError", () => {
+  it("only matches access payloads", () => {
+    expect(isAccessError(accessError("NOT_FOUND", "Project not found"))).toBe(true);
+    expect(isAccessError(new ConvexError({ code: "RATE_LIMITED" }))).toBe(false);
+    expect(isAccessError(new Error("FORBIDDEN"))).toBe(false);
+  });
+});
+
+describe("roleAllows", () => {
+  it("lets reviewers comment and resolve TODOs but not edit", () => {
+    expect(roleAllows("reviewer", "comment")).toBe(true);
+    expect(roleAllows("reviewer", "resolveTodos")).toBe(true);
+    expect(roleAllows("reviewer", "edit")).toBe(false);
+    expect(describeDeniedCapability("reviewer", "edit")).toBe(
+      "As a reviewer you cannot edit the draft or outline",
+    );
+  });
+
+  it("reserves member management for owners", () => {
+    expect(roleAllows("owner", "manageMembers")).toBe(true);
+    expect(roleAllows("editor", "manageMembers")).toBe(false);
+    expect(roleAllows("viewer", "view")).toBe(true);
+    expect(roleAllows("viewer", "comment")).toBe(false);
+  });
+});
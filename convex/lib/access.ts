@@ -0,0 +1,69 @@
+import { ConvexError } from "convex/values";
+
+export const PROJECT_ROLES = ["owner", "editor", "reviewer", "viewer"] as const;
+
+export type ProjectRole = (typeof PROJECT_ROLES)[number];
+
+export type ProjectCapability = "view" | "comment" | "resolveTodos" | "edit" | "manageMembers";
+
+const ROLE_CAPABILITIES: Record<ProjectRole, ReadonlySet<ProjectCapability>> = {
+  owner: new Set(["view", "comment", "resolveTodos", "edit", "manageMembers"]),
+  editor: new Set(["view", "comment", "resolveTodos", "edit"]),
+  reviewer: new Set(["view", "comment", "resolveTodos"]),
+  viewer: new Set(["view"]),
+};
+
+const CAPABILITY_DESCRIPTIONS: Record<ProjectCapability, string> = {
+  view: "view this project",
+  comment: "comment on this project",
+  resolveTodos: "update TODOs",
+  edit: "edit the draft or outline",
+  manageMembers: "manage collaborators",
+};
+
+export function roleAllows(role: ProjectRole, capability: ProjectCapability) {
+  return ROLE_CAPABILITIES[role].has(capability);
+}
+
+export function describeDeniedCapability(role: ProjectRole, capability: ProjectCapability) {
+  const article = role === "owner" || role === "editor" ? "an" : "a";
+  return `As ${article} ${role} you cannot ${CAPABILITY_DESCRIPTIONS[capability]}`;
+}
+
+export type AccessErrorCode = "UNAUTHENTICATED" | "FORBIDDEN" | "NOT_FOUND";
+
+export type AccessErrorData = {
+  code: AccessErrorCode;
+  status: 401 | 403 | 404;
+  message: string;
+};
+
+const ACCESS_ERROR_STATUS: Record<AccessErrorCode, AccessErrorData["status"]> = {
+  UNAUTHENTICATED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+};
+
+/**
+ * Errors thrown when a caller is signed out or touches a project they do not
+ * own. The payload survives the trip to the client (`ConvexError.data`), so
+ * the UI and HTTP routes can map it onto a 401/403/404 response.
+ */
+export function accessError(code: AccessErrorCode, message: string) {
+  return new ConvexError<AccessErrorData>({
+    code,
+    status: ACCESS_ERROR_STATUS[code],
+    message,
+  });
+}
+
+export function isAccessError(error: unknown): error is ConvexError<AccessErrorData> {
+  if (!(error instanceof ConvexError)) return false;
+  const data = error.data as Partial<AccessErrorData> | null;
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    typeof data.code === "string" &&
+    data.code in ACCESS_ERROR_STATUS
+  );
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  coerceDraftClaims,
+  planSectionClaims,
+  resolveClaimSources,
+  sentenceInContent,
+  type ClaimStatus,
+} from "./claims";
+
+const sourceIndex = {
+  noteIds: new Set(["note_1"]),
+  messageIds: new Set(["msg_9"]),
+  messageIdsByRef: new Map([["user-2", "msg_2"]]),
+};
+
+const content = `## Why async
+
+We cut meetings from **18 hours** a week to six. At 3am the founder handled an outage alone.`;
+
+describe("coerceDraftClaims", () => {
+  it("tells a missing field apart from an empty list", () => {
+    expect(coerceDraftClaims(undefined)).toBeNull();
+    expect(coerceDraftClaims([])).toEqual([]);
+  });
+
+  it("drops malformed entries and strips brackets from tags", () => {
+    expect(
+      coerceDraftClaims([
+        { heading: "Why async", sentence: "  We cut   meetings. ", sources: ["[note:note_1]", 4] },
+        { heading: "", sentence: "No heading." },
+        "nonsense",
+      ]),
+    ).toEqual([{ heading: "Why async", sentence: "We cut meetings.", sources: ["note:note_1"] }]);
+  });
+});
+
+describe("resolveClaimSources", () => {
+  it("keeps only sources the prompt showed", () => {
+    expect(
+      resolveClaimSources(
+        ["note:note_1", "note:note_404", "ref:user-2", "ref:assistant-1", "msg:msg_9", "guess"],
+        sourceIndex,
+      ),
+    ).toEqual({ noteIds: ["note_1"], messageIds: ["msg_2", "msg_9"] });
+  });
+});
+
+describe("sentenceInContent", () => {
+  it("ignores emphasis, spacing and case", () => {
+    expect(sentenceInContent("we cut meetings from 18 hours a week to six.", content)).toBe(true);
+    expect(sentenceInContent("We cut meetings in half.", content)).toBe(false);
+  });
+});
+
+describe("planSectionClaims", () => {
+  const stored = (id: string, sentence: string, status: ClaimStatus) => ({ id, sentence, status });
+  const cited = { noteIds: ["note_1"], messageIds: [] };
+  const uncited = { noteIds: [], messageIds: [] };
+
+  it("replaces the drafter's annotations and keeps reviewed claims still in the text", () => {
+    const plan = planSectionClaims(
+      [
+        stored("a", "We cut meetings from 18 hours a week to six.", "verified"),
+        stored("b", "At 3am the founder handled an outage alone.", "unsupported"),
+        stored("c", "The team doubled in size.", "verified"),
+      ],
+      [
+        { sentence: "We cut meetings from 18 hours a week to six.", sources: cited },
+        { sentence: "At 3am the founder handled an outage alone.", sources: uncited },
+        { sentence: "A sentence the draft does not contain.", sources: cited },
+      ],
+      content,
+    );
+
+    expect(plan.keep).toEqual([
+      { claim: stored("a", "We cut meetings from 18 hours a week to six.", "verified"), sources: cited },
+    ]);
+    expect(plan.insert).toEqual([
+      {
+        sentence: "At 3am the founder handled an outage alone.",
+        sources: uncited,
+        status: "unsupported",
+      },
+    ]);
+    expect(plan.remove.map((claim) => claim.id)).toEqual(["b", "c"]);
+  });
+
+  it("keeps a reviewed claim the drafter did not repeat without touching its sources", () => {
+    const plan = planSectionClaims(
+      [stored("a", "At 3am the founder handled an outage alone.", "sent_to_todo")],
+      [],
+      content,
+    );
+    expect(plan.keep).toEqual([
+      { claim: stored("a", "At 3am the founder handled an outage alone.", "sent_to_todo") },
+    ]);
+    expect(plan.remove).toEqual([]);
+  });
+});
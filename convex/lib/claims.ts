@@ -0,0 +1,158 @@
+import { v, type Infer } from "convex/values";
+
+export const CLAIM_STATUS_VALIDATOR = v.union(
+  // Set by the drafter: whether it could tie the sentence to provided material.
+  v.literal("supported"),
+  v.literal("unsupported"),
+  // Set by a person reviewing the claim.
+  v.literal("verified"),
+  v.literal("sent_to_todo"),
+);
+
+export type ClaimStatus = Infer<typeof CLAIM_STATUS_VALIDATOR>;
+
+/** A claim as the drafting model returns it, before its sources are resolved. */
+export type DraftClaim = {
+  heading: string;
+  sentence: string;
+  // Bracketed tags copied from the prompt, e.g. "note:abc" or "ref:user-2".
+  sources: string[];
+};
+
+export type ClaimSources = {
+  noteIds: string[];
+  messageIds: string[];
+};
+
+export type ClaimSourceIndex = {
+  // Fact notes the prompt tagged with [note:<id>].
+  noteIds: ReadonlySet<string>;
+  // Transcript [ref:<key>] and [msg:<id>] tags, keyed without the prefix.
+  messageIdsByRef: ReadonlyMap<string, string>;
+  messageIds: ReadonlySet<string>;
+};
+
+export type StoredClaim = {
+  id: string;
+  sentence: string;
+  status: ClaimStatus;
+};
+
+const MAX_CLAIMS_PER_SECTION = 20;
+const MAX_SENTENCE_CHARS = 600;
+
+export const normalizeClaimText = (text: string) =>
+  text
+    .replace(/[*_`]/g, "")
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+
+/** Whether the drafted section still says this, ignoring emphasis and spacing. */
+export const sentenceInContent = (sentence: string, content: string) => {
+  const needle = normalizeClaimText(sentence);
+  return needle.length > 0 && normalizeClaimText(content).includes(needle);
+};
+
+/**
+ * Read `claims` from a drafting payload. Returns null when the model left the
+ * field out entirely, so callers can tell "no claims" from "not annotated".
+ */
+export function coerceDraftClaims(value: unknown): DraftClaim[] | null {
+  if (!Array.isArray(value)) return null;
+  const claims: DraftClaim[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== "object") continue;
+    const record = entry as Record<string, unknown>;
+    const heading = typeof record.heading === "string" ? record.heading.trim() : "";
+    const sentence =
+      typeof record.sentence === "string"
+        ? record.sentence.replace(/\s+/g, " ").trim().slice(0, MAX_SENTENCE_CHARS)
+        : "";
+    if (!heading || !sentence) continue;
+    const sources = Array.isArray(record.sources)
+      ? record.sources
+          .filter((source): source is string => typeof source === "string")
+          .map((source) => source.trim().replace(/^\[|\]$/g, ""))
+          .filter(Boolean)
+      : [];
+    claims.push({ heading, sentence, sources });
+  }
+  return claims;
+}
+
+/**
+ * Map the model's source tags to note and message ids. Tags the prompt never
+ * showed are dropped, so a claim citing only invented sources is unsupported.
+ */
+export function resolveClaimSources(sources: string[], index: ClaimSourceIndex): ClaimSources {
+  const noteIds = new Set<string>();
+  const messageIds = new Set<string>();
+  for (const source of sources) {
+    const separator = source.indexOf(":");
+    if (separator < 0) continue;
+    const kind = source.slice(0, separator).trim().toLowerCase();
+    const key = source.slice(separator + 1).trim();
+    if (kind === "note" && index.noteIds.has(key)) {
+      noteIds.add(key);
+    } else if (kind === "msg" && index.messageIds.has(key)) {
+      messageIds.add(key);
+    } else if (kind === "ref") {
+      const messageId = index.messageIdsByRef.get(key);
+      if (messageId) messageIds.add(messageId);
+    }
+  }
+  return { noteIds: [...noteIds], messageIds: [...messageIds] };
+}
+
+export const claimStatusFor = (sources: ClaimSources): ClaimStatus =>
+  sources.noteIds.length > 0 || sources.messageIds.length > 0 ? "supported" : "unsupported";
+
+const isDecided = (status: ClaimStatus) => status === "verified" || status === "sent_to_todo";
+
+/**
+ * Reconcile a redrafted section's claims with the ones already stored.
+ * Decisions survive as long as the section still contains the sentence;
+ * the drafter's own annotations are replaced on every draft.
+ */
+export function planSectionClaims<T extends StoredClaim>(
+  existing: T[],
+  incoming: Array<{ sentence: string; sources: ClaimSources }>,
+  content: string,
+) {
+  // `sources` is set when the drafter cited the claim again.
+  const keep: Array<{ claim: T; sources?: ClaimSources }> = [];
+  const insert: Array<{ sentence: string; sources: ClaimSources; status: ClaimStatus }> = [];
+  const decided = new Map<string, T>();
+  for (const claim of existing) {
+    if (isDecided(claim.status) && sentenceInContent(claim.sentence, content)) {
+      decided.set(normalizeClaimText(claim.sentence), claim);
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const claim of incoming) {
+    const key = normalizeClaimText(claim.sentence);
+    if (!key || seen.has(key) || !sentenceInContent(claim.sentence, content)) continue;
+    if (seen.size >= MAX_CLAIMS_PER_SECTION) break;
+    seen.add(key);
+    const previous = decided.get(key);
+    if (previous) {
+      keep.push({ claim: previous, sources: claim.sources });
+      decided.delete(key);
+    } else {
+      insert.push({ ...claim, status: claimStatusFor(claim.sources) });
+    }
+  }
+  // Decided claims the drafter did not repeat stay while their text does.
+  for (const claim of decided.values()) keep.push({ claim });
+
+  const kept = new Set(keep.map((entry) => entry.claim.id));
+  const remove = existing.filter((claim) => !kept.has(claim.id));
+  return { keep, insert, remove };
+}
+
+export const formatClaimTodo = (heading: string, sentence: string) =>
+  `Fact-check "${heading}": ${sentence}`;
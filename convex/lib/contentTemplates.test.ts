@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  findDefaultTemplate,
+  formatOutlineText,
+  formatTemplateForPrompt,
+  parseOutlineText,
+  resolveContentTemplate,
+} from "./contentTemplates";
+
+const article = findDefaultTemplate("article")!;
+
+describe("resolveContentTemplate", () => {
+  it("uses the template outline when the project has no override", () => {
+    const resolved = resolveContentTemplate(article, undefined);
+
+    expect(resolved.outlineSource).toBe("template");
+    expect(resolved.outline).toBe(article.outline);
+  });
+
+  it("prefers the project override while keeping the base outline", () => {
+    const override = [{ heading: "Cold open" }, { heading: "Playbook" }];
+    const resolved = resolveContentTemplate(article, override);
+
+    expect(resolved.outlineSource).toBe("project");
+    expect(resolved.outline).toEqual(override);
+    expect(resolved.baseOutline).toBe(article.outline);
+  });
+});
+
+describe("formatTemplateForPrompt", () => {
+  it("lists length, tone, outline guidance, and sample language", () => {
+    const prompt = formatTemplateForPrompt(resolveContentTemplate(article, null));
+
+    expect(prompt).toContain("Target length: 1500–2500 words");
+    expect(prompt).toContain("Tone presets: Analytical, Authoritative, Measured");
+    expect(prompt).toContain("1. Introduction — State the thesis and why it is timely.");
+    expect(prompt).toContain("5. Conclusion");
+    expect(prompt).toContain("Sample language (match the register, not the content)");
+  });
+});
+
+describe("outline text", () => {
+  it("round-trips headings and guidance", () => {
+    const outline = [{ heading: "Hook", guidance: "Open on the 3am incident" }, { heading: "Close" }];
+
+    expect(parseOutlineText(formatOutlineText(outline))).toEqual(outline);
+  });
+
+  it("strips list markers and blank lines", () => {
+    expect(parseOutlineText("1. Intro\n\n- Body -- Evidence first\n")).toEqual([
+      { heading: "Intro" },
+      { heading: "Body", guidance: "Evidence first" },
+    ]);
+  });
+});
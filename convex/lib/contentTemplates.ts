@@ -0,0 +1,147 @@
+export type TemplateOutlineSection = {
+  heading: string;
+  guidance?: string;
+};
+
+export type WordCountTarget = {
+  min: number;
+  max: number;
+};
+
+export type ContentTemplateFields = {
+  contentType: string;
+  label: string;
+  description: string;
+  outline: TemplateOutlineSection[];
+  wordCountTarget?: WordCountTarget;
+  tonePresets: string[];
+  sampleLanguage?: string;
+};
+
+export type ResolvedContentTemplate = ContentTemplateFields & {
+  /** Template outline before any project-level override. */
+  baseOutline: TemplateOutlineSection[];
+  outlineSource: "template" | "project";
+};
+
+export const DEFAULT_CONTENT_TEMPLATES: ContentTemplateFields[] = [
+  {
+    contentType: "blog_post",
+    label: "Blog post",
+    description: "Conversational, 800–1200 words, blog-ready",
+    outline: [
+      { heading: "The hook", guidance: "Open with a specific moment or tension from the interview." },
+      { heading: "Why it matters", guidance: "Name the problem the reader recognises." },
+      { heading: "What we learned", guidance: "The core insight, backed by one concrete example." },
+      { heading: "How to apply it", guidance: "Two or three practical moves the reader can try." },
+      { heading: "Closing thought" },
+    ],
+    wordCountTarget: { min: 800, max: 1200 },
+    tonePresets: ["Conversational", "First-person", "Practical"],
+    sampleLanguage:
+      "I didn't plan to rethink our whole process that week. It started with a single missed handoff.",
+  },
+  {
+    contentType: "article",
+    label: "Article",
+    description: "Reported or analytical piece with structured sections",
+    outline: [
+      { heading: "Introduction", guidance: "State the thesis and why it is timely." },
+      { heading: "Context", guidance: "Background the reader needs, with sourced facts." },
+      { heading: "Analysis", guidance: "The argument, section by section, grounded in evidence." },
+      { heading: "Implications", guidance: "What changes for the audience if the thesis holds." },
+      { heading: "Conclusion" },
+    ],
+    wordCountTarget: { min: 1500, max: 2500 },
+    tonePresets: ["Analytical", "Authoritative", "Measured"],
+    sampleLanguage:
+      "Across the teams we spoke with, the pattern was consistent: the meetings stayed, but the decisions moved elsewhere.",
+  },
+  {
+    contentType: "biography",
+    label: "Biography",
+    description: "Narrative profile highlighting milestones and stories",
+    outline: [
+      { heading: "Early life", guidance: "Formative places, people, and moments." },
+      { heading: "Turning points", guidance: "Decisions that changed the trajectory." },
+      { heading: "Milestones", guidance: "Achievements in chronological order, with stories." },
+      { heading: "Legacy", guidance: "How the subject wants to be remembered, in their words." },
+    ],
+    wordCountTarget: { min: 2000, max: 4000 },
+    tonePresets: ["Narrative", "Warm", "Reflective"],
+    sampleLanguage: "She was twelve when she first took apart the family radio, and nobody asked her to put it back.",
+  },
+  {
+    contentType: "sandbox",
+    label: "Sandbox",
+    description: "Internal testing project used for realtime diagnostics",
+    outline: [{ heading: "Test section" }],
+    tonePresets: [],
+  },
+];
+
+export const findDefaultTemplate = (contentType: string) =>
+  DEFAULT_CONTENT_TEMPLATES.find((template) => template.contentType === contentType) ?? null;
+
+export function resolveContentTemplate(
+  template: ContentTemplateFields,
+  outlineOverride: TemplateOutlineSection[] | undefined | null,
+): ResolvedContentTemplate {
+  const hasOverride = Boolean(outlineOverride && outlineOverride.length > 0);
+  return {
+    ...template,
+    outline: hasOverride ? outlineOverride! : template.outline,
+    baseOutline: template.outline,
+    outlineSource: hasOverride ? "project" : "template",
+  };
+}
+
+/** Prompt block describing the template the draft should conform to. */
+export function formatTemplateForPrompt(template: ResolvedContentTemplate) {
+  const lines = [`Template: ${template.label}`];
+  if (template.wordCountTarget) {
+    lines.push(
+      `Target length: ${template.wordCountTarget.min}–${template.wordCountTarget.max} words for the finished piece`,
+    );
+  }
+  if (template.tonePresets.length > 0) {
+    lines.push(`Tone presets: ${template.tonePresets.join(", ")}`);
+  }
+  if (template.outline.length > 0) {
+    lines.push(
+      `${template.outlineSource === "project" ? "Project outline" : "Template outline"}:`,
+      ...template.outline.map((section, index) =>
+        section.guidance
+          ? `${index + 1}. ${section.heading} — ${section.guidance}`
+          : `${index + 1}. ${section.heading}`,
+      ),
+    );
+  }
+  if (template.sampleLanguage?.trim()) {
+    lines.push(`Sample language (match the register, not the content): "${template.sampleLanguage.trim()}"`);
+  }
+  return lines.join("\n");
+}
+
+const OUTLINE_GUIDANCE_SEPARATOR = " — ";
+
+/** One section per line, `Heading — guidance`, for plain textarea editing. */
+export const formatOutlineText = (outline: TemplateOutlineSection[]) =>
+  outline
+    .map((section) =>
+      section.guidance
+        ? `${section.heading}${OUTLINE_GUIDANCE_SEPARATOR}${section.guidance}`
+        : section.heading,
+    )
+    .join("\n");
+
+export const parseOutlineText = (text: string): TemplateOutlineSection[] =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*(?:[-*]|\d+[.)])\s+/, "").trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [heading, ...rest] = line.split(/\s+(?:—|--)\s+/);
+      const guidance = rest.join(OUTLINE_GUIDANCE_SEPARATOR).trim();
+      return guidance ? { heading: heading!.trim(), guidance } : { heading: heading!.trim() };
+    });
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  classifyDraftError,
+  decideDraftFailure,
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  retryDelayMs,
+} from "./draftRetry";
+
+describe("resolveRetryPolicy", () => {
+  it("reads overrides from the env and ignores junk", () => {
+    expect(
+      resolveRetryPolicy({ DRAFT_RETRY_MAX_ATTEMPTS: "5", DRAFT_RETRY_BASE_DELAY_MS: "abc" }),
+    ).toEqual({ ...DEFAULT_RETRY_POLICY, maxAttempts: 5 });
+  });
+});
+
+describe("retryDelayMs", () => {
+  it("doubles up to the cap", () => {
+    const policy = { maxAttempts: 10, baseDelayMs: 1_000, maxDelayMs: 5_000 };
+    expect([1, 2, 3, 4].map((attempt) => retryDelayMs(policy, attempt))).toEqual([
+      1_000, 2_000, 4_000, 5_000,
+    ]);
+  });
+});
+
+describe("classifyDraftError", () => {
+  it("separates retryable provider failures from permanent ones", () => {
+    expect(classifyDraftError("OpenAI request failed (429): rate limited")).toBe("transient");
+    expect(classifyDraftError("Anthropic request failed (529): overloaded")).toBe("transient");
+    expect(classifyDraftError("OpenAI request failed (401): bad key")).toBe("permanent");
+    expect(classifyDraftError("ANTHROPIC_API_KEY not configured for the model provider")).toBe(
+      "permanent",
+    );
+    expect(classifyDraftError("Drafting model payload missing required fields")).toBe("transient");
+    expect(classifyDraftError("fetch failed")).toBe("transient");
+  });
+});
+
+describe("decideDraftFailure", () => {
+  it("retries transient errors until the attempt cap, then dead-letters", () => {
+    const policy = { maxAttempts: 3, baseDelayMs: 1_000, maxDelayMs: 60_000 };
+
+    expect(decideDraftFailure(policy, 1, "fetch failed")).toEqual({
+      action: "retry",
+      kind: "transient",
+      delayMs: 1_000,
+    });
+    expect(decideDraftFailure(policy, 3, "fetch failed").action).toBe("dead_letter");
+    expect(decideDraftFailure(policy, 1, "Project not found during draft processing")).toEqual({
+      action: "dead_letter",
+      kind: "permanent",
+    });
+  });
+});
@@ -0,0 +1,81 @@
+export type DraftRetryPolicy = {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export type DraftErrorKind = "transient" | "permanent";
+
+export const DEFAULT_RETRY_POLICY: DraftRetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 15_000,
+  maxDelayMs: 10 * 60_000,
+};
+
+const positiveInteger = (value: string | undefined) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+/** The policy from `DRAFT_RETRY_*` env vars, falling back to the defaults. */
+export function resolveRetryPolicy(
+  env: Record<string, string | undefined> = process.env,
+): DraftRetryPolicy {
+  const baseDelayMs = positiveInteger(env.DRAFT_RETRY_BASE_DELAY_MS) ?? DEFAULT_RETRY_POLICY.baseDelayMs;
+  return {
+    maxAttempts: positiveInteger(env.DRAFT_RETRY_MAX_ATTEMPTS) ?? DEFAULT_RETRY_POLICY.maxAttempts,
+    baseDelayMs,
+    maxDelayMs: Math.max(
+      baseDelayMs,
+      positiveInteger(env.DRAFT_RETRY_MAX_DELAY_MS) ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    ),
+  };
+}
+
+/** Delay before attempt `attempt + 1`, doubling each time up to the cap. */
+export function retryDelayMs(policy: DraftRetryPolicy, attempt: number) {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** exponent);
+}
+
+// Provider errors read "<Provider> request failed (<status>): ...".
+const HTTP_STATUS_PATTERN = /request failed \((\d{3})\)/i;
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429]);
+
+const PERMANENT_PATTERNS = [
+  /not configured/i,
+  /not found/i,
+  /invalid[_ ]api[_ ]key/i,
+  /context[_ ]length/i,
+];
+
+/**
+ * Whether retrying could help. Rate limits, 5xx responses, network failures
+ * and malformed model output are transient; bad credentials, rejected
+ * requests and missing records are not. Unknown errors count as transient so
+ * the attempt cap still bounds them.
+ */
+export function classifyDraftError(message: string): DraftErrorKind {
+  const status = HTTP_STATUS_PATTERN.exec(message);
+  if (status) {
+    const code = Number(status[1]);
+    return code >= 500 || RETRYABLE_STATUSES.has(code) ? "transient" : "permanent";
+  }
+  return PERMANENT_PATTERNS.some((pattern) => pattern.test(message)) ? "permanent" : "transient";
+}
+
+export type DraftFailureOutcome =
+  | { action: "retry"; kind: DraftErrorKind; delayMs: number }
+  | { action: "dead_letter"; kind: DraftErrorKind };
+
+export function decideDraftFailure(
+  policy: DraftRetryPolicy,
+  attemptCount: number,
+  message: string,
+): DraftFailureOutcome {
+  const kind = classifyDraftError(message);
+  if (kind === "permanent" || attemptCount >= policy.maxAttempts) {
+    return { action: "dead_letter", kind };
+  }
+  return { action: "retry", kind, delayMs: retryDelayMs(policy, attemptCount) };
+}
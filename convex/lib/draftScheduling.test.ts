@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+  draftPriority,
+  pickNextDraftJob,
+  PRIORITY_AGING_MS,
+  STALE_RUNNING_MS,
+} from "./draftScheduling";
+
+const NOW = 1_700_000_000_000;
+
+const job = (
+  id: string,
+  projectId: string,
+  overrides: Partial<Doc<"draftJobs">> = {},
+): Doc<"draftJobs"> => ({
+  _id: id as Id<"draftJobs">,
+  _creationTime: NOW - 1_000,
+  projectId: projectId as Id<"projects">,
+  sessionId: "session_1" as Id<"sessions">,
+  status: "queued",
+  createdAt: NOW - 1_000,
+  updatedAt: NOW - 1_000,
+  ...overrides,
+});
+
+describe("draftPriority", () => {
+  it("reads free-text urgency", () => {
+    expect(draftPriority("ASAP please")).toBe("high");
+    expect(draftPriority("whenever you get to it")).toBe("low");
+    expect(draftPriority("routine")).toBe("normal");
+    expect(draftPriority(undefined)).toBe("normal");
+  });
+});
+
+describe("pickNextDraftJob", () => {
+  it("runs urgent jobs before older routine ones", () => {
+    const routine = job("routine", "a", { createdAt: NOW - 60_000 });
+    const urgent = job("urgent", "b", { urgency: "asap" });
+
+    expect(pickNextDraftJob([routine, urgent], [], new Map(), NOW)?._id).toBe("urgent");
+  });
+
+  it("ages low-priority jobs so they are not starved", () => {
+    const waiting = job("waiting", "a", { urgency: "low", createdAt: NOW - 3 * PRIORITY_AGING_MS });
+    const urgent = job("urgent", "b", { urgency: "asap" });
+
+    expect(pickNextDraftJob([waiting, urgent], [], new Map(), NOW)?._id).toBe("waiting");
+  });
+
+  it("never starts a second job for a project that is drafting", () => {
+    const running = job("running", "a", { status: "running", startedAt: NOW - 5_000 });
+    const followUp = job("follow-up", "a", { urgency: "asap" });
+    const other = job("other", "b");
+
+    expect(pickNextDraftJob([followUp, other], [running], new Map(), NOW)?._id).toBe("other");
+    expect(pickNextDraftJob([followUp], [running], new Map(), NOW)).toBeNull();
+  });
+
+  it("releases the lock held by a stale running job", () => {
+    const stuck = job("stuck", "a", { status: "running", startedAt: NOW - STALE_RUNNING_MS - 1 });
+    const followUp = job("follow-up", "a");
+
+    expect(pickNextDraftJob([followUp], [stuck], new Map(), NOW)?._id).toBe("follow-up");
+  });
+
+  it("shares equal-priority work across projects", () => {
+    const busy = job("busy", "a", { createdAt: NOW - 5_000 });
+    const quiet = job("quiet", "b");
+    const lastStarted = new Map([
+      ["a" as Id<"projects">, NOW - 10_000],
+      ["b" as Id<"projects">, NOW - 600_000],
+    ]);
+
+    expect(pickNextDraftJob([busy, quiet], [], lastStarted, NOW)?._id).toBe("quiet");
+  });
+
+  it("holds retries until their backoff expires", () => {
+    const retry = job("retry", "a", { nextAttemptAt: NOW + 5_000 });
+
+    expect(pickNextDraftJob([retry], [], new Map(), NOW)).toBeNull();
+    expect(pickNextDraftJob([retry], [], new Map(), NOW + 5_000)?._id).toBe("retry");
+  });
+
+  it("respects the concurrency cap", () => {
+    const running = [job("r1", "a", { status: "running", startedAt: NOW })];
+
+    expect(pickNextDraftJob([job("next", "b")], running, new Map(), NOW, 1)).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+import type { Doc, Id } from "../_generated/dataModel";
+
+export type DraftPriority = "high" | "normal" | "low";
+
+// `urgency` is free text from the realtime tool call ("asap", "routine", ...).
+const URGENCY_KEYWORDS: Array<[DraftPriority, RegExp]> = [
+  ["high", /\b(asap|urgent|immediate(ly)?|high|critical)\b/i],
+  ["low", /\b(low|later|whenever|background|eventually)\b/i],
+];
+
+const PRIORITY_WEIGHTS: Record<DraftPriority, number> = {
+  high: 2,
+  normal: 1,
+  low: 0,
+};
+
+// A queued job gains one priority level per interval so low-urgency work
+// cannot be starved by a steady stream of urgent requests.
+export const PRIORITY_AGING_MS = 2 * 60_000;
+
+// A running job that has not finished in this long is assumed to belong to a
+// worker that died; it no longer holds its project's lock, and the next claim
+// requeues it for a retry or dead-letters it.
+export const STALE_RUNNING_MS = 10 * 60_000;
+
+export const MAX_CONCURRENT_DRAFT_JOBS = 4;
+
+export function draftPriority(urgency: string | null | undefined): DraftPriority {
+  const text = (urgency ?? "").trim();
+  for (const [priority, pattern] of URGENCY_KEYWORDS) {
+    if (pattern.test(text)) return priority;
+  }
+  return "normal";
+}
+
+export function effectivePriority(job: Doc<"draftJobs">, now: number) {
+  const waited = Math.max(0, now - job.createdAt);
+  return PRIORITY_WEIGHTS[draftPriority(job.urgency)] + Math.floor(waited / PRIORITY_AGING_MS);
+}
+
+export const isLiveRunningJob = (job: Doc<"draftJobs">, now: number) =>
+  job.status === "running" && now - (job.startedAt ?? job.updatedAt) < STALE_RUNNING_MS;
+
+/**
+ * Choose the next queued job to run, or null if nothing may start.
+ *
+ * - A project with a live running job is skipped (one drafter per document).
+ * - Retries still backing off are skipped.
+ * - Nothing starts once `maxConcurrent` jobs are running.
+ * - Among the rest, the highest effective priority wins; ties go to the
+ *   project that was served least recently, then to the oldest job.
+ */
+export function pickNextDraftJob(
+  queued: Doc<"draftJobs">[],
+  running: Doc<"draftJobs">[],
+  lastStartedByProject: Map<Id<"projects">, number>,
+  now: number,
+  maxConcurrent = MAX_CONCURRENT_DRAFT_JOBS,
+): Doc<"draftJobs"> | null {
+  const live = running.filter((job) => isLiveRunningJob(job, now));
+  if (live.length >= maxConcurrent) return null;
+
+  const busyProjects = new Set(live.map((job) => job.projectId));
+  const candidates = queued.filter(
+    (job) => !busyProjects.has(job.projectId) && (job.nextAttemptAt ?? 0) <= now,
+  );
+  if (candidates.length === 0) return null;
+
+  const ranked = candidates
+    .map((job) => ({
+      job,
+      priority: effectivePriority(job, now),
+      lastServed: lastStartedByProject.get(job.projectId) ?? 0,
+    }))
+    .sort(
+      (a, b) =>
+        b.priority - a.priority ||
+        a.lastServed - b.lastServed ||
+        a.job.createdAt - b.job.createdAt,
+    );
+  return ranked[0]!.job;
+}
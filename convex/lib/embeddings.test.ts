@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  EMBEDDING_DIMENSIONS,
+  cosineSimilarity,
+  createLocalEmbeddingProvider,
+  embeddingInput,
+  resolveEmbeddingProvider,
+} from "./embeddings";
+
+describe("embeddingInput", () => {
+  it("skips filler and collapses whitespace", () => {
+    expect(embeddingInput("ok, sounds good")).toBeNull();
+    expect(embeddingInput("  We moved   the standup\nto Slack threads ")).toBe(
+      "We moved the standup to Slack threads",
+    );
+  });
+});
+
+describe("createLocalEmbeddingProvider", () => {
+  it("places texts that share vocabulary closer together", async () => {
+    const provider = createLocalEmbeddingProvider();
+    const [query, related, unrelated] = await provider.embed([
+      "Habits for distributed teams working across time zones",
+      "Our distributed team picked up new habits to cope with time zones",
+      "Grandma's recipe for apple pie needs cold butter",
+    ]);
+    expect(query).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(cosineSimilarity(query!, related!)).toBeGreaterThan(0.4);
+    expect(cosineSimilarity(query!, unrelated!)).toBeLessThan(0.2);
+  });
+
+  it("is deterministic", async () => {
+    const provider = createLocalEmbeddingProvider();
+    const [first] = await provider.embed(["The 3am outage"]);
+    const [second] = await provider.embed(["The 3am outage"]);
+    expect(first).toEqual(second);
+  });
+});
+
+describe("resolveEmbeddingProvider", () => {
+  it("falls back to the local stand-in without an OpenAI key", () => {
+    expect(resolveEmbeddingProvider({ env: {} }).id).toBe("local");
+    expect(resolveEmbeddingProvider({ env: { OPENAI_API_KEY: "sk-test" } }).id).toBe("openai");
+    expect(
+      resolveEmbeddingProvider({ env: { OPENAI_API_KEY: "sk-test", EMBEDDING_PROVIDER: "local" } })
+        .id,
+    ).toBe("local");
+  });
+
+  it("requests fixed-size OpenAI embeddings and keeps them in input order", async () => {
+    const requests: Array<Record<string, unknown>> = [];
+    const fakeFetch = (async (_url: unknown, init?: RequestInit) => {
+      requests.push(JSON.parse(String(init?.body)));
+      return new Response(
+        JSON.stringify({
+          data: [
+            { index: 1, embedding: [0, 1] },
+            { index: 0, embedding: [1, 0] },
+          ],
+        }),
+        { status: 200 },
+      );
+    }) as typeof fetch;
+
+    const provider = resolveEmbeddingProvider({
+      env: { OPENAI_API_KEY: "sk-test" },
+      fetch: fakeFetch,
+    });
+    expect(await provider.embed(["first", "second"])).toEqual([
+      [1, 0],
+      [0, 1],
+    ]);
+    expect(requests[0]).toMatchObject({
+      model: "text-embedding-3-small",
+      dimensions: EMBEDDING_DIMENSIONS,
+    });
+    expect(provider.model).toBe(`text-embedding-3-small@${EMBEDDING_DIMENSIONS}`);
+  });
+});
@@ -0,0 +1,169 @@
+// Fixed by the vector index in schema.ts; every provider must produce this size.
+export const EMBEDDING_DIMENSIONS = 256;
+
+// Vector search scores below this are noise for the drafter.
+export const MIN_RELEVANCE_SCORE = 0.2;
+
+// Longer sources are truncated; the opening carries most of the meaning.
+const MAX_EMBEDDING_CHARS = 2000;
+
+// "ok", "mm-hmm" and similar carry nothing worth retrieving.
+const MIN_EMBEDDING_WORDS = 4;
+
+const OPENAI_EMBEDDINGS_ENDPOINT = "https://api.openai.com/v1/embeddings";
+const DEFAULT_OPENAI_EMBEDDING_MODEL = "text-embedding-3-small";
+
+export const EMBEDDING_PROVIDER_IDS = ["openai", "local"] as const;
+export type EmbeddingProviderId = (typeof EMBEDDING_PROVIDER_IDS)[number];
+
+export type EmbeddingProvider = {
+  id: EmbeddingProviderId;
+  // Stored with each vector; vectors from different models are not comparable.
+  model: string;
+  embed: (texts: string[]) => Promise<number[][]>;
+};
+
+type EmbeddingOptions = {
+  env?: Record<string, string | undefined>;
+  fetch?: typeof fetch;
+};
+
+/** Text worth embedding, trimmed to size, or null when it is too short to be useful. */
+export function embeddingInput(text: string | null | undefined): string | null {
+  const clean = (text ?? "").replace(/\s+/g, " ").trim();
+  if (clean.split(" ").filter(Boolean).length < MIN_EMBEDDING_WORDS) return null;
+  return clean.slice(0, MAX_EMBEDDING_CHARS);
+}
+
+const normalize = (vector: number[]) => {
+  const length = Math.hypot(...vector);
+  return length > 0 ? vector.map((value) => value / length) : vector;
+};
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let aLength = 0;
+  let bLength = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index += 1) {
+    dot += a[index]! * b[index]!;
+    aLength += a[index]! * a[index]!;
+    bLength += b[index]! * b[index]!;
+  }
+  return aLength > 0 && bLength > 0 ? dot / Math.sqrt(aLength * bLength) : 0;
+}
+
+const hashToken = (token: string) => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < token.length; index += 1) {
+    hash ^= token.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Crude stemming so "stories" and "story" or "sailing" and "sail" share a bucket.
+const stem = (word: string) =>
+  word.length > 4 ? word.replace(/ies$/, "y").replace(/(?:ing|ed|(?<!s)s)$/, "") : word;
+
+const STOP_WORDS = new Set(
+  "the a an and or but of to in on at for with from by is was were be been are it its this that as so we i you he she they our my your his her their".split(
+    " ",
+  ),
+);
+
+/**
+ * Offline stand-in: hashed bag of stemmed words and word pairs. It only
+ * captures shared vocabulary, but it is deterministic and needs no network,
+ * which is what tests and keyless local setups need.
+ */
+export function createLocalEmbeddingProvider(): EmbeddingProvider {
+  const embedOne = (text: string) => {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+      .filter((word) => !STOP_WORDS.has(word))
+      .map(stem);
+    const features = [
+      ...words,
+      ...words.slice(1).map((word, index) => `${words[index]} ${word}`),
+    ];
+    for (const feature of features) {
+      const hash = hashToken(feature);
+      // The top bit picks a sign so unrelated collisions tend to cancel out.
+      vector[hash % EMBEDDING_DIMENSIONS]! += hash & 0x80000000 ? -1 : 1;
+    }
+    return normalize(vector);
+  };
+  return {
+    id: "local",
+    model: `local-hash-${EMBEDDING_DIMENSIONS}`,
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+function createOpenAIEmbeddingProvider(
+  env: Record<string, string | undefined>,
+  fetchImpl: typeof fetch,
+): EmbeddingProvider {
+  const model = env.OPENAI_EMBEDDING_MODEL?.trim() || DEFAULT_OPENAI_EMBEDDING_MODEL;
+  return {
+    id: "openai",
+    model: `${model}@${EMBEDDING_DIMENSIONS}`,
+    embed: async (texts) => {
+      if (texts.length === 0) return [];
+      const apiKey = env.OPENAI_API_KEY?.trim();
+      if (!apiKey) {
+        throw new Error("OPENAI_API_KEY not configured for embeddings");
+      }
+      const response = await fetchImpl(OPENAI_EMBEDDINGS_ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` },
+        body: JSON.stringify({ model, input: texts, dimensions: EMBEDDING_DIMENSIONS }),
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`OpenAI embeddings request failed (${response.status}): ${errorText}`);
+      }
+      const payload = (await response.json()) as {
+        data?: Array<{ index: number; embedding: number[] }>;
+      };
+      const vectors = [...(payload.data ?? [])].sort((a, b) => a.index - b.index);
+      if (vectors.length !== texts.length) {
+        throw new Error(
+          `OpenAI embeddings returned ${vectors.length} vectors for ${texts.length} inputs`,
+        );
+      }
+      return vectors.map((entry) => entry.embedding);
+    },
+  };
+}
+
+/**
+ * `EMBEDDING_PROVIDER` when set, otherwise OpenAI if a key is configured and
+ * the local stand-in if not.
+ */
+export function resolveEmbeddingProvider(options: EmbeddingOptions = {}): EmbeddingProvider {
+  const env = options.env ?? process.env;
+  const configured = env.EMBEDDING_PROVIDER?.trim();
+  if (configured && !(EMBEDDING_PROVIDER_IDS as readonly string[]).includes(configured)) {
+    console.warn(`[embeddings] Unknown EMBEDDING_PROVIDER "${configured}", using the default`);
+  }
+  const id: EmbeddingProviderId =
+    configured === "openai" || configured === "local"
+      ? configured
+      : env.OPENAI_API_KEY?.trim()
+        ? "openai"
+        : "local";
+  return id === "openai"
+    ? createOpenAIEmbeddingProvider(env, options.fetch ?? ((input, init) => fetch(input, init)))
+    : createLocalEmbeddingProvider();
+}
+
+export type RetrievedExcerpt = {
+  sourceType: "note" | "message";
+  id: string;
+  text: string;
+  // Note type for notes, speaker for transcript lines.
+  label: string;
+  createdAt: number;
+  score: number;
+};
@@ -204,4 +204,167 @@ describe("buildDraftingPrompt", () => {
       }
     `);
   });
+
+  it("marks locked sections as read-only", () => {
+    const result = buildDraftingPrompt({
+      project,
+      blueprint,
+      document,
+      sections: [{ ...sections[0]!, locked: true }, sections[1]!],
+      notes,
+      todos,
+      transcriptItems,
+      job,
+      referencedMessages,
+    });
+
+    expect(result.user).toContain(
+      "1. Why async needs a new playbook — Needs detail (v2) — LOCKED (read-only)",
+    );
+    expect(result.user).toContain("2. Four habits for distributed teams — Drafting (v1)\n");
+    expect(result.system).toContain(
+      '- LOCKED sections are read-only: "Why async needs a new playbook".',
+    );
+  });
+
+  it("passes open section comments through as revision feedback", () => {
+    const result = buildDraftingPrompt({
+      project,
+      blueprint,
+      document,
+      sections: [sections[0]!, { ...sections[1]!, locked: true }],
+      notes,
+      todos,
+      transcriptItems,
+      job: { ...job, promptContext: { activeSection: "Why async needs a new playbook" } },
+      referencedMessages,
+      sectionComments: [
+        {
+          heading: "Why async needs a new playbook",
+          quote: "async is the unlock",
+          comment: "Too glib, lead with the outage instead.",
+          replies: ["Agreed"],
+        },
+        {
+          heading: "Four habits for distributed teams",
+          comment: "Add the meeting-hours metric.",
+          replies: [],
+        },
+      ],
+    });
+
+    expect(result.user).toContain(
+      '## Revision feedback to apply\n- [Why async needs a new playbook] On "async is the unlock": Too glib, lead with the outage instead. (Replies: Agreed)',
+    );
+    expect(result.user).not.toContain("Add the meeting-hours metric.");
+    expect(result.system).toContain("open reviewer comment on that section");
+  });
+
+  it("adds retrieved material for the active section that the prompt does not already show", () => {
+    const result = buildDraftingPrompt({
+      project,
+      blueprint,
+      document,
+      sections,
+      notes,
+      todos,
+      transcriptItems,
+      job: { ...job, promptContext: { activeSection: "Four habits for distributed teams" } },
+      referencedMessages,
+      relevantExcerpts: [
+        {
+          sourceType: "message",
+          id: "message_old",
+          text: "Our second habit was writing decisions down before the meeting, never after.",
+          label: "user",
+          createdAt: 1735000000000,
+          score: 0.61,
+        },
+        {
+          sourceType: "note",
+          id: "note_1",
+          text: notes[0]!.content,
+          label: "fact",
+          createdAt: notes[0]!.createdAt,
+          score: 0.7,
+        },
+        {
+          sourceType: "note",
+          id: "note_old",
+          text: "Habit #3: every team publishes a weekly written demo instead of a status call.",
+          label: "story",
+          createdAt: 1735000000000,
+          score: 0.74,
+        },
+      ],
+    });
+
+    expect(result.user).toContain(
+      '## Earlier material relevant to "Four habits for distributed teams"\n' +
+        "- [STORY] Habit #3: every team publishes a weekly written demo instead of a status call.\n" +
+        "- (user, earlier) Our second habit was writing decisions down before the meeting, never after.",
+    );
+    // note_1 is already among the recent notes.
+    expect(result.user.match(/Team reduced meetings/g)).toHaveLength(1);
+  });
+
+  it("includes the owner's voice profile after the blueprint", () => {
+    const result = buildDraftingPrompt({
+      project,
+      blueprint,
+      document,
+      sections,
+      notes,
+      todos,
+      transcriptItems,
+      job,
+      referencedMessages,
+      voiceProfile: {
+        formality: "casual",
+        sentenceLength: "short",
+        avgSentenceWords: 8.6,
+        vocabularyRichness: 0.6,
+        characteristicWords: ["honestly"],
+        signaturePhrases: [],
+        avoidPhrases: ["synergy"],
+        notes: null,
+      },
+    });
+
+    expect(result.user).toContain(
+      "Voice content guardrails: Avoid generic productivity platitudes\n\n" +
+        "## Client voice profile (from their own speech; blueprint guardrails win on conflict)\n" +
+        "Formality: casual.\n" +
+        "Sentences: short, punchy sentences (about 9 words when speaking).\n" +
+        "Words they reach for: honestly.\n" +
+        'Never use: "synergy".\n\n## Document',
+    );
+  });
+
+  it("tags citable sources and asks for claims when annotating", () => {
+    const input = {
+      project,
+      blueprint,
+      document,
+      sections,
+      notes,
+      todos,
+      transcriptItems,
+      job,
+      referencedMessages,
+    };
+    const plain = buildDraftingPrompt(input);
+    const annotated = buildDraftingPrompt({ ...input, annotateClaims: true });
+
+    expect(plain.user).not.toContain("[note:");
+    expect(plain.system).not.toContain("`claims`");
+    // Only fact notes are evidence; the story note stays untagged.
+    expect(annotated.user).toContain(
+      "- [STORY] Founder told story about 3am incident that led to async overhaul.\n" +
+        "- [FACT] Team reduced meetings from 18hrs/week to 6hrs/week after async shift. [note:note_1]\n",
+    );
+    expect(annotated.user).toContain("[ref:user-2]");
+    expect(annotated.user).toContain("eight hours. [msg:message_b]");
+    expect(annotated.system).toContain("In `claims`, list every factual claim");
+  });
 });
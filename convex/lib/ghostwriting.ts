@@ -1,4 +1,8 @@
 import type { Doc, Id } from "../_generated/dataModel";
+import { formatTemplateForPrompt, type ResolvedContentTemplate } from "./contentTemplates";
+import type { RetrievedExcerpt } from "./embeddings";
+import { formatVoiceProfileForPrompt, type VoiceProfile } from "./voiceProfile";
+import { formatSectionFeedback, type SectionFeedbackThread } from "./sectionComments";
 
 export type DraftingPromptTranscriptItem = {
   id: string;
@@ -22,6 +26,15 @@ export type DraftingPromptInput = {
   transcriptItems: DraftingPromptTranscriptItem[];
   job: Doc<"draftJobs">;
   referencedMessages: Array<Doc<"messages">>;
+  template?: ResolvedContentTemplate | null;
+  /** Unresolved comment threads, keyed to sections by heading. */
+  sectionComments?: SectionFeedbackThread[];
+  /** Vector search hits for the active section, from the whole project history. */
+  relevantExcerpts?: RetrievedExcerpt[];
+  /** The project owner's voice, learned from their speech and edited by them. */
+  voiceProfile?: VoiceProfile | null;
+  /** Tag citable material and ask the model to tie each factual claim to it. */
+  annotateClaims?: boolean;
 };
 
 export type DraftingPromptResult = {
@@ -134,16 +147,24 @@ const summarizeTodos = (todos: Doc<"todos">[]) => {
     .join("\n");
 };
 
-const summarizeNotes = (notes: Doc<"notes">[]) => {
+const MAX_RECENT_NOTES = 8;
+const MAX_RELEVANT_EXCERPTS = 6;
+
+const recentNotes = (notes: Doc<"notes">[]) =>
+  [...notes].sort((a, b) => b.createdAt - a.createdAt).slice(0, MAX_RECENT_NOTES);
+
+// Only fact notes count as evidence for a claim; stories and style notes do not.
+const noteCitation = (noteType: string, id: string, cite: boolean) =>
+  cite && noteType === "fact" ? ` [note:${id}]` : "";
+
+const summarizeNotes = (notes: Doc<"notes">[], cite = false) => {
   if (notes.length === 0) return "No recent notes.";
-  const ordered = [...notes].sort((a, b) => b.createdAt - a.createdAt);
-  const limited = ordered.slice(0, 8);
-  return limited
+  return recentNotes(notes)
     .map((note) => {
       const tag = note.noteType;
       const header = tag === "todo" ? "TODO" : tag.toUpperCase();
       const body = sanitizeText(note.content);
-      return `- [${header}] ${body}`;
+      return `- [${header}] ${body}${noteCitation(tag, note._id, cite)}`;
     })
     .join("\n");
 };
@@ -154,7 +175,8 @@ const summarizeSections = (sections: Doc<"documentSections">[]) => {
   return ordered
     .map((section, index) => {
       const label = SECTION_STATUS_LABEL[section.status] ?? section.status;
-      return `${index + 1}. ${section.heading} — ${label} (v${section.version})`;
+      const lock = section.locked ? " — LOCKED (read-only)" : "";
+      return `${index + 1}. ${section.heading} — ${label} (v${section.version})${lock}`;
     })
     .join("\n");
 };
@@ -217,13 +239,43 @@ const collectTranscriptExcerpts = (
     .join("\n");
 };
 
-const collectReferencedMessages = (messages: Array<Doc<"messages">>) => {
+/**
+ * The retrieved excerpts worth adding: best score first, skipping notes the
+ * Notes section already lists and lines already in the transcript excerpts.
+ */
+const selectRelevantExcerpts = (
+  excerpts: RetrievedExcerpt[],
+  notes: Doc<"notes">[],
+  transcriptExcerpt: string,
+  cite = false,
+) => {
+  const shownNoteIds = new Set<string>(recentNotes(notes).map((note) => note._id));
+  const seenText = new Set<string>();
+  return [...excerpts]
+    .sort((a, b) => b.score - a.score)
+    .filter((excerpt) => {
+      const text = sanitizeText(excerpt.text);
+      if (!text || seenText.has(text)) return false;
+      seenText.add(text);
+      if (excerpt.sourceType === "note") return !shownNoteIds.has(excerpt.id);
+      return !transcriptExcerpt.includes(text);
+    })
+    .slice(0, MAX_RELEVANT_EXCERPTS)
+    .map((excerpt) => {
+      const text = sanitizeText(excerpt.text);
+      return excerpt.sourceType === "note"
+        ? `- [${excerpt.label === "todo" ? "TODO" : excerpt.label.toUpperCase()}] ${text}${noteCitation(excerpt.label, excerpt.id, cite)}`
+        : `- (${excerpt.label}, earlier) ${text}${cite ? ` [msg:${excerpt.id}]` : ""}`;
+    });
+};
+
+const collectReferencedMessages = (messages: Array<Doc<"messages">>, cite = false) => {
   if (messages.length === 0) return [] as string[];
   const ordered = [...messages].sort((a, b) => b.timestamp - a.timestamp);
   const limited = ordered.slice(0, 5);
   return limited.map((message) => {
     const speaker = message.speaker === "assistant" ? "Assistant" : "Client";
-    return `- (${speaker}) ${sanitizeText(message.transcript)}`;
+    return `- (${speaker}) ${sanitizeText(message.transcript)}${cite ? ` [msg:${message._id}]` : ""}`;
   });
 };
 
@@ -234,7 +286,7 @@ const estimatePromptTokens = (system: string, user: string) => {
 };
 
 export function buildDraftingPrompt(input: DraftingPromptInput): DraftingPromptResult {
-  const { project, blueprint, document, sections, notes, todos, transcriptItems, job, referencedMessages } = input;
+  const { project, blueprint, document, sections, notes, todos, transcriptItems, job, referencedMessages, template, sectionComments, relevantExcerpts, voiceProfile, annotateClaims = false } = input;
 
   const projectSummaryLines = [
     `Project: ${project.title} (${project.contentType})`,
@@ -286,6 +338,20 @@ export function buildDraftingPrompt(input: DraftingPromptInput): DraftingPromptR
     const single = coerce(feedback);
     return single ? [single] : [];
   })();
+  const lockedHeadings = sections
+    .filter((section) => section.locked)
+    .map((section) => section.heading);
+
+  // Comments only matter for sections this job may rewrite.
+  const lockedHeadingKeys = new Set(lockedHeadings.map((heading) => heading.trim().toLowerCase()));
+  const commentFeedback = (sectionComments ?? [])
+    .filter((thread) => {
+      const key = thread.heading.trim().toLowerCase();
+      if (lockedHeadingKeys.has(key)) return false;
+      return !activeSectionHeading || key === activeSectionHeading.toLowerCase();
+    })
+    .map(formatSectionFeedback);
+
   const documentSummaryLines = [
     document?.summary ? `Previous summary: ${sanitizeText(document.summary)}` : "Previous summary: —",
     document?.latestDraftMarkdown
@@ -328,7 +394,13 @@ export function buildDraftingPrompt(input: DraftingPromptInput): DraftingPromptR
     job.transcriptAnchors ?? null,
   );
 
-  const referencedMessageSummaries = collectReferencedMessages(referencedMessages);
+  const referencedMessageSummaries = collectReferencedMessages(referencedMessages, annotateClaims);
+  const relevantMaterial = selectRelevantExcerpts(
+    relevantExcerpts ?? [],
+    notes,
+    transcriptExcerpt,
+    annotateClaims,
+  );
 
   const existingDraftExcerpt = (() => {
     if (!trimmedMarkdown) return null;
@@ -347,6 +419,13 @@ export function buildDraftingPrompt(input: DraftingPromptInput): DraftingPromptR
     projectSummaryLines.join("\n"),
     "\n## Blueprint",
     summarizeBlueprint(blueprint),
+    ...(voiceProfile
+      ? [
+          "\n## Client voice profile (from their own speech; blueprint guardrails win on conflict)",
+          formatVoiceProfileForPrompt(voiceProfile),
+        ]
+      : []),
+    ...(template ? ["\n## Content template", formatTemplateForPrompt(template)] : []),
     "\n## Document",
     documentSummaryLines.join("\n"),
     "\n## Sections",
@@ -354,11 +433,20 @@ export function buildDraftingPrompt(input: DraftingPromptInput): DraftingPromptR
     "\n## TODOs",
     summarizeTodos(todos),
     "\n## Notes",
-    summarizeNotes(notes),
+    summarizeNotes(notes, annotateClaims),
     "\n## Transcript excerpts",
     transcriptExcerpt,
   ];
 
+  if (relevantMaterial.length > 0) {
+    userSections.push(
+      activeSectionHeading
+        ? `\n## Earlier material relevant to "${activeSectionHeading}"`
+        : "\n## Earlier relevant material",
+    );
+    userSections.push(relevantMaterial.join("\n"));
+  }
+
   if (referencedMessageSummaries.length > 0) {
     userSections.push("\n## Referenced messages");
     userSections.push(
@@ -366,9 +454,11 @@ export function buildDraftingPrompt(input: DraftingPromptInput): DraftingPromptR
     );
   }
 
-  if (feedbackItems.length > 0) {
+  if (feedbackItems.length > 0 || commentFeedback.length > 0) {
     userSections.push("\n## Revision feedback to apply");
-    userSections.push(feedbackItems.map((item) => `- ${item}`).join("\n"));
+    userSections.push(
+      [...feedbackItems, ...commentFeedback].map((item) => `- ${item}`).join("\n"),
+    );
   }
 
   if (existingDraftExcerpt) {
@@ -409,9 +499,17 @@ export function buildDraftingPrompt(input: DraftingPromptInput): DraftingPromptR
       ? `- Return ONLY the "${activeSectionHeading}" section. Your markdown field should contain only this single section with its heading and content.`
       : "- Build the document incrementally: reuse existing sentences that still apply and revise only passages directly affected by new insights.",
     "- Section headings are IMMUTABLE. Use the exact heading from the existing draft. Never rename, add, or remove sections—that's handled by a separate tool.",
+    lockedHeadings.length > 0
+      ? `- LOCKED sections are read-only: ${lockedHeadings
+          .map((heading) => `"${heading}"`)
+          .join(", ")}. Reproduce their existing text verbatim and never rewrite, rename, or remove them; any change to them is discarded.`
+      : null,
     activeSectionHeading
       ? `- Your sections array must contain exactly ONE entry with heading "${activeSectionHeading}".`
       : "- Maintain the existing outline and section order unless instructed otherwise.",
+    commentFeedback.length > 0
+      ? "- Revision feedback prefixed with a [section heading] is an open reviewer comment on that section. Address it when you revise the section, and never quote or mention the comments in the draft."
+      : null,
     "- Prioritize explicit user requests from the transcript excerpt; treat assistant reflections as secondary context.",
     "- Ensure the Markdown output contains only article prose—no greetings, agendas, recap bullets, or process commentary.",
     "- Never restate the blueprint, TODO list, or instructions inside the draft; treat them purely as background guidance.",
@@ -421,7 +519,12 @@ export function buildDraftingPrompt(input: DraftingPromptInput): DraftingPromptR
     "- Do not ask the user questions; surface open issues via TODO entries or the realtime summary so the assistant can follow up.",
     "- Return structured section metadata describing heading, status, and order.",
     "- Provide a concise summary narrating the update for the realtime assistant.",
-  ].join("\n");
+    annotateClaims
+      ? "- In `claims`, list every factual claim you wrote (figures, dates, names, events, quotes): its section heading, the sentence copied verbatim from your markdown, and the bracketed tags ([note:…], [ref:…] or [msg:…]) of the material above that supports it. Leave `sources` empty when nothing above supports the sentence; never omit the claim."
+      : null,
+  ]
+    .filter((line): line is string => Boolean(line))
+    .join("\n");
 
   const userPrompt = userSections.join("\n");
 
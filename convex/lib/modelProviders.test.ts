@@ -0,0 +1,231 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  completeWithRetry,
+  createModelProvider,
+  parseJsonText,
+  resolveModelProvider,
+  type ModelCompletion,
+  type ModelRequest,
+} from "./modelProviders";
+
+const draftRequest: ModelRequest = {
+  task: "drafting",
+  system: "You are a ghostwriter.",
+  user: "Draft the introduction.",
+  json: { name: "ghostwriting_draft", schema: { type: "object" } },
+};
+
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Records each request and answers with a canned JSON body.
+const fakeFetch = (body: unknown = {}) => {
+  const calls: Array<{ url: string; init: RequestInit }> = [];
+  const fetchImpl = (async (url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    return jsonResponse(body);
+  }) as unknown as typeof fetch;
+  return { calls, fetchImpl };
+};
+
+describe("resolveModelProvider", () => {
+  it("prefers the project setting, then the env, then OpenAI", () => {
+    const env = { DRAFTING_MODEL_PROVIDER: "anthropic" };
+
+    expect(resolveModelProvider("fixture", { env }).id).toBe("fixture");
+    expect(resolveModelProvider(undefined, { env }).id).toBe("anthropic");
+    expect(resolveModelProvider(undefined, { env: {} }).id).toBe("openai");
+  });
+});
+
+describe("fixture provider", () => {
+  it("returns the same draft for the same prompt without touching the network", async () => {
+    const { calls, fetchImpl } = fakeFetch();
+    const provider = createModelProvider("fixture", { fetch: fetchImpl });
+
+    const first = await provider.complete(draftRequest);
+    const second = await provider.complete(draftRequest);
+    const other = await provider.complete({ ...draftRequest, user: "Draft the ending." });
+
+    expect(calls).toHaveLength(0);
+    expect(first).toEqual(second);
+    expect(first.json).not.toEqual(other.json);
+    expect(first.json).toMatchObject({
+      markdown: expect.stringContaining("## Fixture Draft"),
+      sections: [expect.objectContaining({ heading: "Fixture Draft", status: "drafting" })],
+    });
+  });
+
+  it("rewrites the active section when the prompt names one", async () => {
+    const provider = createModelProvider("fixture");
+    const completion = await provider.complete({
+      ...draftRequest,
+      user: "Active section focus: Introduction (do not edit other sections).",
+    });
+
+    expect(completion.json?.markdown).toMatch(/^## Introduction\n/);
+  });
+});
+
+describe("anthropic provider", () => {
+  it("sends a Messages request and parses fenced JSON from the reply", async () => {
+    const { calls, fetchImpl } = fakeFetch({
+      content: [{ type: "text", text: '```json\n{"markdown":"# Intro","sections":[]}\n```' }],
+      usage: { input_tokens: 120, output_tokens: 30 },
+    });
+    const provider = createModelProvider("anthropic", {
+      env: { ANTHROPIC_API_KEY: "test-key" },
+      fetch: fetchImpl,
+    });
+
+    const completion = await provider.complete(draftRequest);
+
+    const { url, init } = calls[0]!;
+    const body = JSON.parse(init.body as string);
+    expect(url).toBe("https://api.anthropic.com/v1/messages");
+    expect(init.headers).toMatchObject({ "x-api-key": "test-key" });
+    expect(body.system).toContain("JSON schema");
+    expect(body.messages).toEqual([{ role: "user", content: "Draft the introduction." }]);
+    expect(completion.json).toEqual({ markdown: "# Intro", sections: [] });
+    expect(completion.usage).toEqual({ inputTokens: 120, outputTokens: 30, totalTokens: 150 });
+  });
+
+  it("fails fast without an API key", async () => {
+    const provider = createModelProvider("anthropic", { env: {} });
+    await expect(provider.complete(draftRequest)).rejects.toThrow("ANTHROPIC_API_KEY");
+  });
+});
+
+describe("openai-compatible provider", () => {
+  it("posts chat completions to the configured base URL", async () => {
+    const { calls, fetchImpl } = fakeFetch({
+      choices: [{ message: { content: '{"markdown":"# Local","sections":[]}' } }],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    });
+    const provider = createModelProvider("openai_compatible", {
+      env: { OPENAI_COMPATIBLE_BASE_URL: "http://127.0.0.1:8080/v1/", OPENAI_COMPATIBLE_MODEL: "qwen" },
+      fetch: fetchImpl,
+    });
+
+    const completion = await provider.complete(draftRequest);
+
+    const { url, init } = calls[0]!;
+    expect(url).toBe("http://127.0.0.1:8080/v1/chat/completions");
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      model: "qwen",
+      response_format: { type: "json_object" },
+    });
+    expect(completion.json).toEqual({ markdown: "# Local", sections: [] });
+    expect(completion.usage.totalTokens).toBe(15);
+  });
+});
+
+describe("streaming", () => {
+  const sseResponse = (events: string[]) =>
+    new Response(
+      new ReadableStream({
+        start(controller) {
+          const encoder = new TextEncoder();
+          // Split mid-event to exercise buffering across chunks.
+          const payload = events.map((event) => `data: ${event}\n\n`).join("");
+          controller.enqueue(encoder.encode(payload.slice(0, 40)));
+          controller.enqueue(encoder.encode(payload.slice(40)));
+          controller.close();
+        },
+      }),
+      { status: 200 },
+    );
+
+  it("hands OpenAI Responses deltas to the callback and keeps the final usage", async () => {
+    const provider = createModelProvider("openai", {
+      env: { OPENAI_API_KEY: "test-key" },
+      fetch: (async () =>
+        sseResponse([
+          JSON.stringify({ type: "response.output_text.delta", delta: '{"markdown":"## Intro' }),
+          JSON.stringify({ type: "response.output_text.delta", delta: '\\n\\nHello"}' }),
+          JSON.stringify({
+            type: "response.completed",
+            response: { usage: { input_tokens: 9, output_tokens: 4, total_tokens: 13 } },
+          }),
+        ])) as unknown as typeof fetch,
+    });
+
+    const deltas: string[] = [];
+    const completion = await provider.stream(draftRequest, (delta) => {
+      deltas.push(delta);
+    });
+
+    expect(deltas).toEqual(['{"markdown":"## Intro', '\\n\\nHello"}']);
+    expect(completion.json).toEqual({ markdown: "## Intro\n\nHello" });
+    expect(completion.usage.totalTokens).toBe(13);
+  });
+
+  it("streams the fixture draft word by word", async () => {
+    const provider = createModelProvider("fixture");
+    const deltas: string[] = [];
+    const completion = await provider.stream(draftRequest, (delta) => {
+      deltas.push(delta);
+    });
+
+    expect(deltas.length).toBeGreaterThan(5);
+    expect(deltas.join("")).toBe(completion.text);
+  });
+});
+
+describe("completeWithRetry", () => {
+  it("retries when the response cannot be parsed", async () => {
+    const responses: ModelCompletion[] = [
+      { model: "m", text: "not json", json: null, usage: {} },
+      { model: "m", text: '{"ok":true}', json: { ok: true }, usage: {} },
+    ];
+    let attempts = 0;
+    const complete = async () => responses[attempts++]!;
+    const delays: number[] = [];
+    const sleep = async (ms: number) => {
+      delays.push(ms);
+    };
+
+    const { result } = await completeWithRetry(
+      { id: "fixture", defaultModel: () => "m", complete, stream: complete },
+      draftRequest,
+      (completion) => {
+        if (!completion.json) throw new Error("missing json");
+        return completion.json;
+      },
+      { sleep },
+    );
+
+    expect(result).toEqual({ ok: true });
+    expect(attempts).toBe(2);
+    expect(delays).toEqual([500]);
+  });
+
+  it("gives up at once on errors retrying cannot fix", async () => {
+    let attempts = 0;
+    const complete = async (): Promise<ModelCompletion> => {
+      attempts += 1;
+      throw new Error("OpenAI request failed (401): invalid_api_key");
+    };
+
+    await expect(
+      completeWithRetry(
+        { id: "fixture", defaultModel: () => "m", complete, stream: complete },
+        draftRequest,
+        (completion) => completion.json,
+        { sleep: async () => {} },
+      ),
+    ).rejects.toThrow("401");
+    expect(attempts).toBe(1);
+  });
+});
+
+describe("parseJsonText", () => {
+  it("ignores prose around the object", () => {
+    expect(parseJsonText('Here you go: {"a":1} Hope that helps.')).toEqual({ a: 1 });
+    expect(parseJsonText("no json here")).toBeNull();
+  });
+});
@@ -0,0 +1,569 @@
+// Text-model backends for drafting and summaries. Each provider turns a
+// system/user prompt pair into text (and parsed JSON when a schema is given)
+// so callers never deal with vendor request shapes.
+
+import { v } from "convex/values";
+
+import {
+  extractResponseJson,
+  extractResponseText,
+  normalizeResponseUsage,
+  OPENAI_RESPONSES_ENDPOINT,
+  supportsReasoningControls,
+} from "./responses";
+import { classifyDraftError } from "./draftRetry";
+import { readServerSentEvents } from "./streaming";
+
+export const MODEL_PROVIDER_IDS = ["openai", "anthropic", "openai_compatible", "fixture"] as const;
+
+export type ModelProviderId = (typeof MODEL_PROVIDER_IDS)[number];
+
+export const MODEL_PROVIDER_VALIDATOR = v.union(
+  v.literal("openai"),
+  v.literal("anthropic"),
+  v.literal("openai_compatible"),
+  v.literal("fixture"),
+);
+
+export const MODEL_PROVIDER_LABELS: Record<ModelProviderId, string> = {
+  openai: "OpenAI (Responses API)",
+  anthropic: "Anthropic (Messages API)",
+  openai_compatible: "OpenAI-compatible server (Ollama, llama.cpp)",
+  fixture: "Offline fixture",
+};
+
+export type ModelTask = "drafting" | "summary";
+
+export type ModelRequest = {
+  task: ModelTask;
+  system: string;
+  user: string;
+  model?: string;
+  temperature?: number;
+  // Ask for a JSON object matching this schema; the parsed object comes back
+  // as `json`.
+  json?: { name: string; schema: Record<string, unknown> };
+};
+
+export type ModelUsage = {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+};
+
+export type ModelCompletion = {
+  model: string;
+  text: string | null;
+  json: Record<string, unknown> | null;
+  usage: ModelUsage;
+};
+
+export type ModelProvider = {
+  id: ModelProviderId;
+  defaultModel: (task: ModelTask) => string;
+  complete: (request: ModelRequest) => Promise<ModelCompletion>;
+  // Same result as `complete`, with each text delta handed to `onText` as it arrives.
+  stream: (
+    request: ModelRequest,
+    onText: (delta: string) => Promise<void> | void,
+  ) => Promise<ModelCompletion>;
+};
+
+type ProviderEnv = Record<string, string | undefined>;
+
+type ProviderOptions = {
+  env?: ProviderEnv;
+  fetch?: typeof fetch;
+};
+
+type ResolvedOptions = { env: ProviderEnv; fetchImpl: typeof fetch };
+
+const ANTHROPIC_MESSAGES_ENDPOINT = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_COMPATIBLE_BASE_URL = "http://localhost:11434/v1";
+const DEFAULT_MAX_OUTPUT_TOKENS = 8192;
+
+export const isModelProviderId = (value: unknown): value is ModelProviderId =>
+  typeof value === "string" && (MODEL_PROVIDER_IDS as readonly string[]).includes(value);
+
+const pick = (...values: Array<string | undefined>) =>
+  values.find((value) => typeof value === "string" && value.trim())?.trim();
+
+const requireKey = (value: string | undefined, name: string) => {
+  if (!value?.trim()) {
+    throw new Error(`${name} not configured for the model provider`);
+  }
+  return value.trim();
+};
+
+const schemaInstruction = (json: NonNullable<ModelRequest["json"]>) =>
+  `Respond with a single JSON object and nothing else. It must match this JSON schema:\n${JSON.stringify(json.schema)}`;
+
+/** Parse a JSON object out of model text, tolerating Markdown code fences. */
+export function parseJsonText(text: string | null): Record<string, unknown> | null {
+  if (!text) return null;
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1]! : text).trim();
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+  if (start < 0 || end <= start) return null;
+  try {
+    const parsed = JSON.parse(candidate.slice(start, end + 1));
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+async function send(
+  fetchImpl: typeof fetch,
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>,
+  label: string,
+) {
+  const response = await fetchImpl(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${label} request failed (${response.status}): ${errorText}`);
+  }
+  return response;
+}
+
+const parseEventData = (data: string): Record<string, unknown> | null => {
+  try {
+    const parsed = JSON.parse(data);
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+};
+
+const numberOrUndefined = (value: unknown) => (typeof value === "number" ? value : undefined);
+
+const sumUsage = (inputTokens?: number, outputTokens?: number): ModelUsage => ({
+  inputTokens,
+  outputTokens,
+  totalTokens:
+    inputTokens !== undefined || outputTokens !== undefined
+      ? (inputTokens ?? 0) + (outputTokens ?? 0)
+      : undefined,
+});
+
+function createOpenAIProvider({ env, fetchImpl }: ResolvedOptions): ModelProvider {
+  const defaultModel = (task: ModelTask) =>
+    (task === "summary" ? pick(env.OPENAI_SUMMARY_MODEL) : pick(env.OPENAI_DRAFTING_MODEL)) ??
+    "gpt-5-nano";
+
+  const post = (request: ModelRequest, stream: boolean) => {
+    const apiKey = requireKey(env.OPENAI_API_KEY, "OPENAI_API_KEY");
+    const model = pick(request.model) ?? defaultModel(request.task);
+    const body: Record<string, unknown> = {
+      model,
+      input: [
+        { role: "system", content: [{ type: "input_text", text: request.system }] },
+        { role: "user", content: [{ type: "input_text", text: request.user }] },
+      ],
+      stream,
+    };
+    if (request.json) {
+      body.text = {
+        format: {
+          type: "json_schema",
+          name: request.json.name,
+          strict: true,
+          schema: request.json.schema,
+        },
+      };
+    }
+    if (supportsReasoningControls(model)) {
+      body.reasoning = { effort: "minimal" };
+    }
+    if (typeof request.temperature === "number" && request.temperature !== 1) {
+      body.temperature = request.temperature;
+    }
+    const response = send(
+      fetchImpl,
+      pick(env.OPENAI_RESPONSES_ENDPOINT) ?? OPENAI_RESPONSES_ENDPOINT,
+      { Authorization: `Bearer ${apiKey}` },
+      body,
+      "OpenAI",
+    );
+    return { model, response };
+  };
+
+  return {
+    id: "openai",
+    defaultModel,
+    complete: async (request) => {
+      const { model, response } = post(request, false);
+      const data = (await (await response).json()) as Record<string, unknown>;
+      return {
+        model,
+        text: extractResponseText(data),
+        json: request.json ? extractResponseJson(data) : null,
+        usage: normalizeResponseUsage(data.usage),
+      };
+    },
+    stream: async (request, onText) => {
+      const { model, response } = post(request, true);
+      let text = "";
+      let final: Record<string, unknown> | null = null;
+      await readServerSentEvents(await response, async ({ data }) => {
+        const event = parseEventData(data);
+        if (event?.type === "response.output_text.delta" && typeof event.delta === "string") {
+          text += event.delta;
+          await onText(event.delta);
+        } else if (event?.type === "response.completed") {
+          final = (event.response as Record<string, unknown> | undefined) ?? null;
+        } else if (event?.type === "response.failed" || event?.type === "error") {
+          throw new Error(`OpenAI stream failed: ${data}`);
+        }
+      });
+      const completed = final as Record<string, unknown> | null;
+      return {
+        model,
+        text: text.trim() || null,
+        json: request.json
+          ? (completed && extractResponseJson(completed)) ?? parseJsonText(text)
+          : null,
+        usage: normalizeResponseUsage(completed?.usage),
+      };
+    },
+  };
+}
+
+function createAnthropicProvider({ env, fetchImpl }: ResolvedOptions): ModelProvider {
+  const defaultModel = (task: ModelTask) =>
+    (task === "summary"
+      ? pick(env.ANTHROPIC_SUMMARY_MODEL)
+      : pick(env.ANTHROPIC_DRAFTING_MODEL)) ?? "claude-sonnet-4-5";
+
+  const post = (request: ModelRequest, stream: boolean) => {
+    const apiKey = requireKey(env.ANTHROPIC_API_KEY, "ANTHROPIC_API_KEY");
+    const model = pick(request.model) ?? defaultModel(request.task);
+    const body: Record<string, unknown> = {
+      model,
+      max_tokens: DEFAULT_MAX_OUTPUT_TOKENS,
+      system: request.json
+        ? `${request.system}\n\n${schemaInstruction(request.json)}`
+        : request.system,
+      messages: [{ role: "user", content: request.user }],
+      stream,
+    };
+    if (typeof request.temperature === "number") {
+      body.temperature = request.temperature;
+    }
+    const response = send(
+      fetchImpl,
+      pick(env.ANTHROPIC_MESSAGES_ENDPOINT) ?? ANTHROPIC_MESSAGES_ENDPOINT,
+      { "x-api-key": apiKey, "anthropic-version": ANTHROPIC_VERSION },
+      body,
+      "Anthropic",
+    );
+    return { model, response };
+  };
+
+  return {
+    id: "anthropic",
+    defaultModel,
+    complete: async (request) => {
+      const { model, response } = post(request, false);
+      const data = (await (await response).json()) as Record<string, unknown>;
+      const blocks = Array.isArray(data.content) ? data.content : [];
+      const text =
+        blocks
+          .map((block) =>
+            block && typeof block === "object" && (block as Record<string, unknown>).type === "text"
+              ? String((block as Record<string, unknown>).text ?? "")
+              : "",
+          )
+          .join("")
+          .trim() || null;
+      const usage = (data.usage ?? {}) as Record<string, unknown>;
+      return {
+        model,
+        text,
+        json: request.json ? parseJsonText(text) : null,
+        usage: sumUsage(numberOrUndefined(usage.input_tokens), numberOrUndefined(usage.output_tokens)),
+      };
+    },
+    stream: async (request, onText) => {
+      const { model, response } = post(request, true);
+      let text = "";
+      let inputTokens: number | undefined;
+      let outputTokens: number | undefined;
+      await readServerSentEvents(await response, async ({ data }) => {
+        const event = parseEventData(data);
+        if (event?.type === "message_start") {
+          const message = event.message as { usage?: Record<string, unknown> } | undefined;
+          inputTokens = numberOrUndefined(message?.usage?.input_tokens);
+        } else if (event?.type === "content_block_delta") {
+          const delta = event.delta as { type?: string; text?: unknown } | undefined;
+          if (delta?.type === "text_delta" && typeof delta.text === "string") {
+            text += delta.text;
+            await onText(delta.text);
+          }
+        } else if (event?.type === "message_delta") {
+          const usage = event.usage as Record<string, unknown> | undefined;
+          outputTokens = numberOrUndefined(usage?.output_tokens) ?? outputTokens;
+        } else if (event?.type === "error") {
+          throw new Error(`Anthropic stream failed: ${data}`);
+        }
+      });
+      return {
+        model,
+        text: text.trim() || null,
+        json: request.json ? parseJsonText(text) : null,
+        usage: sumUsage(inputTokens, outputTokens),
+      };
+    },
+  };
+}
+
+function createOpenAICompatibleProvider({ env, fetchImpl }: ResolvedOptions): ModelProvider {
+  const defaultModel = (task: ModelTask) =>
+    (task === "summary"
+      ? pick(env.OPENAI_COMPATIBLE_SUMMARY_MODEL, env.OPENAI_COMPATIBLE_MODEL)
+      : pick(env.OPENAI_COMPATIBLE_MODEL)) ?? "llama3.1";
+
+  const post = (request: ModelRequest, stream: boolean) => {
+    const model = pick(request.model) ?? defaultModel(request.task);
+    const baseUrl = (pick(env.OPENAI_COMPATIBLE_BASE_URL) ?? DEFAULT_COMPATIBLE_BASE_URL).replace(
+      /\/+$/,
+      "",
+    );
+    const apiKey = pick(env.OPENAI_COMPATIBLE_API_KEY);
+    // Local servers disagree on json_schema support; json_object plus the
+    // schema in the system prompt works across Ollama and llama.cpp.
+    const body: Record<string, unknown> = {
+      model,
+      messages: [
+        {
+          role: "system",
+          content: request.json
+            ? `${request.system}\n\n${schemaInstruction(request.json)}`
+            : request.system,
+        },
+        { role: "user", content: request.user },
+      ],
+      stream,
+    };
+    if (stream) {
+      body.stream_options = { include_usage: true };
+    }
+    if (request.json) {
+      body.response_format = { type: "json_object" };
+    }
+    if (typeof request.temperature === "number") {
+      body.temperature = request.temperature;
+    }
+    const response = send(
+      fetchImpl,
+      `${baseUrl}/chat/completions`,
+      apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      body,
+      "OpenAI-compatible",
+    );
+    return { model, response };
+  };
+
+  const readUsage = (value: unknown): ModelUsage => {
+    const usage = (value ?? {}) as Record<string, unknown>;
+    return {
+      inputTokens: numberOrUndefined(usage.prompt_tokens),
+      outputTokens: numberOrUndefined(usage.completion_tokens),
+      totalTokens: numberOrUndefined(usage.total_tokens),
+    };
+  };
+
+  return {
+    id: "openai_compatible",
+    defaultModel,
+    complete: async (request) => {
+      const { model, response } = post(request, false);
+      const data = (await (await response).json()) as Record<string, unknown>;
+      const choices = Array.isArray(data.choices) ? data.choices : [];
+      const message = (choices[0] as { message?: { content?: unknown } } | undefined)?.message;
+      const text = typeof message?.content === "string" ? message.content.trim() || null : null;
+      return {
+        model,
+        text,
+        json: request.json ? parseJsonText(text) : null,
+        usage: readUsage(data.usage),
+      };
+    },
+    stream: async (request, onText) => {
+      const { model, response } = post(request, true);
+      let text = "";
+      let usage: ModelUsage = {};
+      await readServerSentEvents(await response, async ({ data }) => {
+        if (data.trim() === "[DONE]") return;
+        const chunk = parseEventData(data);
+        const choices = Array.isArray(chunk?.choices) ? chunk.choices : [];
+        const delta = (choices[0] as { delta?: { content?: unknown } } | undefined)?.delta;
+        if (typeof delta?.content === "string" && delta.content) {
+          text += delta.content;
+          await onText(delta.content);
+        }
+        if (chunk?.usage) {
+          usage = readUsage(chunk.usage);
+        }
+      });
+      return {
+        model,
+        text: text.trim() || null,
+        json: request.json ? parseJsonText(text) : null,
+        usage,
+      };
+    },
+  };
+}
+
+// FNV-1a, so fixture output is stable without pulling in node:crypto.
+const fingerprint = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+const countWords = (value: string) => value.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Deterministic offline provider: the same prompt always yields the same
+ * output, and no network is touched. Drafting returns a single section (the
+ * active section when the prompt names one) whose body carries the prompt
+ * fingerprint, which is enough to drive the queue end to end offline.
+ */
+function createFixtureProvider(): ModelProvider {
+  const complete = async (request: ModelRequest): Promise<ModelCompletion> => {
+    const id = fingerprint(`${request.system}\n${request.user}`);
+    const usage = {
+      inputTokens: countWords(request.system) + countWords(request.user),
+      outputTokens: 0,
+      totalTokens: 0,
+    };
+
+    let text: string;
+    let json: Record<string, unknown> | null = null;
+    if (request.task === "drafting") {
+      const heading =
+        request.user.match(/Active section focus: (.+?) \(do not edit/)?.[1] ?? "Fixture Draft";
+      const content = `Fixture draft ${id}. This section was written by the offline fixture provider.`;
+      json = {
+        markdown: `## ${heading}\n\n${content}`,
+        summary: `Fixture summary ${id}.`,
+        sections: [{ heading, content, status: "drafting", order: 0 }],
+      };
+      text = JSON.stringify(json);
+    } else {
+      text = `Fixture summary ${id}.`;
+    }
+
+    usage.outputTokens = countWords(text);
+    usage.totalTokens = usage.inputTokens + usage.outputTokens;
+    return { model: "fixture", text, json: request.json ? json : null, usage };
+  };
+
+  return {
+    id: "fixture",
+    defaultModel: () => "fixture",
+    complete,
+    stream: async (request, onText) => {
+      const completion = await complete(request);
+      for (const chunk of completion.text?.match(/\S+\s*/g) ?? []) {
+        await onText(chunk);
+      }
+      return completion;
+    },
+  };
+}
+
+export function createModelProvider(id: ModelProviderId, options: ProviderOptions = {}) {
+  const resolved: ResolvedOptions = {
+    env: options.env ?? process.env,
+    fetchImpl: options.fetch ?? ((input, init) => fetch(input, init)),
+  };
+  switch (id) {
+    case "openai":
+      return createOpenAIProvider(resolved);
+    case "anthropic":
+      return createAnthropicProvider(resolved);
+    case "openai_compatible":
+      return createOpenAICompatibleProvider(resolved);
+    case "fixture":
+      return createFixtureProvider();
+  }
+}
+
+/**
+ * The provider for a project: its own setting if it has one, otherwise
+ * `DRAFTING_MODEL_PROVIDER`, otherwise OpenAI.
+ */
+export function resolveModelProvider(
+  projectProvider: string | null | undefined,
+  options: ProviderOptions = {},
+): ModelProvider {
+  const env = options.env ?? process.env;
+  const configured = pick(env.DRAFTING_MODEL_PROVIDER);
+  if (configured && !isModelProviderId(configured)) {
+    console.warn(`[model-provider] Unknown DRAFTING_MODEL_PROVIDER "${configured}", using openai`);
+  }
+  const id = isModelProviderId(projectProvider)
+    ? projectProvider
+    : isModelProviderId(configured)
+      ? configured
+      : "openai";
+  return createModelProvider(id, options);
+}
+
+type RetryOptions = {
+  // Stream the response, handing each text delta to this callback along with
+  // the attempt it belongs to, so callers can discard text from a failed try.
+  onText?: (delta: string, attempt: number) => Promise<void> | void;
+  maxAttempts?: number;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+/**
+ * Retry with the backoff the drafting queue has always used. `parse` runs on
+ * every attempt, so a malformed response is retried like a network error.
+ * Errors `classifyDraftError` calls permanent are thrown at once; the job's
+ * own retry policy decides what happens next.
+ */
+export async function completeWithRetry<T>(
+  provider: ModelProvider,
+  request: ModelRequest,
+  parse: (completion: ModelCompletion) => T,
+  {
+    onText,
+    maxAttempts = 3,
+    sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  }: RetryOptions = {},
+): Promise<{ completion: ModelCompletion; result: T }> {
+  let attempt = 0;
+  while (true) {
+    try {
+      const completion = onText
+        ? await provider.stream(request, (delta) => onText(delta, attempt))
+        : await provider.complete(request);
+      return { completion, result: parse(completion) };
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      attempt += 1;
+      if (attempt >= maxAttempts || classifyDraftError(failure.message) === "permanent") {
+        throw failure;
+      }
+      await sleep(500 * 2 ** (attempt - 1));
+    }
+  }
+}
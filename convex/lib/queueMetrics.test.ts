@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+
+import type { Doc, Id } from "../_generated/dataModel";
+import { percentile, summarizeDraftQueue } from "./queueMetrics";
+
+const HOUR = 60 * 60_000;
+const NOW = 100 * HOUR;
+
+const job = (
+  id: string,
+  projectId: string,
+  overrides: Partial<Doc<"draftJobs">>,
+): Doc<"draftJobs"> => ({
+  _id: id as Id<"draftJobs">,
+  _creationTime: NOW - HOUR,
+  projectId: projectId as Id<"projects">,
+  sessionId: "session_1" as Id<"sessions">,
+  status: "complete",
+  createdAt: NOW - HOUR,
+  updatedAt: NOW - HOUR,
+  ...overrides,
+});
+
+describe("percentile", () => {
+  it("uses the nearest rank", () => {
+    const values = [5, 1, 4, 2, 3, 6, 7, 8, 9, 10];
+    expect(percentile(values, 50)).toBe(5);
+    expect(percentile(values, 95)).toBe(10);
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe("summarizeDraftQueue", () => {
+  it("buckets finished jobs and counts pending work per project", () => {
+    const finished = [
+      job("a", "p1", {
+        completedAt: NOW - 30 * 60_000,
+        durationMs: 4_000,
+        modelUsage: { inputTokens: 100, outputTokens: 50 },
+      }),
+      job("b", "p1", { completedAt: NOW - 90 * 60_000, durationMs: 8_000 }),
+      job("c", "p2", { status: "dead_letter", completedAt: NOW - 10 * 60_000 }),
+      // Finished before the window.
+      job("d", "p2", { completedAt: NOW - 5 * HOUR, durationMs: 60_000 }),
+    ];
+    const pending = [
+      job("q1", "p1", { status: "queued" }),
+      job("q2", "p2", { status: "queued", error: "fetch failed", nextAttemptAt: NOW + 1_000 }),
+      job("r1", "p2", { status: "running" }),
+    ];
+
+    const summary = summarizeDraftQueue(finished, pending, {
+      now: NOW,
+      windowMs: 2 * HOUR,
+      bucketMs: HOUR,
+    });
+
+    expect(summary.completed).toBe(2);
+    expect(summary.failed).toBe(1);
+    expect(summary.errorRate).toBeCloseTo(1 / 3);
+    expect(summary.throughputPerHour).toBe(1);
+    expect(summary.durationP50).toBe(4_000);
+    expect(summary.durationP95).toBe(8_000);
+    expect(summary.buckets.map((bucket) => bucket.completed + bucket.failed)).toEqual([1, 2, 0]);
+    expect(summary.buckets[1]).toMatchObject({ inputTokens: 100, outputTokens: 50, totalTokens: 150 });
+    expect(summary.depth).toEqual([
+      { projectId: "p2", queued: 0, retrying: 1, running: 1 },
+      { projectId: "p1", queued: 1, retrying: 0, running: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+import type { Doc, Id } from "../_generated/dataModel";
+
+export type QueueBucket = {
+  start: number;
+  completed: number;
+  failed: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+};
+
+export type ProjectQueueDepth = {
+  projectId: Id<"projects">;
+  queued: number;
+  retrying: number;
+  running: number;
+};
+
+export type QueueDashboard = {
+  windowStart: number;
+  bucketMs: number;
+  completed: number;
+  failed: number;
+  throughputPerHour: number;
+  errorRate: number | null;
+  durationP50: number | null;
+  durationP95: number | null;
+  buckets: QueueBucket[];
+  depth: ProjectQueueDepth[];
+};
+
+const HOUR_MS = 60 * 60_000;
+
+const isFailed = (job: Doc<"draftJobs">) =>
+  job.status === "error" || job.status === "dead_letter";
+
+/** Nearest-rank percentile; null for an empty sample. */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]!;
+}
+
+/**
+ * Roll finished jobs from the window into per-bucket counts and token totals,
+ * and count what is still waiting per project. `finished` should hold
+ * complete/error/dead_letter jobs; `pending` queued and running ones.
+ */
+export function summarizeDraftQueue(
+  finished: Doc<"draftJobs">[],
+  pending: Doc<"draftJobs">[],
+  { now, windowMs, bucketMs }: { now: number; windowMs: number; bucketMs: number },
+): QueueDashboard {
+  const windowStart = Math.floor((now - windowMs) / bucketMs) * bucketMs;
+  const buckets: QueueBucket[] = [];
+  for (let start = windowStart; start <= now; start += bucketMs) {
+    buckets.push({ start, completed: 0, failed: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 });
+  }
+
+  const durations: number[] = [];
+  let completed = 0;
+  let failed = 0;
+  for (const job of finished) {
+    const finishedAt = job.completedAt ?? job.updatedAt;
+    if (finishedAt < windowStart || finishedAt > now) continue;
+    const bucket = buckets[Math.floor((finishedAt - windowStart) / bucketMs)];
+    if (!bucket) continue;
+
+    if (isFailed(job)) {
+      failed += 1;
+      bucket.failed += 1;
+    } else if (job.status === "complete") {
+      completed += 1;
+      bucket.completed += 1;
+      if (typeof job.durationMs === "number") durations.push(job.durationMs);
+    }
+
+    const usage = job.modelUsage;
+    if (usage) {
+      bucket.inputTokens += usage.inputTokens ?? 0;
+      bucket.outputTokens += usage.outputTokens ?? 0;
+      bucket.totalTokens += usage.totalTokens ?? (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0);
+    }
+  }
+
+  const depthByProject = new Map<Id<"projects">, ProjectQueueDepth>();
+  for (const job of pending) {
+    const depth =
+      depthByProject.get(job.projectId) ??
+      { projectId: job.projectId, queued: 0, retrying: 0, running: 0 };
+    if (job.status === "running") {
+      depth.running += 1;
+    } else if (job.status === "queued") {
+      // A queued job that already failed once is waiting out its backoff.
+      if (job.error || (job.nextAttemptAt ?? 0) > now) {
+        depth.retrying += 1;
+      } else {
+        depth.queued += 1;
+      }
+    }
+    depthByProject.set(job.projectId, depth);
+  }
+
+  const total = completed + failed;
+  return {
+    windowStart,
+    bucketMs,
+    completed,
+    failed,
+    throughputPerHour: completed / Math.max(windowMs / HOUR_MS, 1 / 60),
+    errorRate: total > 0 ? failed / total : null,
+    durationP50: percentile(durations, 50),
+    durationP95: percentile(durations, 95),
+    buckets,
+    depth: [...depthByProject.values()].sort(
+      (a, b) =>
+        b.queued + b.retrying + b.running - (a.queued + a.retrying + a.running),
+    ),
+  };
+}
@@ -0,0 +1,122 @@
+// Helpers for calling the OpenAI Responses API from Convex actions.
+
+export const OPENAI_RESPONSES_ENDPOINT =
+  process.env.OPENAI_RESPONSES_ENDPOINT ??
+  "https://api.openai.com/v1/responses";
+
+export const supportsReasoningControls = (model: string | undefined) =>
+  typeof model === "string" && /^gpt-5(\b|[.\-]|$)/.test(model);
+
+export type OpenAIResponseUsage = {
+  input_tokens?: number;
+  output_tokens?: number;
+  total_tokens?: number;
+};
+
+export const normalizeResponseUsage = (usage: unknown) => {
+  if (!usage || typeof usage !== "object") {
+    return { inputTokens: undefined, outputTokens: undefined, totalTokens: undefined };
+  }
+  const record = usage as Record<string, unknown>;
+  return {
+    inputTokens: typeof record.input_tokens === "number" ? record.input_tokens : undefined,
+    outputTokens: typeof record.output_tokens === "number" ? record.output_tokens : undefined,
+    totalTokens: typeof record.total_tokens === "number" ? record.total_tokens : undefined,
+  };
+};
+
+export const extractResponseJson = (data: unknown): Record<string, unknown> | null => {
+  if (!data || typeof data !== "object") return null;
+  const record = data as Record<string, unknown>;
+  const outputs = (() => {
+    const value = record.output ?? record.outputs;
+    return Array.isArray(value) ? value : [];
+  })();
+
+  const tryParse = (value: unknown) => {
+    if (!value) return null;
+    if (typeof value === "object" && value !== null) {
+      const vRecord = value as Record<string, unknown>;
+      if (vRecord.json && typeof vRecord.json === "object") {
+        return vRecord.json as Record<string, unknown>;
+      }
+      if (typeof vRecord.text === "string") {
+        try {
+          return JSON.parse(vRecord.text) as Record<string, unknown>;
+        } catch (error) {
+          return null;
+        }
+      }
+      if (typeof vRecord.json_schema === "object" && vRecord.json_schema !== null) {
+        const schemaRecord = vRecord.json_schema as Record<string, unknown>;
+        if (schemaRecord.output && typeof schemaRecord.output === "object") {
+          return schemaRecord.output as Record<string, unknown>;
+        }
+      }
+    }
+    if (typeof value === "string") {
+      try {
+        return JSON.parse(value) as Record<string, unknown>;
+      } catch (error) {
+        return null;
+      }
+    }
+    return null;
+  };
+
+  for (const item of outputs) {
+    if (!item || typeof item !== "object") continue;
+    const content = (item as Record<string, unknown>).content;
+    if (Array.isArray(content)) {
+      for (const entry of content) {
+        const parsed = tryParse(entry);
+        if (parsed) return parsed;
+      }
+    }
+    const parsed = tryParse(item);
+    if (parsed) return parsed;
+  }
+
+  if (typeof record.output_text === "string") {
+    try {
+      return JSON.parse(record.output_text) as Record<string, unknown>;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  return null;
+};
+
+export const extractResponseText = (data: unknown): string | null => {
+  if (!data || typeof data !== "object") return null;
+  const record = data as Record<string, unknown>;
+  const outputs = (() => {
+    const value = record.output ?? record.outputs;
+    return Array.isArray(value) ? value : [];
+  })();
+
+  for (const item of outputs) {
+    if (!item || typeof item !== "object") continue;
+    const content = (item as Record<string, unknown>).content;
+    if (Array.isArray(content)) {
+      for (const entry of content) {
+        if (entry && typeof entry === "object") {
+          const text = (entry as Record<string, unknown>).text;
+          if (typeof text === "string" && text.trim()) {
+            return text.trim();
+          }
+        }
+        if (typeof entry === "string" && entry.trim()) {
+          return entry.trim();
+        }
+      }
+    }
+  }
+
+  if (typeof record.output_text === "string" && record.output_text.trim()) {
+    return record.output_text.trim();
+  }
+
+  return null;
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+
+import { buildSnippet, scoreText, searchTerms } from "./search";
+
+const highlighted = (snippet: { text: string; highlights: Array<[number, number]> }) =>
+  snippet.highlights.map(([start, end]) => snippet.text.slice(start, end));
+
+describe("searchTerms", () => {
+  it("lowercases, drops one-letter words and deduplicates", () => {
+    expect(searchTerms("The  lake house, a LAKE")).toEqual(["the", "lake", "house"]);
+    expect(searchTerms("  ?! ")).toEqual([]);
+  });
+});
+
+describe("scoreText", () => {
+  it("ranks text matching more distinct terms higher", () => {
+    const both = scoreText("We spent summers at the lake house.", "lake house");
+    const one = scoreText("The lake was frozen, lake after lake.", "lake house");
+    expect(both).toBeGreaterThan(one);
+    expect(scoreText("Nothing relevant here", "lake house")).toBe(0);
+  });
+
+  it("only matches terms at the start of a word", () => {
+    expect(scoreText("A flake of snow", "lake")).toBe(0);
+    expect(scoreText("Lakes everywhere", "lake")).toBeGreaterThan(0);
+  });
+});
+
+describe("buildSnippet", () => {
+  it("centres on the first match and marks every term inside the window", () => {
+    const text = `${"Filler words before the story. ".repeat(10)}Grandma sold the lake house in 1998 and never spoke of the lake again.`;
+    const snippet = buildSnippet(text, "lake", 60);
+    expect(snippet.text.startsWith("…")).toBe(true);
+    expect(highlighted(snippet)).toEqual(["lake", "lake"]);
+  });
+
+  it("falls back to the opening when nothing matches", () => {
+    const snippet = buildSnippet("Short note about the garden.", "piano");
+    expect(snippet).toEqual({ text: "Short note about the garden.", highlights: [] });
+  });
+});
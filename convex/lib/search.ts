@@ -0,0 +1,69 @@
+export type SearchSnippet = {
+  text: string;
+  // [start, end) offsets into `text` that matched a search term.
+  highlights: Array<[number, number]>;
+};
+
+const MAX_TERMS = 8;
+
+/** Lowercased words from the query, deduplicated, in order. */
+export function searchTerms(query: string): string[] {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+  return [...new Set(words.filter((word) => word.length > 1))].slice(0, MAX_TERMS);
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const termPattern = (terms: string[]) =>
+  terms.length > 0
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join("|")})`, "giu")
+    : null;
+
+/**
+ * Relevance within one result list is Convex's; this ranks hits from
+ * different tables against each other. Distinct terms matter most, then
+ * how often they appear, with a bonus when the whole phrase is present.
+ */
+export function scoreText(text: string, query: string): number {
+  const terms = searchTerms(query);
+  const pattern = termPattern(terms);
+  if (!pattern) return 0;
+  const lower = text.toLowerCase();
+  const matched = new Set<string>();
+  let occurrences = 0;
+  for (const match of lower.matchAll(pattern)) {
+    matched.add(match[1]!);
+    occurrences += 1;
+  }
+  const phrase = terms.length > 1 && lower.includes(terms.join(" ")) ? 5 : 0;
+  return matched.size * 10 + Math.min(occurrences, 10) + phrase;
+}
+
+/**
+ * A window of `text` around the first match, with every match inside it
+ * marked. Falls back to the opening of the text when nothing matches.
+ */
+export function buildSnippet(text: string, query: string, radius = 90): SearchSnippet {
+  const clean = text.replace(/\s+/g, " ").trim();
+  const pattern = termPattern(searchTerms(query));
+  const first = pattern ? pattern.exec(clean) : null;
+
+  let start = first ? Math.max(0, first.index - radius) : 0;
+  let end = Math.min(clean.length, (first?.index ?? 0) + radius * (first ? 1 : 2));
+  // Widen to word boundaries so the snippet does not start mid-word.
+  while (start > 0 && /\S/.test(clean[start - 1]!)) start -= 1;
+  while (end < clean.length && /\S/.test(clean[end]!)) end += 1;
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < clean.length ? "…" : "";
+  const body = clean.slice(start, end);
+  const highlights: Array<[number, number]> = [];
+  if (pattern) {
+    pattern.lastIndex = 0;
+    for (const match of body.matchAll(pattern)) {
+      const offset = prefix.length + match.index!;
+      highlights.push([offset, offset + match[0].length]);
+    }
+  }
+  return { text: `${prefix}${body}${suffix}`, highlights };
+}
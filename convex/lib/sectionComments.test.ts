@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createCommentAnchor,
+  formatSectionFeedback,
+  resolveCommentAnchor,
+} from "./sectionComments";
+
+const content = "Leaders are juggling time zones; async is the unlock.";
+
+describe("comment anchors", () => {
+  it("anchors a selection by offset and quote", () => {
+    expect(createCommentAnchor(content, " async is the unlock ")).toEqual({
+      start: 33,
+      end: 52,
+      quote: "async is the unlock",
+    });
+    expect(createCommentAnchor(content, "not in the section")).toBeNull();
+  });
+
+  it("follows the quote after the section is rewritten", () => {
+    const anchor = createCommentAnchor(content, "async is the unlock")!;
+
+    expect(resolveCommentAnchor(content, anchor)).toEqual({ start: 33, end: 52 });
+    expect(resolveCommentAnchor(`Honestly, ${content}`, anchor)).toEqual({ start: 43, end: 62 });
+    expect(resolveCommentAnchor("A different paragraph entirely.", anchor)).toBeNull();
+  });
+});
+
+describe("formatSectionFeedback", () => {
+  it("truncates long quotes and skips empty replies", () => {
+    const line = formatSectionFeedback({
+      heading: "Intro",
+      quote: "word ".repeat(60),
+      comment: "Tighten this.",
+      replies: [" ", "Will do"],
+    });
+
+    expect(line.startsWith('[Intro] On "word word')).toBe(true);
+    expect(line).toContain('…": Tighten this. (Replies: Will do)');
+  });
+});
@@ -0,0 +1,63 @@
+export type SectionCommentAnchor = {
+  start: number;
+  end: number;
+  quote: string;
+};
+
+/** An unresolved comment thread, flattened for the drafting prompt. */
+export type SectionFeedbackThread = {
+  heading: string;
+  quote?: string;
+  comment: string;
+  replies: string[];
+};
+
+const MAX_QUOTE_CHARS = 160;
+
+const clean = (value: string) => value.replace(/\s+/g, " ").trim();
+
+/**
+ * Anchor for a selection inside a section. The quote is stored alongside the
+ * offsets so the range can be found again after the section is rewritten.
+ */
+export function createCommentAnchor(
+  content: string,
+  quote: string,
+): SectionCommentAnchor | null {
+  const trimmed = quote.trim();
+  if (!trimmed) return null;
+  const start = content.indexOf(trimmed);
+  if (start < 0) return null;
+  return { start, end: start + trimmed.length, quote: trimmed };
+}
+
+/**
+ * Where the anchored text sits in the current section content: the stored
+ * offsets if they still match, otherwise the first occurrence of the quote,
+ * or null once the quoted text is gone.
+ */
+export function resolveCommentAnchor(
+  content: string,
+  anchor: SectionCommentAnchor,
+): { start: number; end: number } | null {
+  if (content.slice(anchor.start, anchor.end) === anchor.quote) {
+    return { start: anchor.start, end: anchor.end };
+  }
+  const start = content.indexOf(anchor.quote);
+  return start < 0 ? null : { start, end: start + anchor.quote.length };
+}
+
+export function formatSectionFeedback(thread: SectionFeedbackThread) {
+  const quote = thread.quote ? clean(thread.quote) : "";
+  const excerpt =
+    quote.length > MAX_QUOTE_CHARS ? `${quote.slice(0, MAX_QUOTE_CHARS - 1)}…` : quote;
+  const replies = thread.replies.map(clean).filter(Boolean);
+  return [
+    `[${thread.heading}]`,
+    excerpt ? `On "${excerpt}":` : null,
+    clean(thread.comment),
+    replies.length > 0 ? `(Replies: ${replies.join(" / ")})` : null,
+  ]
+    .filter((part): part is string => Boolean(part))
+    .join(" ");
+}
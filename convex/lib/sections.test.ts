@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import { preserveLockedSections, replaceSectionMarkdown, withSectionHeading } from "./sections";
+
+const markdown = [
+  "# Why async needs a new playbook",
+  "",
+  "Leaders are juggling time zones.",
+  "",
+  "# Four habits for distributed teams",
+  "",
+  "Outline of rituals.",
+].join("\n");
+
+describe("replaceSectionMarkdown", () => {
+  it("replaces only the matching section", () => {
+    const result = replaceSectionMarkdown(
+      markdown,
+      "four habits for distributed teams",
+      "# Four habits for distributed teams\n\nWrite it down, default to async.",
+    );
+
+    expect(result.startsWith("# Why async needs a new playbook\n\nLeaders are")).toBe(true);
+    expect(result.endsWith("distributed teams\n\nWrite it down, default to async.")).toBe(true);
+    expect(result.includes("Outline of rituals.")).toBe(false);
+  });
+
+  it("appends the section when the heading is missing", () => {
+    const result = replaceSectionMarkdown(markdown, "Closing", "# Closing\n\nThanks.");
+
+    expect(result.endsWith("Outline of rituals.\n\n# Closing\n\nThanks.")).toBe(true);
+  });
+});
+
+describe("withSectionHeading", () => {
+  it("keeps content that already starts with its heading", () => {
+    expect(withSectionHeading("Intro", "## Intro\n\nHello")).toBe("## Intro\n\nHello");
+  });
+
+  it("prefixes a heading when the body has none", () => {
+    expect(withSectionHeading("Intro", "Hello")).toBe("# Intro\n\nHello");
+  });
+});
+
+describe("preserveLockedSections", () => {
+  it("restores locked sections the proposal rewrote or dropped", () => {
+    const proposal = "# Why async needs a new playbook\n\nRewritten by the drafter.";
+    const result = preserveLockedSections(proposal, [
+      {
+        heading: "Why async needs a new playbook",
+        content: "Leaders are juggling time zones.",
+        order: 0,
+      },
+      { heading: "Four habits for distributed teams", content: "Outline of rituals.", order: 1 },
+    ]);
+
+    expect(result.includes("Rewritten by the drafter.")).toBe(false);
+    expect(result.startsWith("# Why async needs a new playbook\n\nLeaders are")).toBe(true);
+    expect(result.endsWith("# Four habits for distributed teams\n\nOutline of rituals.")).toBe(true);
+  });
+
+  it("puts a dropped locked section back at its stored position", () => {
+    const proposal = [
+      "# Why async needs a new playbook",
+      "",
+      "New opening.",
+      "",
+      "# Closing",
+      "",
+      "Thanks.",
+    ].join("\n");
+    const result = preserveLockedSections(
+      proposal,
+      [{ heading: "Four habits for distributed teams", content: "Outline of rituals.", order: 1 }],
+      [
+        { heading: "Why async needs a new playbook", order: 0 },
+        { heading: "Four habits for distributed teams", order: 1 },
+        { heading: "Closing", order: 2 },
+      ],
+    );
+
+    expect(result).toBe(
+      [
+        "# Why async needs a new playbook",
+        "",
+        "New opening.",
+        "",
+        "# Four habits for distributed teams",
+        "",
+        "Outline of rituals.",
+        "",
+        "# Closing",
+        "",
+        "Thanks.",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,138 @@
+const HEADING_LINE = /^#{1,6}\s+(.+)$/;
+
+const matchesHeading = (line: string | undefined, heading: string) => {
+  const match = line?.trim().match(HEADING_LINE);
+  const text = match?.[1]?.trim();
+  return Boolean(text && text.toLowerCase() === heading.trim().toLowerCase());
+};
+
+/**
+ * Ensure stored section content carries its own heading line so it can be
+ * spliced back into the full document. Drafter output already includes it;
+ * outline-created and whole-document sections usually do not.
+ */
+export function withSectionHeading(heading: string, content: string) {
+  const trimmed = content.trim();
+  const [firstLine] = trimmed.split(/\n/);
+  if (matchesHeading(firstLine, heading)) {
+    return trimmed;
+  }
+  return trimmed ? `# ${heading}\n\n${trimmed}` : `# ${heading}`;
+}
+
+/**
+ * Replace a single section inside the full document Markdown, preserving all
+ * other sections exactly as they were. Appends the section when the heading
+ * is not present yet.
+ */
+export function replaceSectionMarkdown(
+  markdown: string,
+  heading: string,
+  sectionMarkdown: string,
+) {
+  const sectionPattern = /^(#{1,6}\s+.+)$/gm;
+  const parts = markdown.split(sectionPattern).filter(Boolean);
+
+  const updatedParts: string[] = [];
+  let foundTarget = false;
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const headingLine = parts[i];
+    const content = parts[i + 1] ?? "";
+
+    if (!headingLine) continue;
+
+    if (matchesHeading(headingLine, heading)) {
+      updatedParts.push(sectionMarkdown.trim());
+      foundTarget = true;
+    } else {
+      updatedParts.push(`${headingLine}${content}`);
+    }
+  }
+
+  if (!foundTarget) {
+    updatedParts.push(sectionMarkdown.trim());
+  }
+
+  return updatedParts.join("\n\n").trim();
+}
+
+export type LockedSectionSnapshot = {
+  heading: string;
+  content: string;
+  order: number;
+};
+
+type OrderedSection = Pick<LockedSectionSnapshot, "heading" | "order">;
+
+const headingKey = (heading: string) => heading.trim().toLowerCase();
+
+/**
+ * Insert a section ahead of the first section whose stored order comes after
+ * it. Headings without a stored order (new in this proposal) are stepped
+ * over; the section goes at the end when nothing later is found.
+ */
+export function insertSectionByOrder(
+  markdown: string,
+  sectionMarkdown: string,
+  order: number,
+  orderByHeading: Map<string, number>,
+) {
+  const sectionPattern = /^(#{1,6}\s+.+)$/gm;
+  const [preamble = "", ...parts] = markdown.split(sectionPattern);
+
+  const blocks: string[] = preamble.trim() ? [preamble.trim()] : [];
+  let inserted = false;
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const headingLine = parts[i];
+    const content = parts[i + 1] ?? "";
+    if (!headingLine) continue;
+
+    const text = headingLine.trim().match(HEADING_LINE)?.[1] ?? "";
+    const existingOrder = orderByHeading.get(headingKey(text));
+    if (!inserted && existingOrder !== undefined && existingOrder > order) {
+      blocks.push(sectionMarkdown.trim());
+      inserted = true;
+    }
+    blocks.push(`${headingLine}${content}`.trim());
+  }
+
+  if (!inserted) {
+    blocks.push(sectionMarkdown.trim());
+  }
+
+  return blocks.join("\n\n").trim();
+}
+
+/**
+ * Put the stored text of every locked section back into a proposed document,
+ * undoing any rewrite the proposal made to them. A locked section the
+ * proposal dropped is re-inserted where its stored order places it among
+ * `storedSections` (the document's sections before this edit).
+ */
+export function preserveLockedSections(
+  markdown: string,
+  lockedSections: LockedSectionSnapshot[],
+  storedSections: OrderedSection[] = lockedSections,
+) {
+  const orderByHeading = new Map(
+    storedSections.map((section) => [headingKey(section.heading), section.order]),
+  );
+  const present = new Set(
+    markdown
+      .split(/\n/)
+      .map((line) => line.trim().match(HEADING_LINE)?.[1])
+      .filter((text): text is string => Boolean(text))
+      .map(headingKey),
+  );
+
+  return [...lockedSections]
+    .sort((a, b) => a.order - b.order)
+    .reduce((current, section) => {
+      const sectionMarkdown = withSectionHeading(section.heading, section.content);
+      return present.has(headingKey(section.heading))
+        ? replaceSectionMarkdown(current, section.heading, sectionMarkdown)
+        : insertSectionByOrder(current, sectionMarkdown, section.order, orderByHeading);
+    }, markdown);
+}
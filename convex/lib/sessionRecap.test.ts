@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+  buildHeuristicRecap,
+  buildSessionRecapPrompt,
+  coerceRecapPayload,
+  formatRecapText,
+  type SessionRecapInput,
+} from "./sessionRecap";
+
+const projectId = "project_1" as Id<"projects">;
+const sessionId = "session_1" as Id<"sessions">;
+
+const message = (
+  id: string,
+  speaker: string,
+  transcript: string,
+  timestamp: number,
+): Doc<"messages"> => ({
+  _id: id as Id<"messages">,
+  _creationTime: timestamp,
+  sessionId,
+  speaker,
+  transcript,
+  timestamp,
+});
+
+const note = (
+  id: string,
+  noteType: Doc<"notes">["noteType"],
+  content: string,
+  createdAt: number,
+): Doc<"notes"> => ({
+  _id: id as Id<"notes">,
+  _creationTime: createdAt,
+  projectId,
+  sessionId,
+  noteType,
+  content,
+  createdAt,
+});
+
+const input: SessionRecapInput = {
+  project: null,
+  messages: [
+    message("m1", "assistant", "Shall we open with the outage? What time did it start?", 1),
+    message("m2", "user", "Yes, open with the 3am outage.", 2),
+    message("m3", "assistant", "Great. Who else was on call that night?", 3),
+  ],
+  notes: [
+    note("n2", "story", "3am outage forced the async switch.", 20),
+    note("n1", "fact", "Meetings dropped from 18 to 6 hours a week.", 10),
+    note("n3", "summary", "Old recap", 30),
+  ],
+  draftJobs: [
+    {
+      _id: "job_1" as Id<"draftJobs">,
+      _creationTime: 5,
+      projectId,
+      sessionId,
+      status: "complete",
+      summary: "Draft the cold open",
+      generatedSummary: "Opened the piece with the 3am outage.",
+      createdAt: 5,
+      updatedAt: 6,
+    },
+    {
+      _id: "job_2" as Id<"draftJobs">,
+      _creationTime: 7,
+      projectId,
+      sessionId,
+      status: "error",
+      summary: "Expand habits",
+      createdAt: 7,
+      updatedAt: 8,
+    },
+  ],
+  todos: [
+    {
+      _id: "todo_1" as Id<"todos">,
+      _creationTime: 9,
+      projectId,
+      label: "Confirm the meeting-hours metric",
+      status: "open",
+      createdAt: 9,
+    },
+    {
+      _id: "todo_2" as Id<"todos">,
+      _creationTime: 9,
+      projectId,
+      label: "Already handled",
+      status: "resolved",
+      createdAt: 9,
+    },
+  ],
+};
+
+describe("buildHeuristicRecap", () => {
+  it("assembles a recap from the session records", () => {
+    expect(buildHeuristicRecap(input)).toEqual({
+      decisions: ["Opened the piece with the 3am outage."],
+      newMaterial: [
+        "Meetings dropped from 18 to 6 hours a week.",
+        "3am outage forced the async switch.",
+      ],
+      openTodos: ["Confirm the meeting-hours metric"],
+      nextQuestions: [
+        "Shall we open with the outage?",
+        "What time did it start?",
+        "Who else was on call that night?",
+      ],
+    });
+  });
+});
+
+describe("buildSessionRecapPrompt", () => {
+  it("includes the transcript and skips previous recap notes", () => {
+    const prompt = buildSessionRecapPrompt(input);
+
+    expect(prompt.user).toContain("Client: Yes, open with the 3am outage.");
+    expect(prompt.user).toContain("- (error) Expand habits");
+    expect(prompt.user).not.toContain("Old recap");
+  });
+});
+
+describe("coerceRecapPayload", () => {
+  it("rejects payloads missing a field", () => {
+    expect(coerceRecapPayload({ decisions: [], newMaterial: [], openTodos: [] })).toBeNull();
+  });
+
+  it("trims, de-duplicates, and drops non-strings", () => {
+    expect(
+      coerceRecapPayload({
+        decisions: [" Lead with the outage ", "lead with the outage", 4],
+        newMaterial: [],
+        openTodos: [],
+        nextQuestions: [""],
+      }),
+    ).toEqual({
+      decisions: ["Lead with the outage"],
+      newMaterial: [],
+      openTodos: [],
+      nextQuestions: [],
+    });
+  });
+});
+
+describe("formatRecapText", () => {
+  it("renders only non-empty sections", () => {
+    expect(
+      formatRecapText({
+        decisions: ["Lead with the outage"],
+        newMaterial: [],
+        openTodos: ["Confirm metric"],
+        nextQuestions: [],
+      }),
+    ).toBe("Decisions:\n- Lead with the outage\n\nOpen TODOs:\n- Confirm metric");
+  });
+});
@@ -0,0 +1,167 @@
+import type { Doc } from "../_generated/dataModel";
+
+export type SessionRecapContent = {
+  decisions: string[];
+  newMaterial: string[];
+  openTodos: string[];
+  nextQuestions: string[];
+};
+
+export type SessionRecapInput = {
+  project: Doc<"projects"> | null;
+  messages: Doc<"messages">[];
+  notes: Doc<"notes">[];
+  draftJobs: Doc<"draftJobs">[];
+  todos: Doc<"todos">[];
+};
+
+const RECAP_FIELDS = ["decisions", "newMaterial", "openTodos", "nextQuestions"] as const;
+
+const MATERIAL_NOTE_TYPES = new Set<Doc<"notes">["noteType"]>(["fact", "story", "style", "voice"]);
+
+const MAX_TRANSCRIPT_CHARS = 8000;
+const MAX_ITEMS_PER_FIELD = 8;
+
+const clean = (value: string | null | undefined) => (value ?? "").replace(/\s+/g, " ").trim();
+
+const messageText = (message: Doc<"messages">) => clean(message.text ?? message.transcript);
+
+const isAssistant = (message: Doc<"messages">) =>
+  (message.role ?? message.speaker).toLowerCase().includes("assistant");
+
+const unique = (items: string[]) => {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const key = item.toLowerCase();
+    if (!item || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const RECAP_JSON_SCHEMA = {
+  type: "json_schema",
+  name: "session_recap",
+  strict: true,
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    required: [...RECAP_FIELDS],
+    properties: Object.fromEntries(
+      RECAP_FIELDS.map((field) => [field, { type: "array", items: { type: "string" } }]),
+    ),
+  },
+} as const;
+
+export function buildSessionRecapPrompt(input: SessionRecapInput) {
+  const transcript = [...input.messages]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((message) => `${isAssistant(message) ? "Assistant" : "Client"}: ${messageText(message)}`)
+    .filter((line) => !line.endsWith(": "))
+    .join("\n");
+  const trimmedTranscript =
+    transcript.length > MAX_TRANSCRIPT_CHARS
+      ? `…\n${transcript.slice(-MAX_TRANSCRIPT_CHARS)}`
+      : transcript;
+
+  const notes = input.notes
+    .filter((note) => note.noteType !== "summary")
+    .map((note) => `- [${note.noteType.toUpperCase()}] ${clean(note.content)}`);
+  const jobs = input.draftJobs.map(
+    (job) => `- (${job.status}) ${clean(job.generatedSummary ?? job.summary) || "Draft update"}`,
+  );
+  const todos = input.todos
+    .filter((todo) => todo.status !== "resolved")
+    .map((todo) => `- ${clean(todo.label)}`);
+
+  const system = [
+    "You write end-of-session recaps for a ghostwriting engagement.",
+    "Only restate what happened in the session; never invent facts.",
+    "decisions: choices the client made about the piece (angle, outline, tone, scope).",
+    "newMaterial: new stories, facts, or quotes captured that can go into the draft.",
+    "openTodos: unresolved follow-ups, phrased as short actions.",
+    "nextQuestions: the best questions to open the next session with.",
+    "Each item is one short sentence. Return empty arrays when nothing applies.",
+  ].join("\n");
+
+  const user = [
+    input.project ? `Project: ${input.project.title} (${input.project.contentType})` : null,
+    "## Transcript",
+    trimmedTranscript || "No transcript captured.",
+    "\n## Notes captured",
+    notes.join("\n") || "None.",
+    "\n## Draft updates",
+    jobs.join("\n") || "None.",
+    "\n## Open TODOs",
+    todos.join("\n") || "None.",
+  ]
+    .filter((line): line is string => line !== null)
+    .join("\n");
+
+  return { system, user };
+}
+
+export function coerceRecapPayload(
+  record: Record<string, unknown> | null,
+): SessionRecapContent | null {
+  if (!record) return null;
+  const recap = {} as SessionRecapContent;
+  for (const field of RECAP_FIELDS) {
+    const value = record[field];
+    if (!Array.isArray(value)) return null;
+    recap[field] = unique(
+      value.filter((item): item is string => typeof item === "string").map(clean),
+    ).slice(0, MAX_ITEMS_PER_FIELD);
+  }
+  return recap;
+}
+
+/**
+ * Recap assembled directly from the session records, used when no model is
+ * configured or the model call fails.
+ */
+export function buildHeuristicRecap(input: SessionRecapInput): SessionRecapContent {
+  const decisions = input.draftJobs
+    .filter((job) => job.status === "complete")
+    .map((job) => clean(job.generatedSummary ?? job.summary));
+
+  const newMaterial = [...input.notes]
+    .filter((note) => MATERIAL_NOTE_TYPES.has(note.noteType))
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map((note) => clean(note.content));
+
+  const openTodos = input.todos
+    .filter((todo) => todo.status !== "resolved")
+    .map((todo) => clean(todo.label));
+
+  const nextQuestions = [...input.messages]
+    .filter(isAssistant)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .flatMap((message) => messageText(message).match(/[^.!?]*\?/g) ?? [])
+    .map(clean)
+    .slice(-3);
+
+  return {
+    decisions: unique(decisions).slice(0, MAX_ITEMS_PER_FIELD),
+    newMaterial: unique(newMaterial).slice(0, MAX_ITEMS_PER_FIELD),
+    openTodos: unique(openTodos).slice(0, MAX_ITEMS_PER_FIELD),
+    nextQuestions: unique(nextQuestions),
+  };
+}
+
+const RECAP_HEADINGS: Record<(typeof RECAP_FIELDS)[number], string> = {
+  decisions: "Decisions",
+  newMaterial: "New material",
+  openTodos: "Open TODOs",
+  nextQuestions: "Next questions",
+};
+
+/** Plain-text recap stored on the session and in the summary note. */
+export function formatRecapText(recap: SessionRecapContent) {
+  return RECAP_FIELDS.filter((field) => recap[field].length > 0)
+    .map(
+      (field) =>
+        `${RECAP_HEADINGS[field]}:\n${recap[field].map((item) => `- ${item}`).join("\n")}`,
+    )
+    .join("\n\n");
+}
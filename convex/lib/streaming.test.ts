@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+
+import { extractPartialJsonString, readServerSentEvents } from "./streaming";
+
+describe("extractPartialJsonString", () => {
+  it("decodes the value streamed so far", () => {
+    expect(extractPartialJsonString('{"markdown":"## Intro\\n\\nRemote te', "markdown")).toBe(
+      "## Intro\n\nRemote te",
+    );
+    expect(extractPartialJsonString('{"markdown":"Done \\"quoted\\"","summary":"x"}', "markdown")).toBe(
+      'Done "quoted"',
+    );
+  });
+
+  it("stops before an escape that has not fully arrived", () => {
+    expect(extractPartialJsonString('{"markdown":"Line\\', "markdown")).toBe("Line");
+    expect(extractPartialJsonString('{"markdown":"caf\\u00', "markdown")).toBe("caf");
+    expect(extractPartialJsonString('{"markdown":"caf\\u00e9', "markdown")).toBe("café");
+  });
+
+  it("returns null until the property starts", () => {
+    expect(extractPartialJsonString('{"summ', "markdown")).toBeNull();
+  });
+});
+
+describe("readServerSentEvents", () => {
+  it("joins multi-line data and skips comments", async () => {
+    const response = new Response(
+      ": keep-alive\n\nevent: delta\ndata: first\ndata: second\n\ndata: [DONE]\n\n",
+    );
+    const events: Array<{ event: string | null; data: string }> = [];
+    await readServerSentEvents(response, (event) => {
+      events.push(event);
+    });
+
+    expect(events).toEqual([
+      { event: "delta", data: "first\nsecond" },
+      { event: null, data: "[DONE]" },
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+// Incremental parsing for streamed model output.
+
+export type ServerSentEvent = {
+  event: string | null;
+  data: string;
+};
+
+/** Feed each server-sent event in `response` to `onEvent`, in order. */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => Promise<void> | void,
+) {
+  if (!response.body) {
+    throw new Error("Streaming response had no body");
+  }
+
+  const dispatch = async (raw: string) => {
+    let event: string | null = null;
+    const data: string[] = [];
+    for (const line of raw.split(/\r?\n/)) {
+      if (!line || line.startsWith(":")) continue;
+      const separator = line.indexOf(":");
+      const field = separator < 0 ? line : line.slice(0, separator);
+      const value = separator < 0 ? "" : line.slice(separator + 1).replace(/^ /, "");
+      if (field === "event") event = value;
+      if (field === "data") data.push(value);
+    }
+    if (data.length > 0) {
+      await onEvent({ event, data: data.join("\n") });
+    }
+  };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.match(/\r?\n\r?\n/);
+    while (boundary?.index !== undefined) {
+      await dispatch(buffer.slice(0, boundary.index));
+      buffer = buffer.slice(boundary.index + boundary[0].length);
+      boundary = buffer.match(/\r?\n\r?\n/);
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    await dispatch(buffer);
+  }
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * The decoded value of a top-level string property in a JSON document that
+ * may still be arriving. Returns whatever has streamed so far (stopping
+ * before a half-received escape), or null if the property has not started.
+ */
+export function extractPartialJsonString(buffer: string, key: string): string | null {
+  const opening = new RegExp(`"${key}"\\s*:\\s*"`).exec(buffer);
+  if (!opening) return null;
+
+  let result = "";
+  let index = opening.index + opening[0].length;
+  while (index < buffer.length) {
+    const char = buffer[index]!;
+    if (char === '"') break;
+    if (char !== "\\") {
+      result += char;
+      index += 1;
+      continue;
+    }
+    const escape = buffer[index + 1];
+    if (escape === undefined) break;
+    if (escape === "u") {
+      const hex = buffer.slice(index + 2, index + 6);
+      if (hex.length < 4) break;
+      result += String.fromCharCode(Number.parseInt(hex, 16));
+      index += 6;
+      continue;
+    }
+    result += SIMPLE_ESCAPES[escape] ?? escape;
+    index += 2;
+  }
+  return result;
+}
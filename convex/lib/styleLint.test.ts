@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  DEFAULT_BANNED_PHRASES,
+  formatLintTodo,
+  guardrailPhrases,
+  lintSection,
+  parsePhraseList,
+  resolveBannedPhrases,
+  resolvePassScore,
+} from "./styleLint";
+
+const cleanSection = `## Why we went async
+
+We stopped holding daily standups in 2021. Each team writes a short update instead, and the leads read them before lunch.
+
+The change freed about four hours a week per engineer. Nobody asked to go back.`;
+
+describe("lintSection", () => {
+  it("passes plain prose with no guardrails", () => {
+    const result = lintSection(cleanSection, { bannedPhrases: resolveBannedPhrases() });
+    expect(result).toEqual({ score: 100, passed: true, findings: [] });
+  });
+
+  it("fails on a stock phrase even when the score stays high", () => {
+    const result = lintSection(
+      `In today’s fast-paced world, teams need to move quickly.\n\n${cleanSection}`,
+      { bannedPhrases: resolveBannedPhrases() },
+    );
+    expect(result.passed).toBe(false);
+    expect(result.score).toBe(80);
+    expect(result.findings).toHaveLength(1);
+    expect(result.findings[0]).toMatchObject({ rule: "banned_phrase", severity: "error" });
+    expect(result.findings[0]!.excerpt).toContain("fast-paced world");
+  });
+
+  it("matches whole words only", () => {
+    const result = lintSection("Their synergyless approach worked.", {
+      bannedPhrases: resolveBannedPhrases(),
+    });
+    expect(result.findings).toEqual([]);
+  });
+
+  it("treats phrases quoted in the guardrails as banned", () => {
+    const result = lintSection("Let's circle back on the rollout next quarter.", {
+      guardrails: { content: 'Never say "circle back".' },
+      bannedPhrases: [],
+    });
+    expect(result.passed).toBe(false);
+    expect(result.findings[0]).toMatchObject({ rule: "guardrail_phrase" });
+  });
+
+  it("holds sentences to the structure guardrail", () => {
+    const long = `${Array.from({ length: 30 }, (_, index) => `word${index}`).join(" ")}.`;
+    const loose = lintSection(long, { bannedPhrases: [] });
+    const tight = lintSection(long, {
+      guardrails: { structure: "Short, punchy sentences." },
+      bannedPhrases: [],
+    });
+    expect(loose.findings).toEqual([]);
+    expect(tight.findings.map((finding) => finding.rule)).toEqual(["sentence_length"]);
+    expect(tight.score).toBe(95);
+    expect(tight.passed).toBe(true);
+  });
+
+  it("flags casual drafting when the tone asks for formal", () => {
+    const casual =
+      "Honestly, we kinda just shipped it. It's super simple, right? Yeah, we'd do it again. You know, it's gonna work.";
+    const result = lintSection(casual, {
+      guardrails: { tone: "Formal and measured" },
+      bannedPhrases: [],
+    });
+    expect(result.findings.map((finding) => finding.rule)).toContain("tone");
+  });
+
+  it("fails when warnings pull the score under the pass mark", () => {
+    const result = lintSection("Wow! Great! Amazing! Incredible!", {
+      bannedPhrases: [],
+      passScore: 96,
+    });
+    expect(result.findings.map((finding) => finding.rule)).toEqual(["exclamation"]);
+    expect(result.passed).toBe(false);
+  });
+});
+
+describe("banned phrase configuration", () => {
+  it("merges extra lists with the defaults", () => {
+    const phrases = resolveBannedPhrases(parsePhraseList("Circle back | deep dive\nsynergy"), [
+      "  Move   the needle ",
+    ]);
+    expect(phrases).toContain("circle back");
+    expect(phrases).toContain("deep dive");
+    expect(phrases.filter((phrase) => phrase === "synergy")).toHaveLength(1);
+    expect(phrases.filter((phrase) => phrase === "move the needle")).toHaveLength(1);
+    expect(phrases.length).toBe(DEFAULT_BANNED_PHRASES.length + 2);
+  });
+
+  it("pulls quoted phrases out of guardrails", () => {
+    expect(guardrailPhrases({ tone: "Warm, don't preach. Avoid “journey” and \"level up\"." })).toEqual([
+      "journey",
+      "level up",
+    ]);
+    expect(guardrailPhrases(null)).toEqual([]);
+  });
+
+  it("reads the pass score from the environment", () => {
+    expect(resolvePassScore({})).toBe(70);
+    expect(resolvePassScore({ STYLE_LINT_PASS_SCORE: "85" })).toBe(85);
+    expect(resolvePassScore({ STYLE_LINT_PASS_SCORE: "lots" })).toBe(70);
+  });
+});
+
+describe("formatLintTodo", () => {
+  it("summarizes every finding", () => {
+    const label = formatLintTodo("Intro", {
+      score: 75,
+      passed: false,
+      findings: [
+        { rule: "banned_phrase", severity: "error", message: 'Uses the stock phrase "synergy".' },
+        { rule: "exclamation", severity: "warning", message: "3 exclamation marks." },
+      ],
+    });
+    expect(label).toBe(
+      'Style check on "Intro" (75/100): Uses the stock phrase "synergy"; 3 exclamation marks.',
+    );
+  });
+});
@@ -0,0 +1,254 @@
+import { v, type Infer } from "convex/values";
+
+import { measureFormality } from "./voiceProfile";
+
+// Stock phrases no ghostwritten draft should ship with. Projects and
+// `STYLE_LINT_BANNED_PHRASES` add to this list; they cannot remove from it.
+export const DEFAULT_BANNED_PHRASES = [
+  "in today's fast-paced world",
+  "in today's digital age",
+  "in this day and age",
+  "at the end of the day",
+  "game changer",
+  "game-changer",
+  "paradigm shift",
+  "think outside the box",
+  "low-hanging fruit",
+  "move the needle",
+  "synergy",
+  "leverage synergies",
+  "unlock the power of",
+  "unleash the power of",
+  "take it to the next level",
+  "it goes without saying",
+  "needless to say",
+  "dive deep into",
+  "let's dive in",
+  "a testament to",
+  "navigate the complexities",
+  "ever-evolving landscape",
+  "rapidly changing landscape",
+  "best-in-class",
+  "world-class",
+] as const;
+
+export const DEFAULT_PASS_SCORE = 70;
+
+const STYLE_RULE_VALIDATOR = v.union(
+  v.literal("banned_phrase"),
+  v.literal("guardrail_phrase"),
+  v.literal("tone"),
+  v.literal("sentence_length"),
+  v.literal("paragraph_length"),
+  v.literal("exclamation"),
+);
+
+export const STYLE_FINDING_VALIDATOR = v.object({
+  rule: STYLE_RULE_VALIDATOR,
+  severity: v.union(v.literal("error"), v.literal("warning")),
+  message: v.string(),
+  excerpt: v.optional(v.string()),
+});
+
+export type StyleFinding = Infer<typeof STYLE_FINDING_VALIDATOR>;
+
+export type StyleGuardrails = {
+  tone?: string;
+  structure?: string;
+  content?: string;
+};
+
+export type StyleLintResult = {
+  score: number;
+  passed: boolean;
+  findings: StyleFinding[];
+};
+
+const PENALTY = {
+  bannedPhrase: 20,
+  tone: 15,
+  longSentence: 5,
+  longSentenceCap: 20,
+  longParagraph: 10,
+  exclamation: 5,
+} as const;
+
+const DEFAULT_SENTENCE_LIMIT = 40;
+const TIGHT_SENTENCE_LIMIT = 25;
+const SHORT_PARAGRAPH_LIMIT = 90;
+const MAX_EXCLAMATIONS = 2;
+const EXCERPT_RADIUS = 40;
+
+const normalizePhrase = (phrase: string) =>
+  phrase.replace(/[’‘]/g, "'").replace(/\s+/g, " ").trim().toLowerCase();
+
+/** Split a list from an env var or text box: one phrase per line or between `|`. */
+export function parsePhraseList(value: string | null | undefined): string[] {
+  return (value ?? "")
+    .split(/\n|\|/)
+    .map(normalizePhrase)
+    .filter(Boolean);
+}
+
+export function resolveBannedPhrases(...lists: Array<readonly string[] | null | undefined>) {
+  const phrases = [...DEFAULT_BANNED_PHRASES, ...lists.flatMap((list) => list ?? [])]
+    .map(normalizePhrase)
+    .filter(Boolean);
+  return [...new Set(phrases)];
+}
+
+export function resolvePassScore(env: Record<string, string | undefined> = process.env) {
+  const value = Number.parseInt(env.STYLE_LINT_PASS_SCORE ?? "", 10);
+  return Number.isFinite(value) && value >= 0 && value <= 100 ? value : DEFAULT_PASS_SCORE;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const phrasePattern = (phrase: string) =>
+  new RegExp(
+    `(?<![\\p{L}\\p{N}])${escapeRegExp(phrase).replace(/ /g, "\\s+").replace(/'/g, "['’]")}(?![\\p{L}\\p{N}])`,
+    "iu",
+  );
+
+const excerptAround = (text: string, index: number, length: number) => {
+  const start = Math.max(0, index - EXCERPT_RADIUS);
+  const end = Math.min(text.length, index + length + EXCERPT_RADIUS);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`;
+};
+
+/**
+ * Phrases the guardrails quote as off-limits, e.g. `Avoid "synergy" and
+ * "circle back"`. Only double quotes count, since single quotes double as
+ * apostrophes. Unquoted guidance is left to the tone and structure checks.
+ */
+export function guardrailPhrases(guardrails: StyleGuardrails | null | undefined): string[] {
+  const text = [guardrails?.tone, guardrails?.structure, guardrails?.content]
+    .filter(Boolean)
+    .join("\n");
+  const phrases: string[] = [];
+  for (const match of text.matchAll(/["“]([^"”\n]{2,60})["”]/g)) {
+    phrases.push(normalizePhrase(match[1]!));
+  }
+  return [...new Set(phrases)];
+}
+
+// Markdown that is not prose: the heading line, list markers, emphasis.
+const proseOf = (markdown: string) =>
+  markdown
+    .replace(/^#{1,6}\s+.*$/gm, "")
+    .replace(/^\s*(?:[-*+]|\d+\.)\s+/gm, "")
+    .replace(/[*_`>]/g, "")
+    .trim();
+
+const sentencesOf = (text: string) =>
+  text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Score one drafted section out of 100 against the banned phrases and the
+ * blueprint's voice guardrails. A section fails on any banned phrase, or
+ * when warnings pull it under `passScore`.
+ */
+export function lintSection(
+  markdown: string,
+  {
+    guardrails,
+    bannedPhrases,
+    passScore = DEFAULT_PASS_SCORE,
+  }: { guardrails?: StyleGuardrails | null; bannedPhrases: string[]; passScore?: number },
+): StyleLintResult {
+  const prose = proseOf(markdown);
+  const findings: StyleFinding[] = [];
+  let score = 100;
+
+  const quoted = new Set(guardrailPhrases(guardrails));
+  for (const phrase of new Set([...bannedPhrases, ...quoted])) {
+    const match = phrasePattern(phrase).exec(prose);
+    if (!match) continue;
+    const fromGuardrails = quoted.has(phrase);
+    score -= PENALTY.bannedPhrase;
+    findings.push({
+      rule: fromGuardrails ? "guardrail_phrase" : "banned_phrase",
+      severity: "error",
+      message: fromGuardrails
+        ? `Uses "${match[0]}", which the voice guardrails rule out.`
+        : `Uses the stock phrase "${match[0]}".`,
+      excerpt: excerptAround(prose, match.index, match[0].length),
+    });
+  }
+
+  const tone = (guardrails?.tone ?? "").toLowerCase();
+  const wantsFormal = /formal|professional|authoritative|analytical|academic|measured/.test(tone);
+  const wantsCasual = /casual|conversational|friendly|warm|playful|informal|chatty/.test(tone);
+  if (prose && wantsFormal !== wantsCasual) {
+    const formality = measureFormality(prose);
+    if (wantsFormal && formality < 0.35) {
+      score -= PENALTY.tone;
+      findings.push({
+        rule: "tone",
+        severity: "warning",
+        message: `Reads casual for the "${guardrails?.tone}" tone (formality ${Math.round(formality * 100)}/100).`,
+      });
+    } else if (wantsCasual && formality > 0.75) {
+      score -= PENALTY.tone;
+      findings.push({
+        rule: "tone",
+        severity: "warning",
+        message: `Reads stiff for the "${guardrails?.tone}" tone (formality ${Math.round(formality * 100)}/100).`,
+      });
+    }
+  }
+
+  const structure = (guardrails?.structure ?? "").toLowerCase();
+  const sentenceLimit = /short|concise|punchy|tight|brief|crisp/.test(structure)
+    ? TIGHT_SENTENCE_LIMIT
+    : DEFAULT_SENTENCE_LIMIT;
+  const longSentences = sentencesOf(prose).filter((sentence) => wordCount(sentence) > sentenceLimit);
+  if (longSentences.length > 0) {
+    score -= Math.min(longSentences.length * PENALTY.longSentence, PENALTY.longSentenceCap);
+    findings.push({
+      rule: "sentence_length",
+      severity: "warning",
+      message: `${longSentences.length} sentence${longSentences.length === 1 ? " runs" : "s run"} past ${sentenceLimit} words.`,
+      excerpt: excerptAround(longSentences[0]!, 0, EXCERPT_RADIUS),
+    });
+  }
+
+  if (/short paragraph|brief paragraph|one-line paragraph/.test(structure)) {
+    const longParagraphs = prose
+      .split(/\n\s*\n/)
+      .filter((paragraph) => wordCount(paragraph) > SHORT_PARAGRAPH_LIMIT);
+    if (longParagraphs.length > 0) {
+      score -= PENALTY.longParagraph;
+      findings.push({
+        rule: "paragraph_length",
+        severity: "warning",
+        message: `${longParagraphs.length} paragraph${longParagraphs.length === 1 ? " is" : "s are"} over ${SHORT_PARAGRAPH_LIMIT} words; the structure guardrail asks for short ones.`,
+      });
+    }
+  }
+
+  const exclamations = prose.match(/!/g)?.length ?? 0;
+  if (exclamations > MAX_EXCLAMATIONS && !/playful|enthusiastic|energetic|excited/.test(tone)) {
+    score -= PENALTY.exclamation;
+    findings.push({
+      rule: "exclamation",
+      severity: "warning",
+      message: `${exclamations} exclamation marks.`,
+    });
+  }
+
+  score = Math.max(0, score);
+  const passed = score >= passScore && findings.every((finding) => finding.severity !== "error");
+  return { score, passed, findings };
+}
+
+/** One-line TODO label summarizing why a section failed. */
+export function formatLintTodo(heading: string, result: StyleLintResult) {
+  const problems = result.findings.map((finding) => finding.message.replace(/\.$/, ""));
+  return `Style check on "${heading}" (${result.score}/100): ${problems.join("; ")}.`;
+}
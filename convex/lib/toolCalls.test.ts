@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  TRUNCATED_MARKER,
+  collectIdPairs,
+  collectIds,
+  foreignRecordId,
+  parseAuditValue,
+  remapIds,
+  serializeForAudit,
+  toolCallProjectId,
+} from "./toolCalls";
+
+describe("serializeForAudit", () => {
+  it("round-trips values that fit", () => {
+    const text = serializeForAudit({ projectId: "proj_1", limit: 3 }, 100);
+    expect(text).toBe('{"projectId":"proj_1","limit":3}');
+    expect(parseAuditValue(text)).toEqual({ projectId: "proj_1", limit: 3 });
+  });
+
+  it("cuts oversized values so they are not mistaken for the real thing", () => {
+    const text = serializeForAudit({ content: "x".repeat(50) }, 20);
+    expect(text).toHaveLength(20 + TRUNCATED_MARKER.length);
+    expect(text?.endsWith(TRUNCATED_MARKER)).toBe(true);
+    expect(parseAuditValue(text)).toBeNull();
+  });
+
+  it("leaves a missing value missing", () => {
+    expect(serializeForAudit(undefined, 100)).toBeUndefined();
+    expect(parseAuditValue(undefined)).toBeNull();
+  });
+});
+
+describe("toolCallProjectId", () => {
+  it("prefers the project the call was made against", () => {
+    expect(
+      toolCallProjectId(
+        { name: "list_todos", args: { projectId: "proj_args" } },
+        { success: true, result: [] },
+        "proj_session",
+      ),
+    ).toBe("proj_args");
+  });
+
+  it("falls back to the result, then the session", () => {
+    expect(
+      toolCallProjectId(
+        { name: "create_project", args: { title: "Memoir", contentType: "memoir" } },
+        { success: true, result: { projectId: "proj_new" } },
+        "proj_session",
+      ),
+    ).toBe("proj_new");
+    expect(toolCallProjectId(null, { success: false, error: "Unknown tool" }, "proj_session")).toBe(
+      "proj_session",
+    );
+  });
+});
+
+describe("collectIdPairs and remapIds", () => {
+  it("points later calls at the records the replay created", () => {
+    const pairs = collectIdPairs(
+      { projectId: "proj_old", project: { _id: "proj_old", title: "Memoir" } },
+      { projectId: "proj_new", project: { _id: "proj_new", title: "Memoir" } },
+      new Map(),
+    );
+    collectIdPairs(
+      [{ _id: "note_old", content: "Met in Lisbon" }],
+      [{ _id: "note_new", content: "Met in Lisbon" }],
+      pairs,
+    );
+    expect(Object.fromEntries(pairs)).toEqual({ proj_old: "proj_new", note_old: "note_new" });
+
+    expect(
+      remapIds(
+        { project: { _id: "proj_old" }, noteIds: ["note_old", "note_other"], title: "Memoir" },
+        pairs,
+      ),
+    ).toEqual({ project: { _id: "proj_new" }, noteIds: ["note_new", "note_other"], title: "Memoir" });
+  });
+
+  it("matches list entries by what they are, not where they sit", () => {
+    const pairs = collectIdPairs(
+      [
+        { projectId: "proj_a", project: { _id: "proj_a", title: "Founder story" } },
+        { projectId: "proj_b_old", project: { _id: "proj_b_old", title: "Async manifesto" } },
+      ],
+      [
+        { projectId: "proj_replay", project: { _id: "proj_replay", title: "Replay of memoir" } },
+        { projectId: "proj_b_new", project: { _id: "proj_b_new", title: "Async manifesto" } },
+        { projectId: "proj_a", project: { _id: "proj_a", title: "Founder story" } },
+      ],
+      new Map(),
+    );
+    expect(Object.fromEntries(pairs)).toEqual({ proj_b_old: "proj_b_new" });
+  });
+
+  it("leaves entries it cannot tell apart unpaired", () => {
+    const pairs = collectIdPairs(
+      [{ _id: "todo_1", title: "Confirm dates" }, { _id: "todo_2", title: "Confirm dates" }],
+      [{ _id: "todo_3", title: "Confirm dates" }, { _id: "todo_4", title: "Confirm dates" }],
+      new Map(),
+    );
+    expect(pairs.size).toBe(0);
+  });
+
+  it("ignores fields that are not ids", () => {
+    const pairs = collectIdPairs({ title: "Old" }, { title: "New" }, new Map());
+    expect(pairs.size).toBe(0);
+  });
+});
+
+describe("foreignRecordId", () => {
+  it("flags ids the replay did not create", () => {
+    const replayIds = collectIds(
+      { projectId: "proj_replay", todos: [{ _id: "todo_new" }] },
+      new Set(),
+    );
+    expect(foreignRecordId({ projectId: "proj_replay", todoId: "todo_new" }, replayIds)).toBeNull();
+    expect(foreignRecordId({ projectId: "proj_replay", todoId: "todo_old" }, replayIds)).toBe(
+      "todo_old",
+    );
+    expect(foreignRecordId({ projectId: "proj_real" }, replayIds)).toBe("proj_real");
+  });
+});
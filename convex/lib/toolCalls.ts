@@ -0,0 +1,159 @@
+import type { ToolCall, ToolOutcome } from "./toolRouter";
+
+// Arguments are what a replay re-runs, so they get far more room than results.
+export const AUDIT_ARGUMENT_CHARS = 20_000;
+export const AUDIT_RESULT_CHARS = 8_000;
+
+export const TRUNCATED_MARKER = "…[truncated]";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * JSON text for the `toolCalls` log, cut to `maxChars`. Stored as text so
+ * document results (with their `_id` fields) and oversized payloads fit in
+ * one row; a cut value ends with `TRUNCATED_MARKER` and no longer parses.
+ */
+export function serializeForAudit(value: unknown, maxChars: number): string | undefined {
+  if (typeof value === "undefined") return undefined;
+  let text: string;
+  try {
+    text = JSON.stringify(value) ?? "null";
+  } catch {
+    text = JSON.stringify(String(value));
+  }
+  return text.length > maxChars ? `${text.slice(0, maxChars)}${TRUNCATED_MARKER}` : text;
+}
+
+/** Parses a logged value back; null when it was truncated or is not JSON. */
+export function parseAuditValue(text: string | undefined): unknown {
+  if (typeof text !== "string" || text.endsWith(TRUNCATED_MARKER)) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/** The project a call touched, for filtering the log by project. */
+export function toolCallProjectId(
+  call: ToolCall | null,
+  outcome: ToolOutcome,
+  fallback?: string | null,
+): string | null {
+  if (call && "projectId" in call.args && typeof call.args.projectId === "string") {
+    return call.args.projectId;
+  }
+  if (outcome.success && isRecord(outcome.result) && typeof outcome.result.projectId === "string") {
+    return outcome.result.projectId;
+  }
+  return fallback ?? null;
+}
+
+const isIdKey = (key: string) => key === "_id" || /Id$/.test(key);
+
+// Fields that say which record a list entry is, whatever its id or position.
+const STABLE_KEY_FIELDS = ["title", "heading", "content", "label", "name"];
+
+function stableKey(entry: unknown): string | null {
+  if (!isRecord(entry)) return null;
+  for (const field of STABLE_KEY_FIELDS) {
+    if (typeof entry[field] === "string") return `${field}:${entry[field]}`;
+  }
+  for (const value of Object.values(entry)) {
+    const nested = stableKey(value);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+function groupByStableKey(entries: unknown[]) {
+  const groups = new Map<string, unknown[]>();
+  for (const entry of entries) {
+    const key = stableKey(entry);
+    if (key) groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+  return groups;
+}
+
+/**
+ * Walks a recorded result and its replayed counterpart side by side and
+ * notes which id each recorded id became, so later calls in the sequence
+ * that mention the old id can be pointed at the new one. List entries are
+ * matched by title, heading or content, never by position, and only when
+ * the match is unambiguous on both sides.
+ */
+export function collectIdPairs(
+  recorded: unknown,
+  replayed: unknown,
+  pairs: Map<string, string>,
+): Map<string, string> {
+  if (Array.isArray(recorded) && Array.isArray(replayed)) {
+    const replayedByKey = groupByStableKey(replayed);
+    for (const [key, entries] of groupByStableKey(recorded)) {
+      const counterparts = replayedByKey.get(key);
+      if (entries.length === 1 && counterparts?.length === 1) {
+        collectIdPairs(entries[0], counterparts[0], pairs);
+      }
+    }
+    return pairs;
+  }
+  if (!isRecord(recorded) || !isRecord(replayed)) return pairs;
+  for (const [key, value] of Object.entries(recorded)) {
+    const counterpart = replayed[key];
+    if (isIdKey(key) && typeof value === "string" && typeof counterpart === "string") {
+      if (value !== counterpart && !pairs.has(value)) {
+        pairs.set(value, counterpart);
+      }
+    } else {
+      collectIdPairs(value, counterpart, pairs);
+    }
+  }
+  return pairs;
+}
+
+/** Adds every id found in `value` to `ids`. */
+export function collectIds(value: unknown, ids: Set<string>): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach((entry) => collectIds(entry, ids));
+  } else if (isRecord(value)) {
+    for (const [key, entry] of Object.entries(value)) {
+      if (isIdKey(key) && typeof entry === "string") {
+        ids.add(entry);
+      } else {
+        collectIds(entry, ids);
+      }
+    }
+  }
+  return ids;
+}
+
+// Arguments that point a tool at a stored record it will read or change.
+const RECORD_ID_ARGUMENTS = ["projectId", "noteId", "todoId"];
+
+/**
+ * The first project, note or todo id in a prepared call that the replay did
+ * not create itself, or null. A replay must never reach the original records.
+ */
+export function foreignRecordId(
+  args: Record<string, unknown>,
+  replayIds: Set<string>,
+): string | null {
+  for (const key of RECORD_ID_ARGUMENTS) {
+    const value = args[key];
+    if (typeof value === "string" && !replayIds.has(value)) return value;
+  }
+  return null;
+}
+
+/** Replaces every string that is a known recorded id with its replayed id. */
+export function remapIds(value: unknown, pairs: Map<string, string>): unknown {
+  if (typeof value === "string") return pairs.get(value) ?? value;
+  if (Array.isArray(value)) return value.map((entry) => remapIds(entry, pairs));
+  if (isRecord(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, remapIds(entry, pairs)]),
+    );
+  }
+  return value;
+}
@@ -0,0 +1,266 @@
+import { describe, expect, it } from "vitest";
+
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+  acknowledgeToolCall,
+  coerceToSchema,
+  prepareToolCall,
+  resolveProjectId,
+  runTool,
+  validateAgainstSchema,
+  type ToolContext,
+  type ToolPorts,
+} from "./toolRouter";
+
+const project = {
+  _id: "proj_1",
+  title: "Async manifesto",
+  status: "active",
+} as unknown as Doc<"projects">;
+
+const unexpected = (port: string) => async (): Promise<never> => {
+  throw new Error(`${port} should not be called`);
+};
+
+const fakePorts = (overrides: Partial<ToolPorts> = {}): ToolPorts => ({
+  listProjects: unexpected("listProjects"),
+  getProject: unexpected("getProject"),
+  createProject: unexpected("createProject"),
+  updateProjectMetadata: unexpected("updateProjectMetadata"),
+  syncBlueprintField: unexpected("syncBlueprintField"),
+  commitBlueprint: unexpected("commitBlueprint"),
+  recordTranscriptPointer: unexpected("recordTranscriptPointer"),
+  listNotes: unexpected("listNotes"),
+  listTodos: unexpected("listTodos"),
+  createNote: unexpected("createNote"),
+  updateTodoStatus: unexpected("updateTodoStatus"),
+  getDocumentWorkspace: unexpected("getDocumentWorkspace"),
+  manageOutline: unexpected("manageOutline"),
+  enqueueDraftUpdate: unexpected("enqueueDraftUpdate"),
+  applyDocumentEdits: unexpected("applyDocumentEdits"),
+  resolveMessagePointers: async () => ({}),
+  ...overrides,
+});
+
+const blueprintContext: ToolContext = {
+  mode: "blueprint",
+  sessionId: "session_1" as Id<"sessions">,
+  projectId: "proj_1",
+};
+
+describe("validateAgainstSchema", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      title: { type: "string" },
+      limit: { type: "integer", minimum: 1, maximum: 5 },
+      status: { type: "string", enum: ["open", "resolved"] },
+      tags: { type: "array", items: { type: "string" } },
+    },
+    required: ["title"],
+    additionalProperties: false,
+  };
+
+  it("accepts a value that matches", () => {
+    expect(validateAgainstSchema(schema, { title: "Draft", limit: 2, tags: ["a"] })).toEqual([]);
+  });
+
+  it("reports each problem with its path", () => {
+    expect(
+      validateAgainstSchema(schema, { limit: 9, status: "done", tags: ["a", 2], extra: true }),
+    ).toEqual([
+      "title is required",
+      "limit must be at most 5",
+      "status must be one of open, resolved",
+      "tags[1] must be a string",
+      "extra is not a recognised field",
+    ]);
+  });
+
+  it("passes anyOf when one branch matches", () => {
+    const value = { anyOf: [{ type: "string" }, { type: "null" }] };
+    expect(validateAgainstSchema(value, null)).toEqual([]);
+    expect(validateAgainstSchema(value, 4, "value")).toEqual(["value must be string or null"]);
+  });
+});
+
+describe("coerceToSchema", () => {
+  it("fixes the shapes models commonly get wrong", () => {
+    const ignored: string[] = [];
+    const schema = {
+      type: "object",
+      properties: {
+        limit: { type: "integer", minimum: 1, maximum: 50 },
+        noteType: { type: "string", enum: ["fact", "story"] },
+        messagePointers: { type: "array", items: { type: "string" } },
+        resolved: { type: "boolean" },
+        content: { type: "string" },
+      },
+      additionalProperties: false,
+    };
+    expect(
+      coerceToSchema(
+        schema,
+        {
+          limit: "200",
+          noteType: " Fact ",
+          messagePointers: '["item_1", "item_2"]',
+          resolved: "true",
+          content: "   ",
+          mood: "chatty",
+        },
+        ignored,
+      ),
+    ).toEqual({
+      limit: 50,
+      noteType: "fact",
+      messagePointers: ["item_1", "item_2"],
+      resolved: true,
+    });
+    expect(ignored).toEqual(["mood"]);
+  });
+});
+
+describe("resolveProjectId", () => {
+  const context: ToolContext = {
+    mode: "intake",
+    recentProjects: [
+      { projectId: "proj_a", title: "Founder story" },
+      { projectId: "proj_b", title: "Async manifesto" },
+    ],
+  };
+
+  it("prefers an explicit id, including one wrapped by the model", () => {
+    expect(resolveProjectId({ projectId: "proj_x" }, context)).toBe("proj_x");
+    expect(resolveProjectId({ project: { _id: "proj_y" } }, context)).toBe("proj_y");
+  });
+
+  it("falls back to the listed projects by position or title", () => {
+    expect(resolveProjectId({ index: 1 }, context)).toBe("proj_b");
+    expect(resolveProjectId({ projectTitle: "manifesto" }, context)).toBe("proj_b");
+  });
+
+  it("does not read the tool's own fields as a project", () => {
+    expect(
+      resolveProjectId({ title: "Async manifesto" }, { ...context, projectId: "proj_session" }, [
+        "projectId",
+        "title",
+      ]),
+    ).toBe("proj_session");
+  });
+
+  it("needs something to go on", () => {
+    expect(() => resolveProjectId({}, { mode: "intake" })).toThrow("projectId is required");
+  });
+});
+
+describe("prepareToolCall", () => {
+  it("blocks tools the session's mode does not offer", () => {
+    expect(prepareToolCall("list_projects", {}, { mode: "ghostwriting" })).toEqual({
+      ok: false,
+      error:
+        'Tool "list_projects" is disabled in ghostwriting mode. Use manage_outline for structure changes and queue_draft_update for content.',
+    });
+  });
+
+  it("explains arguments that still break the schema", () => {
+    expect(
+      prepareToolCall("update_todo_status", { todoId: "todo_1", status: "done" }, blueprintContext),
+    ).toEqual({
+      ok: false,
+      error: "Invalid arguments for update_todo_status: status must be one of open, in_review, resolved",
+    });
+  });
+
+  it("folds aliases and fills the session's project", () => {
+    const prepared = prepareToolCall(
+      "createNote",
+      { type: "story", content: "Met in Lisbon", transcript: ["item_4", "item_5"] },
+      blueprintContext,
+    );
+    expect(prepared).toEqual({
+      ok: true,
+      call: {
+        name: "create_note",
+        args: { noteType: "story", content: "Met in Lisbon", projectId: "proj_1" },
+      },
+      ignored: ["transcript"],
+    });
+  });
+
+  it("acknowledges background work from the prepared arguments", () => {
+    const prepared = prepareToolCall(
+      "queue_draft_update",
+      { urgency: "asap" },
+      { ...blueprintContext, mode: "ghostwriting" },
+    );
+    if (!prepared.ok) throw new Error(prepared.error);
+    expect(acknowledgeToolCall(prepared.call, 1_000)).toEqual({
+      status: "queued",
+      projectId: "proj_1",
+      acceptedAt: 1_000,
+      summary: null,
+      urgency: "asap",
+    });
+  });
+});
+
+describe("runTool", () => {
+  it("anchors notes to the transcript lines that have been saved", async () => {
+    const created: unknown[] = [];
+    const { outcome, call } = await runTool(
+      "create_note",
+      { noteType: "fact", content: "18 hours of meetings", transcriptIds: ["item_1", "item_2"] },
+      blueprintContext,
+      fakePorts({
+        resolveMessagePointers: async () => ({ item_1: "msg_1" as Id<"messages"> }),
+        createNote: async (args) => {
+          created.push(args);
+          return { _id: "note_1" };
+        },
+      }),
+    );
+    expect(outcome).toEqual({ success: true, result: { _id: "note_1" } });
+    expect(call?.args).toMatchObject({ transcriptIds: ["item_1", "item_2"] });
+    expect(created).toEqual([
+      {
+        projectId: "proj_1",
+        sessionId: "session_1",
+        noteType: "fact",
+        content: "18 hours of meetings",
+        sourceMessageIds: ["msg_1"],
+        confidence: undefined,
+        resolved: undefined,
+        todoStatus: undefined,
+      },
+    ]);
+  });
+
+  it("returns project results with their blueprint summary", async () => {
+    const { outcome } = await runTool(
+      "get_project",
+      {},
+      blueprintContext,
+      fakePorts({ getProject: async () => ({ project, blueprint: null }) }),
+    );
+    expect(outcome).toMatchObject({
+      success: true,
+      result: { projectId: "proj_1", summary: { status: "missing" } },
+    });
+  });
+
+  it("reports backend failures as an outcome", async () => {
+    const { outcome, call } = await runTool(
+      "list_todos",
+      {},
+      blueprintContext,
+      fakePorts({
+        listTodos: async () => {
+          throw new Error("Forbidden");
+        },
+      }),
+    );
+    expect(outcome).toEqual({ success: false, error: "Forbidden" });
+    expect(call).toEqual({ name: "list_todos", args: { projectId: "proj_1" } });
+  });
+});
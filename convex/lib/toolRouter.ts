@@ -0,0 +1,1013 @@
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+  REQUIRED_BLUEPRINT_FIELDS,
+  blueprintFieldHasValue,
+} from "../../lib/projects";
+import type { SessionInstructionMode } from "../../lib/realtimeInstructions";
+import { getToolDefinition, getToolsForMode } from "../../lib/realtimeTools";
+
+/**
+ * Server-side execution of the session tools. A call arrives as a tool name
+ * plus whatever arguments the model produced; `prepareToolCall` folds known
+ * aliases, coerces scalars to the types in the tool's JSON schema and
+ * validates the result, then `runTool` hands the typed arguments to the
+ * tool's executor. Executors only reach Convex through `ToolPorts`, so the
+ * whole path runs in tests with plain functions standing in for the backend.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+type ProjectDoc = Doc<"projects">;
+type BlueprintDoc = Doc<"projectBlueprints">;
+
+export type ProjectBundle = { project: ProjectDoc; blueprint: BlueprintDoc | null };
+
+export type ProjectToolResult = {
+  projectId: string;
+  project?: ProjectDoc;
+  blueprint?: BlueprintDoc | null;
+  summary?: {
+    status: string;
+    missingFields: string[];
+    updatedAt?: number;
+  };
+};
+
+type NoteType = "fact" | "story" | "style" | "voice" | "todo" | "summary";
+type TodoStatus = "open" | "in_review" | "resolved";
+type SectionStatus = "drafting" | "needs_detail" | "complete";
+type BlueprintField =
+  | "desiredOutcome"
+  | "targetAudience"
+  | "materialsInventory"
+  | "communicationPreferences"
+  | "voiceGuardrails";
+
+export type VoiceGuardrailsValue = {
+  tone?: string;
+  structure?: string;
+  content?: string;
+};
+
+type OutlineOperation = {
+  action: "add" | "rename" | "reorder" | "remove";
+  heading: string;
+  newHeading?: string;
+  position?: number;
+  status?: SectionStatus;
+};
+
+type SectionSummary = { heading: string; status: string; order: number | null };
+
+export type ToolArgsMap = {
+  list_projects: { limit?: number };
+  get_project: { projectId: string };
+  create_project: { title: string; contentType: string; goal?: string };
+  update_project_metadata: {
+    projectId: string;
+    title?: string;
+    contentType?: string;
+    goal?: string;
+    status?: "draft" | "active" | "archived" | "intake";
+  };
+  sync_blueprint_field: {
+    projectId: string;
+    field: BlueprintField;
+    value?: string | VoiceGuardrailsValue | null;
+    transcriptId?: string;
+  };
+  commit_blueprint: { projectId: string };
+  assign_project_to_session: { projectId: string };
+  list_notes: { projectId: string; limit?: number };
+  list_todos: { projectId: string };
+  create_note: {
+    projectId: string;
+    noteType?: NoteType;
+    content: string;
+    messageIds?: string[];
+    transcriptIds?: string[];
+    messageId?: string;
+    transcriptId?: string;
+    confidence?: number;
+    resolved?: boolean;
+    todoStatus?: TodoStatus;
+  };
+  update_todo_status: { todoId: string; status: TodoStatus };
+  record_transcript_pointer: { projectId: string; messageId?: string; transcriptId?: string };
+  get_document_workspace: { projectId: string };
+  apply_document_edits: {
+    projectId: string;
+    markdown: string;
+    sections?: { heading: string; content: string; status?: SectionStatus; order?: number }[];
+    summary?: string;
+  };
+  queue_draft_update: {
+    projectId: string;
+    urgency?: string;
+    summary?: string;
+    messagePointers?: string[];
+    transcriptAnchors?: string[];
+    promptContext?: Record<string, unknown>;
+  };
+  manage_outline: { projectId: string; operations: OutlineOperation[] };
+};
+
+export type ToolName = keyof ToolArgsMap;
+
+export type ToolResultMap = {
+  list_projects: ProjectToolResult[];
+  get_project: ProjectToolResult | null;
+  create_project: ProjectToolResult;
+  update_project_metadata: ProjectToolResult;
+  sync_blueprint_field: ProjectToolResult;
+  commit_blueprint: ProjectToolResult;
+  assign_project_to_session: { projectId: string };
+  list_notes: unknown;
+  list_todos: unknown;
+  create_note: unknown;
+  update_todo_status: unknown;
+  record_transcript_pointer:
+    | ProjectToolResult
+    | { skipped: true; reason: "transcript_not_persisted_yet" };
+  get_document_workspace: unknown;
+  apply_document_edits: {
+    status: "completed";
+    projectId: string;
+    sections: SectionSummary[];
+    summary: string | null;
+  };
+  queue_draft_update: {
+    status: "queued";
+    projectId: string;
+    jobId: string | null;
+    urgency: string | null;
+    createdAt: number | null;
+  };
+  manage_outline: { projectId: string; operations: unknown; sections: SectionSummary[] };
+};
+
+export type ToolCall = {
+  [N in ToolName]: { name: N; args: ToolArgsMap[N] };
+}[ToolName];
+
+export type RecentProject = { projectId: string; title?: string };
+
+/** Session state a tool call may lean on when the model leaves something out. */
+export type ToolContext = {
+  mode: SessionInstructionMode;
+  sessionId?: Id<"sessions"> | null;
+  // The project the session is attached to, used when a call names none.
+  projectId?: string | null;
+  // The last projects the session listed, so "the second one" resolves.
+  recentProjects?: RecentProject[];
+};
+
+/** Everything executors need from the backend. */
+export type ToolPorts = {
+  listProjects: (limit: number) => Promise<ProjectBundle[]>;
+  getProject: (projectId: Id<"projects">) => Promise<ProjectBundle | null>;
+  createProject: (args: { title: string; contentType: string; goal?: string }) => Promise<ProjectBundle>;
+  updateProjectMetadata: (args: {
+    projectId: Id<"projects">;
+    title?: string;
+    contentType?: string;
+    goal?: string;
+    status?: ToolArgsMap["update_project_metadata"]["status"];
+  }) => Promise<unknown>;
+  syncBlueprintField: (args: {
+    projectId: Id<"projects">;
+    field: BlueprintField;
+    value: string | VoiceGuardrailsValue | null;
+    sessionId?: Id<"sessions">;
+    messageId?: Id<"messages">;
+  }) => Promise<unknown>;
+  commitBlueprint: (args: {
+    projectId: Id<"projects">;
+    sessionId?: Id<"sessions">;
+  }) => Promise<ProjectBundle>;
+  recordTranscriptPointer: (args: {
+    projectId: Id<"projects">;
+    sessionId: Id<"sessions">;
+    messageId?: string;
+    itemId?: string;
+  }) => Promise<BlueprintDoc>;
+  listNotes: (args: { projectId: Id<"projects">; limit?: number }) => Promise<unknown>;
+  listTodos: (projectId: Id<"projects">) => Promise<unknown>;
+  createNote: (args: {
+    projectId: Id<"projects">;
+    sessionId?: Id<"sessions">;
+    noteType: NoteType;
+    content: string;
+    sourceMessageIds?: Id<"messages">[];
+    confidence?: number;
+    resolved?: boolean;
+    todoStatus?: TodoStatus;
+  }) => Promise<unknown>;
+  updateTodoStatus: (args: { todoId: Id<"todos">; status: TodoStatus }) => Promise<unknown>;
+  getDocumentWorkspace: (projectId: Id<"projects">) => Promise<unknown>;
+  manageOutline: (args: {
+    projectId: Id<"projects">;
+    operations: OutlineOperation[];
+  }) => Promise<{ operations: unknown; sections: { heading: string; status: string; order: number }[] }>;
+  enqueueDraftUpdate: (args: {
+    projectId: Id<"projects">;
+    sessionId: Id<"sessions">;
+    urgency?: string;
+    messagePointers?: string[];
+    transcriptAnchors?: string[];
+    promptContext?: Record<string, unknown>;
+  }) => Promise<{ _id: string; urgency?: string; createdAt: number } | null>;
+  applyDocumentEdits: (args: {
+    projectId: Id<"projects">;
+    markdown: string;
+    sections: { heading: string; content: string; status?: SectionStatus; order?: number }[];
+    summary?: string;
+  }) => Promise<{ sections: { heading: string; status: string; order: number }[] }>;
+  // Maps realtime item ids (or message ids) to persisted messages; pointers
+  // that have not been saved yet are left out.
+  resolveMessagePointers: (pointers: string[]) => Promise<Record<string, Id<"messages">>>;
+};
+
+export type ToolOutcome =
+  | { success: true; result: unknown }
+  | { success: false; error: string };
+
+export type PreparedToolCall =
+  | { ok: true; call: ToolCall; ignored: string[] }
+  | { ok: false; error: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const normalizeToolName = (value: string): string =>
+  value
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/[\s-]+/g, "_")
+    .toLowerCase();
+
+const schemaTypes = (schema: JsonSchema): string[] => {
+  const { type } = schema;
+  if (typeof type === "string") return [type];
+  if (Array.isArray(type)) return type.filter((entry): entry is string => typeof entry === "string");
+  return [];
+};
+
+const matchesType = (type: string, value: unknown): boolean => {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isRecord(value);
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+};
+
+const label = (path: string) => path || "arguments";
+
+/**
+ * Checks a value against the JSON schema subset the tool definitions use:
+ * `type`, `enum`, `anyOf`, `properties`, `required`, `additionalProperties`,
+ * `items`, `minimum` and `maximum`. Returns one message per problem.
+ */
+export function validateAgainstSchema(schema: JsonSchema, value: unknown, path = ""): string[] {
+  if (Array.isArray(schema.anyOf)) {
+    const branches = schema.anyOf.filter(isRecord);
+    if (branches.some((branch) => validateAgainstSchema(branch, value, path).length === 0)) {
+      return [];
+    }
+    const types = branches.flatMap(schemaTypes);
+    return [`${label(path)} must be ${types.length > 0 ? types.join(" or ") : "a valid value"}`];
+  }
+
+  const types = schemaTypes(schema);
+  if (types.length > 0 && !types.some((type) => matchesType(type, value))) {
+    const described = types.map((type) => (/^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`));
+    return [`${label(path)} must be ${described.join(" or ")}`];
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    return [`${label(path)} must be one of ${schema.enum.join(", ")}`];
+  }
+
+  const errors: string[] = [];
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      errors.push(`${label(path)} must be at least ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      errors.push(`${label(path)} must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value) && isRecord(schema.items)) {
+    const items = schema.items;
+    value.forEach((entry, index) => {
+      errors.push(...validateAgainstSchema(items, entry, `${path}[${index}]`));
+    });
+  }
+
+  if (isRecord(value)) {
+    const properties = isRecord(schema.properties) ? schema.properties : {};
+    const required = Array.isArray(schema.required) ? schema.required : [];
+    for (const key of required) {
+      if (typeof key === "string" && typeof value[key] === "undefined") {
+        errors.push(`${path ? `${path}.` : ""}${key} is required`);
+      }
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      const childPath = path ? `${path}.${key}` : key;
+      const propertySchema = properties[key];
+      if (isRecord(propertySchema)) {
+        errors.push(...validateAgainstSchema(propertySchema, entry, childPath));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${childPath} is not a recognised field`);
+      } else if (isRecord(schema.additionalProperties)) {
+        errors.push(...validateAgainstSchema(schema.additionalProperties, entry, childPath));
+      }
+    }
+  }
+
+  return errors;
+}
+
+const parseJson = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Nudges model output toward the schema before it is validated: trims
+ * strings (blank ones count as missing), reads numbers and booleans out of
+ * strings, lowercases enum values, parses JSON-encoded arrays and objects,
+ * clamps bounded integers and drops fields the schema does not allow.
+ * Anything it cannot fix is left for validation to report.
+ */
+export function coerceToSchema(schema: JsonSchema, value: unknown, ignored: string[] = [], path = ""): unknown {
+  if (Array.isArray(schema.anyOf)) {
+    return typeof value === "string" ? value.trim() || undefined : value;
+  }
+  const [type] = schemaTypes(schema);
+  switch (type) {
+    case "string": {
+      let text: unknown = value;
+      if (typeof value === "number" || typeof value === "boolean") text = String(value);
+      if (typeof text !== "string") return value;
+      const trimmed = text.trim();
+      if (!trimmed) return undefined;
+      if (Array.isArray(schema.enum)) {
+        const lowered = trimmed.toLowerCase();
+        return schema.enum.includes(lowered) ? lowered : trimmed;
+      }
+      return trimmed;
+    }
+    case "number":
+    case "integer": {
+      let numeric = value;
+      if (typeof value === "string" && value.trim() && Number.isFinite(Number(value))) {
+        numeric = Number(value);
+      }
+      if (typeof numeric !== "number" || !Number.isFinite(numeric)) return value;
+      if (type === "integer") numeric = Math.floor(numeric);
+      if (typeof schema.minimum === "number") numeric = Math.max(schema.minimum, numeric as number);
+      if (typeof schema.maximum === "number") numeric = Math.min(schema.maximum, numeric as number);
+      return numeric;
+    }
+    case "boolean":
+      if (value === "true") return true;
+      if (value === "false") return false;
+      return value;
+    case "array": {
+      let list = value;
+      if (typeof value === "string") {
+        const trimmed = value.trim();
+        if (!trimmed) return undefined;
+        const parsed = parseJson(trimmed);
+        list = Array.isArray(parsed) ? parsed : [trimmed];
+      }
+      if (!Array.isArray(list)) return value;
+      const items = isRecord(schema.items) ? schema.items : null;
+      if (!items) return list;
+      return list
+        .map((entry, index) => coerceToSchema(items, entry, ignored, `${path}[${index}]`))
+        .filter((entry) => typeof entry !== "undefined");
+    }
+    case "object": {
+      let record = value;
+      if (typeof value === "string") {
+        const trimmed = value.trim();
+        if (!trimmed) return undefined;
+        const parsed = parseJson(trimmed);
+        if (isRecord(parsed)) record = parsed;
+      }
+      if (!isRecord(record)) return value;
+      const properties = isRecord(schema.properties) ? schema.properties : {};
+      const coerced: Record<string, unknown> = {};
+      for (const [key, entry] of Object.entries(record)) {
+        const propertySchema = properties[key];
+        if (isRecord(propertySchema)) {
+          const next = coerceToSchema(propertySchema, entry, ignored, path ? `${path}.${key}` : key);
+          if (typeof next !== "undefined" && next !== null) coerced[key] = next;
+          else if (next === null && Array.isArray(propertySchema.anyOf)) coerced[key] = null;
+        } else if (schema.additionalProperties === false) {
+          ignored.push(path ? `${path}.${key}` : key);
+        } else {
+          coerced[key] = entry;
+        }
+      }
+      return coerced;
+    }
+    default:
+      return value;
+  }
+}
+
+// Names models reach for instead of the documented ones.
+const ARGUMENT_ALIASES: Partial<Record<ToolName, Record<string, string>>> = {
+  create_note: { type: "noteType", status: "todoStatus" },
+  update_todo_status: { id: "todoId" },
+  sync_blueprint_field: { messageId: "transcriptId" },
+  record_transcript_pointer: {
+    message_id: "messageId",
+    messagePointer: "messageId",
+    pointer: "messageId",
+    messageIds: "messageId",
+    message_ids: "messageId",
+    messages: "messageId",
+    pointers: "messageId",
+    transcript_id: "transcriptId",
+    transcriptPointer: "transcriptId",
+    transcript: "transcriptId",
+    transcriptIds: "transcriptId",
+    transcript_ids: "transcriptId",
+    transcripts: "transcriptId",
+  },
+  queue_draft_update: {
+    message_pointers: "messagePointers",
+    transcript_anchors: "transcriptAnchors",
+    context: "promptContext",
+  },
+};
+
+const applyAliases = (
+  name: ToolName,
+  args: Record<string, unknown>,
+  properties: Record<string, unknown>,
+): Record<string, unknown> => {
+  const aliases = ARGUMENT_ALIASES[name];
+  if (!aliases) return args;
+  const folded: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(args)) {
+    const canonical = aliases[key];
+    if (!canonical) {
+      folded[key] = value;
+      continue;
+    }
+    if (typeof args[canonical] !== "undefined" || typeof folded[canonical] !== "undefined") {
+      continue;
+    }
+    const target = properties[canonical];
+    // A list handed to a single-id field: the first entry is the anchor.
+    folded[canonical] =
+      Array.isArray(value) && isRecord(target) && target.type === "string" ? value[0] : value;
+  }
+  return folded;
+};
+
+const PROJECT_ID_KEYS = [
+  "projectId",
+  "project_id",
+  "projectID",
+  "id",
+  "_id",
+  "documentId",
+  "docId",
+  "valueId",
+  "value_id",
+];
+
+const PROJECT_CONTAINER_KEYS = [
+  "project",
+  "selection",
+  "selected",
+  "target",
+  "data",
+  "payload",
+  "item",
+  "value",
+  "values",
+  "option",
+  "options",
+];
+
+const PROJECT_INDEX_KEYS = ["index", "projectIndex", "selectionIndex", "choice", "option"];
+
+const PROJECT_TITLE_KEYS = ["title", "projectTitle", "name", "projectName"];
+
+const idString = (value: unknown): string | null => {
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : null;
+  }
+  return null;
+};
+
+const findIdInValue = (value: unknown, visited: WeakSet<object>): string | null => {
+  const direct = idString(value);
+  if (direct) return direct;
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      const candidate = findIdInValue(entry, visited);
+      if (candidate) return candidate;
+    }
+    return null;
+  }
+  if (isRecord(value)) {
+    return extractIdFromRecord(value, visited);
+  }
+  return null;
+};
+
+/**
+ * Finds a project id under the keys models use for one, looking inside
+ * common wrappers (`{ project: { _id } }`, `{ selection: [...] }`). Other
+ * fields are not searched, so a title is never mistaken for an id.
+ */
+export function extractIdFromRecord(
+  record: Record<string, unknown>,
+  visited: WeakSet<object> = new WeakSet(),
+): string | null {
+  if (visited.has(record)) return null;
+  visited.add(record);
+  for (const key of [...PROJECT_ID_KEYS, ...PROJECT_CONTAINER_KEYS]) {
+    if (!(key in record)) continue;
+    const candidate = findIdInValue(record[key], visited);
+    if (candidate) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Resolves which project a call is about: an explicit id, then a position
+ * or title among the recently listed projects, then the session's project,
+ * then the first recent project. `fieldNames` are the tool's own schema
+ * fields, which are never read as a title to match on.
+ */
+export function resolveProjectId(
+  args: Record<string, unknown>,
+  context: ToolContext,
+  fieldNames: string[] = [],
+): string {
+  // `value`, `id` and the like are real fields on some tools, not project ids.
+  const candidates = Object.fromEntries(
+    Object.entries(args).filter(([key]) => key === "projectId" || !fieldNames.includes(key)),
+  );
+  const direct = extractIdFromRecord(candidates);
+  if (direct) return direct;
+
+  const recent = context.recentProjects ?? [];
+  for (const key of PROJECT_INDEX_KEYS) {
+    const value = args[key];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      const candidate = recent[Math.max(0, Math.floor(value))];
+      if (candidate) return candidate.projectId;
+    }
+  }
+
+  for (const key of PROJECT_TITLE_KEYS) {
+    if (fieldNames.includes(key)) continue;
+    const value = args[key];
+    if (typeof value !== "string" || !value.trim()) continue;
+    const lowered = value.trim().toLowerCase();
+    const match = recent.find((entry) => {
+      const title = entry.title?.toLowerCase();
+      return title ? title === lowered || title.includes(lowered) : false;
+    });
+    if (match) return match.projectId;
+  }
+
+  if (context.projectId) return context.projectId;
+  if (recent.length > 0) return recent[0]!.projectId;
+  throw new Error("projectId is required");
+}
+
+// Tools that write against the live session rather than just the project.
+const SESSION_TOOLS = new Set<ToolName>([
+  "record_transcript_pointer",
+  "queue_draft_update",
+  "apply_document_edits",
+]);
+
+/** Tools a client should acknowledge at once and run without blocking the conversation. */
+export const BACKGROUND_TOOLS = new Set<ToolName>(["queue_draft_update", "apply_document_edits"]);
+
+const blockedReason = (name: string, mode: SessionInstructionMode) =>
+  mode === "ghostwriting"
+    ? `Tool "${name}" is disabled in ghostwriting mode. Use manage_outline for structure changes and queue_draft_update for content.`
+    : `Tool "${name}" is unavailable in ${mode} mode.`;
+
+/**
+ * Turns a raw tool call into typed arguments, or explains why it cannot run:
+ * unknown tool, not offered in the session's mode, or arguments that still
+ * break the schema after coercion.
+ */
+export function prepareToolCall(
+  rawName: string,
+  rawArgs: unknown,
+  context: ToolContext,
+): PreparedToolCall {
+  const name = normalizeToolName(rawName);
+  const definition = getToolDefinition(name);
+  if (!definition) {
+    return { ok: false, error: `Unknown tool: ${rawName}` };
+  }
+  if (!getToolsForMode(context.mode).some((tool) => tool.name === name)) {
+    return { ok: false, error: blockedReason(rawName, context.mode) };
+  }
+  const toolName = name as ToolName;
+  if (SESSION_TOOLS.has(toolName) && !context.sessionId) {
+    return { ok: false, error: `A session is required for ${toolName}` };
+  }
+
+  const schema = definition.parameters;
+  const properties = isRecord(schema.properties) ? schema.properties : {};
+  const source = isRecord(rawArgs) ? rawArgs : {};
+  let args = applyAliases(toolName, source, properties);
+
+  if ("projectId" in properties) {
+    try {
+      args = { ...args, projectId: resolveProjectId(source, context, Object.keys(properties)) };
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  const ignored: string[] = [];
+  const coerced = coerceToSchema(schema, args, ignored);
+  const errors = validateAgainstSchema(schema, coerced);
+  if (errors.length > 0) {
+    return { ok: false, error: `Invalid arguments for ${toolName}: ${errors.join("; ")}` };
+  }
+  return { ok: true, call: { name: toolName, args: coerced } as ToolCall, ignored };
+}
+
+const summarizeBlueprint = (blueprint: BlueprintDoc | null) => {
+  if (!blueprint) {
+    return {
+      status: "missing",
+      missingFields: [...REQUIRED_BLUEPRINT_FIELDS],
+    };
+  }
+  return {
+    status: blueprint.status ?? "draft",
+    missingFields: REQUIRED_BLUEPRINT_FIELDS.filter(
+      (field) => !blueprintFieldHasValue(blueprint, field),
+    ),
+    updatedAt: blueprint.updatedAt,
+  };
+};
+
+export function makeProjectToolResult({
+  project,
+  blueprint,
+  fallbackId,
+}: {
+  project?: ProjectDoc | null;
+  blueprint?: BlueprintDoc | null;
+  fallbackId?: string | null;
+}): ProjectToolResult {
+  const projectId =
+    project?._id ?? fallbackId ?? (blueprint?.projectId as string | undefined);
+  if (!projectId) {
+    throw new Error("Unable to determine projectId for tool result");
+  }
+  return {
+    projectId,
+    project: project ?? undefined,
+    blueprint: typeof blueprint === "undefined" ? undefined : blueprint ?? null,
+    summary: typeof blueprint === "undefined" ? undefined : summarizeBlueprint(blueprint ?? null),
+  };
+}
+
+export const makeProjectListResult = (entries: ProjectBundle[]): ProjectToolResult[] =>
+  entries.map((entry) => makeProjectToolResult(entry));
+
+const coerceVoiceGuardrails = (value: unknown): VoiceGuardrailsValue | null => {
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    return trimmed ? { tone: trimmed } : null;
+  }
+  if (!isRecord(value)) return null;
+  const guardrails: VoiceGuardrailsValue = {};
+  for (const key of ["tone", "structure", "content"] as const) {
+    const entry = value[key];
+    if (typeof entry === "string" && entry.trim()) {
+      guardrails[key] = entry.trim();
+    }
+  }
+  return Object.keys(guardrails).length > 0 ? guardrails : null;
+};
+
+const summarizeSections = (
+  sections: { heading: string; status?: string; order?: number | null }[],
+): SectionSummary[] =>
+  sections.map((section) => ({
+    heading: section.heading,
+    status: section.status ?? "drafting",
+    order: section.order ?? null,
+  }));
+
+type ToolEnvironment = { ports: ToolPorts; context: ToolContext };
+
+const asProjectId = (value: string) => value as Id<"projects">;
+
+const refreshedProject = async (ports: ToolPorts, projectId: string): Promise<ProjectToolResult> => {
+  const entry = await ports.getProject(asProjectId(projectId));
+  return entry ? makeProjectToolResult(entry) : { projectId };
+};
+
+const resolvePointers = async (
+  ports: ToolPorts,
+  pointers: string[],
+): Promise<Record<string, Id<"messages">>> =>
+  pointers.length > 0 ? ports.resolveMessagePointers(pointers) : {};
+
+const EXECUTORS: {
+  [N in ToolName]: (args: ToolArgsMap[N], env: ToolEnvironment) => Promise<ToolResultMap[N]>;
+} = {
+  list_projects: async (args, { ports }) =>
+    makeProjectListResult(await ports.listProjects(args.limit ?? 20)),
+
+  get_project: async (args, { ports }) => {
+    const entry = await ports.getProject(asProjectId(args.projectId));
+    return entry ? makeProjectToolResult(entry) : null;
+  },
+
+  create_project: async (args, { ports }) =>
+    makeProjectToolResult(
+      await ports.createProject({ title: args.title, contentType: args.contentType, goal: args.goal }),
+    ),
+
+  update_project_metadata: async (args, { ports }) => {
+    await ports.updateProjectMetadata({
+      projectId: asProjectId(args.projectId),
+      title: args.title,
+      contentType: args.contentType,
+      goal: args.goal,
+      status: args.status,
+    });
+    return refreshedProject(ports, args.projectId);
+  },
+
+  sync_blueprint_field: async (args, { ports, context }) => {
+    let value: string | VoiceGuardrailsValue | null;
+    if (args.field === "voiceGuardrails") {
+      value = coerceVoiceGuardrails(args.value);
+    } else if (typeof args.value === "undefined") {
+      throw new Error("value is required for sync_blueprint_field");
+    } else {
+      value = typeof args.value === "string" || args.value === null ? args.value : JSON.stringify(args.value);
+    }
+    const pointer = args.transcriptId;
+    const resolved = await resolvePointers(ports, pointer ? [pointer] : []);
+    await ports.syncBlueprintField({
+      projectId: asProjectId(args.projectId),
+      field: args.field,
+      value,
+      sessionId: context.sessionId ?? undefined,
+      messageId: pointer ? resolved[pointer] : undefined,
+    });
+    return refreshedProject(ports, args.projectId);
+  },
+
+  commit_blueprint: async (args, { ports, context }) =>
+    makeProjectToolResult(
+      await ports.commitBlueprint({
+        projectId: asProjectId(args.projectId),
+        sessionId: context.sessionId ?? undefined,
+      }),
+    ),
+
+  // Attaching the project is session state the client owns; the router only
+  // settles which project was meant and that the caller can see it.
+  assign_project_to_session: async (args, { ports }) => {
+    const entry = await ports.getProject(asProjectId(args.projectId));
+    if (!entry) {
+      throw new Error("Project not found");
+    }
+    return { projectId: entry.project._id };
+  },
+
+  list_notes: async (args, { ports }) =>
+    ports.listNotes({ projectId: asProjectId(args.projectId), limit: args.limit }),
+
+  list_todos: async (args, { ports }) => ports.listTodos(asProjectId(args.projectId)),
+
+  create_note: async (args, { ports, context }) => {
+    if (!args.noteType) {
+      throw new Error("noteType must be one of fact, story, style, voice, todo, summary");
+    }
+    const pointers = [
+      ...(args.messageIds ?? []),
+      ...(args.messageId ? [args.messageId] : []),
+      ...(args.transcriptIds ?? []),
+      ...(args.transcriptId ? [args.transcriptId] : []),
+    ];
+    const resolved = await resolvePointers(ports, pointers);
+    const messageIds = new Set<Id<"messages">>();
+    const unresolved: string[] = [];
+    for (const pointer of pointers) {
+      const messageId = resolved[pointer];
+      if (messageId) messageIds.add(messageId);
+      else unresolved.push(pointer);
+    }
+    // Transcript lines persist asynchronously; the note is still worth keeping.
+    if (unresolved.length > 0) {
+      console.warn(
+        `[tools] create_note: ${unresolved.length} transcript ids not yet persisted`,
+        { unresolved: unresolved.slice(0, 3) },
+      );
+    }
+    return ports.createNote({
+      projectId: asProjectId(args.projectId),
+      sessionId: context.sessionId ?? undefined,
+      noteType: args.noteType,
+      content: args.content,
+      sourceMessageIds: messageIds.size > 0 ? Array.from(messageIds) : undefined,
+      confidence: args.confidence,
+      resolved: args.resolved,
+      todoStatus: args.todoStatus,
+    });
+  },
+
+  update_todo_status: async (args, { ports }) =>
+    ports.updateTodoStatus({ todoId: args.todoId as Id<"todos">, status: args.status }),
+
+  record_transcript_pointer: async (args, { ports, context }) => {
+    const sessionId = context.sessionId;
+    if (!sessionId) {
+      throw new Error("A session is required for record_transcript_pointer");
+    }
+    const pointers = [args.messageId, args.transcriptId].filter(
+      (pointer): pointer is string => typeof pointer === "string",
+    );
+    if (pointers.length === 0) {
+      return { skipped: true, reason: "transcript_not_persisted_yet" };
+    }
+    const resolved = await resolvePointers(ports, pointers);
+    const anchor = pointers.find((pointer) => resolved[pointer]) ?? pointers[0]!;
+    const blueprint = await ports.recordTranscriptPointer({
+      projectId: asProjectId(args.projectId),
+      sessionId,
+      messageId: resolved[anchor] ?? anchor,
+      itemId: anchor,
+    });
+    return makeProjectToolResult({ project: null, blueprint, fallbackId: args.projectId });
+  },
+
+  get_document_workspace: async (args, { ports }) =>
+    ports.getDocumentWorkspace(asProjectId(args.projectId)),
+
+  manage_outline: async (args, { ports }) => {
+    const updated = await ports.manageOutline({
+      projectId: asProjectId(args.projectId),
+      operations: args.operations,
+    });
+    return {
+      projectId: args.projectId,
+      operations: updated.operations,
+      sections: summarizeSections(updated.sections),
+    };
+  },
+
+  queue_draft_update: async (args, { ports, context }) => {
+    const sessionId = context.sessionId;
+    if (!sessionId) {
+      throw new Error("A session is required for queue_draft_update");
+    }
+    const rawPointers = args.messagePointers ?? [];
+    const resolved = await resolvePointers(ports, rawPointers);
+    const pointers = new Set<string>();
+    const anchors = new Set<string>(args.transcriptAnchors ?? []);
+    for (const pointer of rawPointers) {
+      const messageId = resolved[pointer];
+      // Unsaved lines still help the drafter as transcript anchors.
+      if (messageId) pointers.add(messageId);
+      else anchors.add(pointer);
+    }
+    const job = await ports.enqueueDraftUpdate({
+      projectId: asProjectId(args.projectId),
+      sessionId,
+      urgency: args.urgency,
+      messagePointers: pointers.size > 0 ? Array.from(pointers) : undefined,
+      transcriptAnchors: anchors.size > 0 ? Array.from(anchors) : undefined,
+      promptContext: args.promptContext,
+    });
+    return {
+      status: "queued",
+      projectId: args.projectId,
+      jobId: job?._id ?? null,
+      urgency: job?.urgency ?? null,
+      createdAt: job?.createdAt ?? null,
+    };
+  },
+
+  apply_document_edits: async (args, { ports }) => {
+    const updated = await ports.applyDocumentEdits({
+      projectId: asProjectId(args.projectId),
+      markdown: args.markdown,
+      sections: args.sections ?? [],
+      summary: args.summary,
+    });
+    return {
+      status: "completed",
+      projectId: args.projectId,
+      sections: summarizeSections(updated.sections),
+      summary: args.summary ?? null,
+    };
+  },
+};
+
+export async function executeToolCall<N extends ToolName>(
+  call: { name: N; args: ToolArgsMap[N] },
+  ports: ToolPorts,
+  context: ToolContext,
+): Promise<ToolResultMap[N]> {
+  const executor = EXECUTORS[call.name] as (
+    args: ToolArgsMap[N],
+    env: ToolEnvironment,
+  ) => Promise<ToolResultMap[N]>;
+  return executor(call.args, { ports, context });
+}
+
+export type ToolRun = {
+  outcome: ToolOutcome;
+  // The arguments the executor received; null when the call was rejected first.
+  call: ToolCall | null;
+};
+
+/** Prepares and runs one tool call; failures come back as an outcome, never a throw. */
+export async function runTool(
+  name: string,
+  rawArgs: unknown,
+  context: ToolContext,
+  ports: ToolPorts,
+): Promise<ToolRun> {
+  const prepared = prepareToolCall(name, rawArgs, context);
+  if (!prepared.ok) {
+    return { outcome: { success: false, error: prepared.error }, call: null };
+  }
+  if (prepared.ignored.length > 0) {
+    console.warn(`[tools] ${prepared.call.name}: ignored unknown fields`, prepared.ignored);
+  }
+  try {
+    const result = await executeToolCall(prepared.call, ports, context);
+    return { outcome: { success: true, result }, call: prepared.call };
+  } catch (error) {
+    return {
+      outcome: { success: false, error: error instanceof Error ? error.message : String(error) },
+      call: prepared.call,
+    };
+  }
+}
+
+/**
+ * What a client tells the model straight away for a `BACKGROUND_TOOLS` call,
+ * before the work itself finishes.
+ */
+export function acknowledgeToolCall(call: ToolCall, acceptedAt: number): Record<string, unknown> {
+  switch (call.name) {
+    case "queue_draft_update":
+      return {
+        status: "queued",
+        projectId: call.args.projectId,
+        acceptedAt,
+        summary: null,
+        urgency: call.args.urgency ?? null,
+      };
+    case "apply_document_edits":
+      return {
+        status: "queued",
+        projectId: call.args.projectId,
+        acceptedAt,
+        sections: summarizeSections(call.args.sections ?? []),
+        summary: call.args.summary ?? null,
+      };
+    default:
+      return { status: "queued", acceptedAt };
+  }
+}
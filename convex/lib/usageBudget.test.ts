@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  estimateCostUsd,
+  evaluateBudget,
+  monthKey,
+  parseBudgetRange,
+  priceForModel,
+  resolveBudgetLimits,
+} from "./usageBudget";
+
+describe("priceForModel", () => {
+  it("matches the longest model family prefix", () => {
+    expect(priceForModel("gpt-5-nano")).toEqual({ input: 0.05, output: 0.4 });
+    expect(priceForModel("gpt-5-mini-2025-08-07")).toEqual({ input: 0.25, output: 2 });
+    expect(priceForModel("claude-sonnet-4-5")).toEqual({ input: 3, output: 15 });
+    expect(priceForModel("llama3.1")).toBeNull();
+  });
+});
+
+describe("estimateCostUsd", () => {
+  it("prices input and output tokens separately", () => {
+    expect(estimateCostUsd("gpt-5", { inputTokens: 1_000_000, outputTokens: 100_000 })).toBeCloseTo(
+      2.25,
+    );
+    expect(estimateCostUsd("mystery-model", { inputTokens: 10 })).toBeNull();
+  });
+});
+
+describe("monthKey", () => {
+  it("uses the UTC calendar month", () => {
+    expect(monthKey(Date.UTC(2026, 0, 31, 23, 59))).toBe("2026-01");
+    expect(monthKey(Date.UTC(2026, 9, 1))).toBe("2026-10");
+  });
+});
+
+describe("budget limits", () => {
+  it("reads the blueprint budget range", () => {
+    expect(parseBudgetRange("$20-$50 per month")).toEqual({ softUsd: 20, hardUsd: 50 });
+    expect(parseBudgetRange("about $1.5k")).toEqual({ softUsd: 1_200, hardUsd: 1_500 });
+    expect(parseBudgetRange("flexible, ship by Q3")).toEqual({});
+  });
+
+  it("applies a trailing k to both ends of a range", () => {
+    expect(parseBudgetRange("$4-6k")).toEqual({ softUsd: 4_000, hardUsd: 6_000 });
+    expect(parseBudgetRange("$4k-$6k")).toEqual({ softUsd: 4_000, hardUsd: 6_000 });
+  });
+
+  it("ignores numbers outside the dollar range", () => {
+    expect(parseBudgetRange("$4-6k for 2 rounds")).toEqual({ softUsd: 4_000, hardUsd: 6_000 });
+    expect(parseBudgetRange("3 articles, $200 to $300 each")).toEqual({
+      softUsd: 200,
+      hardUsd: 300,
+    });
+  });
+
+  it("prefers limits set on the project", () => {
+    expect(resolveBudgetLimits({ hardUsd: 10 }, "$20-$50")).toEqual({ softUsd: 8, hardUsd: 10 });
+    expect(resolveBudgetLimits({}, "$20-$50")).toEqual({ softUsd: 20, hardUsd: 50 });
+  });
+
+  it("reports which limit has been crossed", () => {
+    const limits = { softUsd: 20, hardUsd: 50 };
+    expect(evaluateBudget(5, limits)).toBe("ok");
+    expect(evaluateBudget(20, limits)).toBe("soft");
+    expect(evaluateBudget(50, limits)).toBe("hard");
+    expect(evaluateBudget(1_000, {})).toBe("ok");
+  });
+});
@@ -0,0 +1,133 @@
+import type { ModelProviderId } from "./modelProviders";
+
+export type TokenUsage = {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+};
+
+export type ModelPrice = {
+  // USD per million tokens.
+  input: number;
+  output: number;
+};
+
+// List prices for the models the providers default to, plus their cheaper
+// siblings. Lookups match the longest prefix, so dated snapshots
+// ("gpt-5-mini-2025-08-07") price like their family.
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  fixture: { input: 0, output: 0 },
+};
+
+// What a soft-limited project drafts with instead of its configured model.
+export const ECONOMY_MODELS: Partial<Record<ModelProviderId, string>> = {
+  openai: "gpt-5-nano",
+  anthropic: "claude-haiku-4-5",
+};
+
+export function priceForModel(model: string | null | undefined): ModelPrice | null {
+  const name = (model ?? "").trim().toLowerCase();
+  if (!name) return null;
+  let match: string | null = null;
+  for (const key of Object.keys(MODEL_PRICING)) {
+    if ((name === key || name.startsWith(`${key}-`)) && (!match || key.length > match.length)) {
+      match = key;
+    }
+  }
+  return match ? MODEL_PRICING[match]! : null;
+}
+
+/** Cost in USD, or null when the model is not in the pricing table. */
+export function estimateCostUsd(model: string | null | undefined, usage: TokenUsage) {
+  const price = priceForModel(model);
+  if (!price) return null;
+  return (
+    ((usage.inputTokens ?? 0) * price.input + (usage.outputTokens ?? 0) * price.output) /
+    1_000_000
+  );
+}
+
+/** Calendar month in UTC, e.g. "2026-10"; ledgers reset on the first. */
+export function monthKey(timestamp: number) {
+  const date = new Date(timestamp);
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+export type BudgetLimits = {
+  softUsd?: number;
+  hardUsd?: number;
+};
+
+// The soft limit when only a ceiling is known.
+const DEFAULT_SOFT_RATIO = 0.8;
+
+const withDefaultSoft = (limits: BudgetLimits): BudgetLimits =>
+  limits.hardUsd !== undefined && limits.softUsd === undefined
+    ? { ...limits, softUsd: limits.hardUsd * DEFAULT_SOFT_RATIO }
+    : limits;
+
+// One amount, or two joined by a dash or "to"; "k" means thousands. Groups:
+// currency, amount, k for each end, then an optional trailing currency word.
+const AMOUNT = String.raw`(\$|usd\s+)?\s*(\d+(?:\.\d+)?)\s*(k\b)?`;
+const BUDGET_PATTERN = new RegExp(
+  String.raw`${AMOUNT}(?:\s*(?:-|–|—|to)\s*${AMOUNT})?\s*(usd\b|dollars?\b)?`,
+  "gi",
+);
+
+/**
+ * Read limits out of the blueprint's free-text `budgetRange`: "$20-$50"
+ * gives a soft limit of 20 and a hard limit of 50; a single amount is the
+ * hard limit. A trailing "k" covers both ends ("$4-6k" is 4000-6000). Only
+ * the first amount marked as dollars counts, so "$4-6k for 2 rounds" ignores
+ * the 2; text without one ("flexible", "Q3") yields no limits.
+ */
+export function parseBudgetRange(text: string | null | undefined): BudgetLimits {
+  for (const match of (text ?? "").replace(/,/g, "").matchAll(BUDGET_PATTERN)) {
+    const [, lowCurrency, lowText, lowK, highCurrency, highText, highK, currencyWord] = match;
+    if (!lowCurrency && !highCurrency && !currencyWord) continue;
+
+    const low = Number(lowText) * (lowK || highK ? 1_000 : 1);
+    const high = highText ? Number(highText) * (highK ? 1_000 : 1) : undefined;
+    const amounts = [low, high].filter(
+      (amount): amount is number => amount !== undefined && Number.isFinite(amount) && amount > 0,
+    );
+    if (amounts.length === 0) return {};
+    if (amounts.length === 1) return withDefaultSoft({ hardUsd: amounts[0] });
+    return { softUsd: Math.min(...amounts), hardUsd: Math.max(...amounts) };
+  }
+  return {};
+}
+
+/** Limits set on the project replace the blueprint's `budgetRange` entirely. */
+export function resolveBudgetLimits(
+  explicit: BudgetLimits,
+  budgetRange?: string | null,
+): BudgetLimits {
+  if (explicit.softUsd === undefined && explicit.hardUsd === undefined) {
+    return parseBudgetRange(budgetRange);
+  }
+  return withDefaultSoft(explicit);
+}
+
+export type BudgetState = "ok" | "soft" | "hard";
+
+export function evaluateBudget(spentUsd: number, limits: BudgetLimits): BudgetState {
+  if (limits.hardUsd !== undefined && spentUsd >= limits.hardUsd) return "hard";
+  if (limits.softUsd !== undefined && spentUsd >= limits.softUsd) return "soft";
+  return "ok";
+}
+
+/** The more restrictive of two budget states. */
+export const worstBudgetState = (a: BudgetState, b: BudgetState): BudgetState =>
+  a === "hard" || b === "hard" ? "hard" : a === "soft" || b === "soft" ? "soft" : "ok";
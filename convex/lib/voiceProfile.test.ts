@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  analyzeVoice,
+  formatVoiceProfileForPrompt,
+  resolveVoiceProfile,
+  type LearnedVoice,
+} from "./voiceProfile";
+
+const casualTurns = [
+  "Yeah so honestly the thing is, we kinda just shipped it. At the end of the day it's about momentum.",
+  "Um, I mean, we didn't overthink it. Ship it, learn, repeat. At the end of the day that's the job.",
+  "You know, the team's gonna figure it out. Honestly, at the end of the day people want to win.",
+  "It's super simple. We talk to customers every week and honestly that's most of the strategy.",
+  "We'd rather be wrong fast. I mean, that's the whole point, right? Customers tell you what matters.",
+  "Okay so the first hire was a designer, which sounds weird, but honestly customers noticed right away.",
+];
+
+const formalTurns = [
+  "Our organisation adopted asynchronous communication in 2019; however, the transition required considerable deliberation regarding documentation standards.",
+  "Consequently, each team now maintains a written decision record, which is reviewed quarterly by the operations committee and archived for subsequent reference.",
+  "Moreover, the committee established explicit expectations regarding response latency, thereby reducing the ambiguity that previously characterised cross-regional collaboration.",
+  "Nevertheless, certain functions, notably incident response, continue to require synchronous coordination, and therefore retain dedicated escalation channels.",
+  "The principal benefit has been a measurable reduction in meeting hours, accompanied by improved clarity regarding ownership of strategic initiatives across the organisation.",
+  "Accordingly, we recommend that comparable organisations document their existing decision pathways before introducing asynchronous tooling or revising meeting cadences.",
+];
+
+describe("analyzeVoice", () => {
+  it("needs enough speech before it says anything", () => {
+    expect(analyzeVoice(["Hi there, nice to meet you."], { sessionCount: 1, now: 0 })).toBeNull();
+  });
+
+  it("tells casual speech from formal speech", () => {
+    const casual = analyzeVoice([...casualTurns, ...casualTurns], { sessionCount: 2, now: 1 })!;
+    const formal = analyzeVoice([...formalTurns, ...formalTurns], { sessionCount: 2, now: 1 })!;
+
+    expect(casual.formality).toBe("casual");
+    expect(formal.formality).toBe("formal");
+    expect(casual.sentenceLength).toBe("short");
+    expect(formal.avgSentenceWords).toBeGreaterThan(casual.avgSentenceWords * 1.5);
+    expect(casual.sampleTurns).toBe(12);
+  });
+
+  it("finds repeated phrases and characteristic words, ignoring fillers", () => {
+    const learned = analyzeVoice(casualTurns.concat(casualTurns), { sessionCount: 1, now: 1 })!;
+    expect(learned.signaturePhrases).toContain("at the end of the day");
+    expect(learned.signaturePhrases).not.toContain("end of the day");
+    expect(learned.characteristicWords).toContain("honestly");
+    expect(learned.characteristicWords).not.toContain("um");
+  });
+});
+
+describe("resolveVoiceProfile", () => {
+  const learned: LearnedVoice = {
+    formality: "casual",
+    formalityScore: 0.2,
+    sentenceLength: "short",
+    avgSentenceWords: 9.4,
+    vocabularyRichness: 0.62,
+    characteristicWords: ["honestly", "customers"],
+    signaturePhrases: ["at the end of the day"],
+    sampleTurns: 40,
+    sampleWords: 900,
+    sessionCount: 3,
+    analyzedAt: 1,
+  };
+
+  it("lets edits win over learned values", () => {
+    const profile = resolveVoiceProfile({
+      learned,
+      overrides: { formality: "conversational", avoidPhrases: ["synergy"], notes: "  No emojis. " },
+    })!;
+    expect(profile.formality).toBe("conversational");
+    expect(profile.sentenceLength).toBe("short");
+    expect(profile.signaturePhrases).toEqual(["at the end of the day"]);
+    expect(formatVoiceProfileForPrompt(profile)).toBe(
+      [
+        "Formality: conversational.",
+        "Sentences: short, punchy sentences (about 9 words when speaking).",
+        "Words they reach for: honestly, customers.",
+        'Signature phrases (use sparingly, where natural): "at the end of the day".',
+        'Never use: "synergy".',
+        "Client's own notes on their voice: No emojis.",
+      ].join("\n"),
+    );
+  });
+
+  it("is empty until something is learned or edited", () => {
+    expect(resolveVoiceProfile(undefined)).toBeNull();
+    expect(resolveVoiceProfile({})).toBeNull();
+  });
+});
@@ -0,0 +1,302 @@
+import { v, type Infer } from "convex/values";
+
+export const FORMALITY_LEVELS = ["casual", "conversational", "formal"] as const;
+export type Formality = (typeof FORMALITY_LEVELS)[number];
+
+export const SENTENCE_LENGTHS = ["short", "medium", "long"] as const;
+export type SentenceLength = (typeof SENTENCE_LENGTHS)[number];
+
+const FORMALITY_VALIDATOR = v.union(
+  v.literal("casual"),
+  v.literal("conversational"),
+  v.literal("formal"),
+);
+
+const SENTENCE_LENGTH_VALIDATOR = v.union(
+  v.literal("short"),
+  v.literal("medium"),
+  v.literal("long"),
+);
+
+// What the analyzer measured from the client's own turns.
+export const LEARNED_VOICE_VALIDATOR = v.object({
+  formality: FORMALITY_VALIDATOR,
+  // 0 (very casual) to 1 (very formal).
+  formalityScore: v.number(),
+  sentenceLength: SENTENCE_LENGTH_VALIDATOR,
+  avgSentenceWords: v.number(),
+  // Distinct words per word, averaged over fixed windows so long samples compare fairly.
+  vocabularyRichness: v.number(),
+  characteristicWords: v.array(v.string()),
+  signaturePhrases: v.array(v.string()),
+  sampleTurns: v.number(),
+  sampleWords: v.number(),
+  sessionCount: v.number(),
+  analyzedAt: v.number(),
+});
+
+// What the client changed by hand; wins over the learned values.
+export const VOICE_OVERRIDE_FIELDS = {
+  formality: v.optional(FORMALITY_VALIDATOR),
+  sentenceLength: v.optional(SENTENCE_LENGTH_VALIDATOR),
+  characteristicWords: v.optional(v.array(v.string())),
+  signaturePhrases: v.optional(v.array(v.string())),
+  avoidPhrases: v.optional(v.array(v.string())),
+  notes: v.optional(v.string()),
+};
+
+export const VOICE_OVERRIDES_VALIDATOR = v.object({
+  ...VOICE_OVERRIDE_FIELDS,
+  editedAt: v.optional(v.number()),
+});
+
+export const VOICE_PROFILE_VALIDATOR = v.object({
+  learned: v.optional(LEARNED_VOICE_VALIDATOR),
+  overrides: v.optional(VOICE_OVERRIDES_VALIDATOR),
+});
+
+export type LearnedVoice = Infer<typeof LEARNED_VOICE_VALIDATOR>;
+export type VoiceOverrides = Infer<typeof VOICE_OVERRIDES_VALIDATOR>;
+export type StoredVoiceProfile = Infer<typeof VOICE_PROFILE_VALIDATOR>;
+
+export type VoiceProfile = {
+  formality: Formality;
+  sentenceLength: SentenceLength;
+  avgSentenceWords: number | null;
+  vocabularyRichness: number | null;
+  characteristicWords: string[];
+  signaturePhrases: string[];
+  avoidPhrases: string[];
+  notes: string | null;
+};
+
+// Below this the measurements are mostly noise.
+export const MIN_VOICE_SAMPLE_WORDS = 150;
+
+const RICHNESS_WINDOW = 100;
+const MAX_CHARACTERISTIC_WORDS = 12;
+const MAX_SIGNATURE_PHRASES = 8;
+const MIN_PHRASE_OCCURRENCES = 3;
+const MAX_PHRASE_WORDS = 6;
+
+const STOP_WORDS = new Set(
+  (
+    "a an the and or but so if then than that this these those there here of to in on at by for with from " +
+    "about into over after before as is am are was were be been being have has had do does did not no " +
+    "it its it's i i'm i've i'd i'll me my we we're our us you you're your he she him her they them their " +
+    "what which who when where why how all any some more most very just also can could would should will " +
+    "get got going go one two really thing things lot"
+  ).split(" "),
+);
+
+// Contractions say more about formality than about vocabulary.
+const isStopWord = (word: string) => STOP_WORDS.has(word) || word.includes("'");
+
+// Speech disfluencies the transcriber keeps; they are not part of the written voice.
+const FILLERS = new Set(["um", "uh", "erm", "hmm", "mm", "mhm", "ah", "oh"]);
+
+const CASUAL_MARKERS = [
+  /\b(?:kinda|gonna|wanna|gotta|yeah|yep|nope|okay|ok|cool|stuff|guys|awesome|super)\b/g,
+  /\b(?:you know|i mean|sort of|kind of)\b/g,
+];
+
+const FORMAL_MARKERS =
+  /\b(?:therefore|however|moreover|furthermore|consequently|nevertheless|regarding|whereas|thus|hence|accordingly|notably)\b/g;
+
+const CONTRACTION = /\b\w+'(?:s|re|ve|ll|d|t|m)\b/g;
+
+const clean = (value: string) => value.replace(/\s+/g, " ").trim();
+
+const wordsOf = (text: string) =>
+  (text.toLowerCase().replace(/[’‘]/g, "'").match(/[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu) ?? []).filter(
+    (word) => !FILLERS.has(word),
+  );
+
+const sentencesOf = (text: string) =>
+  text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => wordsOf(sentence).length > 0);
+
+const countMatches = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+const round = (value: number, places = 2) => Number(value.toFixed(places));
+
+export function sentenceLengthBand(avgWords: number): SentenceLength {
+  if (avgWords < 12) return "short";
+  if (avgWords < 22) return "medium";
+  return "long";
+}
+
+export function formalityBand(score: number): Formality {
+  if (score < 0.35) return "casual";
+  if (score < 0.65) return "conversational";
+  return "formal";
+}
+
+/**
+ * Markers per hundred words, mapped onto 0–1. Contractions and casual
+ * markers pull down, connective words like "however" pull up, and long
+ * sentences nudge up a little.
+ */
+function formalityScore(text: string, wordCount: number, avgSentenceWords: number) {
+  const lower = text.toLowerCase().replace(/[’‘]/g, "'");
+  const per100 = (count: number) => (count / Math.max(wordCount, 1)) * 100;
+  const casual =
+    per100(countMatches(lower, CONTRACTION)) +
+    2 * CASUAL_MARKERS.reduce((sum, pattern) => sum + per100(countMatches(lower, pattern)), 0);
+  const formal = 4 * per100(countMatches(lower, FORMAL_MARKERS));
+  const lengthNudge = Math.max(-0.1, Math.min(0.1, (avgSentenceWords - 16) / 80));
+  const score = 0.55 + formal / 20 - casual / 20 + lengthNudge;
+  return round(Math.max(0, Math.min(1, score)));
+}
+
+/** Formality of written or spoken text on the same 0–1 scale the profile uses. */
+export function measureFormality(text: string) {
+  const words = wordsOf(text);
+  const sentences = sentencesOf(text);
+  return formalityScore(text, words.length, words.length / Math.max(sentences.length, 1));
+}
+
+function vocabularyRichness(words: string[]) {
+  if (words.length === 0) return 0;
+  if (words.length <= RICHNESS_WINDOW) return round(new Set(words).size / words.length);
+  let total = 0;
+  let windows = 0;
+  for (let start = 0; start + RICHNESS_WINDOW <= words.length; start += RICHNESS_WINDOW) {
+    total += new Set(words.slice(start, start + RICHNESS_WINDOW)).size / RICHNESS_WINDOW;
+    windows += 1;
+  }
+  return round(total / windows);
+}
+
+const topByCount = (counts: Map<string, number>, limit: number, minCount = 1) =>
+  [...counts.entries()]
+    .filter(([, count]) => count >= minCount)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([key]) => key);
+
+function characteristicWords(words: string[]) {
+  const counts = new Map<string, number>();
+  for (const word of words) {
+    if (word.length < 4 || isStopWord(word) || /^\d+$/.test(word)) continue;
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  return topByCount(counts, MAX_CHARACTERISTIC_WORDS, 2);
+}
+
+/**
+ * Repeated 2–6 word runs within a turn. A phrase may not be all stop words or
+ * start and end on one, and a shorter phrase inside a kept longer one is dropped.
+ */
+function signaturePhrases(turnWords: string[][]) {
+  const counts = new Map<string, number>();
+  for (const words of turnWords) {
+    for (let size = 2; size <= MAX_PHRASE_WORDS; size += 1) {
+      for (let start = 0; start + size <= words.length; start += 1) {
+        const gram = words.slice(start, start + size);
+        if (gram.every(isStopWord)) continue;
+        if (isStopWord(gram[0]!) && isStopWord(gram[gram.length - 1]!)) continue;
+        const key = gram.join(" ");
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    }
+  }
+  const candidates = [...counts.entries()]
+    .filter(([, count]) => count >= MIN_PHRASE_OCCURRENCES)
+    // Longer phrases first at equal counts, so they absorb their sub-phrases.
+    .sort((a, b) => b[1] - a[1] || b[0].length - a[0].length);
+  const kept: string[] = [];
+  for (const [phrase, count] of candidates) {
+    const absorbed = kept.some(
+      (longer) => ` ${longer} `.includes(` ${phrase} `) && (counts.get(longer) ?? 0) >= count * 0.6,
+    );
+    if (!absorbed) kept.push(phrase);
+    if (kept.length === MAX_SIGNATURE_PHRASES) break;
+  }
+  return kept;
+}
+
+/**
+ * Measure the voice in the client's transcribed turns. Returns null when
+ * there is too little speech to say anything.
+ */
+export function analyzeVoice(
+  turns: string[],
+  { sessionCount, now }: { sessionCount: number; now: number },
+): LearnedVoice | null {
+  const texts = turns.map(clean).filter(Boolean);
+  const turnWords = texts.map(wordsOf);
+  const words = turnWords.flat();
+  if (words.length < MIN_VOICE_SAMPLE_WORDS) return null;
+
+  const sentences = texts.flatMap(sentencesOf);
+  const avgSentenceWords = round(words.length / Math.max(sentences.length, 1), 1);
+  const score = formalityScore(texts.join(" "), words.length, avgSentenceWords);
+
+  return {
+    formality: formalityBand(score),
+    formalityScore: score,
+    sentenceLength: sentenceLengthBand(avgSentenceWords),
+    avgSentenceWords,
+    vocabularyRichness: vocabularyRichness(words),
+    characteristicWords: characteristicWords(words),
+    signaturePhrases: signaturePhrases(turnWords),
+    sampleTurns: texts.length,
+    sampleWords: words.length,
+    sessionCount,
+    analyzedAt: now,
+  };
+}
+
+/** The profile the drafter uses: learned values with the client's edits on top. */
+export function resolveVoiceProfile(
+  stored: StoredVoiceProfile | null | undefined,
+): VoiceProfile | null {
+  const learned = stored?.learned;
+  const overrides = stored?.overrides;
+  if (!learned && !overrides) return null;
+  return {
+    formality: overrides?.formality ?? learned?.formality ?? "conversational",
+    sentenceLength: overrides?.sentenceLength ?? learned?.sentenceLength ?? "medium",
+    avgSentenceWords: learned?.avgSentenceWords ?? null,
+    vocabularyRichness: learned?.vocabularyRichness ?? null,
+    characteristicWords: overrides?.characteristicWords ?? learned?.characteristicWords ?? [],
+    signaturePhrases: overrides?.signaturePhrases ?? learned?.signaturePhrases ?? [],
+    avoidPhrases: overrides?.avoidPhrases ?? [],
+    notes: overrides?.notes?.trim() || null,
+  };
+}
+
+const SENTENCE_GUIDANCE: Record<SentenceLength, string> = {
+  short: "short, punchy sentences",
+  medium: "medium-length sentences",
+  long: "long, layered sentences",
+};
+
+const quoteList = (items: string[]) => items.map((item) => `"${item}"`).join(", ");
+
+export function formatVoiceProfileForPrompt(profile: VoiceProfile): string {
+  const lines = [
+    `Formality: ${profile.formality}.`,
+    `Sentences: ${SENTENCE_GUIDANCE[profile.sentenceLength]}${
+      profile.avgSentenceWords !== null ? ` (about ${Math.round(profile.avgSentenceWords)} words when speaking)` : ""
+    }.`,
+  ];
+  if (profile.characteristicWords.length > 0) {
+    lines.push(`Words they reach for: ${profile.characteristicWords.join(", ")}.`);
+  }
+  if (profile.signaturePhrases.length > 0) {
+    lines.push(
+      `Signature phrases (use sparingly, where natural): ${quoteList(profile.signaturePhrases)}.`,
+    );
+  }
+  if (profile.avoidPhrases.length > 0) {
+    lines.push(`Never use: ${quoteList(profile.avoidPhrases)}.`);
+  }
+  if (profile.notes) {
+    lines.push(`Client's own notes on their voice: ${clean(profile.notes)}`);
+  }
+  return lines.join("\n");
+}
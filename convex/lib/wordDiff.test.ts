@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+
+import { countChangedWords, diffWords, type WordDiffSegment } from "./wordDiff";
+
+const join = (segments: WordDiffSegment[], skip: WordDiffSegment["type"]) =>
+  segments
+    .filter((segment) => segment.type !== skip)
+    .map((segment) => segment.text)
+    .join("");
+
+describe("diffWords", () => {
+  it("marks replaced words and keeps the surrounding text equal", () => {
+    const segments = diffWords(
+      "Remote teams ship slowly without rituals.",
+      "Remote teams ship faster with clear rituals.",
+    );
+
+    expect(segments).toEqual([
+      { type: "equal", text: "Remote teams ship " },
+      { type: "removed", text: "slowly without" },
+      { type: "added", text: "faster with clear" },
+      { type: "equal", text: " rituals." },
+    ]);
+    expect(countChangedWords(segments)).toEqual({ added: 3, removed: 2 });
+  });
+
+  it("reproduces both versions from the segments", () => {
+    const before = "One paragraph.\n\nA second one that stays.";
+    const after = "One longer paragraph.\n\nA second one that stays.\n\nAnd a new ending.";
+    const segments = diffWords(before, after);
+
+    expect(join(segments, "added")).toBe(before);
+    expect(join(segments, "removed")).toBe(after);
+  });
+
+  it("treats a new section as a single addition", () => {
+    expect(diffWords("", "Fresh copy.")).toEqual([{ type: "added", text: "Fresh copy." }]);
+    expect(diffWords("Same.", "Same.")).toEqual([{ type: "equal", text: "Same." }]);
+  });
+});
@@ -0,0 +1,134 @@
+export type WordDiffSegment = {
+  type: "equal" | "added" | "removed";
+  text: string;
+};
+
+// Above this many LCS cells the changed span is shown as one replacement.
+const MAX_DIFF_CELLS = 4_000_000;
+
+const tokenize = (text: string) => text.match(/\s+|\S+/g) ?? [];
+
+const isWhitespace = (token: string) => /^\s+$/.test(token);
+
+function pushSegment(segments: WordDiffSegment[], type: WordDiffSegment["type"], text: string) {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Word-level diff between two versions of a section. Whitespace runs are kept
+ * as their own tokens so joining the "equal" and "added" segments reproduces
+ * `after`, and joining "equal" and "removed" reproduces `before`.
+ */
+export function diffWords(before: string, after: string): WordDiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const segments: WordDiffSegment[] = [];
+  pushSegment(segments, "equal", a.slice(0, prefix).join(""));
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+
+  if (rows * cols > MAX_DIFF_CELLS) {
+    pushSegment(segments, "removed", midA.join(""));
+    pushSegment(segments, "added", midB.join(""));
+  } else {
+    // lcs[i * cols + j] = length of the LCS of midA[i..] and midB[j..].
+    const lcs = new Uint32Array(rows * cols);
+    for (let i = midA.length - 1; i >= 0; i -= 1) {
+      for (let j = midB.length - 1; j >= 0; j -= 1) {
+        lcs[i * cols + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * cols + j + 1] + 1
+            : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, "equal", midA[i]!);
+        i += 1;
+        j += 1;
+      } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+        pushSegment(segments, "removed", midA[i]!);
+        i += 1;
+      } else {
+        pushSegment(segments, "added", midB[j]!);
+        j += 1;
+      }
+    }
+    pushSegment(segments, "removed", midA.slice(i).join(""));
+    pushSegment(segments, "added", midB.slice(j).join(""));
+  }
+
+  pushSegment(segments, "equal", a.slice(a.length - suffix).join(""));
+  return coalesceChanges(segments);
+}
+
+/**
+ * Fold lone whitespace between two changes into the change, so a rewritten
+ * phrase reads as one removal followed by one addition rather than a
+ * word-by-word interleaving.
+ */
+function coalesceChanges(segments: WordDiffSegment[]) {
+  const result: WordDiffSegment[] = [];
+  let removed = "";
+  let added = "";
+  const flush = () => {
+    pushSegment(result, "removed", removed);
+    pushSegment(result, "added", added);
+    removed = "";
+    added = "";
+  };
+
+  segments.forEach((segment, index) => {
+    const bridgesChanges =
+      segment.type === "equal" &&
+      isWhitespace(segment.text) &&
+      index > 0 &&
+      index < segments.length - 1;
+    if (segment.type === "removed" || bridgesChanges) removed += segment.text;
+    if (segment.type === "added" || bridgesChanges) added += segment.text;
+    if (segment.type === "equal" && !bridgesChanges) {
+      flush();
+      pushSegment(result, "equal", segment.text);
+    }
+  });
+  flush();
+  return result;
+}
+
+export function countChangedWords(segments: WordDiffSegment[]) {
+  let added = 0;
+  let removed = 0;
+  for (const segment of segments) {
+    if (segment.type === "equal") continue;
+    const words = tokenize(segment.text).filter((token) => !isWhitespace(token)).length;
+    if (segment.type === "added") added += words;
+    else removed += words;
+  }
+  return { added, removed };
+}
@@ -1,7 +1,11 @@
-import { mutation, query } from "./_generated/server";
-import type { Doc } from "./_generated/dataModel";
+import { internalQuery, mutation, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
 import { v } from "convex/values";
 
+import { internal } from "./_generated/api";
+import { loadOwnedSession } from "./utils";
+
 export const appendMessage = mutation({
   args: {
     sessionId: v.id("sessions"),
@@ -12,6 +16,7 @@ export const appendMessage = mutation({
     itemId: v.optional(v.string()),
     role: v.optional(v.string()),
     text: v.optional(v.string()),
+    audioOffsetMs: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const tags = new Set<string>();
@@ -33,32 +38,52 @@ export const appendMessage = mutation({
       }
     }
 
+    const session = await loadOwnedSession(ctx, args.sessionId);
     const messageId = await ctx.db.insert("messages", {
       sessionId: args.sessionId,
+      projectId: session.projectId,
       speaker: args.speaker,
       transcript: args.transcript,
       timestamp: args.timestamp,
       tags: tags.size > 0 ? Array.from(tags) : undefined,
       role: args.role ?? args.speaker,
       text: args.text ?? args.transcript,
+      audioOffsetMs: args.audioOffsetMs,
     });
+    if (session.projectId) {
+      await ctx.scheduler.runAfter(0, internal.embeddings.embedSources, {
+        messageIds: [messageId],
+      });
+    }
     return { messageId };
   },
 });
 
+async function listSessionMessages(ctx: QueryCtx, sessionId: Id<"sessions">) {
+  const messages = await ctx.db
+    .query("messages")
+    .withIndex("by_session", (q) => q.eq("sessionId", sessionId))
+    .collect();
+
+  const sorted = [...messages].sort(
+    (a: Doc<"messages">, b: Doc<"messages">) => a.timestamp - b.timestamp,
+  );
+  return sorted;
+}
+
 export const listForSession = query({
   args: {
     sessionId: v.id("sessions"),
   },
   handler: async (ctx, args) => {
-    const messages = await ctx.db
-      .query("messages")
-      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
-      .collect();
+    await loadOwnedSession(ctx, args.sessionId);
+    return listSessionMessages(ctx, args.sessionId);
+  },
+});
 
-    const sorted = [...messages].sort(
-      (a: Doc<"messages">, b: Doc<"messages">) => a.timestamp - b.timestamp,
-    );
-    return sorted;
+export const listForSessionInternal = internalQuery({
+  args: {
+    sessionId: v.id("sessions"),
   },
+  handler: (ctx, args) => listSessionMessages(ctx, args.sessionId),
 });
@@ -1,6 +1,10 @@
-import { mutation, query } from "./_generated/server";
+import { internalQuery, mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
 import type { Doc, Id } from "./_generated/dataModel";
-import { v } from "convex/values";
+import { v, type ObjectType } from "convex/values";
+
+import { internal } from "./_generated/api";
+import { requireProjectAccess } from "./utils";
 
 const NOTE_TYPE = v.union(
   v.literal("fact"),
@@ -11,76 +15,103 @@ const NOTE_TYPE = v.union(
   v.literal("summary"),
 );
 
+const LIST_ARGS = {
+  projectId: v.id("projects"),
+  limit: v.optional(v.number()),
+};
+
+async function listNotes(
+  ctx: QueryCtx,
+  args: { projectId: Id<"projects">; limit?: number },
+) {
+  const notes = await ctx.db
+    .query("notes")
+    .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+    .collect();
+
+  const sorted = notes.sort((a, b) => b.createdAt - a.createdAt);
+  if (typeof args.limit === "number" && args.limit > 0) {
+    return sorted.slice(0, args.limit);
+  }
+  return sorted;
+}
+
 export const listForProject = query({
-  args: {
-    projectId: v.id("projects"),
-    limit: v.optional(v.number()),
-  },
+  args: LIST_ARGS,
   handler: async (ctx, args) => {
-    const notes = await ctx.db
-      .query("notes")
-      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
-      .collect();
-
-    const sorted = notes.sort((a, b) => b.createdAt - a.createdAt);
-    if (typeof args.limit === "number" && args.limit > 0) {
-      return sorted.slice(0, args.limit);
-    }
-    return sorted;
+    await requireProjectAccess(ctx, args.projectId);
+    return listNotes(ctx, args);
   },
 });
 
-export const createNote = mutation({
-  args: {
-    projectId: v.id("projects"),
-    sessionId: v.optional(v.id("sessions")),
-    noteType: NOTE_TYPE,
-    content: v.string(),
-    sourceMessageIds: v.optional(v.array(v.id("messages"))),
-    confidence: v.optional(v.number()),
-    resolved: v.optional(v.boolean()),
-    todoStatus: v.optional(
-      v.union(v.literal("open"), v.literal("in_review"), v.literal("resolved")),
-    ),
-  },
-  handler: async (ctx, args) => {
-    const now = Date.now();
-    const noteId = await ctx.db.insert("notes", {
+export const listForProjectInternal = internalQuery({
+  args: LIST_ARGS,
+  handler: listNotes,
+});
+
+const CREATE_NOTE_ARGS = {
+  projectId: v.id("projects"),
+  sessionId: v.optional(v.id("sessions")),
+  noteType: NOTE_TYPE,
+  content: v.string(),
+  sourceMessageIds: v.optional(v.array(v.id("messages"))),
+  confidence: v.optional(v.number()),
+  resolved: v.optional(v.boolean()),
+  todoStatus: v.optional(
+    v.union(v.literal("open"), v.literal("in_review"), v.literal("resolved")),
+  ),
+};
+
+/**
+ * Insert a note, plus its `todos` row for TODO notes. Callers check access;
+ * other modules use this to raise TODOs the same way `createNote` does.
+ */
+export async function insertNote(ctx: MutationCtx, args: ObjectType<typeof CREATE_NOTE_ARGS>) {
+  const now = Date.now();
+  const noteId = await ctx.db.insert("notes", {
+    projectId: args.projectId,
+    sessionId: args.sessionId,
+    noteType: args.noteType,
+    content: args.content,
+    sourceMessageIds: args.sourceMessageIds,
+    confidence: args.confidence,
+    resolved:
+      typeof args.resolved === "boolean"
+        ? args.resolved
+        : args.noteType === "todo"
+          ? false
+          : undefined,
+    createdAt: now,
+  });
+
+  const note = await ctx.db.get(noteId);
+  if (!note) {
+    throw new Error("Failed to load note after insert");
+  }
+  await ctx.scheduler.runAfter(0, internal.embeddings.embedSources, { noteIds: [noteId] });
+
+  let todo: Doc<"todos"> | null = null;
+  if (note.noteType === "todo") {
+    const status = args.todoStatus ?? "open";
+    const todoId = await ctx.db.insert("todos", {
       projectId: args.projectId,
-      sessionId: args.sessionId,
-      noteType: args.noteType,
-      content: args.content,
-      sourceMessageIds: args.sourceMessageIds,
-      confidence: args.confidence,
-      resolved:
-        typeof args.resolved === "boolean"
-          ? args.resolved
-          : args.noteType === "todo"
-            ? false
-            : undefined,
+      label: note.content,
+      status,
       createdAt: now,
+      resolvedAt: status === "resolved" ? now : undefined,
+      noteId,
     });
+    todo = await ctx.db.get(todoId);
+  }
 
-    const note = await ctx.db.get(noteId);
-    if (!note) {
-      throw new Error("Failed to load note after insert");
-    }
+  return { note, todo };
+}
 
-    let todo: Doc<"todos"> | null = null;
-    if (note.noteType === "todo") {
-      const status = args.todoStatus ?? "open";
-      const todoId = await ctx.db.insert("todos", {
-        projectId: args.projectId,
-        label: note.content,
-        status,
-        createdAt: now,
-        resolvedAt: status === "resolved" ? now : undefined,
-        noteId,
-      });
-      todo = await ctx.db.get(todoId);
-    }
-
-    return { note, todo };
+export const createNote = mutation({
+  args: CREATE_NOTE_ARGS,
+  handler: async (ctx, args) => {
+    await requireProjectAccess(ctx, args.projectId, "comment");
+    return insertNote(ctx, args);
   },
 });
 
@@ -90,6 +121,12 @@ export const updateNoteResolution = mutation({
     resolved: v.boolean(),
   },
   handler: async (ctx, args) => {
+    const note = await ctx.db.get(args.noteId);
+    if (!note) {
+      throw new Error("Note not found");
+    }
+    await requireProjectAccess(ctx, note.projectId, "resolveTodos");
+
     await ctx.db.patch(args.noteId, {
       resolved: args.resolved,
     });
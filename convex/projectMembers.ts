@@ -0,0 +1,158 @@
+import { mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { v } from "convex/values";
+
+import { accessError, describeDeniedCapability, roleAllows } from "./lib/access";
+import { ensureViewer, requireProjectAccess } from "./utils";
+
+// Owners are set at project creation; invitations cannot grant ownership.
+const INVITABLE_ROLE = v.union(v.literal("editor"), v.literal("reviewer"), v.literal("viewer"));
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+const ROLE_ORDER: Record<Doc<"projectMembers">["role"], number> = {
+  owner: 0,
+  editor: 1,
+  reviewer: 2,
+  viewer: 3,
+};
+
+export const listForProject = query({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const { viewer, role } = await requireProjectAccess(ctx, args.projectId);
+    const members = await ctx.db
+      .query("projectMembers")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+
+    const withUsers = [];
+    for (const member of members) {
+      const user = member.userId ? await ctx.db.get(member.userId) : null;
+      withUsers.push({
+        ...member,
+        displayName: user?.displayName ?? null,
+        isViewer: member.userId === viewer._id,
+      });
+    }
+
+    return {
+      viewerRole: role,
+      members: withUsers.sort(
+        (a, b) => ROLE_ORDER[a.role] - ROLE_ORDER[b.role] || a.createdAt - b.createdAt,
+      ),
+    };
+  },
+});
+
+export const invite = mutation({
+  args: {
+    projectId: v.id("projects"),
+    email: v.string(),
+    role: INVITABLE_ROLE,
+  },
+  handler: async (ctx, args): Promise<Doc<"projectMembers">> => {
+    const { viewer, project } = await requireProjectAccess(
+      ctx,
+      args.projectId,
+      "manageMembers",
+    );
+    const now = Date.now();
+    const email = args.email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new Error("Enter a valid email address");
+    }
+
+    // Owners have no member row, so match the invite against their account.
+    const owner = await ctx.db.get(project.ownerId);
+    if (owner?.email?.trim().toLowerCase() === email) {
+      throw new Error("The project owner is already a member");
+    }
+
+    const members = await ctx.db
+      .query("projectMembers")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    const existing = members.find((member) => member.email === email);
+
+    // The invitation is claimed the next time someone signs in with this
+    // email verified, even if an account already carries the address.
+    let memberId = existing?._id;
+    if (existing) {
+      await ctx.db.patch(existing._id, { role: args.role });
+    } else {
+      memberId = await ctx.db.insert("projectMembers", {
+        projectId: args.projectId,
+        email,
+        role: args.role,
+        status: "invited",
+        invitedBy: viewer._id,
+        createdAt: now,
+      });
+    }
+
+    const member = memberId ? await ctx.db.get(memberId) : null;
+    if (!member) {
+      throw new Error("Member not found after invite");
+    }
+    return member;
+  },
+});
+
+export const updateRole = mutation({
+  args: {
+    memberId: v.id("projectMembers"),
+    role: INVITABLE_ROLE,
+  },
+  handler: async (ctx, args): Promise<Doc<"projectMembers">> => {
+    const member = await ctx.db.get(args.memberId);
+    if (!member) {
+      throw new Error("Member not found");
+    }
+    await requireProjectAccess(ctx, member.projectId, "manageMembers");
+    if (member.role === "owner") {
+      throw new Error("The owner's role cannot be changed");
+    }
+
+    await ctx.db.patch(member._id, { role: args.role });
+    const updated = await ctx.db.get(member._id);
+    if (!updated) {
+      throw new Error("Member not found after role update");
+    }
+    return updated;
+  },
+});
+
+export const remove = mutation({
+  args: {
+    memberId: v.id("projectMembers"),
+  },
+  handler: async (ctx, args) => {
+    const member = await ctx.db.get(args.memberId);
+    if (!member) {
+      throw new Error("Member not found");
+    }
+    if (member.role === "owner") {
+      throw new Error("The project owner cannot be removed");
+    }
+
+    // Members may always leave a project; removing others needs the owner.
+    const { viewer, role } = await requireProjectAccess(ctx, member.projectId);
+    if (member.userId !== viewer._id && !roleAllows(role, "manageMembers")) {
+      throw accessError("FORBIDDEN", describeDeniedCapability(role, "manageMembers"));
+    }
+
+    await ctx.db.delete(member._id);
+    return { removed: true } as const;
+  },
+});
+
+/** Claim invitations sent to the viewer's verified email; run on sign-in. */
+export const claimInvitations = mutation({
+  args: {},
+  handler: async (ctx) => {
+    await ensureViewer(ctx, Date.now());
+  },
+});
@@ -1,15 +1,21 @@
-import { action, mutation, query } from "./_generated/server";
+import { internalAction, internalQuery, mutation, query } from "./_generated/server";
 import type { Doc, Id } from "./_generated/dataModel";
 import type { MutationCtx, QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
 
 import {
-  ensureLocalUser,
   ensureProjectBlueprint,
   ensureSandboxProject,
-  loadLocalUser,
+  ensureViewer,
+  loadAccessibleProjects,
+  loadProjectSession,
+  loadViewer,
+  requireProjectAccess,
 } from "./utils";
-import { api } from "./_generated/api";
+import { TEMPLATE_OUTLINE_VALIDATOR } from "./contentTemplates";
+import type { ProjectRole } from "./lib/access";
+import { MODEL_PROVIDER_VALIDATOR } from "./lib/modelProviders";
+import { internal } from "./_generated/api";
 
 const BLUEPRINT_FIELDS = [
   "desiredOutcome",
@@ -29,6 +35,7 @@ const VOICE_GUARDRAILS = v.object({
 type BlueprintResponse = {
   project: Doc<"projects">;
   blueprint: Doc<"projectBlueprints"> | null;
+  role?: ProjectRole;
 };
 
 type TranscriptItem = {
@@ -211,37 +218,65 @@ export const listProjects = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args): Promise<BlueprintResponse[]> => {
-    const user = await loadLocalUser(ctx);
+    const user = await loadViewer(ctx);
     if (!user) return [];
 
-    const collected = await ctx.db
-      .query("projects")
-      .withIndex("by_owner", (q) => q.eq("ownerId", user._id))
-      .collect();
+    const accessible = await loadAccessibleProjects(ctx, user._id);
+    const roles = new Map<Id<"projects">, ProjectRole>(
+      accessible.map(({ project, role }) => [project._id, role]),
+    );
 
-    const sorted = sortProjects(collected);
+    const sorted = sortProjects(accessible.map(({ project }) => project));
     const limit = args.limit ?? 20;
     const trimmed = sorted.slice(0, Math.max(limit, 0));
 
     const results: BlueprintResponse[] = [];
     for (const project of trimmed) {
       const blueprint = await loadBlueprintForProject(ctx, project._id);
-      results.push({ project, blueprint: blueprint ?? null });
+      results.push({ project, blueprint: blueprint ?? null, role: roles.get(project._id) });
     }
     return results;
   },
 });
 
+async function loadProjectBundle(
+  ctx: QueryCtx,
+  projectId: Id<"projects">,
+): Promise<BlueprintResponse | null> {
+  const project = await ctx.db.get(projectId);
+  if (!project) return null;
+
+  const blueprint = await loadBlueprintForProject(ctx, project._id);
+  return { project, blueprint: blueprint ?? null };
+}
+
 export const getProject = query({
   args: {
     projectId: v.id("projects"),
   },
   handler: async (ctx, args): Promise<BlueprintResponse | null> => {
-    const project = await ctx.db.get(args.projectId);
-    if (!project) return null;
+    if (!(await ctx.db.get(args.projectId))) return null;
+    const { role } = await requireProjectAccess(ctx, args.projectId);
+    const bundle = await loadProjectBundle(ctx, args.projectId);
+    return bundle ? { ...bundle, role } : null;
+  },
+});
+
+/** Ownership-free read for the draft worker and other background jobs. */
+export const getProjectInternal = internalQuery({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => loadProjectBundle(ctx, args.projectId),
+});
 
-    const blueprint = await loadBlueprintForProject(ctx, project._id);
-    return { project, blueprint: blueprint ?? null };
+export const listRecentProjectsInternal = internalQuery({
+  args: {
+    limit: v.number(),
+  },
+  handler: async (ctx, args): Promise<Doc<"projects">[]> => {
+    const projects = await ctx.db.query("projects").collect();
+    return sortProjects(projects).slice(0, Math.max(args.limit, 0));
   },
 });
 
@@ -249,7 +284,7 @@ export const bootstrapSandbox = mutation({
   args: {},
   handler: async (ctx) => {
     const now = Date.now();
-    const user = await ensureLocalUser(ctx, now);
+    const user = await ensureViewer(ctx, now);
     const project = await ensureSandboxProject(ctx, user._id, now);
 
     return { userId: user._id, projectId: project._id };
@@ -264,7 +299,7 @@ export const createProject = mutation({
   },
   handler: async (ctx, args): Promise<BlueprintResponse> => {
     const now = Date.now();
-    const user = await ensureLocalUser(ctx, now);
+    const user = await ensureViewer(ctx, now);
 
     const projectId = await ctx.db.insert("projects", {
       ownerId: user._id,
@@ -276,6 +311,17 @@ export const createProject = mutation({
       updatedAt: now,
     });
 
+    await ctx.db.insert("projectMembers", {
+      projectId,
+      userId: user._id,
+      email: user.email ?? "",
+      role: "owner",
+      status: "active",
+      invitedBy: undefined,
+      createdAt: now,
+      acceptedAt: now,
+    });
+
     const project = await ctx.db.get(projectId);
     if (!project) {
       throw new Error("Failed to load project after insert");
@@ -305,6 +351,7 @@ export const updateProjectMetadata = mutation({
     ),
   },
   handler: async (ctx, args): Promise<Doc<"projects">> => {
+    await requireProjectAccess(ctx, args.projectId, "edit");
     const now = Date.now();
     const updates: Partial<Doc<"projects">> = { updatedAt: now };
 
@@ -323,6 +370,55 @@ export const updateProjectMetadata = mutation({
   },
 });
 
+export const setOutlineOverride = mutation({
+  args: {
+    projectId: v.id("projects"),
+    // Omit (or pass an empty list) to fall back to the content-type template.
+    outline: v.optional(TEMPLATE_OUTLINE_VALIDATOR),
+  },
+  handler: async (ctx, args): Promise<Doc<"projects">> => {
+    await requireProjectAccess(ctx, args.projectId, "edit");
+    const outline = (args.outline ?? [])
+      .map((section) => ({
+        heading: section.heading.trim(),
+        guidance: section.guidance?.trim() || undefined,
+      }))
+      .filter((section) => section.heading);
+
+    await ctx.db.patch(args.projectId, {
+      outlineOverride: outline.length > 0 ? outline : undefined,
+      updatedAt: Date.now(),
+    });
+    const updated = await ctx.db.get(args.projectId);
+    if (!updated) {
+      throw new Error("Project not found after update");
+    }
+    return updated;
+  },
+});
+
+export const setModelProvider = mutation({
+  args: {
+    projectId: v.id("projects"),
+    // Omit to fall back to DRAFTING_MODEL_PROVIDER.
+    provider: v.optional(MODEL_PROVIDER_VALIDATOR),
+    model: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<Doc<"projects">> => {
+    await requireProjectAccess(ctx, args.projectId, "edit");
+    await ctx.db.patch(args.projectId, {
+      modelProvider: args.provider,
+      draftingModel: args.provider ? args.model?.trim() || undefined : undefined,
+      updatedAt: Date.now(),
+    });
+    const updated = await ctx.db.get(args.projectId);
+    if (!updated) {
+      throw new Error("Project not found after update");
+    }
+    return updated;
+  },
+});
+
 export const syncBlueprintField = mutation({
   args: {
     projectId: v.id("projects"),
@@ -338,6 +434,7 @@ export const syncBlueprintField = mutation({
     messageId: v.optional(v.id("messages")),
   },
   handler: async (ctx, args): Promise<Doc<"projectBlueprints">> => {
+    await requireProjectAccess(ctx, args.projectId, "edit");
     const now = Date.now();
     const blueprint = await ensureProjectBlueprint(ctx, args.projectId, now);
 
@@ -387,6 +484,8 @@ export const recordTranscriptPointer = mutation({
     messageId: v.optional(v.union(v.id("messages"), v.string())),
   },
   handler: async (ctx, args): Promise<Doc<"projectBlueprints">> => {
+    await requireProjectAccess(ctx, args.projectId, "edit");
+    await loadProjectSession(ctx, args.sessionId, args.projectId);
     const now = Date.now();
     const blueprint = await ensureProjectBlueprint(ctx, args.projectId, now);
 
@@ -479,6 +578,7 @@ export const commitBlueprint = mutation({
     sessionId: v.optional(v.id("sessions")),
   },
   handler: async (ctx, args): Promise<BlueprintResponse> => {
+    await requireProjectAccess(ctx, args.projectId, "edit");
     const now = Date.now();
     const blueprint = await ensureProjectBlueprint(ctx, args.projectId, now);
 
@@ -533,6 +633,8 @@ export const saveTranscriptChunk = mutation({
     }),
   },
   handler: async (ctx, args) => {
+    await requireProjectAccess(ctx, args.projectId, "edit");
+    await loadProjectSession(ctx, args.sessionId, args.projectId);
     const now = Date.now();
     const existing = await loadTranscriptRecord(
       ctx,
@@ -605,6 +707,8 @@ export const finalizeTranscript = mutation({
     sessionId: v.id("sessions"),
   },
   handler: async (ctx, args) => {
+    await requireProjectAccess(ctx, args.projectId, "edit");
+    await loadProjectSession(ctx, args.sessionId, args.projectId);
     const now = Date.now();
     const existing = await loadTranscriptRecord(
       ctx,
@@ -634,7 +738,7 @@ export const finalizeTranscript = mutation({
   },
 });
 
-export const getTranscriptForProject = query({
+export const getTranscriptForProject = internalQuery({
   args: {
     projectId: v.id("projects"),
   },
@@ -656,7 +760,7 @@ export const getTranscriptForProject = query({
   },
 });
 
-export const verifyTranscriptIntegrity = action({
+export const verifyTranscriptIntegrity = internalAction({
   args: {
     projectId: v.optional(v.id("projects")),
     limit: v.optional(v.number()),
@@ -665,7 +769,7 @@ export const verifyTranscriptIntegrity = action({
     const projectsToCheck: Doc<"projects">[] = [];
 
     if (args.projectId) {
-      const single = await ctx.runQuery(api.projects.getProject, {
+      const single = await ctx.runQuery(internal.projects.getProjectInternal, {
         projectId: args.projectId,
       });
       if (single?.project) {
@@ -673,12 +777,10 @@ export const verifyTranscriptIntegrity = action({
       }
     } else {
       const limit = Math.max(1, args.limit ?? 25);
-      const listed = await ctx.runQuery(api.projects.listProjects, {
+      const listed = await ctx.runQuery(internal.projects.listRecentProjectsInternal, {
         limit,
       });
-      for (const entry of listed) {
-        projectsToCheck.push(entry.project);
-      }
+      projectsToCheck.push(...listed);
     }
 
     const anomalies: Array<{
@@ -690,7 +792,7 @@ export const verifyTranscriptIntegrity = action({
 
     for (const project of projectsToCheck) {
       const transcripts = await ctx.runQuery(
-        api.projects.getTranscriptForProject,
+        internal.projects.getTranscriptForProject,
         { projectId: project._id },
       );
 
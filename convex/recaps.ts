@@ -0,0 +1,204 @@
+import { internalAction, internalMutation, internalQuery, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+
+import { internal } from "./_generated/api";
+import {
+  buildHeuristicRecap,
+  buildSessionRecapPrompt,
+  coerceRecapPayload,
+  formatRecapText,
+  RECAP_JSON_SCHEMA,
+  type SessionRecapContent,
+} from "./lib/sessionRecap";
+import { resolveModelProvider } from "./lib/modelProviders";
+import { hardLimitReason, loadBudgetStatus } from "./usage";
+import { requireProjectAccess } from "./utils";
+
+const RECAP_CONTENT_VALIDATOR = v.object({
+  decisions: v.array(v.string()),
+  newMaterial: v.array(v.string()),
+  openTodos: v.array(v.string()),
+  nextQuestions: v.array(v.string()),
+});
+
+export const getRecapContext = internalQuery({
+  args: {
+    sessionId: v.id("sessions"),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session?.projectId) return null;
+    const projectId = session.projectId;
+
+    const project = await ctx.db.get(projectId);
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    const notes = await ctx.db
+      .query("notes")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    const draftJobs = (
+      await ctx.db
+        .query("draftJobs")
+        .withIndex("by_project", (q) =>
+          q.eq("projectId", projectId).gte("createdAt", session.startedAt),
+        )
+        .collect()
+    ).filter((job) => job.sessionId === args.sessionId);
+
+    // TODOs are not tied to sessions directly; keep the ones raised from this
+    // session's notes or created while it was running.
+    const sessionNoteIds = new Set<Id<"notes">>(notes.map((note) => note._id));
+    const endedAt = session.endedAt ?? Date.now();
+    const todos = (
+      await ctx.db
+        .query("todos")
+        .withIndex("by_project", (q) => q.eq("projectId", projectId))
+        .collect()
+    ).filter(
+      (todo) =>
+        (todo.noteId && sessionNoteIds.has(todo.noteId)) ||
+        (todo.createdAt >= session.startedAt && todo.createdAt <= endedAt),
+    );
+
+    // Past a hard limit the recap is built without a model call.
+    const budgetStopped = project
+      ? hardLimitReason(await loadBudgetStatus(ctx, project, session.userId ?? null))
+      : null;
+
+    return { session, project, messages, notes, draftJobs, todos, budgetStopped };
+  },
+});
+
+export const saveSessionRecap = internalMutation({
+  args: {
+    sessionId: v.id("sessions"),
+    recap: RECAP_CONTENT_VALIDATOR,
+    source: v.union(v.literal("model"), v.literal("heuristic")),
+  },
+  handler: async (ctx, args): Promise<Doc<"sessions">> => {
+    const now = Date.now();
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) {
+      throw new Error("Session not found");
+    }
+    if (!session.projectId) {
+      throw new Error("Session has no project to attach a recap to");
+    }
+
+    const text = formatRecapText(args.recap);
+    const existingNote = session.recap?.noteId ? await ctx.db.get(session.recap.noteId) : null;
+    let noteId: Id<"notes">;
+    if (existingNote) {
+      await ctx.db.patch(existingNote._id, { content: text });
+      noteId = existingNote._id;
+    } else {
+      noteId = await ctx.db.insert("notes", {
+        projectId: session.projectId,
+        sessionId: session._id,
+        noteType: "summary",
+        content: text,
+        sourceMessageIds: undefined,
+        confidence: undefined,
+        resolved: undefined,
+        createdAt: now,
+      });
+    }
+
+    await ctx.scheduler.runAfter(0, internal.embeddings.embedSources, { noteIds: [noteId] });
+
+    await ctx.db.patch(session._id, {
+      recap: { ...args.recap, source: args.source, noteId, generatedAt: now },
+      summary: session.summary ?? text,
+      updatedAt: now,
+    });
+
+    const updated = await ctx.db.get(session._id);
+    if (!updated) {
+      throw new Error("Session not found after update");
+    }
+    return updated;
+  },
+});
+
+export const generateSessionRecap = internalAction({
+  args: {
+    sessionId: v.id("sessions"),
+  },
+  handler: async (
+    ctx,
+    args,
+  ): Promise<{ generated: boolean; source?: "model" | "heuristic"; reason?: string }> => {
+    const context = await ctx.runQuery(internal.recaps.getRecapContext, {
+      sessionId: args.sessionId,
+    });
+    if (!context) {
+      return { generated: false, reason: "no_project" };
+    }
+    if (context.messages.length === 0 && context.notes.length === 0) {
+      return { generated: false, reason: "empty_session" };
+    }
+
+    let recap: SessionRecapContent | null = null;
+    let source: "model" | "heuristic" = "heuristic";
+
+    if (context.project && !context.budgetStopped) {
+      try {
+        const prompt = buildSessionRecapPrompt(context);
+        const provider = resolveModelProvider(context.project.modelProvider);
+        const completion = await provider.complete({
+          task: "summary",
+          system: prompt.system,
+          user: prompt.user,
+          model: provider.id === "openai" ? process.env.OPENAI_RECAP_MODEL : undefined,
+          json: { name: RECAP_JSON_SCHEMA.name, schema: RECAP_JSON_SCHEMA.schema },
+        });
+        await ctx.runMutation(internal.usage.recordUsage, {
+          projectId: context.project._id,
+          userId: context.session.userId,
+          model: completion.model,
+          usage: completion.usage,
+        });
+        recap = coerceRecapPayload(completion.json);
+        if (!recap) {
+          throw new Error("Session recap payload missing required fields");
+        }
+        source = "model";
+      } catch (error) {
+        console.warn("[session-recap] model recap failed, using heuristic recap", error);
+      }
+    }
+
+    recap ??= buildHeuristicRecap(context);
+
+    await ctx.runMutation(internal.recaps.saveSessionRecap, {
+      sessionId: args.sessionId,
+      recap,
+      source,
+    });
+
+    return { generated: true, source };
+  },
+});
+
+export const listForProject = query({
+  args: {
+    projectId: v.id("projects"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireProjectAccess(ctx, args.projectId);
+    // Sessions are inserted as they start, so creation order is start order.
+    const recapped = ctx.db
+      .query("sessions")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .order("desc")
+      .filter((q) => q.neq(q.field("recap"), undefined));
+    return typeof args.limit === "number" && args.limit > 0
+      ? recapped.take(args.limit)
+      : recapped.collect();
+  },
+});
@@ -0,0 +1,93 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+
+import { loadOwnedSession, requireProjectAccess } from "./utils";
+
+// Only the person who started a session may upload its audio.
+const RECORDING_FORBIDDEN = "Only the person running this session can record it";
+
+export const generateUploadUrl = mutation({
+  args: { sessionId: v.id("sessions") },
+  handler: async (ctx, args) => {
+    await loadOwnedSession(ctx, args.sessionId, RECORDING_FORBIDDEN);
+    return ctx.storage.generateUploadUrl();
+  },
+});
+
+export const saveRecordingChunk = mutation({
+  args: {
+    sessionId: v.id("sessions"),
+    storageId: v.id("_storage"),
+    sequence: v.number(),
+    startOffsetMs: v.number(),
+    durationMs: v.number(),
+    mimeType: v.string(),
+    recordingStartedAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const session = await loadOwnedSession(ctx, args.sessionId, RECORDING_FORBIDDEN);
+    const existing = await ctx.db
+      .query("sessionRecordingChunks")
+      .withIndex("by_session", (q) =>
+        q.eq("sessionId", args.sessionId).eq("sequence", args.sequence),
+      )
+      .unique();
+    if (existing) {
+      // A retried upload; keep the first copy.
+      await ctx.storage.delete(args.storageId);
+      return existing._id;
+    }
+    if (session.recordingStartedAt === undefined) {
+      await ctx.db.patch(session._id, { recordingStartedAt: args.recordingStartedAt });
+    }
+    return ctx.db.insert("sessionRecordingChunks", {
+      sessionId: args.sessionId,
+      storageId: args.storageId,
+      sequence: args.sequence,
+      startOffsetMs: args.startOffsetMs,
+      durationMs: args.durationMs,
+      mimeType: args.mimeType,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * The session's audio chunks in order, with download URLs. Null when the
+ * session was not recorded. A gap in the sequence means a chunk failed to
+ * upload; playback stops there, since later chunks cannot be decoded alone.
+ */
+export const getSessionRecording = query({
+  args: {
+    projectId: v.id("projects"),
+    sessionId: v.id("sessions"),
+  },
+  handler: async (ctx, args) => {
+    await requireProjectAccess(ctx, args.projectId);
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || session.projectId !== args.projectId) {
+      throw new Error("Session not found");
+    }
+    const chunks = await ctx.db
+      .query("sessionRecordingChunks")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    if (chunks.length === 0 || session.recordingStartedAt === undefined) return null;
+
+    const playable = [];
+    for (const chunk of chunks) {
+      if (chunk.sequence !== playable.length) break;
+      const url = await ctx.storage.getUrl(chunk.storageId);
+      if (!url) break;
+      playable.push({ sequence: chunk.sequence, url, durationMs: chunk.durationMs });
+    }
+    const last = chunks[playable.length - 1];
+    return {
+      recordingStartedAt: session.recordingStartedAt,
+      mimeType: chunks[0]!.mimeType,
+      durationMs: last ? last.startOffsetMs + last.durationMs : 0,
+      chunks: playable,
+      missingChunks: chunks.length - playable.length,
+    };
+  },
+});
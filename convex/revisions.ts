@@ -0,0 +1,211 @@
+import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+
+import { insertSectionByOrder, replaceSectionMarkdown, withSectionHeading } from "./lib/sections";
+import { requireProjectAccess } from "./utils";
+
+export const REVISION_AUTHOR = v.union(
+  v.literal("user"),
+  v.literal("assistant"),
+  v.literal("drafter"),
+);
+
+export type RevisionAttribution = {
+  authorType: Doc<"sectionRevisions">["authorType"];
+  authorId?: Id<"users">;
+  draftJobId?: Id<"draftJobs">;
+};
+
+/**
+ * Snapshot a section's current body before it is overwritten. Callers pass the
+ * section as loaded before their patch so the revision holds the prior text.
+ */
+export async function recordSectionRevision(
+  ctx: MutationCtx,
+  projectId: Id<"projects">,
+  section: Doc<"documentSections">,
+  attribution: RevisionAttribution,
+  now: number,
+): Promise<Id<"sectionRevisions">> {
+  return ctx.db.insert("sectionRevisions", {
+    projectId,
+    documentId: section.documentId,
+    sectionId: section._id,
+    heading: section.heading,
+    content: section.content,
+    status: section.status,
+    version: section.version,
+    order: section.order,
+    authorType: attribution.authorType,
+    authorId: attribution.authorId,
+    draftJobId: attribution.draftJobId,
+    createdAt: now,
+  });
+}
+
+export const listForSection = query({
+  args: {
+    sectionId: v.id("documentSections"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const section = await ctx.db.get(args.sectionId);
+    if (!section) {
+      throw new Error("Section not found");
+    }
+    const document = await ctx.db.get(section.documentId);
+    if (!document) {
+      throw new Error("Document not found for section");
+    }
+    await requireProjectAccess(ctx, document.projectId);
+
+    const revisions = ctx.db
+      .query("sectionRevisions")
+      .withIndex("by_section", (q) => q.eq("sectionId", args.sectionId))
+      .order("desc");
+    return typeof args.limit === "number" && args.limit > 0
+      ? revisions.take(args.limit)
+      : revisions.collect();
+  },
+});
+
+export const listForProject = query({
+  args: {
+    projectId: v.id("projects"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireProjectAccess(ctx, args.projectId);
+    const revisions = ctx.db
+      .query("sectionRevisions")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .order("desc");
+    return typeof args.limit === "number" && args.limit > 0
+      ? revisions.take(args.limit)
+      : revisions.collect();
+  },
+});
+
+/**
+ * Find the section a revision belongs to, re-creating it from the revision's
+ * heading and order when it has been deleted. A section added back under the
+ * same heading is reused. Older revisions follow the section to its new id.
+ */
+async function loadOrRecreateSection(
+  ctx: MutationCtx,
+  revision: Doc<"sectionRevisions">,
+  now: number,
+): Promise<{ section: Doc<"documentSections">; created: boolean }> {
+  const current = await ctx.db.get(revision.sectionId);
+  if (current) {
+    return { section: current, created: false };
+  }
+
+  const siblings = await ctx.db
+    .query("documentSections")
+    .withIndex("by_document", (q) => q.eq("documentId", revision.documentId))
+    .collect();
+  const key = revision.heading.trim().toLowerCase();
+  const sameHeading = siblings.find((section) => section.heading.trim().toLowerCase() === key);
+  let sectionId = sameHeading?._id;
+  if (!sectionId) {
+    const order = Math.min(revision.order ?? siblings.length, siblings.length);
+    for (const sibling of siblings) {
+      if (sibling.order >= order) {
+        await ctx.db.patch(sibling._id, { order: sibling.order + 1, updatedAt: now });
+      }
+    }
+    sectionId = await ctx.db.insert("documentSections", {
+      documentId: revision.documentId,
+      heading: revision.heading,
+      order,
+      content: "",
+      version: revision.version,
+      locked: false,
+      status: revision.status,
+      updatedAt: now,
+    });
+  }
+
+  const history = await ctx.db
+    .query("sectionRevisions")
+    .withIndex("by_section", (q) => q.eq("sectionId", revision.sectionId))
+    .collect();
+  for (const entry of history) {
+    await ctx.db.patch(entry._id, { sectionId });
+  }
+
+  const section = await ctx.db.get(sectionId);
+  if (!section) {
+    throw new Error("Section not found after re-creating it");
+  }
+  return { section, created: !sameHeading };
+}
+
+export const restoreRevision = mutation({
+  args: {
+    revisionId: v.id("sectionRevisions"),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const revision = await ctx.db.get(args.revisionId);
+    if (!revision) {
+      throw new Error("Revision not found");
+    }
+
+    const { viewer } = await requireProjectAccess(ctx, revision.projectId, "edit");
+    const document = await ctx.db.get(revision.documentId);
+    if (!document) {
+      throw new Error("Document not found for revision restore");
+    }
+
+    const { section, created } = await loadOrRecreateSection(ctx, revision, now);
+    if (!created) {
+      await recordSectionRevision(
+        ctx,
+        revision.projectId,
+        section,
+        { authorType: "user", authorId: viewer._id },
+        now,
+      );
+    }
+
+    await ctx.db.patch(section._id, {
+      content: revision.content,
+      status: revision.status,
+      version: section.version + 1,
+      updatedAt: now,
+    });
+
+    const markdown = document.latestDraftMarkdown ?? "";
+    const sectionMarkdown = withSectionHeading(section.heading, revision.content);
+    let latestDraftMarkdown: string;
+    if (created) {
+      const siblings = await ctx.db
+        .query("documentSections")
+        .withIndex("by_document", (q) => q.eq("documentId", document._id))
+        .collect();
+      latestDraftMarkdown = insertSectionByOrder(
+        markdown,
+        sectionMarkdown,
+        section.order,
+        new Map(
+          siblings
+            .filter((sibling) => sibling._id !== section._id)
+            .map((sibling) => [sibling.heading.trim().toLowerCase(), sibling.order]),
+        ),
+      );
+    } else {
+      latestDraftMarkdown = replaceSectionMarkdown(markdown, section.heading, sectionMarkdown);
+    }
+    await ctx.db.patch(document._id, { latestDraftMarkdown, updatedAt: now });
+
+    const restored = await ctx.db.get(section._id);
+    if (!restored) {
+      throw new Error("Section not found after revision restore");
+    }
+    return restored;
+  },
+});
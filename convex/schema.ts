@@ -1,14 +1,28 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+import { CLAIM_STATUS_VALIDATOR } from "./lib/claims";
+import { EMBEDDING_DIMENSIONS } from "./lib/embeddings";
+import { MODEL_PROVIDER_VALIDATOR } from "./lib/modelProviders";
+import { STYLE_FINDING_VALIDATOR } from "./lib/styleLint";
+import { VOICE_PROFILE_VALIDATOR } from "./lib/voiceProfile";
+
+const TEMPLATE_OUTLINE_SECTION = v.object({
+  heading: v.string(),
+  guidance: v.optional(v.string())
+});
+
 export default defineSchema({
   users: defineTable({
     externalId: v.string(),
     email: v.optional(v.string()),
     displayName: v.optional(v.string()),
-    voicePreferences: v.optional(v.any()),
+    // Learned from the user's own transcribed speech; see lib/voiceProfile.ts.
+    voiceProfile: v.optional(VOICE_PROFILE_VALIDATOR),
     createdAt: v.number()
-  }).index("by_external_id", ["externalId"]),
+  })
+    .index("by_external_id", ["externalId"])
+    .index("by_email", ["email"]),
 
   projects: defineTable({
     ownerId: v.id("users"),
@@ -21,10 +35,52 @@ export default defineSchema({
       v.literal("archived"),
       v.literal("intake")
     ),
+    outlineOverride: v.optional(v.array(TEMPLATE_OUTLINE_SECTION)),
+    // Unset falls back to DRAFTING_MODEL_PROVIDER and the provider's default model.
+    modelProvider: v.optional(MODEL_PROVIDER_VALIDATOR),
+    draftingModel: v.optional(v.string()),
+    // Monthly drafting spend limits in USD; unset falls back to the blueprint's budgetRange.
+    budgetSoftUsd: v.optional(v.number()),
+    budgetHardUsd: v.optional(v.number()),
+    // Added to the default banned-phrase list when linting drafted sections.
+    styleBannedPhrases: v.optional(v.array(v.string())),
     createdAt: v.number(),
     updatedAt: v.number()
   }).index("by_owner", ["ownerId"]),
 
+  projectMembers: defineTable({
+    projectId: v.id("projects"),
+    // Unset until an invited email signs in for the first time.
+    userId: v.optional(v.id("users")),
+    email: v.string(),
+    role: v.union(
+      v.literal("owner"),
+      v.literal("editor"),
+      v.literal("reviewer"),
+      v.literal("viewer")
+    ),
+    status: v.union(v.literal("invited"), v.literal("active")),
+    invitedBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+    acceptedAt: v.optional(v.number())
+  })
+    .index("by_project", ["projectId"])
+    .index("by_project_user", ["projectId", "userId"])
+    .index("by_user", ["userId"])
+    .index("by_email", ["email", "status"]),
+
+  contentTemplates: defineTable({
+    contentType: v.string(),
+    label: v.string(),
+    description: v.string(),
+    outline: v.array(TEMPLATE_OUTLINE_SECTION),
+    wordCountTarget: v.optional(v.object({ min: v.number(), max: v.number() })),
+    tonePresets: v.array(v.string()),
+    sampleLanguage: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number()
+  }).index("by_content_type", ["contentType"]),
+
   projectBlueprints: defineTable({
     projectId: v.id("projects"),
     desiredOutcome: v.optional(v.string()),
@@ -50,6 +106,8 @@ export default defineSchema({
 
   sessions: defineTable({
     projectId: v.optional(v.id("projects")),
+    // Who started the session; their turns train their voice profile.
+    userId: v.optional(v.id("users")),
     startedAt: v.number(),
     endedAt: v.optional(v.number()),
     realtimeSessionId: v.optional(v.string()),
@@ -63,8 +121,57 @@ export default defineSchema({
       )
     ),
     language: v.optional(v.string()),
+    // Client clock when audio recording began; message audio offsets count from here.
+    recordingStartedAt: v.optional(v.number()),
+    recap: v.optional(
+      v.object({
+        decisions: v.array(v.string()),
+        newMaterial: v.array(v.string()),
+        openTodos: v.array(v.string()),
+        nextQuestions: v.array(v.string()),
+        source: v.union(v.literal("model"), v.literal("heuristic")),
+        noteId: v.optional(v.id("notes")),
+        generatedAt: v.number()
+      })
+    ),
     updatedAt: v.optional(v.number())
-  }).index("by_project", ["projectId"]),
+  })
+    .index("by_project", ["projectId"])
+    .index("by_user", ["userId"]),
+
+  // MediaRecorder chunks of a session's mixed mic and assistant audio, in
+  // file storage. Concatenated in sequence order they form one file.
+  sessionRecordingChunks: defineTable({
+    sessionId: v.id("sessions"),
+    storageId: v.id("_storage"),
+    sequence: v.number(),
+    startOffsetMs: v.number(),
+    durationMs: v.number(),
+    mimeType: v.string(),
+    createdAt: v.number(),
+  }).index("by_session", ["sessionId", "sequence"]),
+
+  // One row per session tool call the router handled, including rejected ones.
+  // Arguments and results are JSON text (see convex/lib/toolCalls.ts).
+  toolCalls: defineTable({
+    sessionId: v.optional(v.id("sessions")),
+    projectId: v.optional(v.id("projects")),
+    userId: v.optional(v.id("users")),
+    name: v.string(),
+    mode: v.string(),
+    rawArguments: v.string(),
+    // After alias folding and coercion; absent when the call was rejected first.
+    arguments: v.optional(v.string()),
+    success: v.boolean(),
+    result: v.optional(v.string()),
+    error: v.optional(v.string()),
+    latencyMs: v.number(),
+    // The recorded call a replay re-ran.
+    replayOf: v.optional(v.id("toolCalls")),
+    createdAt: v.number(),
+  })
+    .index("by_session", ["sessionId", "createdAt"])
+    .index("by_project", ["projectId", "createdAt"]),
 
   messages: defineTable({
     sessionId: v.id("sessions"),
@@ -74,7 +181,16 @@ export default defineSchema({
     tags: v.optional(v.array(v.string())),
     role: v.optional(v.string()),
     text: v.optional(v.string()),
-  }).index("by_session", ["sessionId"]),
+    // Copied from the session so transcript search can filter by project.
+    projectId: v.optional(v.id("projects")),
+    // Where the turn starts in the session recording, when there is one.
+    audioOffsetMs: v.optional(v.number()),
+  })
+    .index("by_session", ["sessionId"])
+    .searchIndex("search_transcript", {
+      searchField: "transcript",
+      filterFields: ["projectId"],
+    }),
 
   notes: defineTable({
     projectId: v.id("projects"),
@@ -92,7 +208,13 @@ export default defineSchema({
     confidence: v.optional(v.number()),
     resolved: v.optional(v.boolean()),
     createdAt: v.number()
-  }).index("by_project", ["projectId"]).index("by_session", ["sessionId"]),
+  })
+    .index("by_project", ["projectId"])
+    .index("by_session", ["sessionId"])
+    .searchIndex("search_content", {
+      searchField: "content",
+      filterFields: ["projectId"],
+    }),
 
   documents: defineTable({
     projectId: v.id("projects"),
@@ -100,6 +222,7 @@ export default defineSchema({
     summary: v.optional(v.string()),
     status: v.string(),
     lockedSections: v.optional(v.array(v.string())),
+    outlineTemplateAppliedAt: v.optional(v.number()),
     updatedAt: v.number()
   }).index("by_project", ["projectId"]),
 
@@ -116,7 +239,64 @@ export default defineSchema({
       v.literal("complete"),
     ),
     updatedAt: v.number()
-  }).index("by_document", ["documentId", "order"]),
+  })
+    .index("by_document", ["documentId", "order"])
+    // Each project has one document, so documentId scopes a search to a project.
+    .searchIndex("search_content", {
+      searchField: "content",
+      filterFields: ["documentId"],
+    }),
+
+  sectionRevisions: defineTable({
+    projectId: v.id("projects"),
+    documentId: v.id("documents"),
+    sectionId: v.id("documentSections"),
+    heading: v.string(),
+    content: v.string(),
+    status: v.union(
+      v.literal("drafting"),
+      v.literal("needs_detail"),
+      v.literal("complete"),
+    ),
+    version: v.number(),
+    // Where the section sat, so a deleted section can be restored in place.
+    order: v.optional(v.number()),
+    authorType: v.union(
+      v.literal("user"),
+      v.literal("assistant"),
+      v.literal("drafter"),
+    ),
+    authorId: v.optional(v.id("users")),
+    draftJobId: v.optional(v.id("draftJobs")),
+    createdAt: v.number(),
+  })
+    .index("by_section", ["sectionId", "version"])
+    .index("by_project", ["projectId", "createdAt"]),
+
+  sectionComments: defineTable({
+    projectId: v.id("projects"),
+    sectionId: v.id("documentSections"),
+    // Replies point at the thread's root comment. Only roots carry an anchor;
+    // replies mirror the root's resolve state so by_project stays accurate.
+    parentId: v.optional(v.id("sectionComments")),
+    authorId: v.id("users"),
+    body: v.string(),
+    anchor: v.optional(
+      v.object({
+        start: v.number(),
+        end: v.number(),
+        quote: v.string(),
+      }),
+    ),
+    resolved: v.boolean(),
+    resolvedAt: v.optional(v.number()),
+    resolvedBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_section", ["sectionId", "createdAt"])
+    .index("by_project", ["projectId", "resolved"])
+    .index("by_parent", ["parentId", "createdAt"]),
 
   todos: defineTable({
     projectId: v.id("projects"),
@@ -127,6 +307,74 @@ export default defineSchema({
     noteId: v.optional(v.id("notes"))
   }).index("by_project", ["projectId"]),
 
+  draftSectionChanges: defineTable({
+    projectId: v.id("projects"),
+    draftJobId: v.id("draftJobs"),
+    sectionId: v.id("documentSections"),
+    heading: v.string(),
+    // Empty when the job created the section.
+    before: v.string(),
+    after: v.string(),
+    decision: v.union(
+      v.literal("pending"),
+      v.literal("accepted"),
+      v.literal("rejected"),
+    ),
+    decidedAt: v.optional(v.number()),
+    decidedBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+  })
+    .index("by_job", ["draftJobId"])
+    .index("by_project", ["projectId", "createdAt"]),
+
+  // Post-draft style check of one changed section against the voice guardrails.
+  styleLintResults: defineTable({
+    projectId: v.id("projects"),
+    draftJobId: v.id("draftJobs"),
+    sectionId: v.id("documentSections"),
+    heading: v.string(),
+    score: v.number(),
+    passed: v.boolean(),
+    findings: v.array(STYLE_FINDING_VALIDATOR),
+    // The TODO raised for a failing result; later failures update it in place.
+    todoId: v.optional(v.id("todos")),
+    createdAt: v.number(),
+  })
+    .index("by_section", ["sectionId", "createdAt"])
+    .index("by_project", ["projectId", "createdAt"]),
+
+  // Factual sentences in a section, tied to the fact notes and transcript
+  // messages the drafter cited for them. Replaced on every draft of the
+  // section, except reviewed claims whose sentence is still there.
+  claims: defineTable({
+    projectId: v.id("projects"),
+    sectionId: v.id("documentSections"),
+    draftJobId: v.id("draftJobs"),
+    sentence: v.string(),
+    noteIds: v.array(v.id("notes")),
+    messageIds: v.array(v.id("messages")),
+    status: CLAIM_STATUS_VALIDATOR,
+    todoId: v.optional(v.id("todos")),
+    decidedBy: v.optional(v.id("users")),
+    decidedAt: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_section", ["sectionId"])
+    .index("by_project_status", ["projectId", "status"]),
+
+  // Scratch copy of a section while the drafter is still streaming it.
+  // Removed in the same transaction that commits the finished section.
+  sectionDrafts: defineTable({
+    projectId: v.id("projects"),
+    draftJobId: v.id("draftJobs"),
+    sectionId: v.id("documentSections"),
+    content: v.string(),
+    updatedAt: v.number(),
+  })
+    .index("by_project", ["projectId"])
+    .index("by_job", ["draftJobId"]),
+
   draftJobs: defineTable({
     projectId: v.id("projects"),
     sessionId: v.id("sessions"),
@@ -135,9 +383,14 @@ export default defineSchema({
       v.literal("running"),
       v.literal("complete"),
       v.literal("error"),
+      // Out of retries or failed permanently; waits for an operator.
+      v.literal("dead_letter"),
     ),
     summary: v.optional(v.string()),
     urgency: v.optional(v.string()),
+    requestedBy: v.optional(v.id("users")),
+    // Set when a soft budget limit moved the job to a cheaper model.
+    modelOverride: v.optional(v.string()),
     messagePointers: v.optional(v.array(v.string())),
     transcriptAnchors: v.optional(v.array(v.string())),
     promptContext: v.optional(v.any()),
@@ -155,12 +408,50 @@ export default defineSchema({
     completedAt: v.optional(v.number()),
     updatedAt: v.number(),
     error: v.optional(v.string()),
+    errorKind: v.optional(v.union(v.literal("transient"), v.literal("permanent"))),
+    // Backoff: a queued retry is not claimed before this time.
+    nextAttemptAt: v.optional(v.number()),
+    deadLetteredAt: v.optional(v.number()),
+    discardedAt: v.optional(v.number()),
+    discardedBy: v.optional(v.id("users")),
     durationMs: v.optional(v.number()),
     attemptCount: v.optional(v.number()),
+    lockRejections: v.optional(
+      v.array(
+        v.object({
+          sectionId: v.optional(v.id("documentSections")),
+          heading: v.string(),
+          reason: v.union(
+            v.literal("targeted"),
+            v.literal("modified"),
+            v.literal("removed"),
+          ),
+          rejectedAt: v.number(),
+        }),
+      ),
+    ),
   })
     .index("by_project", ["projectId", "createdAt"])
     .index("by_status", ["status", "createdAt"]),
 
+  // Monthly token and cost totals, one row per project or user per month.
+  usageLedgers: defineTable({
+    scope: v.union(v.literal("project"), v.literal("user")),
+    projectId: v.optional(v.id("projects")),
+    userId: v.optional(v.id("users")),
+    month: v.string(),
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    totalTokens: v.number(),
+    costUsd: v.number(),
+    // Tokens from models missing from the pricing table; not in costUsd.
+    unpricedTokens: v.number(),
+    callCount: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_project_month", ["projectId", "month"])
+    .index("by_user_month", ["userId", "month"]),
+
   projectTranscripts: defineTable({
     projectId: v.id("projects"),
     sessionId: v.id("sessions"),
@@ -183,4 +474,22 @@ export default defineSchema({
   })
     .index("by_project_session", ["projectId", "sessionId"])
     .index("by_project", ["projectId", "updatedAt"]),
+
+  // One vector per note or transcript message, for drafting retrieval.
+  embeddings: defineTable({
+    projectId: v.id("projects"),
+    sourceType: v.union(v.literal("note"), v.literal("message")),
+    noteId: v.optional(v.id("notes")),
+    messageId: v.optional(v.id("messages")),
+    model: v.string(),
+    embedding: v.array(v.float64()),
+    createdAt: v.number(),
+  })
+    .index("by_note", ["noteId"])
+    .index("by_message", ["messageId"])
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: EMBEDDING_DIMENSIONS,
+      filterFields: ["projectId"],
+    }),
 });
@@ -0,0 +1,208 @@
+import { internalMutation, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+
+import { internal } from "./_generated/api";
+import { buildSnippet, scoreText, searchTerms, type SearchSnippet } from "./lib/search";
+import { loadAccessibleProjects, loadViewer, requireProjectAccess } from "./utils";
+
+const DEFAULT_LIMIT = 30;
+const MAX_LIMIT = 100;
+const BACKFILL_BATCH = 200;
+
+export type SearchHit = {
+  kind: "message" | "note" | "section";
+  id: string;
+  projectId: Id<"projects">;
+  projectTitle: string;
+  sessionId: Id<"sessions"> | null;
+  title: string;
+  snippet: SearchSnippet;
+  score: number;
+  timestamp: number;
+};
+
+async function searchOneProject(
+  ctx: QueryCtx,
+  project: Doc<"projects">,
+  text: string,
+  perSource: number,
+): Promise<SearchHit[]> {
+  const hits: SearchHit[] = [];
+  const base = { projectId: project._id, projectTitle: project.title };
+
+  const messages = await ctx.db
+    .query("messages")
+    .withSearchIndex("search_transcript", (q) =>
+      q.search("transcript", text).eq("projectId", project._id),
+    )
+    .take(perSource);
+  for (const message of messages) {
+    hits.push({
+      ...base,
+      kind: "message",
+      id: message._id,
+      sessionId: message.sessionId,
+      title: message.speaker === "assistant" ? "Assistant" : "You",
+      snippet: buildSnippet(message.transcript, text),
+      score: scoreText(message.transcript, text),
+      timestamp: message.timestamp,
+    });
+  }
+
+  const notes = await ctx.db
+    .query("notes")
+    .withSearchIndex("search_content", (q) =>
+      q.search("content", text).eq("projectId", project._id),
+    )
+    .take(perSource);
+  for (const note of notes) {
+    hits.push({
+      ...base,
+      kind: "note",
+      id: note._id,
+      sessionId: note.sessionId ?? null,
+      title: `${note.noteType[0]!.toUpperCase()}${note.noteType.slice(1)} note`,
+      snippet: buildSnippet(note.content, text),
+      score: scoreText(note.content, text),
+      timestamp: note.createdAt,
+    });
+  }
+
+  const document = await ctx.db
+    .query("documents")
+    .withIndex("by_project", (q) => q.eq("projectId", project._id))
+    .unique();
+  if (document) {
+    const sections = await ctx.db
+      .query("documentSections")
+      .withSearchIndex("search_content", (q) =>
+        q.search("content", text).eq("documentId", document._id),
+      )
+      .take(perSource);
+    for (const section of sections) {
+      hits.push({
+        ...base,
+        kind: "section",
+        id: section._id,
+        sessionId: null,
+        title: section.heading,
+        snippet: buildSnippet(section.content, text),
+        // Headings are strong signals; count them alongside the body.
+        score: scoreText(`${section.heading} ${section.content}`, text),
+        timestamp: section.updatedAt,
+      });
+    }
+  }
+  return hits;
+}
+
+/**
+ * Transcript lines, notes and draft sections matching `text`, best first.
+ * Searches one project when `projectId` is given, otherwise every project
+ * the viewer can see.
+ */
+export const searchProjects = query({
+  args: {
+    text: v.string(),
+    projectId: v.optional(v.id("projects")),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<SearchHit[]> => {
+    const text = args.text.trim();
+    if (searchTerms(text).length === 0) return [];
+
+    let projects: Doc<"projects">[];
+    if (args.projectId) {
+      const { project } = await requireProjectAccess(ctx, args.projectId);
+      projects = [project];
+    } else {
+      const viewer = await loadViewer(ctx);
+      if (!viewer) return [];
+      projects = (await loadAccessibleProjects(ctx, viewer._id)).map(({ project }) => project);
+    }
+
+    const limit = Math.min(Math.max(args.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const hits: SearchHit[] = [];
+    for (const project of projects) {
+      hits.push(...(await searchOneProject(ctx, project, text, limit)));
+    }
+    return hits
+      .sort((a, b) => b.score - a.score || b.timestamp - a.timestamp)
+      .slice(0, limit);
+  },
+});
+
+/** A session's transcript and notes, for search hits to link into. */
+export const getSessionTranscript = query({
+  args: {
+    projectId: v.id("projects"),
+    sessionId: v.id("sessions"),
+  },
+  handler: async (ctx, args) => {
+    const { project } = await requireProjectAccess(ctx, args.projectId);
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || session.projectId !== args.projectId) {
+      throw new Error("Session not found");
+    }
+
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    const notes = await ctx.db
+      .query("notes")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+
+    return {
+      projectTitle: project.title,
+      session: {
+        _id: session._id,
+        startedAt: session.startedAt,
+        endedAt: session.endedAt ?? null,
+      },
+      messages: messages.sort((a, b) => a.timestamp - b.timestamp),
+      notes: notes.sort((a, b) => a.createdAt - b.createdAt),
+    };
+  },
+});
+
+/**
+ * Copy each session's projectId onto messages stored before transcript
+ * search existed. Run once with `npx convex run search:backfillMessageProjects`;
+ * it reschedules itself until every page is done.
+ */
+export const backfillMessageProjects = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("messages")
+      .paginate({ cursor: args.cursor ?? null, numItems: BACKFILL_BATCH });
+
+    const sessionProjects = new Map<Id<"sessions">, Id<"projects"> | undefined>();
+    let updated = 0;
+    for (const message of page.page) {
+      if (!sessionProjects.has(message.sessionId)) {
+        const session = await ctx.db.get(message.sessionId);
+        sessionProjects.set(message.sessionId, session?.projectId);
+      }
+      const projectId = sessionProjects.get(message.sessionId);
+      if (projectId && message.projectId !== projectId) {
+        await ctx.db.patch(message._id, { projectId });
+        updated += 1;
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.search.backfillMessageProjects, {
+        cursor: page.continueCursor,
+      });
+    }
+    console.log("[search] backfilled message projects", { updated, done: page.isDone });
+    return { updated, done: page.isDone };
+  },
+});
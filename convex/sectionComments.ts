@@ -0,0 +1,224 @@
+import { internalQuery, mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+
+import {
+  createCommentAnchor,
+  resolveCommentAnchor,
+  type SectionFeedbackThread,
+} from "./lib/sectionComments";
+import { requireProjectAccess } from "./utils";
+
+async function loadSectionProject(ctx: MutationCtx, sectionId: Id<"documentSections">) {
+  const section = await ctx.db.get(sectionId);
+  if (!section) {
+    throw new Error("Section not found");
+  }
+  const document = await ctx.db.get(section.documentId);
+  if (!document) {
+    throw new Error("Document not found for section");
+  }
+  return { section, projectId: document.projectId };
+}
+
+async function loadRootComment(ctx: MutationCtx, commentId: Id<"sectionComments">) {
+  const comment = await ctx.db.get(commentId);
+  if (!comment) {
+    throw new Error("Comment not found");
+  }
+  if (!comment.parentId) return comment;
+  const root = await ctx.db.get(comment.parentId);
+  if (!root) {
+    throw new Error("Comment thread not found");
+  }
+  return root;
+}
+
+export const listForProject = query({
+  args: {
+    projectId: v.id("projects"),
+    includeResolved: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    await requireProjectAccess(ctx, args.projectId);
+
+    const comments = args.includeResolved
+      ? await ctx.db
+          .query("sectionComments")
+          .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+          .collect()
+      : await ctx.db
+          .query("sectionComments")
+          .withIndex("by_project", (q) =>
+            q.eq("projectId", args.projectId).eq("resolved", false),
+          )
+          .collect();
+
+    const authors = new Map<Id<"users">, string | null>();
+    const authorName = async (authorId: Id<"users">) => {
+      if (!authors.has(authorId)) {
+        const user = await ctx.db.get(authorId);
+        authors.set(authorId, user?.displayName ?? user?.email ?? null);
+      }
+      return authors.get(authorId) ?? null;
+    };
+
+    const threads = [];
+    for (const root of comments.filter((comment) => !comment.parentId)) {
+      const section = await ctx.db.get(root.sectionId);
+      const replies = await ctx.db
+        .query("sectionComments")
+        .withIndex("by_parent", (q) => q.eq("parentId", root._id))
+        .collect();
+
+      const withAuthors = [];
+      for (const reply of replies) {
+        withAuthors.push({ ...reply, authorName: await authorName(reply.authorId) });
+      }
+
+      threads.push({
+        ...root,
+        authorName: await authorName(root.authorId),
+        heading: section?.heading ?? null,
+        // False once the quoted text no longer appears in the section.
+        anchorFound:
+          root.anchor && section ? resolveCommentAnchor(section.content, root.anchor) !== null : null,
+        replies: withAuthors,
+      });
+    }
+
+    return threads.sort((a, b) => a.createdAt - b.createdAt);
+  },
+});
+
+export const addComment = mutation({
+  args: {
+    sectionId: v.id("documentSections"),
+    body: v.string(),
+    quote: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<Doc<"sectionComments">> => {
+    const { section, projectId } = await loadSectionProject(ctx, args.sectionId);
+    const { viewer } = await requireProjectAccess(ctx, projectId, "comment");
+    const body = args.body.trim();
+    if (!body) {
+      throw new Error("Comment cannot be empty");
+    }
+
+    const now = Date.now();
+    const commentId = await ctx.db.insert("sectionComments", {
+      projectId,
+      sectionId: section._id,
+      parentId: undefined,
+      authorId: viewer._id,
+      body,
+      anchor: args.quote ? createCommentAnchor(section.content, args.quote) ?? undefined : undefined,
+      resolved: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const comment = await ctx.db.get(commentId);
+    if (!comment) {
+      throw new Error("Failed to load comment after insert");
+    }
+    return comment;
+  },
+});
+
+export const reply = mutation({
+  args: {
+    commentId: v.id("sectionComments"),
+    body: v.string(),
+  },
+  handler: async (ctx, args): Promise<Doc<"sectionComments">> => {
+    const root = await loadRootComment(ctx, args.commentId);
+    const { viewer } = await requireProjectAccess(ctx, root.projectId, "comment");
+    const body = args.body.trim();
+    if (!body) {
+      throw new Error("Reply cannot be empty");
+    }
+
+    const now = Date.now();
+    const replyId = await ctx.db.insert("sectionComments", {
+      projectId: root.projectId,
+      sectionId: root.sectionId,
+      parentId: root._id,
+      authorId: viewer._id,
+      body,
+      anchor: undefined,
+      // Replies follow the thread's resolve state so the project index stays accurate.
+      resolved: root.resolved,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.db.patch(root._id, { updatedAt: now });
+
+    const created = await ctx.db.get(replyId);
+    if (!created) {
+      throw new Error("Failed to load reply after insert");
+    }
+    return created;
+  },
+});
+
+export const setResolved = mutation({
+  args: {
+    commentId: v.id("sectionComments"),
+    resolved: v.boolean(),
+  },
+  handler: async (ctx, args): Promise<Doc<"sectionComments">> => {
+    const root = await loadRootComment(ctx, args.commentId);
+    const { viewer } = await requireProjectAccess(ctx, root.projectId, "comment");
+
+    const now = Date.now();
+    const replies = await ctx.db
+      .query("sectionComments")
+      .withIndex("by_parent", (q) => q.eq("parentId", root._id))
+      .collect();
+    for (const entry of [root, ...replies]) {
+      await ctx.db.patch(entry._id, {
+        resolved: args.resolved,
+        resolvedAt: args.resolved ? now : undefined,
+        resolvedBy: args.resolved ? viewer._id : undefined,
+        updatedAt: now,
+      });
+    }
+
+    const updated = await ctx.db.get(root._id);
+    if (!updated) {
+      throw new Error("Comment not found after resolve");
+    }
+    return updated;
+  },
+});
+
+/** Open threads for the drafter, keyed by the section's current heading. */
+export const listOpenFeedbackInternal = internalQuery({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args): Promise<SectionFeedbackThread[]> => {
+    const open = await ctx.db
+      .query("sectionComments")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId).eq("resolved", false))
+      .collect();
+
+    const threads: SectionFeedbackThread[] = [];
+    for (const root of open.filter((comment) => !comment.parentId)) {
+      const section = await ctx.db.get(root.sectionId);
+      if (!section) continue;
+      const replies = open
+        .filter((comment) => comment.parentId === root._id)
+        .sort((a, b) => a.createdAt - b.createdAt);
+      threads.push({
+        heading: section.heading,
+        quote: root.anchor?.quote,
+        comment: root.body,
+        replies: replies.map((entry) => entry.body),
+      });
+    }
+    return threads;
+  },
+});
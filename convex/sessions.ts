@@ -1,9 +1,16 @@
-import { mutation } from "./_generated/server";
+import { internalQuery, mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
 import { v } from "convex/values";
 
+import { internal } from "./_generated/api";
+
+import { accessError } from "./lib/access";
 import {
-  ensureLocalUser,
   ensureSandboxProject,
+  ensureViewer,
+  loadOwnedSession,
+  requireProjectAccess,
 } from "./utils";
 
 const NOISE_PROFILES = v.union(
@@ -24,9 +31,12 @@ export const createSession = mutation({
   },
   handler: async (ctx, args) => {
     const now = Date.now();
-    const user = await ensureLocalUser(ctx, now);
+    const user = await ensureViewer(ctx, now);
     const shouldDefer = args.deferProject ?? false;
 
+    if (args.projectId) {
+      await requireProjectAccess(ctx, args.projectId, "edit");
+    }
     let assignedProjectId = args.projectId ?? null;
 
     if (!assignedProjectId && !shouldDefer) {
@@ -36,6 +46,7 @@ export const createSession = mutation({
 
     const sessionId = await ctx.db.insert("sessions", {
       projectId: assignedProjectId ?? undefined,
+      userId: user._id,
       startedAt: now,
       endedAt: undefined,
       realtimeSessionId: undefined,
@@ -61,6 +72,7 @@ export const updateRealtimeSessionId = mutation({
     realtimeSessionId: v.string(),
   },
   handler: async (ctx, args) => {
+    await loadOwnedSession(ctx, args.sessionId);
     await ctx.db.patch(args.sessionId, {
       realtimeSessionId: args.realtimeSessionId,
       updatedAt: Date.now(),
@@ -74,8 +86,7 @@ export const completeSession = mutation({
     summary: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const session = await ctx.db.get(args.sessionId);
-    if (!session) return;
+    const session = await loadOwnedSession(ctx, args.sessionId);
 
     await ctx.db.patch(args.sessionId, {
       endedAt: Date.now(),
@@ -83,6 +94,17 @@ export const completeSession = mutation({
       summary: args.summary ?? session.summary,
       updatedAt: Date.now(),
     });
+
+    if (session.projectId && session.status !== "completed") {
+      await ctx.scheduler.runAfter(0, internal.recaps.generateSessionRecap, {
+        sessionId: args.sessionId,
+      });
+    }
+    if (session.userId && session.status !== "completed") {
+      await ctx.scheduler.runAfter(0, internal.voiceProfiles.learnVoiceProfile, {
+        userId: session.userId,
+      });
+    }
   },
 });
 
@@ -92,6 +114,7 @@ export const setNoiseProfile = mutation({
     noiseProfile: NOISE_PROFILES,
   },
   handler: async (ctx, args) => {
+    await loadOwnedSession(ctx, args.sessionId);
     await ctx.db.patch(args.sessionId, {
       inputAudioNoiseReduction: args.noiseProfile,
       updatedAt: Date.now(),
@@ -99,16 +122,56 @@ export const setNoiseProfile = mutation({
   },
 });
 
+/**
+ * Lets a server route confirm that a bearer token is a signed-in Convex user
+ * before it spends a provider key on their behalf.
+ */
+export const requireSignedIn = query({
+  args: {},
+  handler: async (ctx): Promise<null> => {
+    if (!(await ctx.auth.getUserIdentity())) {
+      throw accessError("UNAUTHENTICATED", "Sign in to continue");
+    }
+    return null;
+  },
+});
+
+// Messages carry their session's project for transcript search, and only
+// messages with a project can be embedded for drafting retrieval.
+async function stampSessionMessages(
+  ctx: MutationCtx,
+  sessionId: Id<"sessions">,
+  projectId: Id<"projects">,
+) {
+  const messages = await ctx.db
+    .query("messages")
+    .withIndex("by_session", (q) => q.eq("sessionId", sessionId))
+    .collect();
+  const messageIds: Id<"messages">[] = [];
+  for (const message of messages) {
+    if (message.projectId !== projectId) {
+      await ctx.db.patch(message._id, { projectId });
+      messageIds.push(message._id);
+    }
+  }
+  if (messageIds.length > 0) {
+    await ctx.scheduler.runAfter(0, internal.embeddings.embedSources, { messageIds });
+  }
+}
+
 export const assignProjectContext = mutation({
   args: {
     sessionId: v.id("sessions"),
     projectId: v.id("projects"),
   },
   handler: async (ctx, args) => {
+    await loadOwnedSession(ctx, args.sessionId);
+    await requireProjectAccess(ctx, args.projectId, "edit");
     await ctx.db.patch(args.sessionId, {
       projectId: args.projectId,
       updatedAt: Date.now(),
     });
+    await stampSessionMessages(ctx, args.sessionId, args.projectId);
   },
 });
 
@@ -118,9 +181,116 @@ export const setLanguagePreference = mutation({
     language: LANGUAGE_CODE,
   },
   handler: async (ctx, args) => {
+    await loadOwnedSession(ctx, args.sessionId);
     await ctx.db.patch(args.sessionId, {
       language: args.language,
       updatedAt: Date.now(),
     });
   },
 });
+
+// Every realtime item id a session's messages were saved under, from the
+// message tags and the project transcript.
+async function collectMessagePointers(
+  ctx: QueryCtx,
+  session: Doc<"sessions">,
+  messages: Doc<"messages">[],
+) {
+  const pointers: { itemId: string; messageId: Id<"messages"> }[] = [];
+  for (const message of messages) {
+    for (const tag of message.tags ?? []) {
+      pointers.push({ itemId: tag, messageId: message._id });
+    }
+  }
+  if (session.projectId) {
+    const projectId = session.projectId;
+    const transcript = await ctx.db
+      .query("projectTranscripts")
+      .withIndex("by_project_session", (q) =>
+        q.eq("projectId", projectId).eq("sessionId", session._id),
+      )
+      .unique();
+    for (const item of transcript?.items ?? []) {
+      if (item.messageId) {
+        pointers.push({ itemId: item.id, messageId: item.messageId });
+      }
+    }
+  }
+  return pointers;
+}
+
+/**
+ * What a reconnecting client needs to pick the conversation back up: the
+ * persisted transcript, plus the realtime item ids each message was saved
+ * under so transcript pointers from before the drop still resolve.
+ */
+export const getResumeContext = query({
+  args: {
+    sessionId: v.id("sessions"),
+  },
+  handler: async (ctx, args) => {
+    const session = await loadOwnedSession(
+      ctx,
+      args.sessionId,
+      "Only the person running this session can resume it",
+    );
+
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    messages.sort((a, b) => a.timestamp - b.timestamp);
+
+    return {
+      status: session.status,
+      projectId: session.projectId ?? null,
+      messages: messages.map((message) => ({
+        _id: message._id,
+        speaker: message.speaker,
+        transcript: message.transcript,
+      })),
+      pointers: await collectMessagePointers(ctx, session, messages),
+    };
+  },
+});
+
+/**
+ * Maps transcript pointers from a tool call to the session's persisted
+ * messages. A pointer may be a realtime item id or already a message id;
+ * ones that match nothing yet are left out.
+ */
+export const resolveMessagePointers = internalQuery({
+  args: {
+    sessionId: v.id("sessions"),
+    pointers: v.array(v.string()),
+  },
+  handler: async (ctx, args): Promise<Record<string, Id<"messages">>> => {
+    const session = await loadOwnedSession(
+      ctx,
+      args.sessionId,
+      "Only the person running this session can use its transcript",
+    );
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    const byItemId = new Map(
+      (await collectMessagePointers(ctx, session, messages)).map(
+        (pointer) => [pointer.itemId, pointer.messageId] as const,
+      ),
+    );
+    const sessionMessageIds = new Set<string>(messages.map((message) => message._id));
+
+    const resolved: Record<string, Id<"messages">> = {};
+    for (const pointer of args.pointers) {
+      const trimmed = pointer.trim();
+      const direct = ctx.db.normalizeId("messages", trimmed);
+      const messageId =
+        direct && sessionMessageIds.has(direct) ? direct : byItemId.get(trimmed);
+      if (messageId) {
+        resolved[pointer] = messageId;
+      }
+    }
+    return resolved;
+  },
+});
@@ -0,0 +1,155 @@
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+
+import { internal } from "./_generated/api";
+import { STYLE_FINDING_VALIDATOR, formatLintTodo, parsePhraseList } from "./lib/styleLint";
+import { requireProjectAccess } from "./utils";
+
+const MAX_PROJECT_PHRASES = 50;
+const RECENT_RESULTS = 100;
+
+const LINT_RESULT_VALIDATOR = v.object({
+  sectionId: v.id("documentSections"),
+  heading: v.string(),
+  score: v.number(),
+  passed: v.boolean(),
+  findings: v.array(STYLE_FINDING_VALIDATOR),
+});
+
+async function latestResult(ctx: MutationCtx, sectionId: Id<"documentSections">) {
+  return ctx.db
+    .query("styleLintResults")
+    .withIndex("by_section", (q) => q.eq("sectionId", sectionId))
+    .order("desc")
+    .first();
+}
+
+/**
+ * Raise or refresh the section's lint TODO. A section that keeps failing
+ * across drafts keeps one open TODO rather than collecting a new one per job.
+ */
+async function upsertLintTodo(
+  ctx: MutationCtx,
+  projectId: Id<"projects">,
+  previous: Doc<"styleLintResults"> | null,
+  label: string,
+  now: number,
+) {
+  const existing = previous?.todoId ? await ctx.db.get(previous.todoId) : null;
+  if (existing && existing.status !== "resolved") {
+    await ctx.db.patch(existing._id, { label });
+    if (existing.noteId) await ctx.db.patch(existing.noteId, { content: label });
+    return { todoId: existing._id, noteId: existing.noteId };
+  }
+  const noteId = await ctx.db.insert("notes", {
+    projectId,
+    noteType: "todo",
+    content: label,
+    resolved: false,
+    createdAt: now,
+  });
+  const todoId = await ctx.db.insert("todos", {
+    projectId,
+    label,
+    status: "open",
+    createdAt: now,
+    noteId,
+  });
+  return { todoId, noteId };
+}
+
+/** Store the post-draft lint results and act on failures. */
+export const recordStyleLint = internalMutation({
+  args: {
+    projectId: v.id("projects"),
+    draftJobId: v.id("draftJobs"),
+    results: v.array(LINT_RESULT_VALIDATOR),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const noteIds: Id<"notes">[] = [];
+    let failed = 0;
+    for (const result of args.results) {
+      const section = await ctx.db.get(result.sectionId);
+      if (!section) continue;
+      const previous = await latestResult(ctx, result.sectionId);
+      let todoId: Id<"todos"> | undefined;
+
+      if (result.passed) {
+        // The redraft fixed what the last check flagged; close its TODO.
+        const todo = previous?.todoId ? await ctx.db.get(previous.todoId) : null;
+        if (todo && todo.status === "open") {
+          await ctx.db.patch(todo._id, { status: "resolved", resolvedAt: now });
+          if (todo.noteId) await ctx.db.patch(todo.noteId, { resolved: true });
+        }
+      } else {
+        failed += 1;
+        const todo = await upsertLintTodo(
+          ctx,
+          args.projectId,
+          previous,
+          formatLintTodo(result.heading, result),
+          now,
+        );
+        todoId = todo.todoId;
+        if (todo.noteId) noteIds.push(todo.noteId);
+        if (!section.locked && section.status !== "needs_detail") {
+          await ctx.db.patch(section._id, { status: "needs_detail", updatedAt: now });
+        }
+      }
+
+      await ctx.db.insert("styleLintResults", {
+        projectId: args.projectId,
+        draftJobId: args.draftJobId,
+        ...result,
+        todoId,
+        createdAt: now,
+      });
+    }
+    if (noteIds.length > 0) {
+      await ctx.scheduler.runAfter(0, internal.embeddings.embedSources, { noteIds });
+    }
+    return { checked: args.results.length, failed };
+  },
+});
+
+/** The latest check for each recently drafted section, newest first. */
+export const listForProject = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    await requireProjectAccess(ctx, args.projectId);
+    const recent = await ctx.db
+      .query("styleLintResults")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .order("desc")
+      .take(RECENT_RESULTS);
+    const seen = new Set<Id<"documentSections">>();
+    return recent.filter((result) => {
+      if (seen.has(result.sectionId)) return false;
+      seen.add(result.sectionId);
+      return true;
+    });
+  },
+});
+
+/** Replace the project's extra banned phrases; the built-in list always applies. */
+export const setBannedPhrases = mutation({
+  args: {
+    projectId: v.id("projects"),
+    phrases: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireProjectAccess(ctx, args.projectId, "edit");
+    const phrases = [...new Set(parsePhraseList(args.phrases.join("\n")))];
+    if (phrases.length > MAX_PROJECT_PHRASES) {
+      throw new Error(`A project can ban at most ${MAX_PROJECT_PHRASES} phrases`);
+    }
+    await ctx.db.patch(args.projectId, {
+      styleBannedPhrases: phrases.length > 0 ? phrases : undefined,
+      updatedAt: Date.now(),
+    });
+    return phrases;
+  },
+});
@@ -1,7 +1,10 @@
-import { mutation, query } from "./_generated/server";
+import { internalQuery, mutation, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
 import type { Doc, Id } from "./_generated/dataModel";
 import { v } from "convex/values";
 
+import { requireProjectAccess } from "./utils";
+
 const TODO_STATUS = v.union(
   v.literal("open"),
   v.literal("in_review"),
@@ -14,22 +17,34 @@ const STATUS_ORDER: Record<Doc<"todos">["status"], number> = {
   resolved: 2,
 };
 
+async function listTodos(ctx: QueryCtx, args: { projectId: Id<"projects"> }) {
+  const todos = await ctx.db
+    .query("todos")
+    .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+    .collect();
+
+  return todos.sort((a, b) => {
+    const statusCompare = STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+    if (statusCompare !== 0) return statusCompare;
+    return b.createdAt - a.createdAt;
+  });
+}
+
 export const listForProject = query({
   args: {
     projectId: v.id("projects"),
   },
   handler: async (ctx, args) => {
-    const todos = await ctx.db
-      .query("todos")
-      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
-      .collect();
+    await requireProjectAccess(ctx, args.projectId);
+    return listTodos(ctx, args);
+  },
+});
 
-    return todos.sort((a, b) => {
-      const statusCompare = STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
-      if (statusCompare !== 0) return statusCompare;
-      return b.createdAt - a.createdAt;
-    });
+export const listForProjectInternal = internalQuery({
+  args: {
+    projectId: v.id("projects"),
   },
+  handler: listTodos,
 });
 
 export const updateStatus = mutation({
@@ -42,6 +57,7 @@ export const updateStatus = mutation({
     if (!todo) {
       throw new Error("Todo not found");
     }
+    await requireProjectAccess(ctx, todo.projectId, "resolveTodos");
 
     const now = Date.now();
     const resolvedAt = args.status === "resolved" ? now : undefined;
@@ -0,0 +1,100 @@
+import { internalMutation, query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+
+import { accessError } from "./lib/access";
+import { loadOwnedSession, loadViewer, requireProjectAccess } from "./utils";
+
+// Enough for a long session; the log is for diagnosis, not an archive.
+const LOG_LIMIT = 500;
+
+export const record = internalMutation({
+  args: {
+    sessionId: v.optional(v.id("sessions")),
+    projectId: v.optional(v.string()),
+    name: v.string(),
+    mode: v.string(),
+    rawArguments: v.string(),
+    arguments: v.optional(v.string()),
+    success: v.boolean(),
+    result: v.optional(v.string()),
+    error: v.optional(v.string()),
+    latencyMs: v.number(),
+    replayOf: v.optional(v.id("toolCalls")),
+  },
+  handler: async (ctx, args) => {
+    const viewer = await loadViewer(ctx);
+    // The model can name a project that does not exist; keep the call, drop the link.
+    const projectId = args.projectId
+      ? ctx.db.normalizeId("projects", args.projectId) ?? undefined
+      : undefined;
+    // The session id comes from the client. Only file the call under it when
+    // the caller runs that session, so nobody can write into another's log.
+    let sessionId = args.sessionId;
+    if (sessionId) {
+      try {
+        await loadOwnedSession(ctx, sessionId);
+      } catch {
+        sessionId = undefined;
+      }
+    }
+    return ctx.db.insert("toolCalls", {
+      ...args,
+      sessionId,
+      projectId,
+      userId: viewer?._id,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Starts the session a replay runs in. It is marked `replay` rather than
+ * completed so no recap or voice-profile pass is scheduled for it.
+ */
+export const createReplaySession = internalMutation({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args): Promise<Id<"sessions">> => {
+    const { viewer } = await requireProjectAccess(ctx, args.projectId, "edit");
+    const now = Date.now();
+    return ctx.db.insert("sessions", {
+      projectId: args.projectId,
+      userId: viewer._id,
+      startedAt: now,
+      status: "replay",
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * A session's tool calls, oldest first. Visible to whoever ran the session
+ * and to members of its project.
+ */
+export const listForSession = query({
+  args: {
+    sessionId: v.id("sessions"),
+  },
+  handler: async (ctx, args) => {
+    const viewer = await loadViewer(ctx);
+    if (!viewer) {
+      throw accessError("UNAUTHENTICATED", "Sign in to continue");
+    }
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) {
+      throw accessError("NOT_FOUND", "Session not found");
+    }
+    if (session.userId !== viewer._id) {
+      if (!session.projectId) {
+        throw accessError("FORBIDDEN", "You do not have access to this session");
+      }
+      await requireProjectAccess(ctx, session.projectId);
+    }
+    return ctx.db
+      .query("toolCalls")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .take(LOG_LIMIT);
+  },
+});
@@ -0,0 +1,268 @@
+import { action } from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+
+import { api, internal } from "./_generated/api";
+import { accessError } from "./lib/access";
+import {
+  prepareToolCall,
+  runTool,
+  type ProjectToolResult,
+  type RecentProject,
+  type ToolContext,
+  type ToolOutcome,
+  type ToolPorts,
+  type ToolRun,
+} from "./lib/toolRouter";
+import {
+  AUDIT_ARGUMENT_CHARS,
+  AUDIT_RESULT_CHARS,
+  collectIdPairs,
+  collectIds,
+  foreignRecordId,
+  parseAuditValue,
+  remapIds,
+  serializeForAudit,
+  toolCallProjectId,
+} from "./lib/toolCalls";
+
+const SESSION_MODE = v.union(
+  v.literal("intake"),
+  v.literal("blueprint"),
+  v.literal("ghostwriting"),
+);
+
+function convexToolPorts(ctx: ActionCtx, sessionId: Id<"sessions"> | undefined): ToolPorts {
+  return {
+    listProjects: (limit) => ctx.runQuery(api.projects.listProjects, { limit }),
+    getProject: (projectId) => ctx.runQuery(api.projects.getProject, { projectId }),
+    createProject: (args) => ctx.runMutation(api.projects.createProject, args),
+    updateProjectMetadata: (args) => ctx.runMutation(api.projects.updateProjectMetadata, args),
+    syncBlueprintField: (args) => ctx.runMutation(api.projects.syncBlueprintField, args),
+    commitBlueprint: (args) => ctx.runMutation(api.projects.commitBlueprint, args),
+    recordTranscriptPointer: (args) => ctx.runMutation(api.projects.recordTranscriptPointer, args),
+    listNotes: (args) => ctx.runQuery(api.notes.listForProject, args),
+    listTodos: (projectId) => ctx.runQuery(api.todos.listForProject, { projectId }),
+    createNote: (args) => ctx.runMutation(api.notes.createNote, args),
+    updateTodoStatus: (args) => ctx.runMutation(api.todos.updateStatus, args),
+    getDocumentWorkspace: (projectId) => ctx.runQuery(api.documents.getWorkspace, { projectId }),
+    manageOutline: (args) => ctx.runMutation(api.documents.manageOutline, args),
+    enqueueDraftUpdate: (args) => ctx.runMutation(api.documents.enqueueDraftUpdate, args),
+    applyDocumentEdits: (args) => ctx.runMutation(api.documents.applyEdits, { ...args, sessionId }),
+    resolveMessagePointers: async (pointers) =>
+      sessionId
+        ? ctx.runQuery(internal.sessions.resolveMessagePointers, { sessionId, pointers })
+        : {},
+  };
+}
+
+/**
+ * Runs a call and writes it to the `toolCalls` log. A failed write is
+ * logged and otherwise ignored; the conversation matters more than the audit.
+ */
+async function runAndRecord(
+  ctx: ActionCtx,
+  name: string,
+  rawArguments: unknown,
+  context: ToolContext,
+  replayOf?: Id<"toolCalls">,
+): Promise<ToolRun> {
+  const sessionId = context.sessionId ?? undefined;
+  const startedAt = Date.now();
+  const { outcome, call } = await runTool(
+    name,
+    rawArguments,
+    context,
+    convexToolPorts(ctx, sessionId),
+  );
+  const latencyMs = Date.now() - startedAt;
+  try {
+    await ctx.runMutation(internal.toolCalls.record, {
+      sessionId,
+      projectId: toolCallProjectId(call, outcome, context.projectId) ?? undefined,
+      name: call?.name ?? name,
+      mode: context.mode,
+      rawArguments: serializeForAudit(rawArguments, AUDIT_ARGUMENT_CHARS) ?? "{}",
+      arguments: call ? serializeForAudit(call.args, AUDIT_ARGUMENT_CHARS) : undefined,
+      success: outcome.success,
+      result: outcome.success ? serializeForAudit(outcome.result, AUDIT_RESULT_CHARS) : undefined,
+      error: outcome.success ? undefined : outcome.error,
+      latencyMs,
+      replayOf,
+    });
+  } catch (recordError) {
+    console.warn("[tools] failed to record tool call", { name, recordError });
+  }
+  return { outcome, call };
+}
+
+/**
+ * Runs one session tool call for any client. Arguments are validated
+ * against the tool's schema before anything is written, and every Convex
+ * function it reaches applies its own access checks as the caller.
+ */
+export const execute = action({
+  args: {
+    name: v.string(),
+    arguments: v.optional(v.any()),
+    mode: SESSION_MODE,
+    sessionId: v.optional(v.id("sessions")),
+    projectId: v.optional(v.string()),
+    recentProjects: v.optional(
+      v.array(
+        v.object({
+          projectId: v.string(),
+          title: v.optional(v.string()),
+        }),
+      ),
+    ),
+  },
+  handler: async (ctx, args): Promise<ToolOutcome> => {
+    if (!(await ctx.auth.getUserIdentity())) {
+      throw accessError("UNAUTHENTICATED", "Sign in to continue");
+    }
+    const { name, arguments: rawArguments, ...context } = args;
+    const { outcome } = await runAndRecord(ctx, name, rawArguments ?? {}, context);
+    return outcome;
+  },
+});
+
+export type ReplayStep = {
+  toolCallId: Id<"toolCalls">;
+  name: string;
+  recordedSuccess: boolean;
+  success: boolean | null;
+  error: string | null;
+};
+
+export type ReplayReport = {
+  projectId: Id<"projects">;
+  sessionId: Id<"sessions">;
+  steps: ReplayStep[];
+  // Steps whose success differs from the recording, or that could not run.
+  diverged: number;
+};
+
+const projectResults = (result: unknown): RecentProject[] =>
+  (Array.isArray(result) ? result : result ? [result] : []).map((entry: ProjectToolResult) => ({
+    projectId: entry.projectId,
+    title: entry.project?.title,
+  }));
+
+/**
+ * Re-runs a session's recorded tool calls, in order, against a fresh copy of
+ * its project and a new `replay` session, so a bug the assistant triggered
+ * can be reproduced without touching the original. Ids the recording
+ * produced are swapped for the ones the replay produces as it goes, and a
+ * call that would still reach a project, note or todo the replay did not
+ * create is reported instead of run. From a terminal:
+ * `npm run replay:tools -- '{"sessionId":"…"}' --identity '…'`.
+ */
+export const replaySession = action({
+  args: {
+    sessionId: v.id("sessions"),
+  },
+  handler: async (ctx, args): Promise<ReplayReport> => {
+    if (!(await ctx.auth.getUserIdentity())) {
+      throw accessError("UNAUTHENTICATED", "Sign in to continue");
+    }
+    const recorded = await ctx.runQuery(api.toolCalls.listForSession, {
+      sessionId: args.sessionId,
+    });
+    if (recorded.length === 0) {
+      throw new Error("No tool calls were recorded for this session");
+    }
+
+    const sourceProjectId = recorded.find((entry) => entry.projectId)?.projectId;
+    const source = sourceProjectId
+      ? await ctx.runQuery(api.projects.getProject, { projectId: sourceProjectId })
+      : null;
+    const fresh = await ctx.runMutation(api.projects.createProject, {
+      title: `Replay of ${source?.project.title ?? "session"}`,
+      contentType: source?.project.contentType ?? "article",
+      goal: source?.project.goal,
+    });
+    const projectId = fresh.project._id;
+    const sessionId = await ctx.runMutation(internal.toolCalls.createReplaySession, {
+      projectId,
+    });
+
+    const idPairs = new Map<string, string>();
+    if (sourceProjectId) {
+      idPairs.set(sourceProjectId, projectId);
+    }
+    // Records this replay made, or reached through ones it made.
+    const replayIds = new Set<string>([projectId]);
+    const context: ToolContext = { mode: "intake", sessionId, projectId, recentProjects: [] };
+    const steps: ReplayStep[] = [];
+
+    for (const entry of recorded) {
+      const rawArguments = parseAuditValue(entry.rawArguments);
+      const step: ReplayStep = {
+        toolCallId: entry._id,
+        name: entry.name,
+        recordedSuccess: entry.success,
+        success: null,
+        error: null,
+      };
+      steps.push(step);
+      if (rawArguments === null) {
+        step.error = "Arguments were too large to record";
+        continue;
+      }
+
+      context.mode = entry.mode as ToolContext["mode"];
+      const remapped = remapIds(rawArguments, idPairs);
+      const prepared = prepareToolCall(entry.name, remapped, context);
+      const foreignId = prepared.ok ? foreignRecordId(prepared.call.args, replayIds) : null;
+      if (foreignId) {
+        step.success = false;
+        step.error = `Not run: ${foreignId} is not a record this replay created`;
+        continue;
+      }
+
+      const { outcome, call } = await runAndRecord(ctx, entry.name, remapped, context, entry._id);
+      step.success = outcome.success;
+      if (!outcome.success) {
+        step.error = outcome.error;
+        continue;
+      }
+
+      collectIdPairs(parseAuditValue(entry.result), outcome.result, idPairs);
+      const target = toolCallProjectId(call, outcome);
+      if (entry.name === "create_project" || (target && replayIds.has(target))) {
+        collectIds(outcome.result, replayIds);
+      }
+      // The same session state the live client keeps between calls.
+      switch (entry.name) {
+        case "list_projects":
+        case "get_project":
+        case "create_project":
+        case "update_project_metadata":
+        case "sync_blueprint_field":
+        case "commit_blueprint":
+          context.recentProjects = projectResults(outcome.result);
+          break;
+        case "assign_project_to_session": {
+          const assigned = (outcome.result as { projectId: Id<"projects"> }).projectId;
+          await ctx.runMutation(api.sessions.assignProjectContext, {
+            sessionId,
+            projectId: assigned,
+          });
+          context.projectId = assigned;
+          break;
+        }
+        default:
+          break;
+      }
+    }
+
+    return {
+      projectId,
+      sessionId,
+      steps,
+      diverged: steps.filter((step) => step.success !== step.recordedSuccess).length,
+    };
+  },
+});
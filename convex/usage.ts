@@ -0,0 +1,265 @@
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+
+import { resolveModelProvider } from "./lib/modelProviders";
+import {
+  ECONOMY_MODELS,
+  estimateCostUsd,
+  evaluateBudget,
+  monthKey,
+  priceForModel,
+  resolveBudgetLimits,
+  worstBudgetState,
+  type BudgetLimits,
+  type BudgetState,
+} from "./lib/usageBudget";
+import { requireProjectAccess } from "./utils";
+
+const HISTORY_MONTHS = 6;
+
+const readUsdEnv = (name: string) => {
+  const value = Number.parseFloat(process.env[name] ?? "");
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+};
+
+// Per-user limits apply across every project the user drafts in.
+const userBudgetLimits = (): BudgetLimits =>
+  resolveBudgetLimits({
+    softUsd: readUsdEnv("DRAFT_USER_MONTHLY_SOFT_USD"),
+    hardUsd: readUsdEnv("DRAFT_USER_MONTHLY_HARD_USD"),
+  });
+
+async function loadLedger(
+  ctx: QueryCtx | MutationCtx,
+  owner: { projectId: Id<"projects"> } | { userId: Id<"users"> },
+  month: string,
+) {
+  return "projectId" in owner
+    ? ctx.db
+        .query("usageLedgers")
+        .withIndex("by_project_month", (q) =>
+          q.eq("projectId", owner.projectId).eq("month", month),
+        )
+        .unique()
+    : ctx.db
+        .query("usageLedgers")
+        .withIndex("by_user_month", (q) => q.eq("userId", owner.userId).eq("month", month))
+        .unique();
+}
+
+async function addToLedger(
+  ctx: MutationCtx,
+  owner: { projectId: Id<"projects"> } | { userId: Id<"users"> },
+  month: string,
+  entry: { inputTokens: number; outputTokens: number; costUsd: number | null },
+  now: number,
+) {
+  const totalTokens = entry.inputTokens + entry.outputTokens;
+  const existing = await loadLedger(ctx, owner, month);
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      inputTokens: existing.inputTokens + entry.inputTokens,
+      outputTokens: existing.outputTokens + entry.outputTokens,
+      totalTokens: existing.totalTokens + totalTokens,
+      costUsd: existing.costUsd + (entry.costUsd ?? 0),
+      unpricedTokens: existing.unpricedTokens + (entry.costUsd === null ? totalTokens : 0),
+      callCount: existing.callCount + 1,
+      updatedAt: now,
+    });
+    return;
+  }
+  await ctx.db.insert("usageLedgers", {
+    scope: "projectId" in owner ? "project" : "user",
+    ...owner,
+    month,
+    inputTokens: entry.inputTokens,
+    outputTokens: entry.outputTokens,
+    totalTokens,
+    costUsd: entry.costUsd ?? 0,
+    unpricedTokens: entry.costUsd === null ? totalTokens : 0,
+    callCount: 1,
+    updatedAt: now,
+  });
+}
+
+/** Charge one model call to its project and, when known, the requesting user. */
+export const recordUsage = internalMutation({
+  args: {
+    projectId: v.id("projects"),
+    userId: v.optional(v.id("users")),
+    model: v.string(),
+    usage: v.object({
+      inputTokens: v.optional(v.number()),
+      outputTokens: v.optional(v.number()),
+      totalTokens: v.optional(v.number()),
+    }),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const month = monthKey(now);
+    const entry = {
+      inputTokens: args.usage.inputTokens ?? 0,
+      outputTokens: args.usage.outputTokens ?? 0,
+      costUsd: estimateCostUsd(args.model, args.usage),
+    };
+    await addToLedger(ctx, { projectId: args.projectId }, month, entry, now);
+    if (args.userId) {
+      await addToLedger(ctx, { userId: args.userId }, month, entry, now);
+    }
+  },
+});
+
+export type DraftBudgetStatus = {
+  month: string;
+  state: BudgetState;
+  project: { spentUsd: number; limits: BudgetLimits; state: BudgetState };
+  user: { spentUsd: number; limits: BudgetLimits; state: BudgetState } | null;
+};
+
+export async function loadBudgetStatus(
+  ctx: QueryCtx | MutationCtx,
+  project: Doc<"projects">,
+  userId: Id<"users"> | null,
+): Promise<DraftBudgetStatus> {
+  const month = monthKey(Date.now());
+  const blueprint = await ctx.db
+    .query("projectBlueprints")
+    .withIndex("by_project", (q) => q.eq("projectId", project._id))
+    .unique();
+
+  const projectLedger = await loadLedger(ctx, { projectId: project._id }, month);
+  const projectLimits = resolveBudgetLimits(
+    { softUsd: project.budgetSoftUsd, hardUsd: project.budgetHardUsd },
+    blueprint?.budgetRange,
+  );
+  const projectSpent = projectLedger?.costUsd ?? 0;
+  const projectState = evaluateBudget(projectSpent, projectLimits);
+
+  let user: DraftBudgetStatus["user"] = null;
+  if (userId) {
+    const userLedger = await loadLedger(ctx, { userId }, month);
+    const limits = userBudgetLimits();
+    const spentUsd = userLedger?.costUsd ?? 0;
+    user = { spentUsd, limits, state: evaluateBudget(spentUsd, limits) };
+  }
+
+  return {
+    month,
+    state: worstBudgetState(projectState, user?.state ?? "ok"),
+    project: { spentUsd: projectSpent, limits: projectLimits, state: projectState },
+    user,
+  };
+}
+
+/** Why drafting must stop, or null while spend is under the hard limits. */
+export function hardLimitReason(status: DraftBudgetStatus): string | null {
+  if (status.state !== "hard") return null;
+  const scope = status.project.state === "hard" ? "This project" : "Your account";
+  return `${scope} has reached its monthly drafting budget for ${status.month}. Raise the limit in the usage panel to keep drafting.`;
+}
+
+/**
+ * The model a new draft job should use under the current budget, or
+ * undefined to keep the project's configured model. Throws at the hard limit.
+ */
+export function budgetedDraftingModel(
+  project: Doc<"projects">,
+  status: DraftBudgetStatus,
+): string | undefined {
+  const stopped = hardLimitReason(status);
+  if (stopped) {
+    throw new Error(stopped);
+  }
+  if (status.state !== "soft") return undefined;
+
+  const provider = resolveModelProvider(project.modelProvider);
+  const economy = ECONOMY_MODELS[provider.id];
+  const current = project.draftingModel ?? provider.defaultModel("drafting");
+  if (!economy || economy === current) return undefined;
+  return economy;
+}
+
+/**
+ * Gate for actions that call a model outside the draft queue: the caller
+ * needs edit access and both budgets must be under their hard limits.
+ * Returns who to charge the call to.
+ */
+export const authorizeModelCall = internalQuery({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    const { viewer, project } = await requireProjectAccess(ctx, args.projectId, "edit");
+    const stopped = hardLimitReason(await loadBudgetStatus(ctx, project, viewer._id));
+    if (stopped) {
+      throw new Error(stopped);
+    }
+    return { userId: viewer._id, modelProvider: project.modelProvider };
+  },
+});
+
+export const getProjectUsage = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    const { viewer, project, role } = await requireProjectAccess(ctx, args.projectId);
+    const status = await loadBudgetStatus(ctx, project, viewer._id);
+
+    const history = await ctx.db
+      .query("usageLedgers")
+      .withIndex("by_project_month", (q) => q.eq("projectId", args.projectId))
+      .order("desc")
+      .take(HISTORY_MONTHS);
+    const userLedger = await loadLedger(ctx, { userId: viewer._id }, status.month);
+
+    const provider = resolveModelProvider(project.modelProvider);
+    const model = project.draftingModel ?? provider.defaultModel("drafting");
+
+    return {
+      ...status,
+      canEdit: role === "owner" || role === "editor",
+      explicitLimits: { softUsd: project.budgetSoftUsd, hardUsd: project.budgetHardUsd },
+      model,
+      price: priceForModel(model),
+      downgradeModel: status.state === "soft" ? budgetedDraftingModel(project, status) : undefined,
+      history: history.map((ledger) => ({
+        month: ledger.month,
+        inputTokens: ledger.inputTokens,
+        outputTokens: ledger.outputTokens,
+        totalTokens: ledger.totalTokens,
+        costUsd: ledger.costUsd,
+        unpricedTokens: ledger.unpricedTokens,
+        callCount: ledger.callCount,
+      })),
+      userMonth: userLedger
+        ? { totalTokens: userLedger.totalTokens, costUsd: userLedger.costUsd }
+        : null,
+    };
+  },
+});
+
+/** Updates the limits that are passed; null clears one, omitting it keeps it. */
+export const setBudgetLimits = mutation({
+  args: {
+    projectId: v.id("projects"),
+    softUsd: v.optional(v.union(v.number(), v.null())),
+    hardUsd: v.optional(v.union(v.number(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const { project } = await requireProjectAccess(ctx, args.projectId, "edit");
+    const softUsd = args.softUsd === undefined ? project.budgetSoftUsd : args.softUsd ?? undefined;
+    const hardUsd = args.hardUsd === undefined ? project.budgetHardUsd : args.hardUsd ?? undefined;
+    for (const value of [softUsd, hardUsd]) {
+      if (value !== undefined && (!Number.isFinite(value) || value <= 0)) {
+        throw new Error("Budget limits must be positive amounts");
+      }
+    }
+    if (softUsd !== undefined && hardUsd !== undefined && softUsd > hardUsd) {
+      throw new Error("The soft limit must not exceed the hard limit");
+    }
+    await ctx.db.patch(args.projectId, {
+      budgetSoftUsd: softUsd,
+      budgetHardUsd: hardUsd,
+      updatedAt: Date.now(),
+    });
+  },
+});
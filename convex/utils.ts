@@ -1,7 +1,16 @@
+import type { UserIdentity } from "convex/server";
+
 import type { Doc, Id } from "./_generated/dataModel";
 import type { MutationCtx, QueryCtx } from "./_generated/server";
 
-export const SANDBOX_EXTERNAL_ID = "local-dev";
+import {
+  accessError,
+  describeDeniedCapability,
+  roleAllows,
+  type ProjectCapability,
+  type ProjectRole,
+} from "./lib/access";
+
 export const SANDBOX_PROJECT_TITLE = "Realtime Session Sandbox";
 
 async function getUserByExternalId<Ctx extends MutationCtx | QueryCtx>(
@@ -14,33 +23,188 @@ async function getUserByExternalId<Ctx extends MutationCtx | QueryCtx>(
     .unique();
 }
 
-export async function ensureLocalUser(
+/**
+ * The identity's email, lowercased, only when the auth provider vouches for
+ * it. Anything granted by email (invitations, admin lists) goes through this.
+ */
+export function verifiedEmail(identity: UserIdentity | null): string | null {
+  if (identity?.emailVerified !== true) return null;
+  return identity.email?.trim().toLowerCase() || null;
+}
+
+/**
+ * The signed-in user's record, keyed by the auth provider's token identifier.
+ * Returns null when signed out or before the first mutation has created it.
+ */
+export async function loadViewer(
+  ctx: MutationCtx | QueryCtx,
+): Promise<Doc<"users"> | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) return null;
+  const user = await getUserByExternalId(ctx, identity.tokenIdentifier);
+  return user ?? null;
+}
+
+export async function ensureViewer(
   ctx: MutationCtx,
   now: number,
 ): Promise<Doc<"users">> {
-  const existing = await getUserByExternalId(ctx, SANDBOX_EXTERNAL_ID);
-  if (existing) return existing;
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw accessError("UNAUTHENTICATED", "Sign in to continue");
+  }
 
-  const userId = await ctx.db.insert("users", {
-    externalId: SANDBOX_EXTERNAL_ID,
-    email: undefined,
-    displayName: "Ghostwriter Sandbox",
-    voicePreferences: undefined,
-    createdAt: now,
-  });
+  const email = identity.email?.trim().toLowerCase();
+  const displayName = identity.name ?? identity.nickname ?? email;
+  const existing = await getUserByExternalId(ctx, identity.tokenIdentifier);
+  let user: Doc<"users"> | null = existing;
+  if (existing) {
+    if (existing.email !== email || existing.displayName !== displayName) {
+      await ctx.db.patch(existing._id, { email, displayName });
+      user = { ...existing, email, displayName };
+    }
+  } else {
+    const userId = await ctx.db.insert("users", {
+      externalId: identity.tokenIdentifier,
+      email,
+      displayName,
+      createdAt: now,
+    });
+    user = await ctx.db.get(userId);
+  }
 
-  const user = await ctx.db.get(userId);
   if (!user) {
-    throw new Error("Failed to load sandbox user after insert");
+    throw new Error("Failed to load user after insert");
+  }
+  const claimableEmail = verifiedEmail(identity);
+  if (claimableEmail) {
+    await claimProjectInvitations(ctx, user._id, claimableEmail, now);
   }
   return user;
 }
 
-export async function loadLocalUser(
+async function claimProjectInvitations(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  email: string,
+  now: number,
+) {
+  const invitations = await ctx.db
+    .query("projectMembers")
+    .withIndex("by_email", (q) => q.eq("email", email).eq("status", "invited"))
+    .collect();
+  for (const invitation of invitations) {
+    await ctx.db.patch(invitation._id, { userId, status: "active", acceptedAt: now });
+  }
+}
+
+export async function loadProjectRole(
   ctx: MutationCtx | QueryCtx,
-): Promise<Doc<"users"> | null> {
-  const user = await getUserByExternalId(ctx, SANDBOX_EXTERNAL_ID);
-  return user ?? null;
+  project: Doc<"projects">,
+  userId: Id<"users">,
+): Promise<ProjectRole | null> {
+  if (project.ownerId === userId) return "owner";
+  const membership = await ctx.db
+    .query("projectMembers")
+    .withIndex("by_project_user", (q) => q.eq("projectId", project._id).eq("userId", userId))
+    .unique();
+  return membership?.status === "active" ? membership.role : null;
+}
+
+/** Projects the user owns or is an active member of, with their role on each. */
+export async function loadAccessibleProjects(
+  ctx: MutationCtx | QueryCtx,
+  userId: Id<"users">,
+): Promise<Array<{ project: Doc<"projects">; role: ProjectRole }>> {
+  const owned = await ctx.db
+    .query("projects")
+    .withIndex("by_owner", (q) => q.eq("ownerId", userId))
+    .collect();
+  const entries = owned.map((project) => ({ project, role: "owner" as ProjectRole }));
+  const seen = new Set(owned.map((project) => project._id));
+
+  const memberships = await ctx.db
+    .query("projectMembers")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  for (const membership of memberships) {
+    if (membership.status !== "active" || seen.has(membership.projectId)) continue;
+    const project = await ctx.db.get(membership.projectId);
+    if (!project) continue;
+    seen.add(project._id);
+    entries.push({ project, role: membership.role });
+  }
+  return entries;
+}
+
+/**
+ * Resolves the caller's role on a project and checks it grants `capability`.
+ * Owners come from `projects.ownerId`; everyone else needs an active
+ * `projectMembers` row.
+ */
+export async function requireProjectAccess(
+  ctx: MutationCtx | QueryCtx,
+  projectId: Id<"projects">,
+  capability: ProjectCapability = "view",
+): Promise<{ viewer: Doc<"users">; project: Doc<"projects">; role: ProjectRole }> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw accessError("UNAUTHENTICATED", "Sign in to continue");
+  }
+
+  const project = await ctx.db.get(projectId);
+  if (!project) {
+    throw accessError("NOT_FOUND", "Project not found");
+  }
+
+  const viewer = await getUserByExternalId(ctx, identity.tokenIdentifier);
+  const role = viewer ? await loadProjectRole(ctx, project, viewer._id) : null;
+  if (!viewer || !role) {
+    throw accessError("FORBIDDEN", "You do not have access to this project");
+  }
+  if (!roleAllows(role, capability)) {
+    throw accessError("FORBIDDEN", describeDeniedCapability(role, capability));
+  }
+  return { viewer, project, role };
+}
+
+/**
+ * Loads a session the caller is running. Sessions from before `userId` was
+ * recorded have no owner and stay open to any signed-in user.
+ */
+export async function loadOwnedSession(
+  ctx: MutationCtx | QueryCtx,
+  sessionId: Id<"sessions">,
+  forbiddenMessage = "You do not have access to this session",
+): Promise<Doc<"sessions">> {
+  const viewer = await loadViewer(ctx);
+  if (!viewer) {
+    throw accessError("UNAUTHENTICATED", "Sign in to continue");
+  }
+  const session = await ctx.db.get(sessionId);
+  if (!session) {
+    throw accessError("NOT_FOUND", "Session not found");
+  }
+  if (session.userId && session.userId !== viewer._id) {
+    throw accessError("FORBIDDEN", forbiddenMessage);
+  }
+  return session;
+}
+
+/**
+ * Load a session the caller owns and make sure it belongs to the project the
+ * request names, so one project's work cannot read another session's turns.
+ */
+export async function loadProjectSession(
+  ctx: MutationCtx | QueryCtx,
+  sessionId: Id<"sessions">,
+  projectId: Id<"projects">,
+): Promise<Doc<"sessions">> {
+  const session = await loadOwnedSession(ctx, sessionId);
+  if (session.projectId !== projectId) {
+    throw accessError("FORBIDDEN", "This session belongs to a different project");
+  }
+  return session;
 }
 
 export async function ensureProjectBlueprint(
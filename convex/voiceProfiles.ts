@@ -0,0 +1,160 @@
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+
+import {
+  MIN_VOICE_SAMPLE_WORDS,
+  VOICE_OVERRIDE_FIELDS,
+  analyzeVoice,
+  resolveVoiceProfile,
+  type VoiceOverrides,
+  type VoiceProfile,
+} from "./lib/voiceProfile";
+import { ensureViewer, loadViewer } from "./utils";
+
+// Recent speech says more about the voice today than the first intake did.
+const MAX_SESSIONS = 30;
+const MAX_SAMPLE_WORDS = 20_000;
+const MAX_LIST_ITEMS = 20;
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * The sessions whose user turns are this user's speech: ones they started,
+ * plus sessions in projects they own that predate session ownership.
+ */
+async function loadVoiceSessions(ctx: QueryCtx | MutationCtx, userId: Id<"users">) {
+  const sessions = new Map<Id<"sessions">, Doc<"sessions">>();
+  const started = await ctx.db
+    .query("sessions")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  for (const session of started) sessions.set(session._id, session);
+
+  const owned = await ctx.db
+    .query("projects")
+    .withIndex("by_owner", (q) => q.eq("ownerId", userId))
+    .collect();
+  for (const project of owned) {
+    const projectSessions = await ctx.db
+      .query("sessions")
+      .withIndex("by_project", (q) => q.eq("projectId", project._id))
+      .collect();
+    for (const session of projectSessions) {
+      if (!session.userId) sessions.set(session._id, session);
+    }
+  }
+  return [...sessions.values()].sort((a, b) => b.startedAt - a.startedAt).slice(0, MAX_SESSIONS);
+}
+
+async function learnForUser(ctx: MutationCtx, userId: Id<"users">) {
+  const user = await ctx.db.get(userId);
+  if (!user) throw new Error("User not found");
+
+  const sessions = await loadVoiceSessions(ctx, userId);
+  const turns: string[] = [];
+  let words = 0;
+  let sessionCount = 0;
+  for (const session of sessions) {
+    if (words >= MAX_SAMPLE_WORDS) break;
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_session", (q) => q.eq("sessionId", session._id))
+      .collect();
+    const userTurns = messages
+      .filter((message) => message.speaker === "user")
+      .map((message) => message.transcript);
+    if (userTurns.length === 0) continue;
+    sessionCount += 1;
+    for (const turn of userTurns) {
+      turns.push(turn);
+      words += countWords(turn);
+    }
+  }
+
+  const learned = analyzeVoice(turns, { sessionCount, now: Date.now() });
+  if (!learned) {
+    console.log("[voice-profile] not enough speech to learn from", { userId, words });
+    return { learned: false, sampleWords: words } as const;
+  }
+  await ctx.db.patch(userId, { voiceProfile: { ...user.voiceProfile, learned } });
+  return { learned: true, sampleWords: learned.sampleWords } as const;
+}
+
+/** Scheduled when a session ends so the profile keeps up with new speech. */
+export const learnVoiceProfile = internalMutation({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => learnForUser(ctx, args.userId),
+});
+
+export const relearnMyVoiceProfile = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const viewer = await ensureViewer(ctx, Date.now());
+    return learnForUser(ctx, viewer._id);
+  },
+});
+
+export const getMyVoiceProfile = query({
+  args: {},
+  handler: async (ctx) => {
+    const viewer = await loadViewer(ctx);
+    if (!viewer) return null;
+    return {
+      learned: viewer.voiceProfile?.learned ?? null,
+      overrides: viewer.voiceProfile?.overrides ?? null,
+      effective: resolveVoiceProfile(viewer.voiceProfile),
+      minSampleWords: MIN_VOICE_SAMPLE_WORDS,
+    };
+  },
+});
+
+const cleanList = (items: string[] | undefined) =>
+  items === undefined
+    ? undefined
+    : [...new Set(items.map((item) => item.replace(/\s+/g, " ").trim()).filter(Boolean))].slice(
+        0,
+        MAX_LIST_ITEMS,
+      );
+
+/**
+ * Replace the viewer's edits. Fields left out fall back to what was learned,
+ * so sending only `avoidPhrases` and `notes` resets the rest.
+ */
+export const updateMyVoiceProfile = mutation({
+  args: VOICE_OVERRIDE_FIELDS,
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const viewer = await ensureViewer(ctx, now);
+    const overrides: VoiceOverrides = {
+      formality: args.formality,
+      sentenceLength: args.sentenceLength,
+      characteristicWords: cleanList(args.characteristicWords),
+      signaturePhrases: cleanList(args.signaturePhrases),
+      avoidPhrases: cleanList(args.avoidPhrases),
+      notes: args.notes?.trim() || undefined,
+      editedAt: now,
+    };
+    await ctx.db.patch(viewer._id, { voiceProfile: { ...viewer.voiceProfile, overrides } });
+    return resolveVoiceProfile({ ...viewer.voiceProfile, overrides });
+  },
+});
+
+/**
+ * The voice of whoever ran the session, which is the client being
+ * interviewed even when a collaborator owns the project. Sessions started
+ * before `userId` was recorded fall back to `fallbackUserId`.
+ */
+export const getForSessionInternal = internalQuery({
+  args: {
+    sessionId: v.id("sessions"),
+    fallbackUserId: v.optional(v.id("users")),
+  },
+  handler: async (ctx, args): Promise<VoiceProfile | null> => {
+    const session = await ctx.db.get(args.sessionId);
+    const userId = session?.userId ?? args.fallbackUserId;
+    const user = userId ? await ctx.db.get(userId) : null;
+    return resolveVoiceProfile(user?.voiceProfile);
+  },
+});
@@ -0,0 +1,239 @@
+import {
+  escapeXml,
+  parseInline,
+  parseMarkdownBlocks,
+  type InlineRun,
+  type Manuscript,
+  type ManuscriptBlock,
+} from "./manuscriptExport";
+
+// Minimal WordprocessingML writer: enough structure for Word, Pages and Google
+// Docs to open the export with real heading and list styles.
+
+type ZipEntry = { name: string; data: Uint8Array };
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/** Store-only (uncompressed) ZIP archive, which is all the OOXML container needs. */
+const buildZip = (entries: ZipEntry[]) => {
+  const encoder = new TextEncoder();
+  const localChunks: Uint8Array[] = [];
+  const centralChunks: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(8, 0, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    localChunks.push(new Uint8Array(local.buffer), name, entry.data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralChunks.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + size;
+  }
+
+  const centralSize = centralChunks.reduce((total, chunk) => total + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const chunks = [...localChunks, ...centralChunks, new Uint8Array(end.buffer)];
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, position);
+    position += chunk.length;
+  }
+  return output;
+};
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const CONTENT_TYPES = `${XML_HEADER}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const ROOT_RELS = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+</Relationships>`;
+
+const headingStyle = (level: number, size: number) =>
+  `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+const STYLES = `${XML_HEADER}
+<w:styles ${W_NS}>
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Georgia" w:hAnsi="Georgia"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/><w:rPr><w:b/><w:sz w:val="48"/></w:rPr></w:style>
+${[40, 32, 28, 24, 22, 22].map((size, index) => headingStyle(index + 1, size)).join("\n")}
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="720"/></w:pPr><w:rPr><w:i/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/></w:pPr><w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New"/><w:sz w:val="20"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="FrontMatter"><w:name w:val="Front Matter"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/></w:pPr><w:rPr><w:color w:val="475569"/><w:sz w:val="20"/></w:rPr></w:style>
+</w:styles>`;
+
+const BULLET_NUM_ID = 1;
+const FIRST_ORDERED_NUM_ID = 2;
+
+// Every ordered list gets its own w:num restarting at 1; sharing one would
+// carry the count on from one list into the next.
+const buildNumberingXml = (orderedListCount: number) => {
+  const orderedNums = Array.from(
+    { length: orderedListCount },
+    (_, index) =>
+      `<w:num w:numId="${FIRST_ORDERED_NUM_ID + index}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`,
+  );
+  return `${XML_HEADER}
+<w:numbering ${W_NS}>
+<w:abstractNum w:abstractNumId="0"><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum>
+<w:abstractNum w:abstractNumId="1"><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1."/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum>
+<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>
+${orderedNums.join("\n")}
+</w:numbering>`;
+};
+
+const renderRun = (run: InlineRun) => {
+  const properties = [
+    run.bold ? "<w:b/>" : "",
+    run.italic ? "<w:i/>" : "",
+    run.code ? '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New"/>' : "",
+    run.href ? '<w:color w:val="2563EB"/><w:u w:val="single"/>' : "",
+  ].join("");
+  const rPr = properties ? `<w:rPr>${properties}</w:rPr>` : "";
+  return `<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+};
+
+const paragraph = (text: string, options: { style?: string; numId?: number; inline?: boolean }) => {
+  const pPr = [
+    options.style ? `<w:pStyle w:val="${options.style}"/>` : "",
+    options.numId ? `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${options.numId}"/></w:numPr>` : "",
+  ].join("");
+  const runs =
+    options.inline === false
+      ? renderRun({ text })
+      : parseInline(text).map(renderRun).join("");
+  return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ""}${runs}</w:p>`;
+};
+
+const renderBlock = (block: ManuscriptBlock, nextOrderedNumId: () => number) => {
+  switch (block.type) {
+    case "heading":
+      return paragraph(block.text, { style: `Heading${block.level}` });
+    case "paragraph":
+      return paragraph(block.text, {});
+    case "quote":
+      return paragraph(block.text, { style: "Quote" });
+    case "code":
+      return block.text
+        .split("\n")
+        .map((line) => paragraph(line, { style: "Code", inline: false }))
+        .join("");
+    case "list": {
+      const numId = block.ordered ? nextOrderedNumId() : BULLET_NUM_ID;
+      return block.items.map((item) => paragraph(item, { numId })).join("");
+    }
+  }
+};
+
+const buildDocumentXml = (manuscript: Manuscript) => {
+  const frontMatter =
+    manuscript.frontMatter.length > 0
+      ? [
+          paragraph(manuscript.title, { style: "Title", inline: false }),
+          ...manuscript.frontMatter
+            .filter((field) => field.key !== "title")
+            .map(
+              (field) =>
+                `<w:p><w:pPr><w:pStyle w:val="FrontMatter"/></w:pPr>${renderRun({ text: `${field.label}: `, bold: true })}${renderRun({ text: field.value })}</w:p>`,
+            ),
+          '<w:p><w:r><w:br w:type="page"/></w:r></w:p>',
+        ].join("")
+      : "";
+  let orderedListCount = 0;
+  const body = parseMarkdownBlocks(manuscript.body)
+    .map((block) => renderBlock(block, () => FIRST_ORDERED_NUM_ID + orderedListCount++))
+    .join("");
+
+  return {
+    orderedListCount,
+    xml: `${XML_HEADER}
+<w:document ${W_NS}><w:body>${frontMatter}${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`,
+  };
+};
+
+const buildCoreXml = (manuscript: Manuscript, createdAt: Date) => {
+  const subject = manuscript.frontMatter.find((field) => field.key === "contentType")?.value;
+  return `${XML_HEADER}
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(manuscript.title)}</dc:title>${subject ? `<dc:subject>${escapeXml(subject)}</dc:subject>` : ""}
+<dcterms:created xsi:type="dcterms:W3CDTF">${createdAt.toISOString()}</dcterms:created>
+</cp:coreProperties>`;
+};
+
+export function renderDocx(manuscript: Manuscript, createdAt = new Date()) {
+  const encoder = new TextEncoder();
+  const documentPart = buildDocumentXml(manuscript);
+  const parts: Array<[string, string]> = [
+    ["[Content_Types].xml", CONTENT_TYPES],
+    ["_rels/.rels", ROOT_RELS],
+    ["docProps/core.xml", buildCoreXml(manuscript, createdAt)],
+    ["word/_rels/document.xml.rels", DOCUMENT_RELS],
+    ["word/document.xml", documentPart.xml],
+    ["word/styles.xml", STYLES],
+    ["word/numbering.xml", buildNumberingXml(documentPart.orderedListCount)],
+  ];
+  return buildZip(parts.map(([name, xml]) => ({ name, data: encoder.encode(xml) })));
+}
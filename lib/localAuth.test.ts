@@ -0,0 +1,51 @@
+import { createPublicKey, createVerify } from "node:crypto";
+import { describe, expect, it } from "vitest";
+
+import {
+  createLocalSigningKey,
+  LOCAL_AUTH_APPLICATION_ID,
+  localJwks,
+  signLocalToken,
+} from "./localAuth";
+
+const key = createLocalSigningKey();
+
+const decode = (segment: string) => JSON.parse(Buffer.from(segment, "base64url").toString());
+
+describe("signLocalToken", () => {
+  it("issues an RS256 token that verifies against the published JWKS", () => {
+    const token = signLocalToken(
+      { email: " Writer@Example.com ", name: "Writer" },
+      { key, issuer: "http://localhost:3000", now: 1_700_000_000_000 },
+    );
+    const [header, payload, signature] = token.split(".");
+
+    const jwk = localJwks(key).keys[0]!;
+    expect(decode(header!)).toEqual({ alg: "RS256", typ: "JWT", kid: jwk.kid });
+
+    const claims = decode(payload!);
+    expect(claims).toMatchObject({
+      iss: "http://localhost:3000",
+      aud: LOCAL_AUTH_APPLICATION_ID,
+      email: "writer@example.com",
+      email_verified: true,
+      name: "Writer",
+      iat: 1_700_000_000,
+      exp: 1_700_003_600,
+    });
+
+    const verified = createVerify("RSA-SHA256")
+      .update(`${header}.${payload}`)
+      .verify(createPublicKey({ key: jwk, format: "jwk" }), Buffer.from(signature!, "base64url"));
+    expect(verified).toBe(true);
+  });
+
+  it("derives the same subject for the same email", () => {
+    const first = decode(signLocalToken({ email: "a@example.com" }, { key }).split(".")[1]!);
+    const second = decode(signLocalToken({ email: "A@example.com" }, { key }).split(".")[1]!);
+    const other = decode(signLocalToken({ email: "b@example.com" }, { key }).split(".")[1]!);
+
+    expect(first.sub).toBe(second.sub);
+    expect(first.sub).not.toBe(other.sub);
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  createSign,
+  generateKeyPairSync,
+  type KeyObject,
+} from "node:crypto";
+
+export const LOCAL_AUTH_APPLICATION_ID = "ghostwriter-local";
+const DEFAULT_LOCAL_AUTH_ISSUER = "http://localhost:3000";
+const TOKEN_TTL_SECONDS = 60 * 60;
+
+export type LocalSigningKey = {
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  kid: string;
+};
+
+export type LocalIdentity = {
+  email: string;
+  name?: string;
+};
+
+const keyCache = globalThis as typeof globalThis & {
+  __ghostwriterLocalAuthKey?: LocalSigningKey;
+};
+
+const base64Url = (input: string | Buffer) => Buffer.from(input).toString("base64url");
+
+export function createLocalSigningKey(privateKeyPem?: string): LocalSigningKey {
+  const privateKey = privateKeyPem
+    ? createPrivateKey(privateKeyPem.replace(/\\n/g, "\n"))
+    : generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey;
+  const publicKey = createPublicKey(privateKey);
+  const kid = createHash("sha256")
+    .update(publicKey.export({ type: "spki", format: "der" }))
+    .digest("base64url")
+    .slice(0, 16);
+  return { privateKey, publicKey, kid };
+}
+
+/**
+ * Signing key for the local stand-in. Without LOCAL_AUTH_PRIVATE_KEY a key is
+ * generated per server process, so tokens stop validating after a restart.
+ */
+export function loadLocalSigningKey(): LocalSigningKey {
+  keyCache.__ghostwriterLocalAuthKey ??= createLocalSigningKey(
+    process.env.LOCAL_AUTH_PRIVATE_KEY || undefined,
+  );
+  return keyCache.__ghostwriterLocalAuthKey;
+}
+
+export function localAuthIssuer() {
+  return (process.env.LOCAL_AUTH_ISSUER || DEFAULT_LOCAL_AUTH_ISSUER).replace(/\/+$/, "");
+}
+
+export function isLocalAuthEnabled() {
+  if (process.env.LOCAL_AUTH_ENABLED === "true") return true;
+  if (process.env.LOCAL_AUTH_ENABLED === "false") return false;
+  return process.env.NODE_ENV !== "production";
+}
+
+export function localSubjectFor(email: string) {
+  return createHash("sha256").update(email.trim().toLowerCase()).digest("hex").slice(0, 24);
+}
+
+export function signLocalToken(
+  identity: LocalIdentity,
+  options: { key?: LocalSigningKey; issuer?: string; now?: number } = {},
+) {
+  const key = options.key ?? loadLocalSigningKey();
+  const issuedAt = Math.floor((options.now ?? Date.now()) / 1000);
+  const email = identity.email.trim().toLowerCase();
+
+  const header = { alg: "RS256", typ: "JWT", kid: key.kid };
+  const payload = {
+    iss: options.issuer ?? localAuthIssuer(),
+    sub: localSubjectFor(email),
+    aud: LOCAL_AUTH_APPLICATION_ID,
+    iat: issuedAt,
+    exp: issuedAt + TOKEN_TTL_SECONDS,
+    email,
+    // The local stand-in has no mailbox check; whoever signs in owns the email.
+    email_verified: true,
+    name: identity.name?.trim() || email,
+  };
+
+  const signingInput = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(payload))}`;
+  const signature = createSign("RSA-SHA256").update(signingInput).sign(key.privateKey);
+  return `${signingInput}.${base64Url(signature)}`;
+}
+
+export function localJwks(key: LocalSigningKey = loadLocalSigningKey()) {
+  return {
+    keys: [{ ...key.publicKey.export({ format: "jwk" }), kid: key.kid, alg: "RS256", use: "sig" }],
+  };
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+
+import { renderDocx } from "./docx";
+import {
+  buildManuscript,
+  exportFileName,
+  renderHtml,
+  renderMarkdown,
+  type ManuscriptSource,
+} from "./manuscriptExport";
+
+const projectId = "project_1" as Id<"projects">;
+const documentId = "document_1" as Id<"documents">;
+
+const section = (
+  heading: string,
+  content: string,
+  order: number,
+): Doc<"documentSections"> => ({
+  _id: `section_${order}` as Id<"documentSections">,
+  _creationTime: 0,
+  documentId,
+  heading,
+  content,
+  order,
+  status: "drafting",
+  version: 1,
+  locked: false,
+  updatedAt: 0,
+});
+
+const source: ManuscriptSource = {
+  project: {
+    _id: projectId,
+    _creationTime: 0,
+    ownerId: "user_1" as Id<"users">,
+    title: "Remote Leadership Playbook",
+    contentType: "article",
+    goal: "Position the founder as a trusted leader",
+    status: "active",
+    createdAt: 0,
+    updatedAt: 0,
+  },
+  blueprint: {
+    _id: "blueprint_1" as Id<"projectBlueprints">,
+    _creationTime: 0,
+    projectId,
+    targetAudience: "Series B startup leaders",
+    voiceGuardrails: { tone: "Warm but analytical" },
+    status: "committed",
+    createdAt: 0,
+    updatedAt: 0,
+  },
+  document: {
+    _id: documentId,
+    _creationTime: 0,
+    projectId,
+    latestDraftMarkdown: "# Why async\n\nLeaders are **juggling** time zones.",
+    status: "drafting",
+    lockedSections: [],
+    updatedAt: 0,
+  },
+  sections: [
+    section("Closing", "Write it down.", 2),
+    section("Why async", "Leaders are juggling time zones.", 0),
+    section("Four habits", "- Default to async\n- Record decisions", 1),
+  ],
+};
+
+describe("buildManuscript", () => {
+  it("appends sections missing from the draft in outline order", () => {
+    const manuscript = buildManuscript(source, { includeFrontMatter: false });
+
+    expect(manuscript.frontMatter).toEqual([]);
+    expect(manuscript.body).toBe(
+      "# Why async\n\nLeaders are **juggling** time zones.\n\n# Four habits\n\n- Default to async\n- Record decisions\n\n# Closing\n\nWrite it down.",
+    );
+  });
+
+  it("builds front matter from the project and blueprint", () => {
+    const markdown = renderMarkdown(buildManuscript(source, { includeFrontMatter: true }));
+
+    expect(markdown.startsWith("---\ntitle: \"Remote Leadership Playbook\"\ncontentType: \"Article\"\n")).toBe(true);
+    expect(markdown).toContain('targetAudience: "Series B startup leaders"');
+    expect(markdown).toContain('voiceTone: "Warm but analytical"');
+    expect(markdown).not.toContain("desiredOutcome");
+  });
+});
+
+describe("renderHtml", () => {
+  it("renders escaped, structured HTML", () => {
+    const html = renderHtml(
+      buildManuscript(
+        {
+          ...source,
+          document: { ...source.document!, latestDraftMarkdown: "# A <b> & C\n\n1. One\n2. *Two*" },
+          sections: [],
+        },
+        { includeFrontMatter: false },
+      ),
+    );
+
+    expect(html).toContain("<h1>A &lt;b&gt; &amp; C</h1>");
+    expect(html).toContain("<ol><li>One</li><li><em>Two</em></li></ol>");
+  });
+
+  it("only links to web and mail addresses", () => {
+    const html = renderHtml(
+      buildManuscript(
+        {
+          ...source,
+          document: {
+            ...source.document!,
+            latestDraftMarkdown:
+              "[site](https://example.com) [mail](mailto:a@example.com) [click](javascript:alert(1))",
+          },
+          sections: [],
+        },
+        { includeFrontMatter: false },
+      ),
+    );
+
+    expect(html).toContain('<a href="https://example.com">site</a>');
+    expect(html).toContain('<a href="mailto:a@example.com">mail</a>');
+    expect(html).not.toContain("javascript:");
+    expect(html).toContain("click");
+  });
+});
+
+describe("renderDocx", () => {
+  it("packages a zip archive containing the Word document part", () => {
+    const bytes = renderDocx(buildManuscript(source, { includeFrontMatter: true }));
+    const text = new TextDecoder().decode(bytes);
+
+    expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    expect(text).toContain("word/document.xml");
+    expect(text).toContain('<w:pStyle w:val="Heading1"/>');
+    expect(text).toContain("<w:b/></w:rPr><w:t xml:space=\"preserve\">juggling</w:t>");
+  });
+
+  it("restarts numbering for each ordered list", () => {
+    const bytes = renderDocx(
+      buildManuscript(
+        {
+          ...source,
+          document: {
+            ...source.document!,
+            latestDraftMarkdown: "1. One\n2. Two\n\nBetween.\n\n1. Again",
+          },
+          sections: [],
+        },
+        { includeFrontMatter: false },
+      ),
+    );
+    const text = new TextDecoder().decode(bytes);
+
+    expect(text).toContain('<w:numId w:val="2"/>');
+    expect(text).toContain('<w:numId w:val="3"/>');
+    expect(text).toContain(
+      '<w:num w:numId="3"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>',
+    );
+  });
+});
+
+describe("exportFileName", () => {
+  it("slugifies the title", () => {
+    expect(exportFileName("Remote Leadership: Playbook!", "docx")).toBe(
+      "remote-leadership-playbook.docx",
+    );
+  });
+});
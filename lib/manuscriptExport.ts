@@ -0,0 +1,337 @@
+import type { Doc } from "@/convex/_generated/dataModel";
+import { withSectionHeading } from "../convex/lib/sections";
+
+import { CONTENT_TYPE_OPTIONS } from "./projects";
+
+export type ExportFormat = "markdown" | "html" | "docx";
+
+export const EXPORT_FORMATS: Array<{
+  value: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}> = [
+  {
+    value: "markdown",
+    label: "Markdown",
+    extension: "md",
+    mimeType: "text/markdown; charset=utf-8",
+  },
+  {
+    value: "html",
+    label: "HTML",
+    extension: "html",
+    mimeType: "text/html; charset=utf-8",
+  },
+  {
+    value: "docx",
+    label: "Word (DOCX)",
+    extension: "docx",
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  },
+];
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  EXPORT_FORMATS.some((format) => format.value === value);
+
+export interface ManuscriptSource {
+  project: Doc<"projects">;
+  blueprint: Doc<"projectBlueprints"> | null;
+  document: Doc<"documents"> | null;
+  sections: Doc<"documentSections">[];
+}
+
+export interface FrontMatterField {
+  key: string;
+  label: string;
+  value: string;
+}
+
+export interface Manuscript {
+  title: string;
+  frontMatter: FrontMatterField[];
+  body: string;
+}
+
+export type InlineRun = {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+};
+
+export type ManuscriptBlock =
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "quote"; text: string }
+  | { type: "code"; text: string };
+
+const clean = (value: string | undefined | null) => value?.trim() || null;
+
+const contentTypeLabel = (contentType: string) =>
+  CONTENT_TYPE_OPTIONS.find((option) => option.value === contentType)?.label ?? contentType;
+
+const buildFrontMatter = (
+  project: Doc<"projects">,
+  blueprint: Doc<"projectBlueprints"> | null,
+): FrontMatterField[] => {
+  const candidates: Array<[string, string, string | null]> = [
+    ["title", "Title", clean(project.title)],
+    ["contentType", "Content type", contentTypeLabel(project.contentType)],
+    ["goal", "Goal", clean(project.goal)],
+    ["desiredOutcome", "Desired outcome", clean(blueprint?.desiredOutcome)],
+    ["targetAudience", "Target audience", clean(blueprint?.targetAudience)],
+    ["publishingPlan", "Publishing plan", clean(blueprint?.publishingPlan)],
+    ["timeline", "Timeline", clean(blueprint?.timeline)],
+    ["voiceTone", "Voice tone", clean(blueprint?.voiceGuardrails?.tone)],
+    ["voiceStructure", "Voice structure", clean(blueprint?.voiceGuardrails?.structure)],
+    ["voiceContent", "Voice content guardrails", clean(blueprint?.voiceGuardrails?.content)],
+  ];
+  return candidates
+    .filter((entry): entry is [string, string, string] => Boolean(entry[2]))
+    .map(([key, label, value]) => ({ key, label, value }));
+};
+
+const HEADING_LINE = /^#{1,6}\s+(.+)$/gm;
+
+/**
+ * The stored draft is the source of truth; sections only fill in whatever the
+ * draft Markdown does not already contain (or the whole body when it is empty).
+ */
+const assembleBody = (
+  document: Doc<"documents"> | null,
+  sections: Doc<"documentSections">[],
+) => {
+  const ordered = [...sections].sort((a, b) => a.order - b.order);
+  const draft = document?.latestDraftMarkdown?.trim() ?? "";
+  const presentHeadings = new Set(
+    Array.from(draft.matchAll(HEADING_LINE), (match) => match[1]!.trim().toLowerCase()),
+  );
+  const missing = ordered
+    .filter((section) => !presentHeadings.has(section.heading.trim().toLowerCase()))
+    .map((section) => withSectionHeading(section.heading, section.content));
+
+  return [draft, ...missing].filter(Boolean).join("\n\n");
+};
+
+export function buildManuscript(
+  source: ManuscriptSource,
+  options: { includeFrontMatter: boolean },
+): Manuscript {
+  return {
+    title: clean(source.project.title) ?? "Untitled manuscript",
+    frontMatter: options.includeFrontMatter
+      ? buildFrontMatter(source.project, source.blueprint)
+      : [],
+    body: assembleBody(source.document, source.sections),
+  };
+}
+
+const yamlString = (value: string) => JSON.stringify(value.replace(/\s+/g, " "));
+
+export function renderMarkdown(manuscript: Manuscript) {
+  if (manuscript.frontMatter.length === 0) {
+    return `${manuscript.body}\n`;
+  }
+  const header = manuscript.frontMatter
+    .map((field) => `${field.key}: ${yamlString(field.value)}`)
+    .join("\n");
+  return `---\n${header}\n---\n\n${manuscript.body}\n`;
+}
+
+export function parseMarkdownBlocks(markdown: string): ManuscriptBlock[] {
+  const blocks: ManuscriptBlock[] = [];
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+  let code: string[] | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", text: paragraph.join(" ") });
+      paragraph = [];
+    }
+    if (quote.length > 0) {
+      blocks.push({ type: "quote", text: quote.join(" ") });
+      quote = [];
+    }
+    if (list) {
+      blocks.push({ type: "list", ...list });
+      list = null;
+    }
+  };
+
+  for (const rawLine of markdown.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+
+    if (line.trim().startsWith("```")) {
+      if (code) {
+        blocks.push({ type: "code", text: code.join("\n") });
+        code = null;
+      } else {
+        flush();
+        code = [];
+      }
+      continue;
+    }
+    if (code) {
+      code.push(rawLine);
+      continue;
+    }
+
+    const trimmed = line.trim();
+    const heading = trimmed.match(/^(#{1,6})\s+(.+)$/);
+    const bullet = trimmed.match(/^[-*+]\s+(.+)$/);
+    const numbered = trimmed.match(/^\d+[.)]\s+(.+)$/);
+    const quoted = trimmed.match(/^>\s?(.*)$/);
+
+    if (!trimmed) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({ type: "heading", level: heading[1]!.length, text: heading[2]!.trim() });
+    } else if (bullet || numbered) {
+      const ordered = Boolean(numbered);
+      if (paragraph.length > 0 || quote.length > 0 || (list && list.ordered !== ordered)) {
+        flush();
+      }
+      list ??= { ordered, items: [] };
+      list.items.push((bullet ?? numbered)![1]!.trim());
+    } else if (quoted) {
+      if (paragraph.length > 0 || list) flush();
+      quote.push(quoted[1]!.trim());
+    } else {
+      if (quote.length > 0 || list) flush();
+      paragraph.push(trimmed);
+    }
+  }
+
+  if (code) {
+    blocks.push({ type: "code", text: (code as string[]).join("\n") });
+  }
+  flush();
+  return blocks;
+}
+
+const INLINE_PATTERN = /(\*\*(.+?)\*\*|__(.+?)__|\*(.+?)\*|_(.+?)_|`(.+?)`|\[(.+?)\]\((.+?)\))/g;
+
+export function parseInline(text: string): InlineRun[] {
+  const runs: InlineRun[] = [];
+  let cursor = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > cursor) {
+      runs.push({ text: text.slice(cursor, index) });
+    }
+    const [, , bold, boldAlt, italic, italicAlt, code, linkText, href] = match;
+    if (bold ?? boldAlt) {
+      runs.push({ text: (bold ?? boldAlt)!, bold: true });
+    } else if (italic ?? italicAlt) {
+      runs.push({ text: (italic ?? italicAlt)!, italic: true });
+    } else if (code) {
+      runs.push({ text: code, code: true });
+    } else if (linkText && href) {
+      runs.push({ text: linkText, href });
+    }
+    cursor = index + match[0].length;
+  }
+  if (cursor < text.length) {
+    runs.push({ text: text.slice(cursor) });
+  }
+  return runs;
+}
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// Only links a reader can safely follow; `javascript:` and the like render as text.
+const SAFE_LINK_PROTOCOLS = new Set(["http:", "https:", "mailto:"]);
+
+export function safeHref(href: string): string | null {
+  try {
+    return SAFE_LINK_PROTOCOLS.has(new URL(href.trim()).protocol) ? href.trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+const renderInlineHtml = (text: string) =>
+  parseInline(text)
+    .map((run) => {
+      const escaped = escapeXml(run.text);
+      if (run.bold) return `<strong>${escaped}</strong>`;
+      if (run.italic) return `<em>${escaped}</em>`;
+      if (run.code) return `<code>${escaped}</code>`;
+      const href = run.href ? safeHref(run.href) : null;
+      if (href) return `<a href="${escapeXml(href)}">${escaped}</a>`;
+      return escaped;
+    })
+    .join("");
+
+const renderBlockHtml = (block: ManuscriptBlock) => {
+  switch (block.type) {
+    case "heading":
+      return `<h${block.level}>${renderInlineHtml(block.text)}</h${block.level}>`;
+    case "paragraph":
+      return `<p>${renderInlineHtml(block.text)}</p>`;
+    case "quote":
+      return `<blockquote><p>${renderInlineHtml(block.text)}</p></blockquote>`;
+    case "code":
+      return `<pre><code>${escapeXml(block.text)}</code></pre>`;
+    case "list": {
+      const tag = block.ordered ? "ol" : "ul";
+      const items = block.items.map((item) => `<li>${renderInlineHtml(item)}</li>`).join("");
+      return `<${tag}>${items}</${tag}>`;
+    }
+  }
+};
+
+const HTML_STYLES = `body { font-family: Georgia, "Times New Roman", serif; max-width: 44rem; margin: 3rem auto; padding: 0 1.5rem; line-height: 1.7; color: #1e293b; }
+h1, h2, h3, h4 { font-family: -apple-system, "Segoe UI", sans-serif; line-height: 1.3; }
+blockquote { border-left: 3px solid #cbd5f5; margin: 1.5rem 0; padding-left: 1rem; color: #475569; }
+pre { background: #f1f5f9; padding: 1rem; border-radius: 8px; overflow-x: auto; }
+.front-matter { border-bottom: 1px solid #e2e8f0; margin-bottom: 2.5rem; padding-bottom: 1.5rem; font-family: -apple-system, "Segoe UI", sans-serif; font-size: 0.9rem; }
+.front-matter dt { font-weight: 600; color: #475569; }
+.front-matter dd { margin: 0 0 0.5rem 0; }`;
+
+export function renderHtml(manuscript: Manuscript) {
+  const frontMatter =
+    manuscript.frontMatter.length > 0
+      ? `<header class="front-matter"><dl>${manuscript.frontMatter
+          .map((field) => `<dt>${escapeXml(field.label)}</dt><dd>${escapeXml(field.value)}</dd>`)
+          .join("")}</dl></header>\n`
+      : "";
+  const body = parseMarkdownBlocks(manuscript.body).map(renderBlockHtml).join("\n");
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8" />',
+    `<title>${escapeXml(manuscript.title)}</title>`,
+    `<style>${HTML_STYLES}</style>`,
+    "</head>",
+    "<body>",
+    `${frontMatter}<main>\n${body}\n</main>`,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+export const exportFileName = (title: string, format: ExportFormat) => {
+  const extension = EXPORT_FORMATS.find((option) => option.value === format)!.extension;
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "manuscript"}.${extension}`;
+};
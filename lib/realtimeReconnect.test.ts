@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+
+import { RECONNECT_DELAYS_MS, buildResumeMessage, reconnectDelayFor } from "./realtimeReconnect";
+
+describe("reconnectDelayFor", () => {
+  it("backs off and gives up after the last delay", () => {
+    expect(reconnectDelayFor(0)).toBe(RECONNECT_DELAYS_MS[0]);
+    expect(reconnectDelayFor(1)).toBeGreaterThan(reconnectDelayFor(0)!);
+    expect(reconnectDelayFor(RECONNECT_DELAYS_MS.length)).toBeNull();
+  });
+});
+
+describe("buildResumeMessage", () => {
+  it("returns null when nothing was said", () => {
+    expect(buildResumeMessage([])).toBeNull();
+    expect(buildResumeMessage([{ speaker: "user", transcript: "  " }])).toBeNull();
+  });
+
+  it("labels speakers and keeps the most recent turns that fit", () => {
+    const message = buildResumeMessage(
+      [
+        { speaker: "user", transcript: "An old answer that no longer fits." },
+        { speaker: "assistant", transcript: "Where did the company start?" },
+        { speaker: "user", transcript: "In a  garage\nin Leeds." },
+      ],
+      70,
+    );
+    expect(message?.split("\n").slice(1)).toEqual([
+      "(Earlier turns omitted.)",
+      "Assistant: Where did the company start?",
+      "Client: In a garage in Leeds.",
+    ]);
+    expect(message?.startsWith("SESSION_RESUMED:: ")).toBe(true);
+  });
+});
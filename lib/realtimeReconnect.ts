@@ -0,0 +1,48 @@
+// Wait before each reconnect attempt. Once these run out the session ends.
+export const RECONNECT_DELAYS_MS = [1_000, 2_000, 4_000, 8_000, 15_000];
+
+// A "disconnected" peer connection often recovers by itself after a network
+// blip, so it only counts as dropped if it stays that way this long.
+export const DISCONNECT_GRACE_MS = 5_000;
+
+// Cap on the earlier conversation replayed into a resumed connection.
+const RESUME_TRANSCRIPT_CHARS = 6_000;
+
+export const SESSION_RESUMED_TAG = "SESSION_RESUMED";
+
+export function reconnectDelayFor(attempt: number): number | null {
+  return RECONNECT_DELAYS_MS[attempt] ?? null;
+}
+
+export type ResumeLine = {
+  speaker: string;
+  transcript: string;
+};
+
+/**
+ * A system message that gives a fresh realtime connection the conversation
+ * so far. Keeps the most recent turns that fit; null when nothing was said.
+ */
+export function buildResumeMessage(
+  lines: ResumeLine[],
+  maxChars = RESUME_TRANSCRIPT_CHARS,
+): string | null {
+  const kept: string[] = [];
+  let length = 0;
+  for (let index = lines.length - 1; index >= 0; index -= 1) {
+    const text = lines[index]!.transcript.replace(/\s+/g, " ").trim();
+    if (!text) continue;
+    const line = `${lines[index]!.speaker === "assistant" ? "Assistant" : "Client"}: ${text}`;
+    if (length + line.length > maxChars && kept.length > 0) break;
+    kept.unshift(line);
+    length += line.length + 1;
+  }
+  if (kept.length === 0) return null;
+
+  const omitted = kept.length < lines.filter((line) => line.transcript.trim()).length;
+  return [
+    `${SESSION_RESUMED_TAG}:: The connection dropped and has been restored. The conversation so far is below, oldest first. Carry on from the last turn: do not greet the client again or repeat questions they have already answered.`,
+    ...(omitted ? ["(Earlier turns omitted.)"] : []),
+    ...kept,
+  ].join("\n");
+}
@@ -550,6 +550,10 @@ const TOOLSET_BY_MODE: Record<SessionInstructionMode, string[]> = {
 const serializeToolList = (names: string[]) =>
   names.map((name) => TOOL_DEFINITIONS[name]).filter(Boolean);
 
+export function getToolDefinition(name: string): RealtimeToolDefinition | null {
+  return TOOL_DEFINITIONS[name] ?? null;
+}
+
 export function getToolsForMode(mode: SessionInstructionMode) {
   return serializeToolList(TOOLSET_BY_MODE[mode] ?? TOOLSET_BY_MODE.intake);
 }
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  audioOffsetFor,
+  formatPlaybackTime,
+  pickRecordingMimeType,
+  playbackOffsetFor,
+} from "./sessionRecording";
+
+describe("pickRecordingMimeType", () => {
+  it("prefers opus in webm and falls back to mp4 for Safari", () => {
+    expect(pickRecordingMimeType(() => true)).toBe("audio/webm;codecs=opus");
+    expect(pickRecordingMimeType((type) => type === "audio/mp4")).toBe("audio/mp4");
+    expect(pickRecordingMimeType(() => false)).toBeNull();
+  });
+});
+
+describe("audioOffsetFor", () => {
+  it("measures from the start of the recording and never goes negative", () => {
+    expect(audioOffsetFor(null, 5_000)).toBeUndefined();
+    expect(audioOffsetFor(1_000, 4_250.6)).toBe(3_251);
+    expect(audioOffsetFor(1_000, 400)).toBe(0);
+  });
+});
+
+describe("playbackOffsetFor", () => {
+  it("uses the stored offset and falls back to the timestamp", () => {
+    expect(playbackOffsetFor({ audioOffsetMs: 2_000, timestamp: 90_000 }, 10_000)).toBe(2_000);
+    expect(playbackOffsetFor({ timestamp: 90_000 }, 10_000)).toBe(80_000);
+  });
+});
+
+describe("formatPlaybackTime", () => {
+  it("formats minutes and padded seconds", () => {
+    expect(formatPlaybackTime(0)).toBe("0:00");
+    expect(formatPlaybackTime(65_900)).toBe("1:05");
+    expect(formatPlaybackTime(3_600_000)).toBe("60:00");
+  });
+});
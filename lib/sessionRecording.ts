@@ -0,0 +1,144 @@
+// Chunk length for MediaRecorder. Each chunk is uploaded as it arrives, so a
+// crashed tab loses at most this much audio.
+export const RECORDING_TIMESLICE_MS = 15_000;
+
+// In order of preference. Safari only records mp4.
+const RECORDING_MIME_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/webm",
+  "audio/ogg;codecs=opus",
+  "audio/mp4",
+];
+
+export type RecordedChunk = {
+  blob: Blob;
+  sequence: number;
+  // Position of the chunk within the whole recording.
+  startOffsetMs: number;
+  durationMs: number;
+  mimeType: string;
+};
+
+export function pickRecordingMimeType(
+  isTypeSupported: (mimeType: string) => boolean,
+): string | null {
+  return RECORDING_MIME_TYPES.find((mimeType) => isTypeSupported(mimeType)) ?? null;
+}
+
+/** Where in the recording something that happened at `timestamp` can be heard. */
+export function audioOffsetFor(recordingStartedAt: number | null, timestamp: number) {
+  if (recordingStartedAt === null) return undefined;
+  return Math.max(0, Math.round(timestamp - recordingStartedAt));
+}
+
+export const isRecordingSupported = () =>
+  typeof window !== "undefined" &&
+  typeof MediaRecorder !== "undefined" &&
+  pickRecordingMimeType((mimeType) => MediaRecorder.isTypeSupported(mimeType)) !== null;
+
+/**
+ * Records the microphone and the assistant's voice as one mixed track.
+ * Both streams are routed through the session's AudioContext into a single
+ * MediaRecorder, so the chunks concatenate into one playable file.
+ */
+export class SessionRecorder {
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private sources: MediaStreamAudioSourceNode[] = [];
+  private recorder: MediaRecorder | null = null;
+  private sequence = 0;
+  private chunkStartedAt = 0;
+  private stopped: Promise<void> | null = null;
+  startedAt: number | null = null;
+
+  constructor(
+    private readonly context: AudioContext,
+    private readonly onChunk: (chunk: RecordedChunk) => void,
+  ) {}
+
+  start(micStream: MediaStream) {
+    if (this.recorder) return;
+    const mimeType = pickRecordingMimeType((type) => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+      throw new Error("This browser cannot record audio");
+    }
+    if (this.context.state === "suspended") {
+      void this.context.resume();
+    }
+
+    this.destination = this.context.createMediaStreamDestination();
+    this.addStream(micStream);
+
+    const recorder = new MediaRecorder(this.destination.stream, { mimeType });
+    recorder.addEventListener("dataavailable", (event) => {
+      if (!this.startedAt || event.data.size === 0) return;
+      const now = Date.now();
+      this.onChunk({
+        blob: event.data,
+        sequence: this.sequence,
+        startOffsetMs: this.chunkStartedAt - this.startedAt,
+        durationMs: now - this.chunkStartedAt,
+        mimeType,
+      });
+      this.sequence += 1;
+      this.chunkStartedAt = now;
+    });
+    this.startedAt = Date.now();
+    this.chunkStartedAt = this.startedAt;
+    recorder.start(RECORDING_TIMESLICE_MS);
+    this.recorder = recorder;
+  }
+
+  /** Mix another stream, such as the assistant's remote track, into the recording. */
+  addStream(stream: MediaStream) {
+    if (!this.destination || stream.getAudioTracks().length === 0) return;
+    const source = this.context.createMediaStreamSource(stream);
+    source.connect(this.destination);
+    this.sources.push(source);
+  }
+
+  /** Stop recording; resolves once the final chunk has been handed to `onChunk`. */
+  stop(): Promise<void> {
+    const recorder = this.recorder;
+    if (!recorder) return Promise.resolve();
+    if (!this.stopped) {
+      this.stopped = new Promise<void>((resolve) => {
+        recorder.addEventListener("stop", () => resolve(), { once: true });
+        if (recorder.state === "inactive") {
+          resolve();
+        } else {
+          recorder.stop();
+        }
+      }).finally(() => {
+        for (const source of this.sources) {
+          try {
+            source.disconnect();
+          } catch (error) {
+            console.warn("Failed to disconnect recording source", error);
+          }
+        }
+        this.sources = [];
+        this.destination = null;
+        this.recorder = null;
+      });
+    }
+    return this.stopped;
+  }
+}
+
+/**
+ * Playback position for a transcript line. Lines saved before recording
+ * offsets existed fall back to their wall-clock timestamp.
+ */
+export function playbackOffsetFor(
+  line: { audioOffsetMs?: number; timestamp: number },
+  recordingStartedAt: number,
+) {
+  return line.audioOffsetMs ?? audioOffsetFor(recordingStartedAt, line.timestamp) ?? 0;
+}
+
+export function formatPlaybackTime(offsetMs: number) {
+  const totalSeconds = Math.max(0, Math.floor(offsetMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  TextChatChannel,
+  sanitizeChatInput,
+  type ChatInputItem,
+  type ChatResponse,
+} from "./textChatChannel";
+
+const settle = async (channel: TextChatChannel) => {
+  for (let i = 0; i < 5; i += 1) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await channel.idle();
+  }
+};
+
+const userMessage = (text: string) =>
+  JSON.stringify({
+    type: "conversation.item.create",
+    item: { type: "message", role: "user", content: [{ type: "input_text", text }] },
+  });
+
+describe("sanitizeChatInput", () => {
+  it("keeps messages, calls and matched outputs only", () => {
+    expect(sanitizeChatInput("nope")).toBeNull();
+    expect(
+      sanitizeChatInput([
+        { role: "user", content: "Hi" },
+        { role: "system", content: "TOOL_PROGRESS::{}" },
+        { role: "tool", content: "ignored" },
+        { role: "assistant", content: "   " },
+        { type: "function_call", call_id: "call_1", name: "get_project", arguments: "{}" },
+        { type: "function_call_output", call_id: "call_1", output: "{}" },
+        { type: "function_call_output", call_id: "call_orphan", output: "{}" },
+        42,
+      ]),
+    ).toEqual([
+      { role: "user", content: "Hi" },
+      { role: "user", content: "[Session event] TOOL_PROGRESS::{}" },
+      { type: "function_call", call_id: "call_1", name: "get_project", arguments: "{}" },
+      { type: "function_call_output", call_id: "call_1", output: "{}" },
+    ]);
+  });
+});
+
+describe("TextChatChannel", () => {
+  it("echoes items, relays replies and tool calls, and answers once tools report back", async () => {
+    const requests: ChatInputItem[][] = [];
+    const replies: ChatResponse[] = [
+      {
+        id: "resp_1",
+        output: [
+          {
+            type: "function_call",
+            id: "fc_1",
+            call_id: "call_1",
+            name: "get_project",
+            arguments: '{"projectId":"p1"}',
+          },
+        ],
+      },
+      {
+        id: "resp_2",
+        output: [
+          { type: "message", id: "msg_2", role: "assistant", content: [{ type: "output_text", text: "Got it." }] },
+        ],
+      },
+    ];
+    const events: Array<Record<string, unknown>> = [];
+    const channel = new TextChatChannel({
+      respond: async (input) => {
+        requests.push(input);
+        return replies[requests.length - 1]!;
+      },
+      onEvent: (data) => {
+        events.push(JSON.parse(data));
+      },
+    });
+
+    channel.send(userMessage("Load my project"));
+    channel.send(JSON.stringify({ type: "response.create" }));
+    await settle(channel);
+
+    expect(events.map((event) => event.type)).toEqual(["conversation.item.created", "response.done"]);
+    expect(events[1]).toMatchObject({
+      response: {
+        id: "resp_1",
+        output: [{ type: "function_call", id: "fc_1", name: "get_project" }],
+      },
+    });
+
+    channel.send(
+      JSON.stringify({
+        type: "response.submit_tool_outputs",
+        response_id: "resp_1",
+        tool_outputs: [{ tool_call_id: "fc_1", output: '{"success":true}' }],
+      }),
+    );
+    channel.send(JSON.stringify({ type: "response.create" }));
+    await settle(channel);
+
+    expect(requests[1]).toEqual([
+      { role: "user", content: "Load my project" },
+      { type: "function_call", call_id: "call_1", name: "get_project", arguments: '{"projectId":"p1"}' },
+      { type: "function_call_output", call_id: "call_1", output: '{"success":true}' },
+    ]);
+    expect(events.at(-2)).toMatchObject({
+      type: "conversation.item.created",
+      item: { id: "msg_2", role: "assistant", content: [{ type: "output_text", text: "Got it." }] },
+    });
+  });
+
+  it("waits for every tool result before asking for the next reply", async () => {
+    let calls = 0;
+    const channel = new TextChatChannel({
+      respond: async () => {
+        calls += 1;
+        return {
+          id: `resp_${calls}`,
+          output:
+            calls === 1
+              ? [
+                  { type: "function_call", id: "fc_a", call_id: "a", name: "list_todos", arguments: "{}" },
+                  { type: "function_call", id: "fc_b", call_id: "b", name: "get_project", arguments: "{}" },
+                ]
+              : [],
+        };
+      },
+      onEvent: () => {},
+    });
+    const submit = (id: string) => {
+      channel.send(
+        JSON.stringify({ type: "response.submit_tool_outputs", tool_outputs: [{ tool_call_id: id, output: "{}" }] }),
+      );
+      channel.send(JSON.stringify({ type: "response.create" }));
+    };
+
+    channel.send(userMessage("Status?"));
+    channel.send(JSON.stringify({ type: "response.create" }));
+    await settle(channel);
+    submit("fc_a");
+    await settle(channel);
+    expect(calls).toBe(1);
+    submit("fc_b");
+    await settle(channel);
+    expect(calls).toBe(2);
+  });
+
+  it("reports failed requests as an error event", async () => {
+    const events: Array<Record<string, unknown>> = [];
+    const channel = new TextChatChannel({
+      respond: async () => {
+        throw new Error("Chat model unavailable (503)");
+      },
+      onEvent: (data) => {
+        events.push(JSON.parse(data));
+      },
+    });
+    channel.send(userMessage("Hello"));
+    channel.send(JSON.stringify({ type: "response.create" }));
+    await settle(channel);
+    expect(events.slice(1)).toMatchObject([
+      { type: "error", error: { message: "Chat model unavailable (503)" } },
+      { type: "response.done", response: { status: "failed" } },
+    ]);
+  });
+});
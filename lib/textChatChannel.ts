@@ -0,0 +1,279 @@
+/**
+ * Typed-chat sessions reuse the realtime pipeline. `TextChatChannel` stands
+ * in for the WebRTC data channel: it accepts the client events the session
+ * hook sends, keeps the conversation as Responses API input, asks
+ * `/api/chat` for each reply, and hands back the same server events a
+ * realtime connection would emit. Transcript persistence and tool calls
+ * therefore run through exactly the code voice sessions use.
+ */
+
+export type ChatInputItem =
+  | { role: "user" | "assistant" | "system"; content: string }
+  | { type: "function_call"; call_id: string; name: string; arguments: string }
+  | { type: "function_call_output"; call_id: string; output: string };
+
+export type ChatResponse = {
+  id: string;
+  output: unknown[];
+};
+
+// Keeps requests to /api/chat bounded in long sessions.
+export const MAX_CHAT_INPUT_ITEMS = 200;
+
+const MESSAGE_ROLES = new Set(["user", "assistant", "system"]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const nonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.length > 0;
+
+/**
+ * Validates conversation items posted to `/api/chat`. Anything that is not
+ * a plain message, function call or function output is dropped; null when
+ * the payload is not a list at all. The session's own notes (tool progress,
+ * resume context) arrive as system messages but are passed on as user
+ * messages: only the route's instructions speak with system authority.
+ */
+export function sanitizeChatInput(value: unknown): ChatInputItem[] | null {
+  if (!Array.isArray(value)) return null;
+  const items: ChatInputItem[] = [];
+  for (const entry of value.slice(-MAX_CHAT_INPUT_ITEMS)) {
+    if (!isRecord(entry)) continue;
+    if (typeof entry.role === "string" && MESSAGE_ROLES.has(entry.role)) {
+      if (typeof entry.content === "string" && entry.content.trim()) {
+        items.push(
+          entry.role === "system"
+            ? { role: "user", content: `[Session event] ${entry.content}` }
+            : { role: entry.role as "user" | "assistant", content: entry.content },
+        );
+      }
+      continue;
+    }
+    if (
+      entry.type === "function_call" &&
+      nonEmptyString(entry.call_id) &&
+      nonEmptyString(entry.name) &&
+      typeof entry.arguments === "string"
+    ) {
+      items.push({
+        type: "function_call",
+        call_id: entry.call_id,
+        name: entry.name,
+        arguments: entry.arguments,
+      });
+      continue;
+    }
+    if (
+      entry.type === "function_call_output" &&
+      nonEmptyString(entry.call_id) &&
+      typeof entry.output === "string"
+    ) {
+      items.push({ type: "function_call_output", call_id: entry.call_id, output: entry.output });
+    }
+  }
+  // A function output with no matching call is rejected by the model API.
+  const callIds = new Set(
+    items.flatMap((item) => ("type" in item && item.type === "function_call" ? [item.call_id] : [])),
+  );
+  return items.filter(
+    (item) => !("type" in item) || item.type !== "function_call_output" || callIds.has(item.call_id),
+  );
+}
+
+const textOf = (content: unknown): string => {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((part) => (isRecord(part) && typeof part.text === "string" ? part.text : ""))
+    .join("");
+};
+
+type ChannelOptions = {
+  respond: (input: ChatInputItem[]) => Promise<ChatResponse>;
+  onEvent: (data: string) => Promise<void> | void;
+};
+
+export class TextChatChannel extends EventTarget {
+  readyState: RTCDataChannelState = "open";
+  private history: ChatInputItem[] = [];
+  // Tool call ids the session hook sees, mapped to the model's call ids.
+  private callIds = new Map<string, string>();
+  private answered = new Set<string>();
+  private itemCounter = 0;
+  private running = false;
+  private pending = false;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: ChannelOptions) {
+    super();
+  }
+
+  send(data: string) {
+    if (this.readyState !== "open") {
+      throw new Error("Text chat closed");
+    }
+    const event = JSON.parse(data) as Record<string, unknown>;
+    switch (event.type) {
+      case "conversation.item.create":
+        this.addMessage(event.item);
+        break;
+      case "response.submit_tool_outputs":
+        this.addToolOutputs(event.tool_outputs);
+        break;
+      case "response.create":
+        this.requestResponse();
+        break;
+      default:
+        // session.update and audio events have no meaning without a realtime model.
+        break;
+    }
+  }
+
+  close() {
+    if (this.readyState === "closed") return;
+    this.readyState = "closed";
+    this.dispatchEvent(new Event("close"));
+  }
+
+  /** Resolves once every event queued so far has been handled. */
+  idle() {
+    return this.queue;
+  }
+
+  private emit(event: Record<string, unknown>) {
+    const data = JSON.stringify({ event_id: `chat_evt_${++this.itemCounter}`, ...event });
+    this.queue = this.queue.then(async () => {
+      if (this.readyState !== "open") return;
+      await this.options.onEvent(data);
+    });
+    return this.queue;
+  }
+
+  private addMessage(item: unknown) {
+    if (!isRecord(item) || item.type !== "message" || typeof item.role !== "string") return;
+    if (!MESSAGE_ROLES.has(item.role)) return;
+    const text = textOf(item.content).trim();
+    if (!text) return;
+    const role = item.role as "user" | "assistant" | "system";
+    if (role === "user") {
+      this.abandonUnansweredCalls();
+    }
+    this.history.push({ role, content: text });
+    // A realtime server echoes each item it adds; the session hook persists from the echo.
+    void this.emit({
+      type: "conversation.item.created",
+      item: {
+        id: `chat_item_${++this.itemCounter}`,
+        type: "message",
+        role,
+        status: "completed",
+        content: [{ type: role === "assistant" ? "output_text" : "input_text", text }],
+      },
+    });
+  }
+
+  private addToolOutputs(outputs: unknown) {
+    if (!Array.isArray(outputs)) return;
+    for (const output of outputs) {
+      if (!isRecord(output) || typeof output.tool_call_id !== "string") continue;
+      const callId = this.callIds.get(output.tool_call_id) ?? output.tool_call_id;
+      if (this.answered.has(callId)) continue;
+      this.answered.add(callId);
+      this.history.push({
+        type: "function_call_output",
+        call_id: callId,
+        output: typeof output.output === "string" ? output.output : JSON.stringify(output.output),
+      });
+    }
+  }
+
+  // The hook leaves a call unanswered when it cannot run it (for example,
+  // missing arguments). Close those off so the next turn is not blocked.
+  private abandonUnansweredCalls() {
+    for (const item of [...this.history]) {
+      if ("type" in item && item.type === "function_call" && !this.answered.has(item.call_id)) {
+        this.answered.add(item.call_id);
+        this.history.push({
+          type: "function_call_output",
+          call_id: item.call_id,
+          output: JSON.stringify({ success: false, error: "Tool call was not completed" }),
+        });
+      }
+    }
+  }
+
+  private unansweredCalls() {
+    return this.history.some(
+      (item) => "type" in item && item.type === "function_call" && !this.answered.has(item.call_id),
+    );
+  }
+
+  private requestResponse() {
+    // Several tool results each ask for a response; answer once all are in.
+    if (this.running || this.unansweredCalls()) {
+      this.pending = true;
+      return;
+    }
+    this.running = true;
+    this.pending = false;
+    void this.runResponse().finally(() => {
+      this.running = false;
+      if (this.pending && this.readyState === "open") {
+        this.requestResponse();
+      }
+    });
+  }
+
+  private async runResponse() {
+    let response: ChatResponse;
+    try {
+      response = await this.options.respond(this.history.slice(-MAX_CHAT_INPUT_ITEMS));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Chat request failed";
+      await this.emit({ type: "error", error: { message } });
+      await this.emit({ type: "response.done", response: { status: "failed" } });
+      return;
+    }
+    if (this.readyState !== "open") return;
+
+    const calls: Record<string, unknown>[] = [];
+    for (const item of response.output) {
+      if (!isRecord(item)) continue;
+      if (item.type === "message" && item.role === "assistant") {
+        const text = textOf(item.content).trim();
+        if (!text) continue;
+        this.history.push({ role: "assistant", content: text });
+        void this.emit({
+          type: "conversation.item.created",
+          item: {
+            id: typeof item.id === "string" ? item.id : `chat_item_${++this.itemCounter}`,
+            type: "message",
+            role: "assistant",
+            status: "completed",
+            content: [{ type: "output_text", text }],
+          },
+        });
+      } else if (
+        item.type === "function_call" &&
+        nonEmptyString(item.call_id) &&
+        nonEmptyString(item.name)
+      ) {
+        const args = typeof item.arguments === "string" ? item.arguments : "{}";
+        const toolCallId = nonEmptyString(item.id) ? item.id : item.call_id;
+        this.callIds.set(toolCallId, item.call_id);
+        this.history.push({
+          type: "function_call",
+          call_id: item.call_id,
+          name: item.name,
+          arguments: args,
+        });
+        calls.push({ type: "function_call", id: toolCallId, name: item.name, arguments: args });
+      }
+    }
+    await this.emit({
+      type: "response.done",
+      response: { id: response.id, status: "completed", output: calls },
+    });
+  }
+}